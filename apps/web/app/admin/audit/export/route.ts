@@ -0,0 +1,18 @@
+import {z} from "zod"
+import {auditFiltersSchema} from "@/lib/server/audit"
+import {auditExportFormats, exportAuditEvents} from "@/lib/server/audit/export"
+import {withAdmin} from "@/lib/server/permissions"
+
+const formatSchema = z.enum(auditExportFormats).catch("csv")
+
+/**
+ * Downloads the audit log, with the same filters as the viewer, as CSV or
+ * JSONL (`?format=jsonl`)
+ */
+export const GET = withAdmin(async request => {
+  const params = Object.fromEntries(new URL(request.url).searchParams)
+  const filters = auditFiltersSchema.parse(params)
+  const format = formatSchema.parse(params.format)
+
+  return exportAuditEvents(filters, format)
+})
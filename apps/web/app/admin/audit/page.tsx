@@ -0,0 +1,220 @@
+import Link from "next/link"
+import {Download, Filter} from "lucide-react"
+import {
+  auditActions,
+  auditCategories,
+  auditFiltersSchema,
+  listAuditEvents,
+  type AuditFilters,
+} from "@/lib/server/audit"
+import {Section} from "@/components/shared"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+export const metadata = {
+  title: "Audit log",
+  description: "Security and administrative events across the application",
+}
+
+interface AdminAuditPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+function filterParams(filters: AuditFilters) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value)
+  }
+  return params
+}
+
+function pageHref(filters: AuditFilters, page: number) {
+  const params = filterParams(filters)
+  if (page > 1) params.set("page", String(page))
+  const query = params.toString()
+  return query ? `/admin/audit?${query}` : "/admin/audit"
+}
+
+function exportHref(filters: AuditFilters, format: "csv" | "jsonl") {
+  const params = filterParams(filters)
+  params.set("format", format)
+  return `/admin/audit/export?${params}`
+}
+
+export default async function AdminAuditPage({
+  searchParams,
+}: AdminAuditPageProps) {
+  const params = await searchParams
+  const filters = auditFiltersSchema.parse(params)
+  const result = await listAuditEvents(filters, {
+    page: Number(params.page) || 1,
+  })
+
+  return (
+    <Section spacing='sm'>
+      {/* Plain GET form so filters are shareable and work without client JS */}
+      <form
+        action='/admin/audit'
+        className='grid gap-3 sm:grid-cols-2 lg:grid-cols-[repeat(5,minmax(0,1fr))_auto] lg:items-end'
+      >
+        <div className='space-y-1'>
+          <Label htmlFor='action'>Action</Label>
+          <select
+            id='action'
+            name='action'
+            defaultValue={filters.action ?? ""}
+            className='h-9 w-full rounded-md border border-input bg-background px-2 text-sm'
+          >
+            <option value=''>All actions</option>
+            {auditCategories.map(category => (
+              <optgroup key={category} label={category}>
+                <option value={category}>All {category} events</option>
+                {auditActions
+                  .filter(action => action.startsWith(`${category}.`))
+                  .map(action => (
+                    <option key={action} value={action}>
+                      {action}
+                    </option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+        </div>
+        <div className='space-y-1'>
+          <Label htmlFor='actor'>Actor</Label>
+          <Input
+            id='actor'
+            name='actor'
+            defaultValue={filters.actor}
+            placeholder='User ID or email'
+          />
+        </div>
+        <div className='space-y-1'>
+          <Label htmlFor='target'>Target ID</Label>
+          <Input id='target' name='target' defaultValue={filters.target} />
+        </div>
+        <div className='space-y-1'>
+          <Label htmlFor='from'>From</Label>
+          <Input
+            id='from'
+            name='from'
+            type='date'
+            defaultValue={filters.from}
+          />
+        </div>
+        <div className='space-y-1'>
+          <Label htmlFor='to'>To</Label>
+          <Input id='to' name='to' type='date' defaultValue={filters.to} />
+        </div>
+        <Button type='submit' variant='outline' className='gap-2'>
+          <Filter className='h-4 w-4' />
+          Filter
+        </Button>
+      </form>
+
+      <div className='flex flex-wrap justify-end gap-2'>
+        <Button variant='outline' size='sm' className='gap-2' asChild>
+          <a href={exportHref(filters, "csv")}>
+            <Download className='h-4 w-4' />
+            Export CSV
+          </a>
+        </Button>
+        <Button variant='outline' size='sm' className='gap-2' asChild>
+          <a href={exportHref(filters, "jsonl")}>
+            <Download className='h-4 w-4' />
+            Export JSONL
+          </a>
+        </Button>
+      </div>
+
+      <div className='overflow-x-auto rounded-lg border'>
+        <table className='w-full text-sm'>
+          <thead className='border-b bg-muted/50 text-left text-xs uppercase text-muted-foreground'>
+            <tr>
+              <th className='px-4 py-3 font-medium'>Time</th>
+              <th className='px-4 py-3 font-medium'>Action</th>
+              <th className='px-4 py-3 font-medium'>Actor</th>
+              <th className='px-4 py-3 font-medium'>Target</th>
+              <th className='px-4 py-3 font-medium'>Client</th>
+              <th className='px-4 py-3 font-medium'>Details</th>
+            </tr>
+          </thead>
+          <tbody className='divide-y align-top'>
+            {result.events.map(event => (
+              <tr key={event.id}>
+                <td className='whitespace-nowrap px-4 py-3 text-muted-foreground'>
+                  <time dateTime={event.createdAt.toISOString()}>
+                    {event.createdAt
+                      .toISOString()
+                      .replace("T", " ")
+                      .slice(0, 19)}
+                  </time>
+                </td>
+                <td className='whitespace-nowrap px-4 py-3 font-mono text-xs'>
+                  {event.action}
+                </td>
+                <td className='px-4 py-3'>
+                  {event.actorEmail ?? event.actorId ?? (
+                    <span className='text-muted-foreground'>Anonymous</span>
+                  )}
+                  {event.impersonatorId && (
+                    <span className='block text-xs text-muted-foreground'>
+                      Impersonated by {event.impersonatorId}
+                    </span>
+                  )}
+                </td>
+                <td className='px-4 py-3 text-xs text-muted-foreground'>
+                  {event.targetType && (
+                    <>
+                      {event.targetType}{" "}
+                      <span className='font-mono'>{event.targetId}</span>
+                    </>
+                  )}
+                </td>
+                <td className='max-w-[14rem] px-4 py-3 text-xs text-muted-foreground'>
+                  {event.ipAddress}
+                  {event.userAgent && (
+                    <span className='block truncate' title={event.userAgent}>
+                      {event.userAgent}
+                    </span>
+                  )}
+                </td>
+                <td className='px-4 py-3 font-mono text-xs text-muted-foreground'>
+                  {event.metadata && JSON.stringify(event.metadata)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {result.events.length === 0 && (
+          <p className='p-6 text-center text-sm text-muted-foreground'>
+            No events match these filters.
+          </p>
+        )}
+      </div>
+
+      <nav
+        aria-label='Pagination'
+        className='flex items-center justify-between text-sm text-muted-foreground'
+      >
+        <span>
+          {result.total} {result.total === 1 ? "event" : "events"} · Page{" "}
+          {result.page} of {result.pageCount}
+        </span>
+        <div className='flex gap-2'>
+          {result.page > 1 && (
+            <Button variant='outline' size='sm' asChild>
+              <Link href={pageHref(filters, result.page - 1)}>Previous</Link>
+            </Button>
+          )}
+          {result.page < result.pageCount && (
+            <Button variant='outline' size='sm' asChild>
+              <Link href={pageHref(filters, result.page + 1)}>Next</Link>
+            </Button>
+          )}
+        </div>
+      </nav>
+    </Section>
+  )
+}
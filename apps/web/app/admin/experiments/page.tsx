@@ -0,0 +1,83 @@
+import Link from "next/link"
+import {getExperimentReport} from "@/lib/server/experiments"
+import {Section} from "@/components/shared"
+
+export const metadata = {
+  title: "Experiments",
+  description: "Conversion by variant for each A/B experiment",
+}
+
+function formatRate(converted: number, exposed: number) {
+  return exposed === 0 ? "—" : `${((converted / exposed) * 100).toFixed(1)}%`
+}
+
+export default async function AdminExperimentsPage() {
+  const report = await getExperimentReport()
+
+  return (
+    <Section spacing='sm'>
+      <p className='text-sm text-muted-foreground'>
+        Each experiment runs for the users its feature flag is on for. A visitor
+        counts as converted once they log the conversion event after first
+        seeing their variant.
+      </p>
+
+      {report.map(experiment => (
+        <div key={experiment.key} className='space-y-3'>
+          <div>
+            <h2 className='font-mono text-sm font-semibold'>
+              {experiment.key}
+            </h2>
+            <p className='text-sm text-muted-foreground'>
+              {experiment.description}. Flag{" "}
+              <Link
+                href='/admin/flags'
+                className='font-mono text-xs hover:text-foreground'
+              >
+                {experiment.flag}
+              </Link>
+              , converts on{" "}
+              <span className='font-mono text-xs'>
+                {experiment.conversionEvent}
+              </span>
+              .
+            </p>
+          </div>
+
+          <div className='overflow-x-auto rounded-lg border'>
+            <table className='w-full text-sm'>
+              <thead className='border-b bg-muted/50 text-left text-xs uppercase text-muted-foreground'>
+                <tr>
+                  <th className='px-4 py-3 font-medium'>Variant</th>
+                  <th className='px-4 py-3 font-medium'>Weight</th>
+                  <th className='px-4 py-3 font-medium'>Exposed</th>
+                  <th className='px-4 py-3 font-medium'>Converted</th>
+                  <th className='px-4 py-3 font-medium'>Conversion rate</th>
+                </tr>
+              </thead>
+              <tbody className='divide-y'>
+                {experiment.results.map(
+                  ({variant, weight, exposed, converted}) => (
+                    <tr key={variant}>
+                      <td className='px-4 py-3 font-mono text-xs'>{variant}</td>
+                      <td className='px-4 py-3 text-muted-foreground'>
+                        {weight}
+                      </td>
+                      <td className='px-4 py-3'>{exposed.toLocaleString()}</td>
+                      <td className='px-4 py-3'>
+                        {converted.toLocaleString()}
+                      </td>
+                      <td className='px-4 py-3'>
+                        {formatRate(converted, exposed)}
+                      </td>
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </Section>
+  )
+}
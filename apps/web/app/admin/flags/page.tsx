@@ -0,0 +1,166 @@
+import Link from "next/link"
+import {listAuditEvents} from "@/lib/server/audit"
+import {listFeatureFlags} from "@/lib/server/feature-flags"
+import {Section} from "@/components/shared"
+import {FeatureFlagControls} from "@/components/admin/feature-flag-controls"
+import {FeatureFlagRulesForm} from "@/components/admin/feature-flag-rules-form"
+
+export const metadata = {
+  title: "Feature flags",
+  description: "Turn features on or off without a redeploy",
+}
+
+const historyAction = "admin.feature-flag-changed"
+
+function formatValue(value: unknown) {
+  if (value === true) return "On"
+  if (value === false) return "Off"
+  return "Default"
+}
+
+// What an audit event changed, for the history table
+function describeChange(metadata: Record<string, unknown> | null) {
+  if (metadata && "rules" in metadata) {
+    return metadata.rules ? "Targeting updated" : "Targeting cleared"
+  }
+  return `${formatValue(metadata?.previous)} → ${formatValue(metadata?.enabled)}`
+}
+
+function StateBadge({enabled}: {enabled: boolean}) {
+  return enabled ? (
+    <span className='rounded-full bg-green-500/15 px-2 py-0.5 text-xs text-green-700 dark:text-green-400'>
+      On
+    </span>
+  ) : (
+    <span className='rounded-full bg-muted px-2 py-0.5 text-xs'>Off</span>
+  )
+}
+
+export default async function AdminFlagsPage() {
+  const [flags, history] = await Promise.all([
+    listFeatureFlags(),
+    listAuditEvents({action: historyAction}, {pageSize: 20}),
+  ])
+
+  return (
+    <Section spacing='sm'>
+      <p className='text-sm text-muted-foreground'>
+        Values set here override the deployment default from the environment
+        until they are reset. Other server processes pick up a change within 30
+        seconds.
+      </p>
+
+      <div className='overflow-x-auto rounded-lg border'>
+        <table className='w-full text-sm'>
+          <thead className='border-b bg-muted/50 text-left text-xs uppercase text-muted-foreground'>
+            <tr>
+              <th className='px-4 py-3 font-medium'>Flag</th>
+              <th className='px-4 py-3 font-medium'>State</th>
+              <th className='px-4 py-3 font-medium'>Default</th>
+              <th className='px-4 py-3 font-medium'>Last changed</th>
+              <th className='px-4 py-3 font-medium'>
+                <span className='sr-only'>Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className='divide-y align-top'>
+            {flags.map(({flag, defaultValue, stored, enabled}) => (
+              <tr key={flag}>
+                <td className='px-4 py-3'>
+                  <span className='font-mono text-xs'>{flag}</span>
+                  <details className='mt-1'>
+                    <summary className='cursor-pointer text-xs text-muted-foreground'>
+                      Targeting
+                    </summary>
+                    <FeatureFlagRulesForm
+                      key={JSON.stringify(stored?.rules ?? null)}
+                      flag={flag}
+                      rules={stored?.rules ?? null}
+                    />
+                  </details>
+                </td>
+                <td className='px-4 py-3'>
+                  <div className='flex flex-wrap gap-1'>
+                    <StateBadge enabled={enabled} />
+                    {stored?.rules && (
+                      <span className='rounded-full bg-primary/10 px-2 py-0.5 text-xs text-primary'>
+                        Targeted
+                      </span>
+                    )}
+                  </div>
+                </td>
+                <td className='px-4 py-3 text-muted-foreground'>
+                  {formatValue(defaultValue)}
+                </td>
+                <td className='px-4 py-3 text-xs text-muted-foreground'>
+                  {stored && (
+                    <>
+                      {stored.updatedAt.toLocaleString()}
+                      {stored.updatedByEmail && (
+                        <span className='block'>{stored.updatedByEmail}</span>
+                      )}
+                    </>
+                  )}
+                </td>
+                <td className='px-4 py-3'>
+                  <FeatureFlagControls
+                    flag={flag}
+                    stored={stored?.enabled ?? null}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className='flex items-center justify-between'>
+        <h2 className='text-lg font-semibold'>Recent changes</h2>
+        <Link
+          href={`/admin/audit?action=${historyAction}`}
+          className='text-sm text-muted-foreground hover:text-foreground'
+        >
+          Full history
+        </Link>
+      </div>
+      <div className='overflow-x-auto rounded-lg border'>
+        <table className='w-full text-sm'>
+          <thead className='border-b bg-muted/50 text-left text-xs uppercase text-muted-foreground'>
+            <tr>
+              <th className='px-4 py-3 font-medium'>Time</th>
+              <th className='px-4 py-3 font-medium'>Flag</th>
+              <th className='px-4 py-3 font-medium'>Change</th>
+              <th className='px-4 py-3 font-medium'>By</th>
+            </tr>
+          </thead>
+          <tbody className='divide-y'>
+            {history.events.map(event => (
+              <tr key={event.id}>
+                <td className='whitespace-nowrap px-4 py-3 text-muted-foreground'>
+                  <time dateTime={event.createdAt.toISOString()}>
+                    {event.createdAt
+                      .toISOString()
+                      .replace("T", " ")
+                      .slice(0, 19)}
+                  </time>
+                </td>
+                <td className='px-4 py-3 font-mono text-xs'>
+                  {event.targetId}
+                </td>
+                <td className='px-4 py-3'>{describeChange(event.metadata)}</td>
+                <td className='px-4 py-3'>
+                  {event.actorEmail ?? event.actorId}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {history.events.length === 0 && (
+          <p className='p-6 text-center text-sm text-muted-foreground'>
+            No flag has been changed yet.
+          </p>
+        )}
+      </div>
+    </Section>
+  )
+}
@@ -0,0 +1,56 @@
+import {DashboardNav} from "@/components/dashboard/dashboard-nav"
+import {PageLayout} from "@/components/shared"
+import {UserFeatureFlags} from "@/components/shared/user-feature-flags"
+import {
+  SettingsNav,
+  type SettingsNavItem,
+} from "@/components/settings/settings-nav"
+import {requireAdmin} from "@/lib/server/permissions"
+
+export const metadata = {
+  title: "Admin",
+  description: "Manage users and feature flags, and review the audit log",
+}
+
+// Force dynamic rendering for fresh auth checks on every request
+export const dynamic = "force-dynamic"
+
+const adminNavItems: SettingsNavItem[] = [
+  {href: "/admin/users", label: "Users"},
+  {href: "/admin/audit", label: "Audit log"},
+  {href: "/admin/flags", label: "Feature flags"},
+  {href: "/admin/experiments", label: "Experiments"},
+]
+
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  // Non-admins are sent back to their dashboard
+  const session = await requireAdmin({redirectTo: "/dashboard"})
+
+  return (
+    <UserFeatureFlags current={session}>
+      <div className='flex min-h-screen flex-col'>
+        <DashboardNav
+          user={session.user}
+          homeHref='/dashboard'
+          organizations={session.memberships}
+          activeOrganizationId={session.organization?.id ?? null}
+          isAdmin
+        />
+        <main className='flex-1'>
+          <PageLayout
+            title='Admin'
+            description='Manage every account in the application'
+            containerSize='wide'
+          >
+            <SettingsNav items={adminNavItems} />
+            {children}
+          </PageLayout>
+        </main>
+      </div>
+    </UserFeatureFlags>
+  )
+}
@@ -0,0 +1,22 @@
+import {Section} from "@/components/shared"
+import {SettingsCard} from "@/components/settings/settings-card"
+import {CreateUserForm} from "@/components/admin/create-user-form"
+
+export const metadata = {
+  title: "Create User",
+  description: "Create a user account",
+}
+
+export default function CreateUserPage() {
+  return (
+    <Section spacing='sm'>
+      <SettingsCard
+        title='Create user'
+        description='The user can sign in with this password straight away. They will also receive the welcome email.'
+        className='max-w-xl'
+      >
+        <CreateUserForm />
+      </SettingsCard>
+    </Section>
+  )
+}
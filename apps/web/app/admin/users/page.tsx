@@ -0,0 +1,163 @@
+import Link from "next/link"
+import {Search, UserPlus} from "lucide-react"
+import {isAdmin, listUsers} from "@/lib/server/admin"
+import {Section} from "@/components/shared"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {UserActions} from "@/components/admin/user-actions"
+
+export const metadata = {
+  title: "Users",
+  description: "Search and manage user accounts",
+}
+
+interface AdminUsersPageProps {
+  searchParams: Promise<{q?: string; page?: string}>
+}
+
+function pageHref(search: string, page: number) {
+  const params = new URLSearchParams()
+  if (search) params.set("q", search)
+  if (page > 1) params.set("page", String(page))
+  const query = params.toString()
+  return query ? `/admin/users?${query}` : "/admin/users"
+}
+
+export default async function AdminUsersPage({
+  searchParams,
+}: AdminUsersPageProps) {
+  const {q = "", page} = await searchParams
+  const result = await listUsers({search: q, page: Number(page) || 1})
+
+  return (
+    <Section spacing='sm'>
+      <div className='flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between'>
+        {/* Plain GET form so search works without client JS */}
+        <form action='/admin/users' className='flex w-full gap-2 sm:max-w-md'>
+          <Input
+            name='q'
+            type='search'
+            defaultValue={q}
+            placeholder='Search by name or email'
+            aria-label='Search users'
+          />
+          <Button type='submit' variant='outline' className='gap-2'>
+            <Search className='h-4 w-4' />
+            Search
+          </Button>
+        </form>
+        <Button asChild className='gap-2'>
+          <Link href='/admin/users/new'>
+            <UserPlus className='h-4 w-4' />
+            Create user
+          </Link>
+        </Button>
+      </div>
+
+      <div className='overflow-x-auto rounded-lg border'>
+        <table className='w-full text-sm'>
+          <thead className='border-b bg-muted/50 text-left text-xs uppercase text-muted-foreground'>
+            <tr>
+              <th className='px-4 py-3 font-medium'>User</th>
+              <th className='px-4 py-3 font-medium'>Status</th>
+              <th className='px-4 py-3 font-medium'>Sessions</th>
+              <th className='px-4 py-3 font-medium'>Joined</th>
+              <th className='px-4 py-3 font-medium'>
+                <span className='sr-only'>Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className='divide-y'>
+            {result.users.map(user => (
+              <tr key={user.id}>
+                <td className='px-4 py-3'>
+                  <p className='font-medium'>
+                    {user.name}
+                    {user.role === "admin" && (
+                      <span className='ml-2 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary'>
+                        Admin
+                      </span>
+                    )}
+                  </p>
+                  <p className='text-xs text-muted-foreground'>{user.email}</p>
+                </td>
+                <td className='px-4 py-3'>
+                  <div className='flex flex-wrap gap-1'>
+                    {user.banned ? (
+                      <span className='rounded-full bg-destructive/15 px-2 py-0.5 text-xs text-destructive'>
+                        Disabled
+                      </span>
+                    ) : (
+                      <span className='rounded-full bg-green-500/15 px-2 py-0.5 text-xs text-green-700 dark:text-green-400'>
+                        Active
+                      </span>
+                    )}
+                    {!user.emailVerified && (
+                      <span className='rounded-full bg-muted px-2 py-0.5 text-xs'>
+                        Unverified
+                      </span>
+                    )}
+                    {user.passwordResetRequired && (
+                      <span className='rounded-full bg-muted px-2 py-0.5 text-xs'>
+                        Reset pending
+                      </span>
+                    )}
+                  </div>
+                </td>
+                <td className='px-4 py-3 text-muted-foreground'>
+                  {user.activeSessions}
+                  {user.lastActiveAt && (
+                    <span className='block text-xs'>
+                      Last active {user.lastActiveAt.toLocaleDateString()}
+                    </span>
+                  )}
+                </td>
+                <td className='px-4 py-3 text-muted-foreground'>
+                  {user.createdAt.toLocaleDateString()}
+                </td>
+                <td className='px-4 py-3'>
+                  <UserActions
+                    user={{
+                      id: user.id,
+                      email: user.email,
+                      emailVerified: user.emailVerified,
+                      banned: user.banned,
+                      isAdmin: isAdmin(user),
+                    }}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {result.users.length === 0 && (
+          <p className='p-6 text-center text-sm text-muted-foreground'>
+            No users match &ldquo;{q}&rdquo;.
+          </p>
+        )}
+      </div>
+
+      <nav
+        aria-label='Pagination'
+        className='flex items-center justify-between text-sm text-muted-foreground'
+      >
+        <span>
+          {result.total} {result.total === 1 ? "user" : "users"} · Page{" "}
+          {result.page} of {result.pageCount}
+        </span>
+        <div className='flex gap-2'>
+          {result.page > 1 && (
+            <Button variant='outline' size='sm' asChild>
+              <Link href={pageHref(q, result.page - 1)}>Previous</Link>
+            </Button>
+          )}
+          {result.page < result.pageCount && (
+            <Button variant='outline' size='sm' asChild>
+              <Link href={pageHref(q, result.page + 1)}>Next</Link>
+            </Button>
+          )}
+        </div>
+      </nav>
+    </Section>
+  )
+}
@@ -1,4 +1,9 @@
 import { auth } from "@/lib/server/auth"
+import { withAuthRateLimit } from "@/lib/server/rate-limit/auth"
 import { toNextJsHandler } from "better-auth/next-js"
 
-export const { GET, POST } = toNextJsHandler(auth)
+const handlers = toNextJsHandler(auth)
+
+export const GET = handlers.GET
+// Sign-in, sign-up and email-sending endpoints are throttled per IP and email
+export const POST = withAuthRateLimit(handlers.POST)
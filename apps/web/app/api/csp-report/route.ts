@@ -0,0 +1,49 @@
+import {getClientIp} from "@/lib/client-ip"
+import {
+  MAX_CSP_REPORT_BYTES,
+  limitCspReports,
+  parseCspReports,
+  readCspReportBody,
+  recordCspReports,
+} from "@/lib/server/csp-reports"
+
+/**
+ * Content Security Policy violation reports, sent by browsers to the
+ * `report-uri` and `report-to` endpoints in the policy (lib/csp.ts)
+ */
+export async function POST(request: Request) {
+  const declaredLength = Number(request.headers.get("content-length"))
+  if (declaredLength > MAX_CSP_REPORT_BYTES) {
+    return new Response(null, {status: 413})
+  }
+
+  const retryAfter = await limitCspReports(getClientIp(request.headers))
+  if (retryAfter !== null) {
+    return new Response(null, {
+      status: 429,
+      headers: {"Retry-After": String(retryAfter)},
+    })
+  }
+
+  const body = await readCspReportBody(request)
+  if (body === null) {
+    return new Response(null, {status: 413})
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(body)
+  } catch {
+    return new Response(null, {status: 400})
+  }
+
+  const reports = parseCspReports(json)
+  if (reports.length === 0) {
+    return new Response(null, {status: 400})
+  }
+
+  await recordCspReports(reports, {
+    userAgent: request.headers.get("user-agent"),
+  })
+  return new Response(null, {status: 204})
+}
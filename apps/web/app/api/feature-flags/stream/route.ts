@@ -0,0 +1,30 @@
+import {
+  createFeatureFlagStream,
+  getFeatureContext,
+} from "@/lib/server/feature-flags"
+import {getCurrentSession} from "@/lib/server/session"
+
+// A long-lived stream; never cache or prerender it
+export const dynamic = "force-dynamic"
+
+/**
+ * Feature flags for the caller, pushed as Server-Sent Events whenever they
+ * change (see FeatureFlagProvider)
+ */
+export async function GET(request: Request) {
+  const current = await getCurrentSession()
+  const stream = createFeatureFlagStream(
+    await getFeatureContext(current),
+    request.signal
+  )
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop nginx from buffering events
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,4 @@
+import {serve} from "inngest/next"
+import {functions, inngest} from "@/lib/server/jobs"
+
+export const {GET, POST, PUT} = serve({client: inngest, functions})
@@ -0,0 +1,26 @@
+import {getOrganizationMembers} from "@/lib/server/organizations"
+import {withPermission} from "@/lib/server/permissions"
+
+/**
+ * Members of the caller's active organization
+ */
+export const GET = withPermission(
+  "members:read",
+  async (_request, _context, current) => {
+    const members = await getOrganizationMembers(current.organization.id)
+
+    return Response.json({
+      organization: {
+        id: current.organization.id,
+        name: current.organization.name,
+      },
+      members: members.map(member => ({
+        id: member.id,
+        name: member.name,
+        email: member.email,
+        role: member.role,
+        joinedAt: member.createdAt.toISOString(),
+      })),
+    })
+  }
+)
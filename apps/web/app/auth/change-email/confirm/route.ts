@@ -0,0 +1,18 @@
+import {NextRequest, NextResponse} from "next/server"
+import {confirmEmailChange} from "@/lib/server/account"
+
+/**
+ * Redeems the link sent by `requestEmailChange()` and returns to account
+ * settings with the outcome in `?email=`.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token")
+  const target = new URL("/dashboard/settings/account", request.nextUrl.origin)
+
+  const result = token
+    ? await confirmEmailChange(token, request.headers)
+    : ({ok: false, reason: "invalid"} as const)
+
+  target.searchParams.set("email", result.ok ? "changed" : result.reason)
+  return NextResponse.redirect(target)
+}
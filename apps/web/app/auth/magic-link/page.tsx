@@ -0,0 +1,54 @@
+import Link from "next/link"
+import {XCircle} from "lucide-react"
+import {Button} from "@/components/ui/button"
+import {AuthLayout} from "@/components/auth/auth-layout"
+
+export const metadata = {
+  title: "Sign-In Link",
+  description: "Sign in with a link sent to your email",
+}
+
+const errorMessages: Record<string, string> = {
+  EXPIRED_TOKEN: "This sign-in link has expired. Request a new one below.",
+  INVALID_TOKEN:
+    "This sign-in link is invalid or has already been used. Request a new one below.",
+  new_user_signup_disabled:
+    "There is no account for this email address. Create an account first.",
+  failed_to_create_user:
+    "We couldn't create your account. Please try again later.",
+}
+
+export default async function MagicLinkErrorPage({
+  searchParams,
+}: {
+  searchParams: Promise<{error?: string}>
+}) {
+  const {error} = await searchParams
+
+  return (
+    <AuthLayout
+      title='Sign-In Link Failed'
+      description={
+        (error && errorMessages[error]) ?? errorMessages.INVALID_TOKEN
+      }
+      icon={<XCircle className='h-12 w-12 text-destructive sm:h-16 sm:w-16' />}
+    >
+      <div className='space-y-3 sm:space-y-4'>
+        <Button asChild className='h-11 w-full sm:h-10'>
+          <Link href='/auth/signin?mode=magic-link'>
+            Request a New Sign-In Link
+          </Link>
+        </Button>
+
+        <div className='text-center'>
+          <Link
+            href='/auth/signin'
+            className='text-sm font-medium underline underline-offset-4 hover:text-primary'
+          >
+            Back to Sign In
+          </Link>
+        </div>
+      </div>
+    </AuthLayout>
+  )
+}
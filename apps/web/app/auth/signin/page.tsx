@@ -1,6 +1,7 @@
 import {SignInForm} from "@/components/auth/signin-form"
 import {AuthLayout} from "@/components/auth/auth-layout"
 import Link from "next/link"
+import {getOAuthProviders} from "@/lib/server/oauth-providers"
 import {Suspense} from "react"
 
 export const metadata = {
@@ -27,7 +28,7 @@ function SignInContent() {
         </span>
       }
     >
-      <SignInForm />
+      <SignInForm socialProviders={getOAuthProviders()} />
     </AuthLayout>
   )
 }
@@ -1,6 +1,7 @@
 import {SignUpForm} from "@/components/auth/signup-form"
 import {AuthLayout} from "@/components/auth/auth-layout"
 import Link from "next/link"
+import {getOAuthProviders} from "@/lib/server/oauth-providers"
 
 export const metadata = {
   title: "Sign Up",
@@ -26,7 +27,7 @@ export default function SignUpPage() {
         </span>
       }
     >
-      <SignUpForm />
+      <SignUpForm socialProviders={getOAuthProviders()} />
     </AuthLayout>
   )
 }
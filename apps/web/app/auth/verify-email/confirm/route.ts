@@ -0,0 +1,23 @@
+import {NextRequest, NextResponse} from "next/server"
+import {confirmEmailVerification} from "@/lib/server/email-verification"
+
+/**
+ * Redeems the single-use link sent by `sendEmailVerification()` and
+ * redirects back to the verify-email page with the outcome.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token")
+  const target = new URL("/auth/verify-email", request.nextUrl.origin)
+
+  const result = token
+    ? await confirmEmailVerification(token, request.headers)
+    : ({ok: false, reason: "invalid"} as const)
+
+  if (result.ok) {
+    target.searchParams.set("verified", "true")
+  } else {
+    target.searchParams.set("error", result.reason)
+  }
+
+  return NextResponse.redirect(target)
+}
@@ -1,15 +1,87 @@
 "use client"
 
+import {useEffect, useState} from "react"
 import {useSearchParams} from "next/navigation"
-import {Mail, CheckCircle} from "lucide-react"
+import {Mail, CheckCircle, XCircle} from "lucide-react"
 import Link from "next/link"
 import {Button} from "@/components/ui/button"
 import {AuthLayout} from "@/components/auth/auth-layout"
+import {resendVerificationEmail} from "@/lib/actions/email-verification"
+
+const errorMessages: Record<string, string> = {
+  expired: "This verification link has expired. Request a new one below.",
+  invalid:
+    "This verification link is invalid or has already been used. Request a new one below.",
+}
+
+function ResendVerificationButton({email}: {email: string | null}) {
+  const [isSending, setIsSending] = useState(false)
+  const [cooldown, setCooldown] = useState(0)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (cooldown <= 0) return
+    const timer = setTimeout(() => setCooldown(cooldown - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [cooldown])
+
+  async function handleResend() {
+    if (!email) {
+      setError("Sign in again to receive a new verification link.")
+      return
+    }
+
+    setIsSending(true)
+    setError(null)
+    setMessage(null)
+
+    const result = await resendVerificationEmail({email})
+    if (result.success) {
+      setMessage("A new verification email is on its way.")
+      setCooldown(result.data.retryAfter)
+    } else {
+      setError(result.error)
+    }
+    setIsSending(false)
+  }
+
+  return (
+    <>
+      <button
+        type='button'
+        onClick={handleResend}
+        disabled={isSending || cooldown > 0}
+        className='font-medium text-primary underline underline-offset-4 hover:text-primary/80 disabled:cursor-not-allowed disabled:opacity-50'
+      >
+        {isSending
+          ? "sending..."
+          : cooldown > 0
+            ? `resend verification email (${cooldown}s)`
+            : "resend verification email"}
+      </button>
+      {message && (
+        <span
+          role='status'
+          className='mt-2 block text-green-700 dark:text-green-400'
+        >
+          {message}
+        </span>
+      )}
+      {error && (
+        <span role='alert' className='mt-2 block text-destructive'>
+          {error}
+        </span>
+      )}
+    </>
+  )
+}
 
 export function VerifyEmailContent() {
   const searchParams = useSearchParams()
   const email = searchParams.get("email")
   const verified = searchParams.get("verified")
+  const error = searchParams.get("error")
 
   if (verified === "true") {
     return (
@@ -27,6 +99,35 @@ export function VerifyEmailContent() {
     )
   }
 
+  if (error) {
+    return (
+      <AuthLayout
+        title='Verification Failed'
+        description={errorMessages[error] ?? errorMessages.invalid}
+        icon={
+          <XCircle className='h-12 w-12 text-destructive sm:h-16 sm:w-16' />
+        }
+      >
+        <div className='space-y-3 sm:space-y-4'>
+          <div className='rounded-lg border bg-muted/50 p-3 text-center sm:p-4'>
+            <p className='text-xs text-muted-foreground sm:text-sm'>
+              <ResendVerificationButton email={email} />
+            </p>
+          </div>
+
+          <div className='text-center'>
+            <Link
+              href='/auth/signin'
+              className='text-sm font-medium underline underline-offset-4 hover:text-primary'
+            >
+              Back to Sign In
+            </Link>
+          </div>
+        </div>
+      </AuthLayout>
+    )
+  }
+
   return (
     <AuthLayout
       title='Check Your Email'
@@ -52,10 +153,7 @@ export function VerifyEmailContent() {
         <div className='rounded-lg border bg-muted/50 p-3 sm:p-4'>
           <p className='text-xs text-muted-foreground sm:text-sm'>
             Didn&apos;t receive the email? Check your spam folder or{" "}
-            <button className='font-medium text-primary underline underline-offset-4 hover:text-primary/80'>
-              resend verification email
-            </button>
-            .
+            <ResendVerificationButton email={email} />
           </p>
         </div>
 
@@ -1,7 +1,12 @@
 import {redirect} from "next/navigation"
-import {auth} from "@/lib/server/auth"
-import {headers} from "next/headers"
+import {getCurrentSession} from "@/lib/server/session"
+import {isAdmin} from "@/lib/server/admin"
+import {isImpersonating} from "@/lib/server/impersonation"
 import {DashboardNav} from "@/components/dashboard/dashboard-nav"
+import {PermissionProvider} from "@/components/shared"
+import {UserFeatureFlags} from "@/components/shared/user-feature-flags"
+import {getFeature} from "@/lib/feature-flags"
+import {getFeatureContext} from "@/lib/server/feature-flags"
 
 export const metadata = {
   title: "Dashboard",
@@ -16,18 +21,38 @@ export default async function DashboardLayout({
 }: {
   children: React.ReactNode
 }) {
-  const session = await auth.api.getSession({
-    headers: await headers(),
-  })
+  // Resolves the active organization alongside the session
+  const session = await getCurrentSession()
 
   if (!session) {
     redirect("/auth/signin")
   }
 
+  const featureContext = await getFeatureContext(session)
+  if (
+    getFeature("emailVerificationRequired", featureContext) &&
+    !session.user.emailVerified
+  ) {
+    redirect(
+      `/auth/verify-email?email=${encodeURIComponent(session.user.email)}`
+    )
+  }
+
   return (
-    <div className='flex min-h-screen flex-col'>
-      <DashboardNav user={session.user} homeHref='/dashboard' />
-      <main className='flex-1'>{children}</main>
-    </div>
+    <UserFeatureFlags current={session}>
+      <div className='flex min-h-screen flex-col'>
+        <DashboardNav
+          user={session.user}
+          homeHref='/dashboard'
+          organizations={session.memberships}
+          activeOrganizationId={session.organization?.id ?? null}
+          isAdmin={isAdmin(session.user)}
+          isImpersonating={isImpersonating(session)}
+        />
+        <PermissionProvider role={session.organization?.role ?? null}>
+          <main className='flex-1'>{children}</main>
+        </PermissionProvider>
+      </div>
+    </UserFeatureFlags>
   )
 }
@@ -3,6 +3,9 @@ import {StatsCard} from "@/components/dashboard/stats-card"
 import {RecentActivity} from "@/components/dashboard/recent-activity"
 import {QuickActions} from "@/components/dashboard/quick-actions"
 import {PageLayout, Section} from "@/components/shared"
+import {isAdmin} from "@/lib/server/admin"
+import {getExperiment} from "@/lib/server/experiments"
+import {getCurrentSession} from "@/lib/server/session"
 
 // Simulated async data fetching - replace with real database queries
 async function getStats() {
@@ -45,12 +48,21 @@ async function getRecentActivity() {
 
 export default async function DashboardPage() {
   // Fetch data in parallel
-  const [stats, activity] = await Promise.all([getStats(), getRecentActivity()])
+  const [stats, activity, session, welcome] = await Promise.all([
+    getStats(),
+    getRecentActivity(),
+    getCurrentSession(),
+    getExperiment("dashboardWelcome"),
+  ])
 
   return (
     <PageLayout
       title='Dashboard'
-      description="Welcome back! Here's an overview of your account."
+      description={
+        welcome === "team"
+          ? "Welcome back! Create an organization to start working with your team."
+          : "Welcome back! Here's an overview of your account."
+      }
     >
       <Section>
         {/* Stats Grid */}
@@ -87,7 +99,7 @@ export default async function DashboardPage() {
             <RecentActivity activities={activity} />
           </Suspense>
 
-          <QuickActions />
+          <QuickActions canCreateUsers={!!session && isAdmin(session.user)} />
         </div>
       </Section>
     </PageLayout>
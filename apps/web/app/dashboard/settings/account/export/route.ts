@@ -0,0 +1,54 @@
+import {NextRequest, NextResponse} from "next/server"
+import {recordAuditEvent} from "@/lib/server/audit"
+import {auth} from "@/lib/server/auth"
+import {redeemDataExport} from "@/lib/server/data-export"
+
+/**
+ * Redeems the link emailed by `sendDataExportLink()` and downloads the
+ * bundle as JSON
+ *
+ * Signed-out visitors are sent to sign in first and returned here. Failures
+ * return to account settings with the reason in `?export=`.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token")
+  const failure = new URL("/dashboard/settings/account", request.nextUrl.origin)
+
+  if (!token) {
+    failure.searchParams.set("export", "invalid")
+    return NextResponse.redirect(failure)
+  }
+
+  const session = await auth.api.getSession({headers: request.headers})
+  if (!session) {
+    const signIn = new URL("/auth/signin", request.nextUrl.origin)
+    signIn.searchParams.set(
+      "redirectTo",
+      `/dashboard/settings/account/export?token=${encodeURIComponent(token)}`
+    )
+    return NextResponse.redirect(signIn)
+  }
+
+  const result = await redeemDataExport(token, session.user.id)
+  if (!result.ok) {
+    failure.searchParams.set("export", result.reason)
+    return NextResponse.redirect(failure)
+  }
+
+  await recordAuditEvent({
+    action: "auth.data-export-downloaded",
+    actor: session.user,
+    target: {type: "user", id: session.user.id},
+    headers: request.headers,
+    metadata: {exportId: result.exportId},
+  })
+
+  const date = new Date().toISOString().slice(0, 10)
+  return new NextResponse(JSON.stringify(result.data, null, 2), {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="my-data-${date}.json"`,
+      "Cache-Control": "no-store",
+    },
+  })
+}
@@ -0,0 +1,171 @@
+import Link from "next/link"
+import {redirect} from "next/navigation"
+import {getFeature} from "@/lib/feature-flags"
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  getAccountSettings,
+} from "@/lib/server/account"
+import {getLatestDataExport} from "@/lib/server/data-export"
+import {getFeatureContext} from "@/lib/server/feature-flags"
+import {getCurrentSession} from "@/lib/server/session"
+import {Section} from "@/components/shared"
+import {SettingsCard} from "@/components/settings/settings-card"
+import {ProfileForm} from "@/components/settings/profile-form"
+import {AvatarUpload} from "@/components/settings/avatar-upload"
+import {ChangeEmailForm} from "@/components/settings/change-email-form"
+import {ChangePasswordForm} from "@/components/settings/change-password-form"
+import {DataExport} from "@/components/settings/data-export"
+import {DeleteAccount} from "@/components/settings/delete-account"
+
+export const metadata = {
+  title: "Account",
+  description: "Manage your name, email, password and account",
+}
+
+interface AccountPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+// Outcomes of the email change link, passed back as `?email=`
+const emailChangeNotices: Record<string, {message: string; error: boolean}> = {
+  changed: {message: "Your email address has been changed.", error: false},
+  invalid: {
+    message: "That confirmation link is invalid or has already been used.",
+    error: true,
+  },
+  expired: {
+    message: "That confirmation link has expired. Request a new one below.",
+    error: true,
+  },
+  taken: {
+    message: "That email address is now used by another account.",
+    error: true,
+  },
+}
+
+// Failures of the data export download link, passed back as `?export=`
+const dataExportNotices: Record<string, string> = {
+  invalid: "That download link is invalid or has already been used.",
+  expired: "That download link has expired. Request a new export below.",
+  "wrong-account":
+    "That download link belongs to a different account. Sign in to that account to use it.",
+}
+
+export default async function AccountPage({searchParams}: AccountPageProps) {
+  const current = await getCurrentSession()
+
+  if (!current) {
+    redirect("/auth/signin")
+  }
+
+  const {user} = current
+  const [settings, latestExport, params] = await Promise.all([
+    getAccountSettings(user.id),
+    getLatestDataExport(user.id),
+    searchParams,
+  ])
+  const notice =
+    typeof params.email === "string" ? emailChangeNotices[params.email] : null
+  const exportNotice =
+    typeof params.export === "string" ? dataExportNotices[params.export] : null
+  const featureContext = await getFeatureContext(current)
+  const profileEditing = getFeature("userProfileEditing", featureContext)
+  const avatarUpload = getFeature("userAvatarUpload", featureContext)
+
+  return (
+    <Section spacing='sm'>
+      {notice && (
+        <div
+          className={
+            notice.error
+              ? "rounded-md bg-destructive/15 p-3 text-sm text-destructive"
+              : "rounded-md bg-primary/10 p-3 text-sm"
+          }
+        >
+          {notice.message}
+        </div>
+      )}
+
+      {exportNotice && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {exportNotice}
+        </div>
+      )}
+
+      {avatarUpload && (
+        <SettingsCard title='Avatar' description='Shown next to your name.'>
+          <AvatarUpload user={{name: user.name, image: user.image ?? null}} />
+        </SettingsCard>
+      )}
+
+      {profileEditing && (
+        <SettingsCard title='Profile' description='How you appear to others.'>
+          <ProfileForm name={user.name} />
+        </SettingsCard>
+      )}
+
+      {profileEditing && (
+        <SettingsCard
+          title='Email address'
+          description='Used to sign in and for account notifications. The new address must be confirmed before it takes effect.'
+        >
+          <ChangeEmailForm
+            email={user.email}
+            pendingEmail={settings.pendingEmail}
+          />
+        </SettingsCard>
+      )}
+
+      <SettingsCard
+        title='Password'
+        description='Changing your password signs out your other devices.'
+      >
+        {settings.hasPassword ? (
+          <ChangePasswordForm />
+        ) : (
+          <p className='text-sm text-muted-foreground'>
+            You sign in without a password.{" "}
+            <Link
+              href='/auth/forgot-password'
+              className='font-medium text-primary hover:underline'
+            >
+              Set one by email
+            </Link>{" "}
+            to also sign in with your email address.
+          </p>
+        )}
+      </SettingsCard>
+
+      <SettingsCard
+        title='Your data'
+        description='Download a copy of your profile, sign-in methods, sessions and account activity as JSON.'
+      >
+        <DataExport
+          latest={
+            latestExport
+              ? {
+                  status: latestExport.status,
+                  createdAt: latestExport.createdAt.toISOString(),
+                  expiresAt: latestExport.expiresAt?.toISOString() ?? null,
+                }
+              : null
+          }
+        />
+      </SettingsCard>
+
+      <SettingsCard
+        title='Delete account'
+        description='Permanently remove your account and its data.'
+        className='border-destructive/50'
+      >
+        <DeleteAccount
+          email={user.email}
+          deletionScheduledAt={
+            settings.deletionScheduledAt?.toISOString() ?? null
+          }
+          graceDays={ACCOUNT_DELETION_GRACE_DAYS}
+        />
+      </SettingsCard>
+    </Section>
+  )
+}
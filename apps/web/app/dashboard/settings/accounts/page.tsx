@@ -0,0 +1,55 @@
+import {redirect} from "next/navigation"
+import {headers} from "next/headers"
+import {asc, eq} from "drizzle-orm"
+import {auth} from "@/lib/server/auth"
+import {db} from "@/lib/server/db"
+import {accounts} from "@/lib/server/db/schema"
+import {getOAuthProviders, getProviderName} from "@/lib/server/oauth-providers"
+import {Section} from "@/components/shared"
+import {SettingsCard} from "@/components/settings/settings-card"
+import {LinkedAccounts} from "@/components/settings/linked-accounts"
+
+export const metadata = {
+  title: "Linked Accounts",
+  description: "Manage the providers you can sign in with",
+}
+
+export default async function LinkedAccountsPage() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  })
+
+  if (!session) {
+    redirect("/auth/signin")
+  }
+
+  // Only non-secret columns leave the server
+  const linked = await db
+    .select({
+      id: accounts.id,
+      providerId: accounts.providerId,
+      accountId: accounts.accountId,
+      createdAt: accounts.createdAt,
+    })
+    .from(accounts)
+    .where(eq(accounts.userId, session.user.id))
+    .orderBy(asc(accounts.createdAt))
+
+  return (
+    <Section spacing='sm'>
+      <SettingsCard
+        title='Linked accounts'
+        description='Sign-in methods connected to your account. You must keep at least one.'
+      >
+        <LinkedAccounts
+          accounts={linked.map(account => ({
+            ...account,
+            providerName: getProviderName(account.providerId),
+            createdAt: account.createdAt.toISOString(),
+          }))}
+          providers={getOAuthProviders()}
+        />
+      </SettingsCard>
+    </Section>
+  )
+}
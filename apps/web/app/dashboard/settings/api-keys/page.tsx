@@ -0,0 +1,64 @@
+import {redirect} from "next/navigation"
+import {listApiKeys} from "@/lib/server/api-keys"
+import {getCurrentSession} from "@/lib/server/session"
+import {rolePermissions} from "@/lib/permissions"
+import {Section} from "@/components/shared"
+import {SettingsCard} from "@/components/settings/settings-card"
+import {ApiKeys} from "@/components/settings/api-keys"
+import {CreateApiKeyForm} from "@/components/settings/create-api-key-form"
+
+export const metadata = {
+  title: "API Keys",
+  description: "Create and revoke keys for programmatic access",
+}
+
+export default async function ApiKeysPage() {
+  const current = await getCurrentSession()
+
+  if (!current) {
+    redirect("/auth/signin")
+  }
+
+  const {organization} = current
+  const apiKeys = await listApiKeys(current.user.id)
+
+  return (
+    <Section spacing='sm'>
+      <SettingsCard
+        title='API keys'
+        description={
+          <>
+            Send a key as <code>Authorization: Bearer &lt;key&gt;</code>. It
+            acts as you in the organization it was created for, limited to its
+            scopes.
+          </>
+        }
+      >
+        <ApiKeys
+          apiKeys={apiKeys.map(key => ({
+            id: key.id,
+            name: key.name,
+            start: key.start,
+            scopes: key.scopes,
+            createdAt: key.createdAt.toISOString(),
+            expiresAt: key.expiresAt?.toISOString() ?? null,
+            lastUsedAt: key.lastRequest?.toISOString() ?? null,
+          }))}
+        />
+      </SettingsCard>
+
+      <SettingsCard
+        title='Create API key'
+        description={
+          organization
+            ? `The key will act in ${organization.name}.`
+            : "Create or join an organization to create API keys."
+        }
+      >
+        {organization && (
+          <CreateApiKeyForm scopes={rolePermissions[organization.role]} />
+        )}
+      </SettingsCard>
+    </Section>
+  )
+}
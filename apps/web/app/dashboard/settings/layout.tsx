@@ -0,0 +1,34 @@
+import {PageLayout} from "@/components/shared"
+import {SettingsNav, type SettingsNavItem} from "@/components/settings/settings-nav"
+
+export const metadata = {
+  title: "Settings",
+  description: "Manage your account settings",
+}
+
+const settingsNavItems: SettingsNavItem[] = [
+  {href: "/dashboard/settings/account", label: "Account"},
+  {href: "/dashboard/settings/security", label: "Security"},
+  {href: "/dashboard/settings/accounts", label: "Linked accounts"},
+  {href: "/dashboard/settings/sessions", label: "Sessions"},
+  {href: "/dashboard/settings/organization", label: "Organization"},
+  {href: "/dashboard/settings/api-keys", label: "API keys"},
+]
+
+// Authentication is enforced by the parent dashboard layout
+export default function SettingsLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <PageLayout
+      title='Settings'
+      description='Manage your account and security preferences'
+      containerSize='narrow'
+    >
+      <SettingsNav items={settingsNavItems} />
+      {children}
+    </PageLayout>
+  )
+}
@@ -0,0 +1,85 @@
+import {redirect} from "next/navigation"
+import {
+  getOrganizationMembers,
+  getPendingInvitations,
+} from "@/lib/server/organizations"
+import {getCurrentSession} from "@/lib/server/session"
+import {hasPermission} from "@/lib/permissions"
+import {Section} from "@/components/shared"
+import {SettingsCard} from "@/components/settings/settings-card"
+import {OrganizationMembers} from "@/components/settings/organization-members"
+import {OrganizationInvitations} from "@/components/settings/organization-invitations"
+import {CreateOrganizationForm} from "@/components/settings/create-organization-form"
+
+export const metadata = {
+  title: "Organization",
+  description: "Manage your organization's members and invitations",
+}
+
+export default async function OrganizationSettingsPage() {
+  const current = await getCurrentSession()
+
+  if (!current) {
+    redirect("/auth/signin")
+  }
+
+  const {organization} = current
+  const canInvite = hasPermission(organization?.role, "members:invite")
+
+  const [members, invitations] = organization
+    ? await Promise.all([
+        getOrganizationMembers(organization.id),
+        canInvite ? getPendingInvitations(organization.id) : [],
+      ])
+    : [[], []]
+  const now = new Date()
+
+  return (
+    <Section spacing='sm'>
+      {organization && (
+        <SettingsCard
+          title={organization.name}
+          description='People who have access to this organization.'
+        >
+          <OrganizationMembers
+            members={members.map(member => ({
+              id: member.id,
+              name: member.name,
+              email: member.email,
+              role: member.role,
+              joinedAt: member.createdAt.toISOString(),
+              isCurrentUser: member.userId === current.user.id,
+            }))}
+          />
+        </SettingsCard>
+      )}
+
+      {organization && canInvite && (
+        <SettingsCard
+          title='Invitations'
+          description='Invite people by email. Links expire after 7 days.'
+        >
+          <OrganizationInvitations
+            invitations={invitations.map(invitation => ({
+              id: invitation.id,
+              email: invitation.email,
+              role: invitation.role,
+              invitedAt: invitation.createdAt.toISOString(),
+              expiresAt:
+                invitation.expiresAt && invitation.expiresAt > now
+                  ? invitation.expiresAt.toISOString()
+                  : null,
+            }))}
+          />
+        </SettingsCard>
+      )}
+
+      <SettingsCard
+        title='Create an organization'
+        description='Start a new organization. You will be its owner.'
+      >
+        <CreateOrganizationForm />
+      </SettingsCard>
+    </Section>
+  )
+}
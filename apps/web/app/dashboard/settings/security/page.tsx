@@ -0,0 +1,68 @@
+import {redirect} from "next/navigation"
+import {headers} from "next/headers"
+import {desc, eq} from "drizzle-orm"
+import {auth} from "@/lib/server/auth"
+import {db} from "@/lib/server/db"
+import {passkeys} from "@/lib/server/db/schema"
+import {getFeatureContext} from "@/lib/server/feature-flags"
+import {getFeature} from "@/lib/feature-flags"
+import {Section} from "@/components/shared"
+import {SettingsCard} from "@/components/settings/settings-card"
+import {TwoFactorSettings} from "@/components/settings/two-factor-settings"
+import {PasskeySettings} from "@/components/settings/passkey-settings"
+
+export const metadata = {
+  title: "Security Settings",
+  description: "Manage how you sign in",
+}
+
+export default async function SecuritySettingsPage() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  })
+
+  if (!session) {
+    redirect("/auth/signin")
+  }
+
+  const registeredPasskeys = await db
+    .select({
+      id: passkeys.id,
+      name: passkeys.name,
+      deviceType: passkeys.deviceType,
+      backedUp: passkeys.backedUp,
+      createdAt: passkeys.createdAt,
+    })
+    .from(passkeys)
+    .where(eq(passkeys.userId, session.user.id))
+    .orderBy(desc(passkeys.createdAt))
+
+  return (
+    <Section spacing='sm'>
+      <SettingsCard
+        title='Passkeys'
+        description='Sign in with your fingerprint, face or device PIN instead of a password.'
+      >
+        <PasskeySettings
+          passkeys={registeredPasskeys.map(key => ({
+            ...key,
+            createdAt: key.createdAt?.toISOString() ?? null,
+          }))}
+        />
+      </SettingsCard>
+
+      <SettingsCard
+        title='Two-factor authentication'
+        description='Require a code from an authenticator app in addition to your password.'
+      >
+        {getFeature("twoFactorAuth", await getFeatureContext(session)) ? (
+          <TwoFactorSettings enabled={session.user.twoFactorEnabled ?? false} />
+        ) : (
+          <p className='text-sm text-muted-foreground'>
+            Two-factor authentication is not available yet.
+          </p>
+        )}
+      </SettingsCard>
+    </Section>
+  )
+}
@@ -0,0 +1,65 @@
+import {redirect} from "next/navigation"
+import {headers} from "next/headers"
+import {and, desc, eq, gt, isNull, or} from "drizzle-orm"
+import {auth} from "@/lib/server/auth"
+import {db} from "@/lib/server/db"
+import {sessions} from "@/lib/server/db/schema"
+import {parseUserAgent} from "@/lib/user-agent"
+import {Section} from "@/components/shared"
+import {SettingsCard} from "@/components/settings/settings-card"
+import {ActiveSessions} from "@/components/settings/active-sessions"
+
+export const metadata = {
+  title: "Active Sessions",
+  description: "Review and sign out the devices signed in to your account",
+}
+
+export default async function SessionsPage() {
+  const current = await auth.api.getSession({
+    headers: await headers(),
+  })
+
+  if (!current) {
+    redirect("/auth/signin")
+  }
+
+  // Tokens never leave the server; revocation goes through the session id
+  const active = await db
+    .select({
+      id: sessions.id,
+      ipAddress: sessions.ipAddress,
+      userAgent: sessions.userAgent,
+      createdAt: sessions.createdAt,
+      updatedAt: sessions.updatedAt,
+    })
+    .from(sessions)
+    .where(
+      and(
+        eq(sessions.userId, current.user.id),
+        gt(sessions.expiresAt, new Date()),
+        // Admin impersonation sessions are not the user's own devices
+        or(isNull(sessions.impersonatedBy), eq(sessions.id, current.session.id))
+      )
+    )
+    .orderBy(desc(sessions.updatedAt))
+
+  return (
+    <Section spacing='sm'>
+      <SettingsCard
+        title='Active sessions'
+        description='Devices currently signed in to your account. Revoke any you do not recognise.'
+      >
+        <ActiveSessions
+          sessions={active.map(session => ({
+            id: session.id,
+            ...parseUserAgent(session.userAgent),
+            ipAddress: session.ipAddress,
+            createdAt: session.createdAt.toISOString(),
+            lastActiveAt: session.updatedAt.toISOString(),
+            isCurrent: session.id === current.session.id,
+          }))}
+        />
+      </SettingsCard>
+    </Section>
+  )
+}
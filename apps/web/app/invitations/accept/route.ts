@@ -0,0 +1,48 @@
+import {NextRequest, NextResponse} from "next/server"
+import {recordAuditEvent} from "@/lib/server/audit"
+import {auth} from "@/lib/server/auth"
+import {
+  acceptInvitation,
+  setActiveOrganization,
+} from "@/lib/server/organizations"
+
+/**
+ * Redeems the link sent by `inviteToOrganization()`
+ *
+ * Signed-out visitors are sent to sign in first and returned here; on
+ * success the new organization becomes active for the session.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token")
+  const failure = new URL("/invitations/invalid", request.nextUrl.origin)
+
+  if (!token) {
+    failure.searchParams.set("reason", "invalid")
+    return NextResponse.redirect(failure)
+  }
+
+  const session = await auth.api.getSession({headers: request.headers})
+  if (!session) {
+    const signIn = new URL("/auth/signin", request.nextUrl.origin)
+    signIn.searchParams.set(
+      "redirectTo",
+      `/invitations/accept?token=${encodeURIComponent(token)}`
+    )
+    return NextResponse.redirect(signIn)
+  }
+
+  const result = await acceptInvitation(token, session.user)
+  if (!result.ok) {
+    failure.searchParams.set("reason", result.reason)
+    return NextResponse.redirect(failure)
+  }
+
+  await recordAuditEvent({
+    action: "organization.member-joined",
+    actor: session.user,
+    target: {type: "organization", id: result.organizationId},
+    headers: request.headers,
+  })
+  await setActiveOrganization(session.session.id, result.organizationId)
+  return NextResponse.redirect(new URL("/dashboard", request.nextUrl.origin))
+}
@@ -0,0 +1,38 @@
+import Link from "next/link"
+import {XCircle} from "lucide-react"
+import {Button} from "@/components/ui/button"
+import {AuthLayout} from "@/components/auth/auth-layout"
+
+export const metadata = {
+  title: "Invitation",
+  description: "Join an organization",
+}
+
+const reasonMessages: Record<string, string> = {
+  expired:
+    "This invitation has expired. Ask an admin of the organization to invite you again.",
+  invalid:
+    "This invitation is invalid or has already been used. Ask an admin of the organization to invite you again.",
+  "wrong-account":
+    "This invitation was sent to a different email address. Sign in with that address to accept it.",
+}
+
+export default async function InvalidInvitationPage({
+  searchParams,
+}: {
+  searchParams: Promise<{reason?: string}>
+}) {
+  const {reason} = await searchParams
+
+  return (
+    <AuthLayout
+      title='Invitation Unavailable'
+      description={(reason && reasonMessages[reason]) ?? reasonMessages.invalid}
+      icon={<XCircle className='h-12 w-12 text-destructive sm:h-16 sm:w-16' />}
+    >
+      <Button asChild className='h-11 w-full sm:h-10'>
+        <Link href='/dashboard'>Go to Dashboard</Link>
+      </Button>
+    </AuthLayout>
+  )
+}
@@ -1,6 +1,14 @@
 import type {Metadata} from "next"
 import {Geist, Geist_Mono} from "next/font/google"
-import {ThemeProvider} from "@/components/shared"
+import {headers} from "next/headers"
+import {
+  FeatureFlagProvider,
+  ReadOnlyBanner,
+  ThemeProvider,
+} from "@/components/shared"
+import {CSP_NONCE_HEADER} from "@/lib/csp"
+import {getAllFeatures} from "@/lib/feature-flags"
+import {getFeatureContext} from "@/lib/server/feature-flags"
 import "./globals.css"
 
 const geistSans = Geist({
@@ -19,15 +27,24 @@ export const metadata: Metadata = {
     "A modern Next.js 15 starter with TypeScript, Tailwind CSS, shadcn/ui, BetterAuth, and Drizzle ORM",
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  // Flags nobody is targeted for, without a session lookup; the dashboard
+  // and admin layouts provide the signed-in user's (UserFeatureFlags)
+  const flags = getAllFeatures(await getFeatureContext(null))
+  // Set by middleware; inline scripts without it are blocked (lib/csp.ts)
+  const nonce = (await headers()).get(CSP_NONCE_HEADER) ?? undefined
+
   return (
     <html lang='en' suppressHydrationWarning>
       <head>
         <script
+          nonce={nonce}
+          // Browsers hide the nonce attribute once the page has loaded
+          suppressHydrationWarning
           dangerouslySetInnerHTML={{
             __html: `
               (function() {
@@ -43,7 +60,12 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <ThemeProvider>{children}</ThemeProvider>
+        <ThemeProvider>
+          <FeatureFlagProvider flags={flags}>
+            <ReadOnlyBanner />
+            {children}
+          </FeatureFlagProvider>
+        </ThemeProvider>
       </body>
     </html>
   )
@@ -0,0 +1,25 @@
+import {NextRequest, NextResponse} from "next/server"
+import {readLocalUpload} from "@/lib/server/storage"
+
+/**
+ * Serves files stored by the local storage driver. Responds 404 for every
+ * path when another driver is configured.
+ */
+export async function GET(
+  _request: NextRequest,
+  {params}: {params: Promise<{key: string[]}>}
+) {
+  const {key} = await params
+  const object = await readLocalUpload(key.join("/"))
+  if (!object) {
+    return new NextResponse(null, {status: 404})
+  }
+
+  return new NextResponse(new Uint8Array(object.body), {
+    headers: {
+      "Content-Type": object.contentType,
+      "Cache-Control": object.cacheControl ?? "no-cache",
+      "X-Content-Type-Options": "nosniff",
+    },
+  })
+}
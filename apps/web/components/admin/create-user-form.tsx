@@ -0,0 +1,94 @@
+"use client"
+
+import {useState} from "react"
+import {useRouter} from "next/navigation"
+import {createUser} from "@/lib/actions/admin"
+import {checkPassword} from "@/lib/password-policy"
+import {PasswordStrengthMeter} from "@/components/auth/password-strength-meter"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+export function CreateUserForm() {
+  const router = useRouter()
+  const [password, setPassword] = useState("")
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const formData = new FormData(e.currentTarget)
+
+    const {errors} = checkPassword(password)
+    if (errors.length > 0) {
+      setError(errors[0])
+      return
+    }
+
+    setIsPending(true)
+    setError(null)
+
+    const result = await createUser({
+      name: formData.get("name") as string,
+      email: formData.get("email") as string,
+      password,
+      emailVerified: formData.get("emailVerified") === "on",
+    })
+    if (result.success) {
+      router.push("/admin/users")
+    } else {
+      setError(result.error)
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <form onSubmit={onSubmit} className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+      <div className='space-y-2'>
+        <Label htmlFor='name'>Name</Label>
+        <Input id='name' name='name' required disabled={isPending} />
+      </div>
+      <div className='space-y-2'>
+        <Label htmlFor='email'>Email</Label>
+        <Input
+          id='email'
+          name='email'
+          type='email'
+          required
+          disabled={isPending}
+        />
+      </div>
+      <div className='space-y-2'>
+        <Label htmlFor='password'>Password</Label>
+        <Input
+          id='password'
+          name='password'
+          type='password'
+          autoComplete='new-password'
+          required
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          disabled={isPending}
+        />
+        <PasswordStrengthMeter password={password} />
+      </div>
+      <label className='flex items-center gap-2 text-sm'>
+        <input
+          type='checkbox'
+          name='emailVerified'
+          className='h-4 w-4 rounded border-input'
+          disabled={isPending}
+        />
+        Mark email as verified
+      </label>
+      <Button type='submit' disabled={isPending}>
+        {isPending ? "Creating..." : "Create user"}
+      </Button>
+    </form>
+  )
+}
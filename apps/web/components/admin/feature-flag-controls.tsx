@@ -0,0 +1,64 @@
+"use client"
+
+import {useState} from "react"
+import {setFeatureFlag} from "@/lib/actions/admin"
+import type {FeatureFlag} from "@/lib/feature-flags"
+import {Button} from "@/components/ui/button"
+
+interface FeatureFlagControlsProps {
+  flag: FeatureFlag
+  // The stored value, or null when the flag uses its deployment default
+  stored: boolean | null
+}
+
+const options = [
+  {value: null, label: "Default"},
+  {value: true, label: "On"},
+  {value: false, label: "Off"},
+] as const
+
+export function FeatureFlagControls({flag, stored}: FeatureFlagControlsProps) {
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleSelect(enabled: boolean | null) {
+    setPending(true)
+    setError(null)
+
+    // The page is revalidated by the action, so the row refreshes itself
+    const result = await setFeatureFlag({flag, enabled})
+    if (!result.success) {
+      setError(result.error)
+    }
+    setPending(false)
+  }
+
+  return (
+    <div className='flex flex-col items-end gap-1'>
+      <div
+        role='group'
+        aria-label={`Set ${flag}`}
+        className='inline-flex rounded-md border'
+      >
+        {options.map(option => (
+          <Button
+            key={option.label}
+            variant={stored === option.value ? "secondary" : "ghost"}
+            size='sm'
+            className='rounded-none first:rounded-l-md last:rounded-r-md'
+            aria-pressed={stored === option.value}
+            disabled={pending}
+            onClick={() => handleSelect(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      {error && (
+        <p role='alert' className='text-xs text-destructive'>
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import {useState} from "react"
+import {setFeatureFlagRules} from "@/lib/actions/admin"
+import type {FeatureFlag} from "@/lib/feature-flags"
+import type {FeatureFlagRules} from "@/lib/feature-flag-rules"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+interface FeatureFlagRulesFormProps {
+  flag: FeatureFlag
+  rules: FeatureFlagRules | null
+}
+
+const listFields = [
+  {
+    name: "environments",
+    label: "Environments",
+    placeholder: "production, staging",
+  },
+  {name: "userIds", label: "User IDs", placeholder: "user-id, user-id"},
+  {
+    name: "emailDomains",
+    label: "Email domains",
+    placeholder: "example.com",
+  },
+  {
+    name: "organizationIds",
+    label: "Organization IDs",
+    placeholder: "org-id, org-id",
+  },
+  {name: "roles", label: "Organization roles", placeholder: "owner, admin"},
+] as const
+
+function parseList(value: FormDataEntryValue | null) {
+  const entries = String(value ?? "")
+    .split(/[\s,]+/)
+    .filter(Boolean)
+  return entries.length > 0 ? entries : undefined
+}
+
+export function FeatureFlagRulesForm({flag, rules}: FeatureFlagRulesFormProps) {
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function save(next: FeatureFlagRules | null) {
+    setIsPending(true)
+    setError(null)
+
+    // The page is revalidated by the action, so the form refreshes itself
+    const result = await setFeatureFlagRules({flag, rules: next})
+    if (!result.success) {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const formData = new FormData(e.currentTarget)
+    const percentage = String(formData.get("percentage") ?? "").trim()
+
+    save({
+      ...Object.fromEntries(
+        listFields.map(field => [
+          field.name,
+          parseList(formData.get(field.name)),
+        ])
+      ),
+      percentage: percentage ? Number(percentage) : undefined,
+    })
+  }
+
+  return (
+    <form onSubmit={onSubmit} className='mt-3 space-y-3'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+      <div className='grid gap-3 sm:grid-cols-2'>
+        {listFields.map(field => (
+          <div key={field.name} className='space-y-1'>
+            <Label htmlFor={`${flag}-${field.name}`}>{field.label}</Label>
+            <Input
+              id={`${flag}-${field.name}`}
+              name={field.name}
+              defaultValue={rules?.[field.name]?.join(", ")}
+              placeholder={field.placeholder}
+              disabled={isPending}
+            />
+          </div>
+        ))}
+        <div className='space-y-1'>
+          <Label htmlFor={`${flag}-percentage`}>Percentage of users</Label>
+          <Input
+            id={`${flag}-percentage`}
+            name='percentage'
+            type='number'
+            min={0}
+            max={100}
+            step='any'
+            defaultValue={rules?.percentage}
+            disabled={isPending}
+          />
+        </div>
+      </div>
+      <p className='text-xs text-muted-foreground'>
+        Matching users get the flag even when it is off. Outside the listed
+        environments it is off for everyone.
+      </p>
+      <div className='flex gap-2'>
+        <Button type='submit' size='sm' disabled={isPending}>
+          {isPending ? "Saving..." : "Save targeting"}
+        </Button>
+        {rules && (
+          <Button
+            type='button'
+            variant='ghost'
+            size='sm'
+            disabled={isPending}
+            onClick={() => save(null)}
+          >
+            Clear
+          </Button>
+        )}
+      </div>
+    </form>
+  )
+}
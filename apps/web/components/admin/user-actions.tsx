@@ -0,0 +1,140 @@
+"use client"
+
+import {useState} from "react"
+import {useRouter} from "next/navigation"
+import {
+  deleteUser,
+  forcePasswordReset,
+  setUserDisabled,
+  verifyUserEmail,
+} from "@/lib/actions/admin"
+import type {ActionResult} from "@/lib/actions/types"
+import {authClient} from "@/lib/auth-client"
+import {Button} from "@/components/ui/button"
+
+interface UserActionsProps {
+  user: {
+    id: string
+    email: string
+    emailVerified: boolean
+    banned: boolean
+    isAdmin: boolean
+  }
+}
+
+type PendingAction = "verify" | "disable" | "reset" | "delete" | "impersonate"
+
+export function UserActions({user}: UserActionsProps) {
+  const router = useRouter()
+  const [pending, setPending] = useState<PendingAction | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function run(action: PendingAction, call: () => Promise<ActionResult>) {
+    setPending(action)
+    setError(null)
+
+    // The table is revalidated by the action, so rows refresh themselves
+    const result = await call()
+    if (!result.success) {
+      setError(result.error)
+    }
+    setPending(null)
+  }
+
+  function handleDelete() {
+    if (!window.confirm(`Permanently delete ${user.email}?`)) return
+    run("delete", () => deleteUser({userId: user.id}))
+  }
+
+  function handleReset() {
+    if (
+      !window.confirm(
+        `Sign ${user.email} out everywhere and require a new password?`
+      )
+    ) {
+      return
+    }
+    run("reset", () => forcePasswordReset({userId: user.id}))
+  }
+
+  async function handleImpersonate() {
+    setPending("impersonate")
+    setError(null)
+
+    // Goes through the auth route, which swaps the session cookies
+    const {error} = await authClient.admin.impersonateUser({userId: user.id})
+    if (error) {
+      setError(error.message || "Failed to impersonate user")
+      setPending(null)
+      return
+    }
+    router.push("/dashboard")
+    router.refresh()
+  }
+
+  return (
+    <div className='flex flex-col items-end gap-1'>
+      <div className='flex flex-wrap justify-end gap-1'>
+        {!user.emailVerified && (
+          <Button
+            variant='ghost'
+            size='sm'
+            disabled={pending !== null}
+            onClick={() =>
+              run("verify", () => verifyUserEmail({userId: user.id}))
+            }
+          >
+            {pending === "verify" ? "Verifying..." : "Verify email"}
+          </Button>
+        )}
+        {!user.isAdmin && !user.banned && (
+          <Button
+            variant='ghost'
+            size='sm'
+            disabled={pending !== null}
+            onClick={handleImpersonate}
+          >
+            {pending === "impersonate" ? "Starting..." : "Impersonate"}
+          </Button>
+        )}
+        <Button
+          variant='ghost'
+          size='sm'
+          disabled={pending !== null}
+          onClick={handleReset}
+        >
+          {pending === "reset" ? "Resetting..." : "Force reset"}
+        </Button>
+        <Button
+          variant='outline'
+          size='sm'
+          disabled={pending !== null}
+          onClick={() =>
+            run("disable", () =>
+              setUserDisabled({userId: user.id, disabled: !user.banned})
+            )
+          }
+        >
+          {pending === "disable"
+            ? "Saving..."
+            : user.banned
+              ? "Enable"
+              : "Disable"}
+        </Button>
+        <Button
+          variant='destructive'
+          size='sm'
+          disabled={pending !== null}
+          onClick={handleDelete}
+        >
+          {pending === "delete" ? "Deleting..." : "Delete"}
+        </Button>
+      </div>
+      {error && (
+        <p role='alert' className='text-xs text-destructive'>
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
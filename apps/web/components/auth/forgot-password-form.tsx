@@ -23,14 +23,22 @@ export function ForgotPasswordForm() {
     setEmail(emailValue)
 
     try {
-      await authClient.forgetPassword({
+      const { error } = await authClient.forgetPassword({
         email: emailValue,
         redirectTo: "/auth/reset-password",
       })
 
+      // Rate-limited requests come back as errors with a friendly message
+      if (error) {
+        setError(error.message || "Failed to send reset email")
+        return
+      }
+
       setEmailSent(true)
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to send reset email")
+      setError(
+        err instanceof Error ? err.message : "Failed to send reset email"
+      )
     } finally {
       setIsLoading(false)
     }
@@ -59,7 +67,11 @@ export function ForgotPasswordForm() {
           </p>
         </div>
 
-        <Button variant="outline" onClick={() => setEmailSent(false)} className="w-full">
+        <Button
+          variant="outline"
+          onClick={() => setEmailSent(false)}
+          className="w-full"
+        >
           Try Different Email
         </Button>
       </div>
@@ -86,8 +98,8 @@ export function ForgotPasswordForm() {
           disabled={isLoading}
         />
         <p className="text-xs text-muted-foreground">
-          Enter the email address associated with your account and we&apos;ll send you a link to
-          reset your password.
+          Enter the email address associated with your account and we&apos;ll
+          send you a link to reset your password.
         </p>
       </div>
 
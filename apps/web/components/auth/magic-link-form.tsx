@@ -0,0 +1,117 @@
+"use client"
+
+import { useState } from "react"
+import { signIn } from "@/lib/auth-client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Mail } from "lucide-react"
+
+interface MagicLinkFormProps {
+  onUsePassword: () => void
+}
+
+/**
+ * Passwordless sign-in: emails a single-use link that signs the user in
+ */
+export function MagicLinkForm({ onUsePassword }: MagicLinkFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    const email = new FormData(e.currentTarget).get("email") as string
+
+    try {
+      const { error } = await signIn.magicLink({
+        email,
+        callbackURL: "/dashboard",
+        // Expired or reused links land on an explanatory page
+        errorCallbackURL: "/auth/magic-link",
+      })
+
+      if (error) {
+        setError(error.message || "Failed to send sign-in link")
+        return
+      }
+
+      setSentTo(email)
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to send sign-in link"
+      )
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (sentTo) {
+    return (
+      <div className="space-y-6 text-center">
+        <div className="flex justify-center">
+          <div className="rounded-full bg-primary/10 p-3">
+            <Mail className="h-6 w-6 text-primary" />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="text-2xl font-semibold">Check Your Email</h2>
+          <p className="text-sm text-muted-foreground">
+            We&apos;ve sent a sign-in link to{" "}
+            <span className="font-medium text-foreground">{sentTo}</span>. The
+            link expires in 15 minutes and can only be used once.
+          </p>
+        </div>
+
+        <Button
+          variant="outline"
+          onClick={() => setSentTo(null)}
+          className="w-full"
+        >
+          Try Different Email
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="magic-link-email">Email</Label>
+        <Input
+          id="magic-link-email"
+          name="email"
+          type="email"
+          placeholder="name@example.com"
+          required
+          autoComplete="email"
+          disabled={isLoading}
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? "Sending..." : "Email Me a Sign-In Link"}
+      </Button>
+
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={onUsePassword}
+          className="text-xs font-medium text-primary underline underline-offset-4 hover:text-primary/80"
+        >
+          Sign in with a password instead
+        </button>
+      </div>
+    </form>
+  )
+}
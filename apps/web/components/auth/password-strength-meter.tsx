@@ -0,0 +1,86 @@
+"use client"
+
+import { Check, X } from "lucide-react"
+import {
+  checkPassword,
+  getPasswordStrength,
+  passwordStrengthLabels,
+} from "@/lib/password-policy"
+import { cn } from "@/lib/utils"
+
+interface PasswordStrengthMeterProps {
+  password: string
+  className?: string
+}
+
+const barColors = [
+  "bg-destructive",
+  "bg-destructive",
+  "bg-orange-500",
+  "bg-yellow-500",
+  "bg-green-600",
+]
+
+/**
+ * Live strength bar and rule checklist for new-password fields
+ *
+ * Rules come from the shared policy, so the checklist matches the messages
+ * the server returns when it rejects a password.
+ */
+export function PasswordStrengthMeter({
+  password,
+  className,
+}: PasswordStrengthMeterProps) {
+  const strength = getPasswordStrength(password)
+  const { rules } = checkPassword(password)
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2">
+        <div
+          role="meter"
+          aria-label="Strength"
+          aria-valuemin={0}
+          aria-valuemax={4}
+          aria-valuenow={strength}
+          aria-valuetext={passwordStrengthLabels[strength]}
+          className="grid flex-1 grid-cols-4 gap-1"
+        >
+          {[1, 2, 3, 4].map((step) => (
+            <div
+              key={step}
+              className={cn(
+                "h-1.5 rounded-full",
+                password && strength >= step ? barColors[strength] : "bg-muted"
+              )}
+            />
+          ))}
+        </div>
+        <span className="w-16 text-right text-xs text-muted-foreground">
+          {password ? passwordStrengthLabels[strength] : ""}
+        </span>
+      </div>
+
+      <ul className="grid gap-1 text-xs sm:grid-cols-2">
+        {rules.map((rule) => (
+          <li
+            key={rule.id}
+            className={cn(
+              "flex items-center gap-1.5",
+              rule.met
+                ? "text-green-700 dark:text-green-400"
+                : "text-muted-foreground"
+            )}
+          >
+            {rule.met ? (
+              <Check className="h-3 w-3" aria-hidden />
+            ) : (
+              <X className="h-3 w-3" aria-hidden />
+            )}
+            {rule.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -6,6 +6,8 @@ import { authClient } from "@/lib/auth-client"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { checkPassword } from "@/lib/password-policy"
+import { PasswordStrengthMeter } from "./password-strength-meter"
 
 export function ResetPasswordForm() {
   const router = useRouter()
@@ -13,6 +15,7 @@ export function ResetPasswordForm() {
   const token = searchParams.get("token")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [password, setPassword] = useState("")
 
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault()
@@ -26,7 +29,6 @@ export function ResetPasswordForm() {
     }
 
     const formData = new FormData(e.currentTarget)
-    const password = formData.get("password") as string
     const confirmPassword = formData.get("confirmPassword") as string
 
     if (password !== confirmPassword) {
@@ -35,12 +37,25 @@ export function ResetPasswordForm() {
       return
     }
 
+    const { errors } = checkPassword(password)
+    if (errors.length > 0) {
+      setError(errors[0])
+      setIsLoading(false)
+      return
+    }
+
     try {
-      await authClient.resetPassword({
+      // Breached and recently used passwords are rejected by the server
+      const { error } = await authClient.resetPassword({
         newPassword: password,
         token,
       })
 
+      if (error) {
+        setError(error.message || "Failed to reset password")
+        return
+      }
+
       // Redirect to signin with success message
       router.push("/auth/signin?reset=success")
     } catch (err) {
@@ -77,11 +92,10 @@ export function ResetPasswordForm() {
           required
           autoComplete="new-password"
           disabled={isLoading}
-          minLength={8}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
         />
-        <p className="text-xs text-muted-foreground">
-          Must be at least 8 characters
-        </p>
+        <PasswordStrengthMeter password={password} />
       </div>
 
       <div className="space-y-2">
@@ -3,17 +3,44 @@
 import { useState } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
 import { signIn } from "@/lib/auth-client"
+import { getSafeRedirectPath } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import Link from "next/link"
+import { KeyRound, Mail } from "lucide-react"
+import type { OAuthProviderInfo } from "@/lib/server/oauth-providers"
+import { MagicLinkForm } from "./magic-link-form"
+import { SocialSignInButtons } from "./social-sign-in-buttons"
+import { TwoFactorChallenge } from "./two-factor-challenge"
 
-export function SignInForm() {
+interface SignInFormProps {
+  socialProviders?: OAuthProviderInfo[]
+}
+
+export function SignInForm({ socialProviders = [] }: SignInFormProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
   const resetSuccess = searchParams.get("reset") === "success"
+  // Set by BetterAuth when an OAuth callback fails
+  const oauthError = searchParams.get("error")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false)
+  const [mode, setMode] = useState<"password" | "magic-link">(
+    searchParams.get("mode") === "magic-link" ? "magic-link" : "password"
+  )
+
+  function onSignedIn() {
+    // Only same-origin paths, so the parameter cannot become an open redirect
+    router.push(
+      getSafeRedirectPath(
+        searchParams.get("redirectTo"),
+        window.location.origin
+      )
+    )
+    router.refresh()
+  }
 
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault()
@@ -25,13 +52,28 @@ export function SignInForm() {
     const password = formData.get("password") as string
 
     try {
-      await signIn.email({
+      const { data, error } = await signIn.email({
         email,
         password,
       })
 
-      router.push("/dashboard")
-      router.refresh()
+      if (error) {
+        // BetterAuth has already emailed a fresh verification link
+        if (error.code === "EMAIL_NOT_VERIFIED") {
+          router.push(`/auth/verify-email?email=${encodeURIComponent(email)}`)
+          return
+        }
+        setError(error.message || "Failed to sign in")
+        return
+      }
+
+      // Password accepted, but the account requires a second factor
+      if ("twoFactorRedirect" in data && data.twoFactorRedirect) {
+        setNeedsTwoFactor(true)
+        return
+      }
+
+      onSignedIn()
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to sign in")
     } finally {
@@ -39,56 +81,122 @@ export function SignInForm() {
     }
   }
 
+  async function onPasskeySignIn() {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const result = await signIn.passkey()
+      if (result?.error) {
+        setError(result.error.message || "Passkey sign in failed")
+        return
+      }
+      onSignedIn()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Passkey sign in failed")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (needsTwoFactor) {
+    return (
+      <TwoFactorChallenge
+        onSuccess={onSignedIn}
+        onCancel={() => setNeedsTwoFactor(false)}
+      />
+    )
+  }
+
+  if (mode === "magic-link") {
+    return <MagicLinkForm onUsePassword={() => setMode("password")} />
+  }
+
   return (
-    <form onSubmit={onSubmit} className="space-y-4">
-      {resetSuccess && (
-        <div className="rounded-md bg-green-50 p-3 text-sm text-green-800 dark:bg-green-900/20 dark:text-green-400">
-          Password reset successful! You can now sign in with your new password.
-        </div>
-      )}
+    <div className="space-y-4">
+      <SocialSignInButtons providers={socialProviders} disabled={isLoading} />
+
+      <form onSubmit={onSubmit} className="space-y-4">
+        {oauthError && !error && (
+          <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+            {oauthError === "account_not_linked"
+              ? "An account with this email already exists. Sign in with your password, then link the provider from your settings."
+              : "We couldn't sign you in with that provider. Please try again."}
+          </div>
+        )}
 
-      {error && (
-        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
-          {error}
+        {resetSuccess && (
+          <div className="rounded-md bg-green-50 p-3 text-sm text-green-800 dark:bg-green-900/20 dark:text-green-400">
+            Password reset successful! You can now sign in with your new
+            password.
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="email">Email</Label>
+          <Input
+            id="email"
+            name="email"
+            type="email"
+            placeholder="name@example.com"
+            required
+            autoComplete="email"
+            disabled={isLoading}
+          />
         </div>
-      )}
-
-      <div className="space-y-2">
-        <Label htmlFor="email">Email</Label>
-        <Input
-          id="email"
-          name="email"
-          type="email"
-          placeholder="name@example.com"
-          required
-          autoComplete="email"
-          disabled={isLoading}
-        />
-      </div>
-
-      <div className="space-y-2">
-        <div className="flex items-center justify-between">
-          <Label htmlFor="password">Password</Label>
-          <Link
-            href="/auth/forgot-password"
-            className="text-xs font-medium text-primary underline underline-offset-4 hover:text-primary/80"
-          >
-            Forgot password?
-          </Link>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="password">Password</Label>
+            <Link
+              href="/auth/forgot-password"
+              className="text-xs font-medium text-primary underline underline-offset-4 hover:text-primary/80"
+            >
+              Forgot password?
+            </Link>
+          </div>
+          <Input
+            id="password"
+            name="password"
+            type="password"
+            required
+            autoComplete="current-password"
+            disabled={isLoading}
+          />
         </div>
-        <Input
-          id="password"
-          name="password"
-          type="password"
-          required
-          autoComplete="current-password"
-          disabled={isLoading}
-        />
-      </div>
-
-      <Button type="submit" className="w-full" disabled={isLoading}>
-        {isLoading ? "Signing in..." : "Sign In"}
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Signing in..." : "Sign In"}
+        </Button>
+      </form>
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full gap-2"
+        disabled={isLoading}
+        onClick={onPasskeySignIn}
+      >
+        <KeyRound className="h-4 w-4" />
+        Use a passkey
+      </Button>
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full gap-2"
+        disabled={isLoading}
+        onClick={() => setMode("magic-link")}
+      >
+        <Mail className="h-4 w-4" />
+        Email me a sign-in link
       </Button>
-    </form>
+    </div>
   )
 }
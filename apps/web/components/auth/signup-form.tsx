@@ -6,11 +6,20 @@ import { signUp } from "@/lib/auth-client"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { checkPassword } from "@/lib/password-policy"
+import type { OAuthProviderInfo } from "@/lib/server/oauth-providers"
+import { PasswordStrengthMeter } from "./password-strength-meter"
+import { SocialSignInButtons } from "./social-sign-in-buttons"
 
-export function SignUpForm() {
+interface SignUpFormProps {
+  socialProviders?: OAuthProviderInfo[]
+}
+
+export function SignUpForm({ socialProviders = [] }: SignUpFormProps) {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [password, setPassword] = useState("")
 
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault()
@@ -20,15 +29,33 @@ export function SignUpForm() {
     const formData = new FormData(e.currentTarget)
     const name = formData.get("name") as string
     const email = formData.get("email") as string
-    const password = formData.get("password") as string
+
+    // The server enforces the same policy; this just saves a round trip
+    const { errors } = checkPassword(password)
+    if (errors.length > 0) {
+      setError(errors[0])
+      setIsLoading(false)
+      return
+    }
 
     try {
-      await signUp.email({
+      const { data, error } = await signUp.email({
         email,
         password,
         name,
       })
 
+      if (error) {
+        setError(error.message || "Failed to create account")
+        return
+      }
+
+      // No session is issued while email verification is required
+      if (!data.token) {
+        router.push(`/auth/verify-email?email=${encodeURIComponent(email)}`)
+        return
+      }
+
       // Sign up successful - redirect to dashboard
       router.push("/dashboard")
       router.refresh()
@@ -40,58 +67,61 @@ export function SignUpForm() {
   }
 
   return (
-    <form onSubmit={onSubmit} className="space-y-4">
-      {error && (
-        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
-          {error}
+    <div className="space-y-4">
+      <SocialSignInButtons providers={socialProviders} disabled={isLoading} />
+
+      <form onSubmit={onSubmit} className="space-y-4">
+        {error && (
+          <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="name">Name</Label>
+          <Input
+            id="name"
+            name="name"
+            type="text"
+            placeholder="John Doe"
+            required
+            autoComplete="name"
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email">Email</Label>
+          <Input
+            id="email"
+            name="email"
+            type="email"
+            placeholder="name@example.com"
+            required
+            autoComplete="email"
+            disabled={isLoading}
+          />
         </div>
-      )}
-
-      <div className="space-y-2">
-        <Label htmlFor="name">Name</Label>
-        <Input
-          id="name"
-          name="name"
-          type="text"
-          placeholder="John Doe"
-          required
-          autoComplete="name"
-          disabled={isLoading}
-        />
-      </div>
-
-      <div className="space-y-2">
-        <Label htmlFor="email">Email</Label>
-        <Input
-          id="email"
-          name="email"
-          type="email"
-          placeholder="name@example.com"
-          required
-          autoComplete="email"
-          disabled={isLoading}
-        />
-      </div>
-
-      <div className="space-y-2">
-        <Label htmlFor="password">Password</Label>
-        <Input
-          id="password"
-          name="password"
-          type="password"
-          required
-          autoComplete="new-password"
-          disabled={isLoading}
-          minLength={8}
-        />
-        <p className="text-xs text-muted-foreground">
-          Must be at least 8 characters
-        </p>
-      </div>
-
-      <Button type="submit" className="w-full" disabled={isLoading}>
-        {isLoading ? "Creating account..." : "Create Account"}
-      </Button>
-    </form>
+
+        <div className="space-y-2">
+          <Label htmlFor="password">Password</Label>
+          <Input
+            id="password"
+            name="password"
+            type="password"
+            required
+            autoComplete="new-password"
+            disabled={isLoading}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <PasswordStrengthMeter password={password} />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Creating account..." : "Create Account"}
+        </Button>
+      </form>
+    </div>
   )
 }
@@ -0,0 +1,106 @@
+"use client"
+
+import { useState } from "react"
+import { signIn } from "@/lib/auth-client"
+import { useFeature } from "@/lib/hooks/use-feature"
+import type { OAuthProviderInfo } from "@/lib/server/oauth-providers"
+import { Button } from "@/components/ui/button"
+
+interface SocialSignInButtonsProps {
+  providers: OAuthProviderInfo[]
+  callbackURL?: string
+  disabled?: boolean
+}
+
+/**
+ * "Continue with…" buttons for the OAuth providers configured on the server.
+ * Renders nothing unless the `socialAuth` flag is on; the server refuses
+ * the endpoints as well (lib/server/feature-gates.ts).
+ */
+export function SocialSignInButtons({
+  providers,
+  callbackURL = "/dashboard",
+  disabled,
+}: SocialSignInButtonsProps) {
+  const socialAuthEnabled = useFeature("socialAuth")
+  const [pendingProvider, setPendingProvider] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!socialAuthEnabled || providers.length === 0) {
+    return null
+  }
+
+  async function handleClick(provider: OAuthProviderInfo) {
+    setPendingProvider(provider.id)
+    setError(null)
+
+    // Failed callbacks land back on the sign-in page with ?error=
+    const errorCallbackURL = "/auth/signin"
+
+    try {
+      const { error } =
+        provider.type === "social"
+          ? await signIn.social({
+              provider: provider.id,
+              callbackURL,
+              errorCallbackURL,
+            })
+          : await signIn.oauth2({
+              providerId: provider.id,
+              callbackURL,
+              errorCallbackURL,
+            })
+
+      if (error) {
+        setError(error.message || `Failed to continue with ${provider.name}`)
+        setPendingProvider(null)
+      }
+      // On success the client follows the provider redirect
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : `Failed to continue with ${provider.name}`
+      )
+      setPendingProvider(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {providers.map((provider) => (
+          <Button
+            key={provider.id}
+            type="button"
+            variant="outline"
+            className="w-full"
+            disabled={disabled || pendingProvider !== null}
+            onClick={() => handleClick(provider)}
+          >
+            {pendingProvider === provider.id
+              ? "Redirecting..."
+              : `Continue with ${provider.name}`}
+          </Button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <span className="w-full border-t" />
+        </div>
+        <div className="relative flex justify-center text-xs uppercase">
+          <span className="bg-background px-2 text-muted-foreground">
+            or continue with email
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
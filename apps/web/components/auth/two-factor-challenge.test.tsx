@@ -0,0 +1,71 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {render, screen} from "@testing-library/react"
+import userEvent from "@testing-library/user-event"
+import {twoFactor} from "@/lib/auth-client"
+import {TwoFactorChallenge} from "./two-factor-challenge"
+
+vi.mock("@/lib/auth-client", () => ({
+  twoFactor: {
+    verifyTotp: vi.fn(),
+    verifyBackupCode: vi.fn(),
+  },
+}))
+
+describe("TwoFactorChallenge", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("verifies an authenticator code", async () => {
+    vi.mocked(twoFactor.verifyTotp).mockResolvedValue({
+      data: {},
+      error: null,
+    } as never)
+    const onSuccess = vi.fn()
+    const user = userEvent.setup()
+
+    render(<TwoFactorChallenge onSuccess={onSuccess} onCancel={vi.fn()} />)
+    await user.type(screen.getByLabelText(/authentication code/i), "123456")
+    await user.click(screen.getByRole("button", {name: "Verify"}))
+
+    expect(twoFactor.verifyTotp).toHaveBeenCalledWith({
+      code: "123456",
+      trustDevice: false,
+    })
+    expect(onSuccess).toHaveBeenCalled()
+  })
+
+  it("switches to backup codes", async () => {
+    vi.mocked(twoFactor.verifyBackupCode).mockResolvedValue({
+      data: {},
+      error: null,
+    } as never)
+    const user = userEvent.setup()
+
+    render(<TwoFactorChallenge onSuccess={vi.fn()} onCancel={vi.fn()} />)
+    await user.click(screen.getByRole("button", {name: /use a backup code/i}))
+    await user.type(screen.getByLabelText(/backup code/i), "abcde-fghij")
+    await user.click(screen.getByRole("button", {name: "Verify"}))
+
+    expect(twoFactor.verifyBackupCode).toHaveBeenCalledWith({
+      code: "abcde-fghij",
+      trustDevice: false,
+    })
+  })
+
+  it("shows the server error for a wrong code", async () => {
+    vi.mocked(twoFactor.verifyTotp).mockResolvedValue({
+      data: null,
+      error: {message: "Invalid code", status: 401},
+    } as never)
+    const onSuccess = vi.fn()
+    const user = userEvent.setup()
+
+    render(<TwoFactorChallenge onSuccess={onSuccess} onCancel={vi.fn()} />)
+    await user.type(screen.getByLabelText(/authentication code/i), "000000")
+    await user.click(screen.getByRole("button", {name: "Verify"}))
+
+    expect(await screen.findByText("Invalid code")).toBeInTheDocument()
+    expect(onSuccess).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,118 @@
+"use client"
+
+import { useState } from "react"
+import { twoFactor } from "@/lib/auth-client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface TwoFactorChallengeProps {
+  onSuccess: () => void
+  onCancel: () => void
+}
+
+/**
+ * Second sign-in step for accounts with TOTP enabled
+ *
+ * Rendered by `SignInForm` after the password check returns
+ * `twoFactorRedirect`. Accepts either an authenticator code or a single-use
+ * backup code.
+ */
+export function TwoFactorChallenge({
+  onSuccess,
+  onCancel,
+}: TwoFactorChallengeProps) {
+  const [useBackupCode, setUseBackupCode] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    const formData = new FormData(e.currentTarget)
+    const code = (formData.get("code") as string).trim()
+    const trustDevice = formData.get("trustDevice") === "on"
+
+    try {
+      const { error } = useBackupCode
+        ? await twoFactor.verifyBackupCode({ code, trustDevice })
+        : await twoFactor.verifyTotp({ code, trustDevice })
+
+      if (error) {
+        setError(error.message || "Invalid code")
+        return
+      }
+
+      onSuccess()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to verify code")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="code">
+          {useBackupCode ? "Backup code" : "Authentication code"}
+        </Label>
+        <Input
+          key={useBackupCode ? "backup" : "totp"}
+          id="code"
+          name="code"
+          type="text"
+          required
+          autoFocus
+          autoComplete="one-time-code"
+          inputMode={useBackupCode ? "text" : "numeric"}
+          pattern={useBackupCode ? undefined : "[0-9]{6}"}
+          placeholder={useBackupCode ? "xxxxx-xxxxx" : "123456"}
+          disabled={isLoading}
+        />
+        <p className="text-xs text-muted-foreground">
+          {useBackupCode
+            ? "Each backup code can only be used once."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" name="trustDevice" disabled={isLoading} />
+        Trust this device for 30 days
+      </label>
+
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? "Verifying..." : "Verify"}
+      </Button>
+
+      <div className="flex items-center justify-between text-xs">
+        <button
+          type="button"
+          onClick={() => {
+            setUseBackupCode(!useBackupCode)
+            setError(null)
+          }}
+          className="font-medium text-primary underline underline-offset-4 hover:text-primary/80"
+        >
+          {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-muted-foreground underline underline-offset-4 hover:text-foreground"
+        >
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -1,27 +1,59 @@
 "use client"
 
+import {useState} from "react"
+import Link from "next/link"
+import {requestDataExport} from "@/lib/actions/account"
 import {Button} from "@/components/ui/button"
 
-export function QuickActions() {
+interface QuickActionsProps {
+  // Only site admins can create users
+  canCreateUsers?: boolean
+}
+
+export function QuickActions({canCreateUsers = false}: QuickActionsProps) {
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportMessage, setExportMessage] = useState<string | null>(null)
+
+  async function handleExport() {
+    setIsExporting(true)
+    setExportMessage(null)
+
+    const result = await requestDataExport()
+    setExportMessage(
+      result.success
+        ? "Your export is being prepared. We will email you when it is ready."
+        : result.error
+    )
+    setIsExporting(false)
+  }
+
   return (
     <div className='rounded-lg border bg-card p-4 sm:p-6'>
       <h3 className='mb-3 text-base font-semibold sm:mb-4 sm:text-lg'>
         Quick Actions
       </h3>
       <div className='space-y-2 sm:space-y-3'>
-        <Button
-          className='h-11 w-full justify-start text-sm sm:h-10 sm:text-base'
-          onClick={() => console.log("Create user")}
-        >
-          Create New User
-        </Button>
+        {canCreateUsers && (
+          <Button
+            asChild
+            className='h-11 w-full justify-start text-sm sm:h-10 sm:text-base'
+          >
+            <Link href='/admin/users/new'>Create New User</Link>
+          </Button>
+        )}
         <Button
           variant='outline'
           className='h-11 w-full justify-start text-sm sm:h-10 sm:text-base'
-          onClick={() => console.log("Export data")}
+          disabled={isExporting}
+          onClick={handleExport}
         >
-          Export Data
+          {isExporting ? "Requesting export..." : "Export Data"}
         </Button>
+        {exportMessage && (
+          <p role='status' className='text-sm text-muted-foreground'>
+            {exportMessage}
+          </p>
+        )}
         <Button
           variant='outline'
           className='h-11 w-full justify-start text-sm sm:h-10 sm:text-base'
@@ -0,0 +1,122 @@
+"use client"
+
+import {useState} from "react"
+import {Monitor, Smartphone, Tablet} from "lucide-react"
+import {revokeOtherSessions, revokeSession} from "@/lib/actions/sessions"
+import type {DeviceType} from "@/lib/user-agent"
+import {Button} from "@/components/ui/button"
+
+export interface ActiveSession {
+  id: string
+  browser: string
+  os: string
+  device: DeviceType
+  ipAddress: string | null
+  createdAt: string
+  lastActiveAt: string
+  isCurrent: boolean
+}
+
+interface ActiveSessionsProps {
+  sessions: ActiveSession[]
+}
+
+const deviceIcons = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+} satisfies Record<DeviceType, unknown>
+
+export function ActiveSessions({sessions}: ActiveSessionsProps) {
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasOtherSessions = sessions.some(session => !session.isCurrent)
+
+  async function handleRevoke(sessionId: string) {
+    setPending(sessionId)
+    setError(null)
+
+    // The page is revalidated by the action, so the list refreshes itself
+    const result = await revokeSession({sessionId})
+    if (!result.success) {
+      setError(result.error)
+    }
+    setPending(null)
+  }
+
+  async function handleRevokeOthers() {
+    setPending("others")
+    setError(null)
+
+    const result = await revokeOtherSessions()
+    if (!result.success) {
+      setError(result.error)
+    }
+    setPending(null)
+  }
+
+  return (
+    <div className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+
+      <ul className='divide-y rounded-lg border'>
+        {sessions.map(session => {
+          const DeviceIcon = deviceIcons[session.device]
+          return (
+            <li
+              key={session.id}
+              className='flex items-center justify-between gap-4 p-3 sm:p-4'
+            >
+              <div className='flex min-w-0 items-center gap-3'>
+                <DeviceIcon className='h-5 w-5 shrink-0 text-muted-foreground' />
+                <div className='min-w-0'>
+                  <p className='text-sm font-medium'>
+                    {session.browser} on {session.os}
+                    {session.isCurrent && (
+                      <span className='ml-2 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary'>
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className='text-xs text-muted-foreground'>
+                    {session.ipAddress ?? "Unknown IP"} · Signed in{" "}
+                    {new Date(session.createdAt).toLocaleDateString()} · Last
+                    active {new Date(session.lastActiveAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              {!session.isCurrent && (
+                <Button
+                  variant='outline'
+                  size='sm'
+                  disabled={pending !== null}
+                  onClick={() => handleRevoke(session.id)}
+                >
+                  {pending === session.id ? "Revoking..." : "Revoke"}
+                </Button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+
+      {hasOtherSessions && (
+        <Button
+          variant='destructive'
+          size='sm'
+          disabled={pending !== null}
+          onClick={handleRevokeOthers}
+        >
+          {pending === "others"
+            ? "Signing out..."
+            : "Sign out all other sessions"}
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import {useState} from "react"
+import {KeyRound} from "lucide-react"
+import {revokeApiKey} from "@/lib/actions/api-keys"
+import {Button} from "@/components/ui/button"
+
+export interface ApiKeySummary {
+  id: string
+  name: string | null
+  // Prefix and first characters, e.g. "sk_AbC123xy"
+  start: string | null
+  scopes: string[]
+  createdAt: string
+  expiresAt: string | null
+  lastUsedAt: string | null
+}
+
+interface ApiKeysProps {
+  apiKeys: ApiKeySummary[]
+}
+
+export function ApiKeys({apiKeys}: ApiKeysProps) {
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleRevoke(keyId: string) {
+    setPending(keyId)
+    setError(null)
+
+    // The page is revalidated by the action, so the list refreshes itself
+    const result = await revokeApiKey({keyId})
+    if (!result.success) {
+      setError(result.error)
+    }
+    setPending(null)
+  }
+
+  if (apiKeys.length === 0) {
+    return (
+      <p className='text-sm text-muted-foreground'>
+        You have not created any API keys.
+      </p>
+    )
+  }
+
+  return (
+    <div className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+
+      <ul className='divide-y rounded-lg border'>
+        {apiKeys.map(key => {
+          const expired =
+            key.expiresAt !== null && new Date(key.expiresAt) < new Date()
+          return (
+            <li
+              key={key.id}
+              className='flex items-center justify-between gap-4 p-3 sm:p-4'
+            >
+              <div className='flex min-w-0 items-center gap-3'>
+                <KeyRound className='h-5 w-5 shrink-0 text-muted-foreground' />
+                <div className='min-w-0'>
+                  <p className='text-sm font-medium'>
+                    {key.name ?? "Unnamed key"}
+                    {key.start && (
+                      <code className='ml-2 rounded bg-muted px-1.5 py-0.5 text-xs'>
+                        {key.start}…
+                      </code>
+                    )}
+                    {expired && (
+                      <span className='ml-2 rounded-full bg-destructive/15 px-2 py-0.5 text-xs text-destructive'>
+                        Expired
+                      </span>
+                    )}
+                  </p>
+                  <p className='truncate text-xs text-muted-foreground'>
+                    {key.scopes.join(", ")}
+                  </p>
+                  <p className='text-xs text-muted-foreground'>
+                    Created {new Date(key.createdAt).toLocaleDateString()} ·{" "}
+                    {key.expiresAt
+                      ? `Expires ${new Date(key.expiresAt).toLocaleDateString()}`
+                      : "Never expires"}{" "}
+                    ·{" "}
+                    {key.lastUsedAt
+                      ? `Last used ${new Date(key.lastUsedAt).toLocaleString()}`
+                      : "Never used"}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant='outline'
+                size='sm'
+                disabled={pending !== null}
+                onClick={() => handleRevoke(key.id)}
+              >
+                {pending === key.id ? "Revoking..." : "Revoke"}
+              </Button>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import {useRef, useState} from "react"
+import {AVATAR_MAX_BYTES, avatarContentTypes} from "@/lib/avatars"
+import {removeAvatar, uploadAvatar} from "@/lib/actions/account"
+import {UserAvatar} from "@/components/shared/user-avatar"
+import {Button} from "@/components/ui/button"
+
+interface AvatarUploadProps {
+  user: {
+    name: string
+    image: string | null
+  }
+}
+
+export function AvatarUpload({user}: AvatarUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    setError(null)
+    // Checked again on the server; this just saves uploading a doomed file
+    if (file.size > AVATAR_MAX_BYTES) {
+      setError(
+        `Images must be ${AVATAR_MAX_BYTES / (1024 * 1024)} MB or smaller`
+      )
+      return
+    }
+
+    setIsPending(true)
+    const data = new FormData()
+    data.set("avatar", file)
+    // The layout is revalidated by the action, so the new avatar shows up
+    // here and in the navigation
+    const result = await uploadAvatar(data)
+    if (!result.success) {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  async function handleRemove() {
+    setIsPending(true)
+    setError(null)
+
+    const result = await removeAvatar()
+    if (!result.success) {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  return (
+    <div className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+
+      <div className='flex items-center gap-4'>
+        <UserAvatar user={user} size={64} />
+        <div className='space-y-2'>
+          <div className='flex gap-2'>
+            <Button
+              type='button'
+              variant='outline'
+              size='sm'
+              disabled={isPending}
+              onClick={() => inputRef.current?.click()}
+            >
+              {isPending ? "Uploading..." : "Upload image"}
+            </Button>
+            {user.image && (
+              <Button
+                type='button'
+                variant='ghost'
+                size='sm'
+                disabled={isPending}
+                onClick={handleRemove}
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+          <p className='text-xs text-muted-foreground'>
+            JPEG, PNG, WebP or GIF up to {AVATAR_MAX_BYTES / (1024 * 1024)} MB.
+            Cropped to a square.
+          </p>
+        </div>
+      </div>
+
+      <input
+        ref={inputRef}
+        type='file'
+        accept={avatarContentTypes.join(",")}
+        className='hidden'
+        aria-label='Avatar image'
+        onChange={handleChange}
+      />
+    </div>
+  )
+}
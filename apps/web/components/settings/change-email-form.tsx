@@ -0,0 +1,100 @@
+"use client"
+
+import {useState} from "react"
+import {cancelEmailChange, changeEmail} from "@/lib/actions/account"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+interface ChangeEmailFormProps {
+  email: string
+  // New address awaiting confirmation, if a change was requested
+  pendingEmail: string | null
+}
+
+export function ChangeEmailForm({email, pendingEmail}: ChangeEmailFormProps) {
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const form = e.currentTarget
+    const data = new FormData(form)
+
+    setIsPending(true)
+    setError(null)
+
+    // The page is revalidated by the action and shows the pending address
+    const result = await changeEmail({
+      email: (data.get("email") as string).trim(),
+    })
+    if (result.success) {
+      form.reset()
+    } else {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  async function handleCancel() {
+    setIsPending(true)
+    setError(null)
+
+    const result = await cancelEmailChange()
+    if (!result.success) {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  return (
+    <div className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+
+      <p className='text-sm'>
+        Signed in as <span className='font-medium'>{email}</span>
+      </p>
+
+      {pendingEmail && (
+        <div className='flex flex-col gap-3 rounded-md border p-3 sm:flex-row sm:items-center sm:justify-between'>
+          <p className='text-sm text-muted-foreground'>
+            We sent a confirmation link to{" "}
+            <span className='font-medium text-foreground'>{pendingEmail}</span>.
+            Your address changes once it is opened.
+          </p>
+          <Button
+            type='button'
+            variant='outline'
+            size='sm'
+            disabled={isPending}
+            onClick={handleCancel}
+          >
+            Cancel change
+          </Button>
+        </div>
+      )}
+
+      <form onSubmit={onSubmit} className='space-y-4'>
+        <div className='space-y-2'>
+          <Label htmlFor='new-email'>New email</Label>
+          <Input
+            id='new-email'
+            name='email'
+            type='email'
+            autoComplete='email'
+            placeholder='you@example.com'
+            required
+            disabled={isPending}
+          />
+        </div>
+        <Button type='submit' disabled={isPending}>
+          {isPending ? "Sending..." : "Send confirmation link"}
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import {useState} from "react"
+import {authClient} from "@/lib/auth-client"
+import {checkPassword} from "@/lib/password-policy"
+import {PasswordStrengthMeter} from "@/components/auth/password-strength-meter"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+export function ChangePasswordForm() {
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [changed, setChanged] = useState(false)
+  const [password, setPassword] = useState("")
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const form = e.currentTarget
+    const data = new FormData(form)
+
+    setError(null)
+    setChanged(false)
+
+    if (password !== data.get("confirmPassword")) {
+      setError("Passwords do not match")
+      return
+    }
+    const {errors} = checkPassword(password)
+    if (errors.length > 0) {
+      setError(errors[0])
+      return
+    }
+
+    setIsPending(true)
+    // Runs in the browser so the rotated session cookie replaces this one;
+    // breached and recently used passwords are rejected by the server
+    const {error} = await authClient.changePassword({
+      currentPassword: data.get("currentPassword") as string,
+      newPassword: password,
+      revokeOtherSessions: true,
+    })
+    if (error) {
+      setError(error.message || "Failed to change password")
+    } else {
+      form.reset()
+      setPassword("")
+      setChanged(true)
+    }
+    setIsPending(false)
+  }
+
+  return (
+    <form onSubmit={onSubmit} className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+      {changed && (
+        <div className='rounded-md bg-primary/10 p-3 text-sm'>
+          Password changed. Your other devices have been signed out.
+        </div>
+      )}
+
+      <div className='space-y-2'>
+        <Label htmlFor='current-password'>Current password</Label>
+        <Input
+          id='current-password'
+          name='currentPassword'
+          type='password'
+          autoComplete='current-password'
+          required
+          disabled={isPending}
+        />
+      </div>
+
+      <div className='space-y-2'>
+        <Label htmlFor='new-password'>New password</Label>
+        <Input
+          id='new-password'
+          name='newPassword'
+          type='password'
+          autoComplete='new-password'
+          required
+          disabled={isPending}
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+        />
+        <PasswordStrengthMeter password={password} />
+      </div>
+
+      <div className='space-y-2'>
+        <Label htmlFor='confirm-password'>Confirm new password</Label>
+        <Input
+          id='confirm-password'
+          name='confirmPassword'
+          type='password'
+          autoComplete='new-password'
+          required
+          disabled={isPending}
+        />
+      </div>
+
+      <Button type='submit' disabled={isPending}>
+        {isPending ? "Changing..." : "Change password"}
+      </Button>
+    </form>
+  )
+}
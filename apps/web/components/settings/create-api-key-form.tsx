@@ -0,0 +1,144 @@
+"use client"
+
+import {useState} from "react"
+import {Check, Copy} from "lucide-react"
+import {apiKeyExpiryOptions} from "@/lib/api-keys"
+import {createApiKey} from "@/lib/actions/api-keys"
+import type {Permission} from "@/lib/permissions"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+interface CreateApiKeyFormProps {
+  // Scopes the user's role allows them to grant
+  scopes: readonly Permission[]
+}
+
+export function CreateApiKeyForm({scopes}: CreateApiKeyFormProps) {
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const form = e.currentTarget
+    const data = new FormData(form)
+    const expiry = data.get("expiresInDays") as string
+
+    setIsPending(true)
+    setError(null)
+    setCreatedKey(null)
+    setCopied(false)
+
+    const result = await createApiKey({
+      name: (data.get("name") as string).trim(),
+      scopes: data.getAll("scopes") as Permission[],
+      expiresInDays: expiry ? Number(expiry) : null,
+    })
+    if (result.success) {
+      form.reset()
+      setCreatedKey(result.data.key)
+    } else {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  async function handleCopy() {
+    if (!createdKey) return
+    await navigator.clipboard.writeText(createdKey)
+    setCopied(true)
+  }
+
+  return (
+    <form onSubmit={onSubmit} className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+      {createdKey && (
+        <div className='space-y-2 rounded-md border border-primary/30 bg-primary/5 p-3'>
+          <p className='text-sm font-medium'>
+            Copy your new key now. It will not be shown again.
+          </p>
+          <div className='flex gap-2'>
+            <Input
+              readOnly
+              value={createdKey}
+              aria-label='New API key'
+              className='font-mono text-xs'
+              onFocus={e => e.currentTarget.select()}
+            />
+            <Button
+              type='button'
+              variant='outline'
+              className='gap-2'
+              onClick={handleCopy}
+            >
+              {copied ? (
+                <Check className='h-4 w-4' />
+              ) : (
+                <Copy className='h-4 w-4' />
+              )}
+              {copied ? "Copied" : "Copy"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className='grid gap-4 sm:grid-cols-2'>
+        <div className='space-y-2'>
+          <Label htmlFor='api-key-name'>Name</Label>
+          <Input
+            id='api-key-name'
+            name='name'
+            placeholder='CI deploys'
+            maxLength={32}
+            required
+            disabled={isPending}
+          />
+        </div>
+        <div className='space-y-2'>
+          <Label htmlFor='api-key-expiry'>Expires after</Label>
+          <select
+            id='api-key-expiry'
+            name='expiresInDays'
+            defaultValue='90'
+            disabled={isPending}
+            className='h-9 w-full rounded-md border border-input bg-background px-2 text-sm'
+          >
+            {apiKeyExpiryOptions.map(option => (
+              <option key={option.label} value={option.days ?? ""}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <fieldset className='space-y-2'>
+        <legend className='text-sm font-medium'>Scopes</legend>
+        <div className='grid gap-2 sm:grid-cols-2'>
+          {scopes.map(scope => (
+            <label key={scope} className='flex items-center gap-2 text-sm'>
+              <input
+                type='checkbox'
+                name='scopes'
+                value={scope}
+                disabled={isPending}
+                className='h-4 w-4 rounded border-input'
+              />
+              <code className='text-xs'>{scope}</code>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <Button type='submit' disabled={isPending}>
+        {isPending ? "Creating..." : "Create API key"}
+      </Button>
+    </form>
+  )
+}
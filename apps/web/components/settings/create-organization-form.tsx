@@ -0,0 +1,58 @@
+"use client"
+
+import {useState} from "react"
+import {useRouter} from "next/navigation"
+import {createOrganization} from "@/lib/actions/organizations"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+export function CreateOrganizationForm() {
+  const router = useRouter()
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const form = e.currentTarget
+    const name = (new FormData(form).get("name") as string).trim()
+
+    setIsPending(true)
+    setError(null)
+
+    // The new organization becomes active for this session
+    const result = await createOrganization({name})
+    if (result.success) {
+      form.reset()
+      router.refresh()
+    } else {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  return (
+    <form onSubmit={onSubmit} className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+      <div className='space-y-2'>
+        <Label htmlFor='organization-name'>Organization name</Label>
+        <Input
+          id='organization-name'
+          name='name'
+          placeholder='Acme Inc.'
+          minLength={2}
+          maxLength={64}
+          required
+          disabled={isPending}
+        />
+      </div>
+      <Button type='submit' disabled={isPending}>
+        {isPending ? "Creating..." : "Create organization"}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import {useState} from "react"
+import {requestDataExport} from "@/lib/actions/account"
+import {Button} from "@/components/ui/button"
+
+export interface LatestDataExport {
+  status: string
+  createdAt: string
+  expiresAt: string | null
+}
+
+interface DataExportProps {
+  latest: LatestDataExport | null
+}
+
+function describeExport(latest: LatestDataExport) {
+  const requested = new Date(latest.createdAt).toLocaleString()
+  switch (latest.status) {
+    case "pending":
+      return `Your export requested on ${requested} is being prepared. We will email you when it is ready.`
+    case "ready":
+      return `Your export is ready. Use the link we emailed you before ${new Date(
+        latest.expiresAt ?? latest.createdAt
+      ).toLocaleString()}.`
+    case "failed":
+      return "Your last export could not be prepared. Please try again."
+    default:
+      return null
+  }
+}
+
+export function DataExport({latest}: DataExportProps) {
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const description = latest ? describeExport(latest) : null
+
+  async function handleRequest() {
+    setIsPending(true)
+    setError(null)
+
+    // The page is revalidated by the action and shows the pending export
+    const result = await requestDataExport()
+    if (!result.success) {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  return (
+    <div className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+      {description && <p className='text-sm'>{description}</p>}
+
+      <Button
+        type='button'
+        variant='outline'
+        disabled={isPending}
+        onClick={handleRequest}
+      >
+        {isPending ? "Requesting..." : "Download my data"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import {useState} from "react"
+import {
+  cancelAccountDeletion,
+  scheduleAccountDeletion,
+} from "@/lib/actions/account"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+interface DeleteAccountProps {
+  email: string
+  // ISO date the account will be deleted on, if deletion is scheduled
+  deletionScheduledAt: string | null
+  graceDays: number
+}
+
+export function DeleteAccount({
+  email,
+  deletionScheduledAt,
+  graceDays,
+}: DeleteAccountProps) {
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [confirmation, setConfirmation] = useState("")
+
+  const confirmed = confirmation.trim().toLowerCase() === email.toLowerCase()
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    setIsPending(true)
+    setError(null)
+
+    const result = await scheduleAccountDeletion({confirmation})
+    if (result.success) {
+      setConfirmation("")
+    } else {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  async function handleCancel() {
+    setIsPending(true)
+    setError(null)
+
+    const result = await cancelAccountDeletion()
+    if (!result.success) {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  return (
+    <div className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+
+      {deletionScheduledAt ? (
+        <div className='space-y-3'>
+          <p className='text-sm'>
+            Your account will be deleted on{" "}
+            <span className='font-medium'>
+              {new Date(deletionScheduledAt).toLocaleDateString()}
+            </span>
+            . Cancel before then to keep it.
+          </p>
+          <Button
+            type='button'
+            variant='outline'
+            disabled={isPending}
+            onClick={handleCancel}
+          >
+            {isPending ? "Cancelling..." : "Keep my account"}
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={onSubmit} className='space-y-4'>
+          <p className='text-sm text-muted-foreground'>
+            Your account, sessions, API keys and organizations you are the only
+            member of are deleted {graceDays} days after you confirm. Other
+            devices are signed out straight away.
+          </p>
+          <div className='space-y-2'>
+            <Label htmlFor='delete-confirmation'>
+              Type <span className='font-mono'>{email}</span> to confirm
+            </Label>
+            <Input
+              id='delete-confirmation'
+              autoComplete='off'
+              value={confirmation}
+              disabled={isPending}
+              onChange={e => setConfirmation(e.target.value)}
+            />
+          </div>
+          <Button
+            type='submit'
+            variant='destructive'
+            disabled={isPending || !confirmed}
+          >
+            {isPending ? "Scheduling..." : "Delete account"}
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
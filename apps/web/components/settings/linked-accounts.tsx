@@ -0,0 +1,120 @@
+"use client"
+
+import {useState} from "react"
+import {useRouter} from "next/navigation"
+import {authClient} from "@/lib/auth-client"
+import {useFeature} from "@/lib/hooks/use-feature"
+import type {OAuthProviderInfo} from "@/lib/server/oauth-providers"
+import {Button} from "@/components/ui/button"
+
+interface LinkedAccount {
+  id: string
+  providerId: string
+  providerName: string
+  accountId: string
+  createdAt: string
+}
+
+interface LinkedAccountsProps {
+  accounts: LinkedAccount[]
+  providers: OAuthProviderInfo[]
+}
+
+const callbackURL = "/dashboard/settings/accounts"
+
+export function LinkedAccounts({accounts, providers}: LinkedAccountsProps) {
+  const router = useRouter()
+  const socialAuthEnabled = useFeature("socialAuth")
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const linkedProviderIds = new Set(accounts.map(account => account.providerId))
+  const linkable = socialAuthEnabled
+    ? providers.filter(provider => !linkedProviderIds.has(provider.id))
+    : []
+
+  async function handleUnlink(account: LinkedAccount) {
+    setPending(account.id)
+    setError(null)
+
+    const {error} = await authClient.unlinkAccount({
+      providerId: account.providerId,
+      accountId: account.accountId,
+    })
+
+    if (error) {
+      setError(error.message || `Failed to unlink ${account.providerName}`)
+    } else {
+      router.refresh()
+    }
+    setPending(null)
+  }
+
+  async function handleLink(provider: OAuthProviderInfo) {
+    setPending(provider.id)
+    setError(null)
+
+    // Both calls redirect to the provider on success
+    const {error} =
+      provider.type === "social"
+        ? await authClient.linkSocial({provider: provider.id, callbackURL})
+        : await authClient.oauth2.link({providerId: provider.id, callbackURL})
+
+    if (error) {
+      setError(error.message || `Failed to link ${provider.name}`)
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+
+      <ul className='divide-y rounded-lg border'>
+        {accounts.map(account => (
+          <li
+            key={account.id}
+            className='flex items-center justify-between gap-4 p-3 sm:p-4'
+          >
+            <div className='min-w-0'>
+              <p className='text-sm font-medium'>{account.providerName}</p>
+              <p className='text-xs text-muted-foreground'>
+                Connected {new Date(account.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+            <Button
+              variant='outline'
+              size='sm'
+              disabled={accounts.length <= 1 || pending !== null}
+              onClick={() => handleUnlink(account)}
+            >
+              {pending === account.id ? "Unlinking..." : "Unlink"}
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      {linkable.length > 0 && (
+        <div className='flex flex-wrap gap-2'>
+          {linkable.map(provider => (
+            <Button
+              key={provider.id}
+              variant='secondary'
+              size='sm'
+              disabled={pending !== null}
+              onClick={() => handleLink(provider)}
+            >
+              {pending === provider.id
+                ? "Redirecting..."
+                : `Connect ${provider.name}`}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+"use client"
+
+import {useState} from "react"
+import {inviteMember, revokeInvitation} from "@/lib/actions/organizations"
+import {
+  invitableRoles,
+  memberRoleLabels,
+  type MemberRole,
+} from "@/lib/organization-roles"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+export interface PendingInvitation {
+  id: string
+  email: string
+  role: MemberRole
+  invitedAt: string
+  // Null once the link has expired
+  expiresAt: string | null
+}
+
+interface OrganizationInvitationsProps {
+  invitations: PendingInvitation[]
+}
+
+type InvitableRole = (typeof invitableRoles)[number]
+
+export function OrganizationInvitations({
+  invitations,
+}: OrganizationInvitationsProps) {
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  async function onInvite(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const form = e.currentTarget
+    const formData = new FormData(form)
+    const email = (formData.get("email") as string).trim()
+    const role = formData.get("role") as InvitableRole
+
+    setPending("invite")
+    setError(null)
+    setNotice(null)
+
+    const result = await inviteMember({email, role})
+    if (result.success) {
+      setNotice(`Invitation sent to ${email}`)
+      form.reset()
+    } else {
+      setError(result.error)
+    }
+    setPending(null)
+  }
+
+  async function handleRevoke(invitationId: string) {
+    setPending(invitationId)
+    setError(null)
+    setNotice(null)
+
+    const result = await revokeInvitation({invitationId})
+    if (!result.success) {
+      setError(result.error)
+    }
+    setPending(null)
+  }
+
+  return (
+    <div className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className='rounded-md bg-green-500/15 p-3 text-sm text-green-700 dark:text-green-400'>
+          {notice}
+        </div>
+      )}
+
+      <form onSubmit={onInvite} className='flex flex-col gap-3 sm:flex-row'>
+        <div className='flex-1 space-y-2'>
+          <Label htmlFor='invite-email'>Email address</Label>
+          <Input
+            id='invite-email'
+            name='email'
+            type='email'
+            placeholder='colleague@example.com'
+            required
+            disabled={pending !== null}
+          />
+        </div>
+        <div className='space-y-2'>
+          <Label htmlFor='invite-role'>Role</Label>
+          <select
+            id='invite-role'
+            name='role'
+            defaultValue='member'
+            disabled={pending !== null}
+            className='flex h-10 w-full rounded-md border border-input bg-background px-3 text-sm sm:w-36'
+          >
+            {invitableRoles.map(role => (
+              <option key={role} value={role}>
+                {memberRoleLabels[role]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button
+          type='submit'
+          className='sm:self-end'
+          disabled={pending !== null}
+        >
+          {pending === "invite" ? "Sending..." : "Send invite"}
+        </Button>
+      </form>
+
+      {invitations.length > 0 && (
+        <ul className='divide-y rounded-lg border'>
+          {invitations.map(invitation => (
+            <li
+              key={invitation.id}
+              className='flex items-center justify-between gap-4 p-3 sm:p-4'
+            >
+              <div className='min-w-0'>
+                <p className='truncate text-sm font-medium'>
+                  {invitation.email}
+                </p>
+                <p className='text-xs text-muted-foreground'>
+                  {memberRoleLabels[invitation.role]} ·{" "}
+                  {invitation.expiresAt
+                    ? `Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`
+                    : "Expired"}
+                </p>
+              </div>
+              <Button
+                variant='outline'
+                size='sm'
+                disabled={pending !== null}
+                onClick={() => handleRevoke(invitation.id)}
+              >
+                {pending === invitation.id ? "Revoking..." : "Revoke"}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import {useState} from "react"
+import {removeMember} from "@/lib/actions/organizations"
+import {memberRoleLabels, type MemberRole} from "@/lib/organization-roles"
+import {Button} from "@/components/ui/button"
+import {Can} from "@/components/shared/can"
+
+export interface OrganizationMemberItem {
+  id: string
+  name: string
+  email: string
+  role: MemberRole
+  joinedAt: string
+  isCurrentUser: boolean
+}
+
+interface OrganizationMembersProps {
+  members: OrganizationMemberItem[]
+}
+
+export function OrganizationMembers({members}: OrganizationMembersProps) {
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleRemove(memberId: string) {
+    setPending(memberId)
+    setError(null)
+
+    const result = await removeMember({memberId})
+    if (!result.success) {
+      setError(result.error)
+    }
+    setPending(null)
+  }
+
+  return (
+    <div className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+
+      <ul className='divide-y rounded-lg border'>
+        {members.map(member => (
+          <li
+            key={member.id}
+            className='flex items-center justify-between gap-4 p-3 sm:p-4'
+          >
+            <div className='min-w-0'>
+              <p className='truncate text-sm font-medium'>
+                {member.name}
+                {member.isCurrentUser && (
+                  <span className='ml-2 text-xs text-muted-foreground'>
+                    (you)
+                  </span>
+                )}
+              </p>
+              <p className='truncate text-xs text-muted-foreground'>
+                {member.email} · Joined{" "}
+                {new Date(member.joinedAt).toLocaleDateString()}
+              </p>
+            </div>
+            <div className='flex shrink-0 items-center gap-3'>
+              <span className='rounded-full bg-muted px-2 py-0.5 text-xs font-medium'>
+                {memberRoleLabels[member.role]}
+              </span>
+              {member.role !== "owner" && !member.isCurrentUser && (
+                <Can permission='members:remove'>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    disabled={pending !== null}
+                    onClick={() => handleRemove(member.id)}
+                  >
+                    {pending === member.id ? "Removing..." : "Remove"}
+                  </Button>
+                </Can>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
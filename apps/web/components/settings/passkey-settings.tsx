@@ -0,0 +1,140 @@
+"use client"
+
+import {useState} from "react"
+import {useRouter} from "next/navigation"
+import {KeyRound} from "lucide-react"
+import {passkey} from "@/lib/auth-client"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+interface RegisteredPasskey {
+  id: string
+  name: string | null
+  deviceType: string
+  backedUp: boolean
+  createdAt: string | null
+}
+
+interface PasskeySettingsProps {
+  passkeys: RegisteredPasskey[]
+}
+
+export function PasskeySettings({passkeys}: PasskeySettingsProps) {
+  const router = useRouter()
+  const [isAdding, setIsAdding] = useState(false)
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function onAdd(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    setPending("add")
+    setError(null)
+    const name = (new FormData(e.currentTarget).get("name") as string).trim()
+
+    try {
+      // Prompts the browser / OS for a new credential
+      const result = await passkey.addPasskey({name: name || undefined})
+      if (result?.error) {
+        setError(result.error.message || "Failed to add passkey")
+        return
+      }
+      setIsAdding(false)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add passkey")
+    } finally {
+      setPending(null)
+    }
+  }
+
+  async function onDelete(id: string) {
+    setPending(id)
+    setError(null)
+
+    const {error} = await passkey.deletePasskey({id})
+    if (error) {
+      setError(error.message || "Failed to remove passkey")
+    } else {
+      router.refresh()
+    }
+    setPending(null)
+  }
+
+  return (
+    <div className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+
+      {passkeys.length > 0 ? (
+        <ul className='divide-y rounded-lg border'>
+          {passkeys.map(key => (
+            <li
+              key={key.id}
+              className='flex items-center justify-between gap-4 p-3 sm:p-4'
+            >
+              <div className='flex min-w-0 items-center gap-3'>
+                <KeyRound className='h-4 w-4 shrink-0 text-muted-foreground' />
+                <div className='min-w-0'>
+                  <p className='truncate text-sm font-medium'>
+                    {key.name || "Unnamed passkey"}
+                  </p>
+                  <p className='text-xs text-muted-foreground'>
+                    {key.backedUp ? "Synced" : "This device only"}
+                    {key.createdAt &&
+                      ` · Added ${new Date(key.createdAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant='outline'
+                size='sm'
+                disabled={pending !== null}
+                onClick={() => onDelete(key.id)}
+              >
+                {pending === key.id ? "Removing..." : "Remove"}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className='text-sm text-muted-foreground'>
+          You haven&apos;t added any passkeys yet.
+        </p>
+      )}
+
+      {isAdding ? (
+        <form onSubmit={onAdd} className='space-y-4'>
+          <div className='space-y-2'>
+            <Label htmlFor='passkey-name'>Passkey name</Label>
+            <Input
+              id='passkey-name'
+              name='name'
+              placeholder='e.g. Work laptop'
+              maxLength={64}
+              autoFocus
+              disabled={pending !== null}
+            />
+          </div>
+          <div className='flex gap-2'>
+            <Button type='submit' disabled={pending !== null}>
+              {pending === "add" ? "Waiting for device..." : "Create passkey"}
+            </Button>
+            <Button
+              type='button'
+              variant='ghost'
+              onClick={() => setIsAdding(false)}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button onClick={() => setIsAdding(true)}>Add a passkey</Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import {useState} from "react"
+import {updateName} from "@/lib/actions/account"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+interface ProfileFormProps {
+  name: string
+}
+
+export function ProfileForm({name}: ProfileFormProps) {
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const data = new FormData(e.currentTarget)
+
+    setIsPending(true)
+    setError(null)
+    setSaved(false)
+
+    const result = await updateName({name: (data.get("name") as string).trim()})
+    if (result.success) {
+      setSaved(true)
+    } else {
+      setError(result.error)
+    }
+    setIsPending(false)
+  }
+
+  return (
+    <form onSubmit={onSubmit} className='space-y-4'>
+      {error && (
+        <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+          {error}
+        </div>
+      )}
+
+      <div className='space-y-2'>
+        <Label htmlFor='profile-name'>Name</Label>
+        <Input
+          id='profile-name'
+          name='name'
+          defaultValue={name}
+          autoComplete='name'
+          maxLength={100}
+          required
+          disabled={isPending}
+          onChange={() => setSaved(false)}
+        />
+      </div>
+
+      <div className='flex items-center gap-3'>
+        <Button type='submit' disabled={isPending}>
+          {isPending ? "Saving..." : "Save"}
+        </Button>
+        {saved && <p className='text-sm text-muted-foreground'>Saved</p>}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,27 @@
+import {cn} from "@/lib/utils"
+
+interface SettingsCardProps {
+  title: string
+  description?: React.ReactNode
+  children: React.ReactNode
+  className?: string
+}
+
+export function SettingsCard({
+  title,
+  description,
+  children,
+  className,
+}: SettingsCardProps) {
+  return (
+    <section className={cn("rounded-lg border bg-card p-4 sm:p-6", className)}>
+      <div className='mb-4 space-y-1'>
+        <h2 className='text-base font-semibold sm:text-lg'>{title}</h2>
+        {description && (
+          <p className='text-sm text-muted-foreground'>{description}</p>
+        )}
+      </div>
+      {children}
+    </section>
+  )
+}
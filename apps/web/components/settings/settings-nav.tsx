@@ -0,0 +1,41 @@
+"use client"
+
+import Link from "next/link"
+import {usePathname} from "next/navigation"
+import {cn} from "@/lib/utils"
+
+export interface SettingsNavItem {
+  href: string
+  label: string
+}
+
+interface SettingsNavProps {
+  items: SettingsNavItem[]
+}
+
+export function SettingsNav({items}: SettingsNavProps) {
+  const pathname = usePathname()
+
+  return (
+    <nav className='flex gap-1 overflow-x-auto border-b'>
+      {items.map(item => {
+        const isActive = pathname === item.href
+        return (
+          <Link
+            key={item.href}
+            href={item.href}
+            aria-current={isActive ? "page" : undefined}
+            className={cn(
+              "-mb-px whitespace-nowrap border-b-2 px-3 py-2 text-sm font-medium transition-colors",
+              isActive
+                ? "border-primary text-foreground"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {item.label}
+          </Link>
+        )
+      })}
+    </nav>
+  )
+}
@@ -0,0 +1,242 @@
+"use client"
+
+import {useState} from "react"
+import {useRouter} from "next/navigation"
+import QRCode from "react-qr-code"
+import {ShieldCheck} from "lucide-react"
+import {twoFactor} from "@/lib/auth-client"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+
+type Step =
+  | {kind: "idle"}
+  | {kind: "confirm-password"; action: "enable" | "disable" | "regenerate"}
+  | {kind: "scan"; totpURI: string; backupCodes: string[]}
+  | {kind: "backup-codes"; backupCodes: string[]}
+
+interface TwoFactorSettingsProps {
+  enabled: boolean
+}
+
+const actionLabels = {
+  enable: "Continue",
+  disable: "Disable two-factor",
+  regenerate: "Generate new codes",
+}
+
+export function TwoFactorSettings({enabled}: TwoFactorSettingsProps) {
+  const router = useRouter()
+  const [step, setStep] = useState<Step>({kind: "idle"})
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  function reset() {
+    setStep({kind: "idle"})
+    setError(null)
+  }
+
+  async function onConfirmPassword(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    if (step.kind !== "confirm-password") return
+
+    setIsLoading(true)
+    setError(null)
+    const password = new FormData(e.currentTarget).get("password") as string
+
+    try {
+      if (step.action === "enable") {
+        const {data, error} = await twoFactor.enable({password})
+        if (error) throw new Error(error.message)
+        setStep({
+          kind: "scan",
+          totpURI: data.totpURI,
+          backupCodes: data.backupCodes,
+        })
+      } else if (step.action === "regenerate") {
+        const {data, error} = await twoFactor.generateBackupCodes({password})
+        if (error) throw new Error(error.message)
+        setStep({kind: "backup-codes", backupCodes: data.backupCodes})
+      } else {
+        const {error} = await twoFactor.disable({password})
+        if (error) throw new Error(error.message)
+        reset()
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  async function onVerifyCode(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    if (step.kind !== "scan") return
+
+    setIsLoading(true)
+    setError(null)
+    const code = (new FormData(e.currentTarget).get("code") as string).trim()
+
+    try {
+      // The first successful verification switches two-factor on
+      const {error} = await twoFactor.verifyTotp({code})
+      if (error) throw new Error(error.message)
+      setStep({kind: "backup-codes", backupCodes: step.backupCodes})
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid code")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const errorBanner = error && (
+    <div className='rounded-md bg-destructive/15 p-3 text-sm text-destructive'>
+      {error}
+    </div>
+  )
+
+  if (step.kind === "confirm-password") {
+    return (
+      <form onSubmit={onConfirmPassword} className='space-y-4'>
+        {errorBanner}
+        <div className='space-y-2'>
+          <Label htmlFor='two-factor-password'>Confirm your password</Label>
+          <Input
+            id='two-factor-password'
+            name='password'
+            type='password'
+            required
+            autoFocus
+            autoComplete='current-password'
+            disabled={isLoading}
+          />
+        </div>
+        <div className='flex gap-2'>
+          <Button
+            type='submit'
+            variant={step.action === "disable" ? "destructive" : "default"}
+            disabled={isLoading}
+          >
+            {isLoading ? "Please wait..." : actionLabels[step.action]}
+          </Button>
+          <Button type='button' variant='ghost' onClick={reset}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    )
+  }
+
+  if (step.kind === "scan") {
+    const secret = new URL(step.totpURI).searchParams.get("secret")
+
+    return (
+      <form onSubmit={onVerifyCode} className='space-y-4'>
+        {errorBanner}
+        <p className='text-sm text-muted-foreground'>
+          Scan this QR code with your authenticator app, then enter the
+          6-digit code it shows to finish enabling two-factor authentication.
+        </p>
+        <div className='flex justify-center rounded-lg bg-white p-4'>
+          <QRCode value={step.totpURI} size={176} />
+        </div>
+        {secret && (
+          <p className='text-center text-xs text-muted-foreground'>
+            Can&apos;t scan? Enter this key manually:{" "}
+            <code className='break-all font-mono text-foreground'>{secret}</code>
+          </p>
+        )}
+        <div className='space-y-2'>
+          <Label htmlFor='two-factor-code'>Authentication code</Label>
+          <Input
+            id='two-factor-code'
+            name='code'
+            type='text'
+            required
+            autoComplete='one-time-code'
+            inputMode='numeric'
+            pattern='[0-9]{6}'
+            placeholder='123456'
+            disabled={isLoading}
+          />
+        </div>
+        <div className='flex gap-2'>
+          <Button type='submit' disabled={isLoading}>
+            {isLoading ? "Verifying..." : "Verify and enable"}
+          </Button>
+          <Button type='button' variant='ghost' onClick={reset}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    )
+  }
+
+  if (step.kind === "backup-codes") {
+    return (
+      <div className='space-y-4'>
+        <p className='text-sm text-muted-foreground'>
+          Save these backup codes somewhere safe. Each one can be used once to
+          sign in if you lose access to your authenticator app. They won&apos;t
+          be shown again.
+        </p>
+        <ul className='grid grid-cols-2 gap-2 rounded-lg border bg-muted/50 p-4 font-mono text-sm'>
+          {step.backupCodes.map(code => (
+            <li key={code}>{code}</li>
+          ))}
+        </ul>
+        <div className='flex gap-2'>
+          <Button
+            type='button'
+            variant='outline'
+            onClick={() =>
+              navigator.clipboard.writeText(step.backupCodes.join("\n"))
+            }
+          >
+            Copy codes
+          </Button>
+          <Button type='button' onClick={reset}>
+            Done
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (!enabled) {
+    return (
+      <Button
+        onClick={() => setStep({kind: "confirm-password", action: "enable"})}
+      >
+        Enable two-factor
+      </Button>
+    )
+  }
+
+  return (
+    <div className='space-y-4'>
+      <p className='flex items-center gap-2 text-sm font-medium text-green-700 dark:text-green-400'>
+        <ShieldCheck className='h-4 w-4' />
+        Two-factor authentication is enabled
+      </p>
+      <div className='flex flex-wrap gap-2'>
+        <Button
+          variant='outline'
+          onClick={() =>
+            setStep({kind: "confirm-password", action: "regenerate"})
+          }
+        >
+          Regenerate backup codes
+        </Button>
+        <Button
+          variant='destructive'
+          onClick={() => setStep({kind: "confirm-password", action: "disable"})}
+        >
+          Disable
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -5,21 +5,39 @@ import {useRouter} from "next/navigation"
 import {signOut} from "@/lib/auth-client"
 import {Button} from "@/components/ui/button"
 import {ThemeToggle} from "./theme-toggle"
-import {Home, LogOut, User} from "lucide-react"
+import {UserAvatar} from "./user-avatar"
+import {ImpersonationBanner} from "./impersonation-banner"
+import {
+  OrganizationSwitcher,
+  type OrganizationOption,
+} from "./organization-switcher"
+import {Home, LogOut, Settings, Shield} from "lucide-react"
 
 interface AppNavProps {
   user: {
     name: string
     email: string
+    image?: string | null
   }
   title?: string
   homeHref?: string
+  // Renders the organization switcher when provided
+  organizations?: OrganizationOption[]
+  activeOrganizationId?: string | null
+  // Site admins get a link to the admin console
+  isAdmin?: boolean
+  // Set when an admin is signed in as this user
+  isImpersonating?: boolean
 }
 
 export function AppNav({
   user,
   title = "Next.js Starter",
   homeHref = "/",
+  organizations,
+  activeOrganizationId = null,
+  isAdmin = false,
+  isImpersonating = false,
 }: AppNavProps) {
   const router = useRouter()
 
@@ -31,6 +49,7 @@ export function AppNav({
 
   return (
     <header className='sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/60'>
+      {isImpersonating && <ImpersonationBanner user={user} />}
       <div className='flex h-16 w-full items-center justify-between gap-4 px-4 sm:px-6 lg:px-8'>
         {/* Logo and Brand */}
         <Link
@@ -43,9 +62,16 @@ export function AppNav({
 
         {/* User Section */}
         <div className='flex items-center gap-2 sm:gap-3'>
+          {organizations && (
+            <OrganizationSwitcher
+              organizations={organizations}
+              activeOrganizationId={activeOrganizationId}
+            />
+          )}
+
           {/* User Info - Desktop */}
           <div className='hidden items-center gap-2 rounded-md border border-border/40 bg-muted/50 px-3 py-1.5 sm:flex'>
-            <User className='h-4 w-4 shrink-0 text-muted-foreground' />
+            <UserAvatar user={user} size={28} />
             <div className='flex flex-col'>
               <span className='text-sm font-medium leading-none'>
                 {user.name}
@@ -58,10 +84,36 @@ export function AppNav({
 
           {/* User Info - Mobile */}
           <div className='flex items-center gap-2 sm:hidden'>
-            <User className='h-4 w-4 shrink-0 text-muted-foreground' />
+            <UserAvatar user={user} size={24} />
             <span className='truncate text-sm font-medium'>{user.name}</span>
           </div>
 
+          {/* Admin Console */}
+          {isAdmin && (
+            <Button
+              variant='ghost'
+              size='sm'
+              asChild
+              className='h-9 w-9 shrink-0 p-0'
+            >
+              <Link href='/admin' aria-label='Admin'>
+                <Shield className='h-4 w-4' />
+              </Link>
+            </Button>
+          )}
+
+          {/* Settings */}
+          <Button
+            variant='ghost'
+            size='sm'
+            asChild
+            className='h-9 w-9 shrink-0 p-0'
+          >
+            <Link href='/dashboard/settings' aria-label='Settings'>
+              <Settings className='h-4 w-4' />
+            </Link>
+          </Button>
+
           {/* Theme Toggle */}
           <ThemeToggle />
 
@@ -0,0 +1,42 @@
+import {describe, it, expect} from "vitest"
+import {render, screen} from "@testing-library/react"
+import type {MemberRole} from "@/lib/organization-roles"
+import {Can, PermissionProvider} from "./can"
+
+function renderWithRole(role: MemberRole | null) {
+  return render(
+    <PermissionProvider role={role}>
+      <Can permission='members:invite' fallback={<p>Read only</p>}>
+        <button>Invite</button>
+      </Can>
+    </PermissionProvider>
+  )
+}
+
+describe("Can", () => {
+  it.each<MemberRole>(["owner", "admin"])("renders children for %s", role => {
+    renderWithRole(role)
+
+    expect(screen.getByRole("button", {name: "Invite"})).toBeInTheDocument()
+  })
+
+  it.each<MemberRole | null>(["member", "viewer", null])(
+    "renders the fallback for %s",
+    role => {
+      renderWithRole(role)
+
+      expect(screen.queryByRole("button", {name: "Invite"})).toBeNull()
+      expect(screen.getByText("Read only")).toBeInTheDocument()
+    }
+  )
+
+  it("renders nothing outside a provider", () => {
+    const {container} = render(
+      <Can permission='members:read'>
+        <p>Members</p>
+      </Can>
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
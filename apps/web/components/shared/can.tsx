@@ -0,0 +1,38 @@
+"use client"
+
+import {createContext, useContext} from "react"
+import type {MemberRole} from "@/lib/organization-roles"
+import {hasPermission, type Permission} from "@/lib/permissions"
+
+// Role in the active organization; null when there is none
+const RoleContext = createContext<MemberRole | null>(null)
+
+interface PermissionProviderProps {
+  role: MemberRole | null
+  children: React.ReactNode
+}
+
+/**
+ * Makes the user's role available to `<Can>` and `usePermission()`
+ *
+ * Rendered by the dashboard layout from the server session. Hiding a control
+ * is cosmetic; the action behind it must still call `requirePermission()`.
+ */
+export function PermissionProvider({role, children}: PermissionProviderProps) {
+  return <RoleContext.Provider value={role}>{children}</RoleContext.Provider>
+}
+
+export function usePermission(permission: Permission): boolean {
+  return hasPermission(useContext(RoleContext), permission)
+}
+
+interface CanProps {
+  permission: Permission
+  children: React.ReactNode
+  // Rendered instead of children when the permission is missing
+  fallback?: React.ReactNode
+}
+
+export function Can({permission, children, fallback = null}: CanProps) {
+  return usePermission(permission) ? children : fallback
+}
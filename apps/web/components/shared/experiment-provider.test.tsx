@@ -0,0 +1,71 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest"
+import {render, screen} from "@testing-library/react"
+import {recordExperimentExposure} from "@/lib/actions/experiments"
+import {assignVariant, type ExperimentSubject} from "@/lib/experiments"
+import {getDefaultFeatures} from "@/lib/feature-flags"
+import {useExperiment} from "@/lib/hooks/use-experiment"
+import {ExperimentProvider} from "./experiment-provider"
+import {FeatureFlagProvider} from "./feature-flag-provider"
+
+vi.mock("@/lib/actions/experiments", () => ({
+  recordExperimentExposure: vi.fn(async () => ({success: true})),
+}))
+
+class FakeEventSource {
+  addEventListener() {}
+  close() {}
+}
+
+function Welcome() {
+  return <p>{useExperiment("dashboardWelcome")}</p>
+}
+
+function renderWelcome(subject: ExperimentSubject, running = true) {
+  const flags = {...getDefaultFeatures(), experimentalFeatureA: running}
+  render(
+    <FeatureFlagProvider flags={flags}>
+      <ExperimentProvider subject={subject}>
+        <Welcome />
+      </ExperimentProvider>
+    </FeatureFlagProvider>
+  )
+  return flags
+}
+
+describe("useExperiment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubGlobal("EventSource", FakeEventSource)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("renders the variant the server assigns and records it once", () => {
+    const subject = {userId: "user-1"}
+    const flags = renderWelcome(subject)
+    renderWelcome(subject)
+
+    const variant = assignVariant("dashboardWelcome", subject, flags)!
+    expect(screen.getAllByText(variant)).toHaveLength(2)
+    expect(recordExperimentExposure).toHaveBeenCalledTimes(1)
+    expect(recordExperimentExposure).toHaveBeenCalledWith({
+      experiment: "dashboardWelcome",
+    })
+  })
+
+  it("shows the control without recording while the flag is off", () => {
+    renderWelcome({userId: "user-2"}, false)
+
+    expect(screen.getByText("control")).toBeInTheDocument()
+    expect(recordExperimentExposure).not.toHaveBeenCalled()
+  })
+
+  it("shows the control outside a provider", () => {
+    render(<Welcome />)
+
+    expect(screen.getByText("control")).toBeInTheDocument()
+    expect(recordExperimentExposure).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,27 @@
+"use client"
+
+import type {ExperimentSubject} from "@/lib/experiments"
+import {ExperimentSubjectContext} from "@/lib/hooks/use-experiment"
+
+interface ExperimentProviderProps {
+  subject: ExperimentSubject
+  children: React.ReactNode
+}
+
+/**
+ * Makes the visitor's experiment subject available to `useExperiment()`
+ *
+ * Rendered by UserFeatureFlags from the session and the anonymous cookie.
+ * Variants are assigned from it together with the streamed feature flags,
+ * so stopping an experiment's flag takes effect without a reload.
+ */
+export function ExperimentProvider({
+  subject,
+  children,
+}: ExperimentProviderProps) {
+  return (
+    <ExperimentSubjectContext.Provider value={subject}>
+      {children}
+    </ExperimentSubjectContext.Provider>
+  )
+}
@@ -0,0 +1,115 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest"
+import {act, render, screen} from "@testing-library/react"
+import {getDefaultFeatures, type FeatureFlags} from "@/lib/feature-flags"
+import {useFeature} from "@/lib/hooks/use-feature"
+import {FeatureFlagProvider} from "./feature-flag-provider"
+
+class FakeEventSource {
+  static instances: FakeEventSource[] = []
+  listeners = new Map<string, (event: MessageEvent<string>) => void>()
+  close = vi.fn()
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.set(type, listener)
+  }
+
+  emit(type: string, data: unknown) {
+    this.listeners.get(type)?.(
+      new MessageEvent(type, {data: JSON.stringify(data)})
+    )
+  }
+}
+
+function Charts() {
+  return <p>{useFeature("dashboardCharts") ? "Charts on" : "Charts off"}</p>
+}
+
+function flags(overrides: Partial<FeatureFlags> = {}): FeatureFlags {
+  return {...getDefaultFeatures(), ...overrides}
+}
+
+describe("FeatureFlagProvider", () => {
+  beforeEach(() => {
+    FakeEventSource.instances = []
+    vi.stubGlobal("EventSource", FakeEventSource)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("serves the flags rendered by the server", () => {
+    render(
+      <FeatureFlagProvider flags={flags({dashboardCharts: false})} live>
+        <Charts />
+      </FeatureFlagProvider>
+    )
+
+    expect(screen.getByText("Charts off")).toBeInTheDocument()
+  })
+
+  it("applies changes streamed from the server", () => {
+    render(
+      <FeatureFlagProvider flags={flags({dashboardCharts: false})} live>
+        <Charts />
+      </FeatureFlagProvider>
+    )
+    const [source] = FakeEventSource.instances
+    expect(source.url).toBe("/api/feature-flags/stream")
+
+    act(() => source.emit("flags", flags({dashboardCharts: true})))
+
+    expect(screen.getByText("Charts on")).toBeInTheDocument()
+  })
+
+  it("prefers a newer server render over streamed values", () => {
+    const {rerender} = render(
+      <FeatureFlagProvider flags={flags({dashboardCharts: false})} live>
+        <Charts />
+      </FeatureFlagProvider>
+    )
+    act(() =>
+      FakeEventSource.instances[0].emit("flags", flags({dashboardCharts: true}))
+    )
+
+    rerender(
+      <FeatureFlagProvider flags={flags({dashboardCharts: false})} live>
+        <Charts />
+      </FeatureFlagProvider>
+    )
+
+    expect(screen.getByText("Charts off")).toBeInTheDocument()
+  })
+
+  it("closes the stream on unmount", () => {
+    const {unmount} = render(
+      <FeatureFlagProvider flags={flags()} live>
+        <Charts />
+      </FeatureFlagProvider>
+    )
+
+    unmount()
+
+    expect(FakeEventSource.instances[0].close).toHaveBeenCalled()
+  })
+
+  it("only opens a stream when live", () => {
+    render(
+      <FeatureFlagProvider flags={flags()}>
+        <Charts />
+      </FeatureFlagProvider>
+    )
+
+    expect(FakeEventSource.instances).toHaveLength(0)
+  })
+
+  it("falls back to deployment defaults outside a provider", () => {
+    render(<Charts />)
+
+    expect(screen.getByText("Charts on")).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,53 @@
+"use client"
+
+import {useEffect, useState} from "react"
+import {featureFlagsStreamPath, type FeatureFlags} from "@/lib/feature-flags"
+import {FeatureFlagsContext} from "@/lib/hooks/use-feature"
+
+interface FeatureFlagProviderProps {
+  // Evaluated on the server for the current request
+  flags: FeatureFlags
+  // Follow changes made after the render
+  live?: boolean
+  children: React.ReactNode
+}
+
+/**
+ * Makes the server's evaluated flags available to `useFeature()`
+ *
+ * The root layout renders one with the flags nobody is targeted for, so
+ * public pages cost no session lookup. The dashboard and admin layouts nest
+ * another with the signed-in user's flags (UserFeatureFlags), which is
+ * `live`: changes made afterwards arrive over Server-Sent Events, and
+ * EventSource reconnects by itself if the connection drops.
+ */
+export function FeatureFlagProvider({
+  flags,
+  live = false,
+  children,
+}: FeatureFlagProviderProps) {
+  const [current, setCurrent] = useState(flags)
+  const [rendered, setRendered] = useState(flags)
+
+  // A new server render (navigation, router.refresh()) replaces streamed values
+  if (flags !== rendered) {
+    setRendered(flags)
+    setCurrent(flags)
+  }
+
+  useEffect(() => {
+    if (!live) return
+
+    const source = new EventSource(featureFlagsStreamPath)
+    source.addEventListener("flags", event => {
+      setCurrent(JSON.parse((event as MessageEvent<string>).data))
+    })
+    return () => source.close()
+  }, [live])
+
+  return (
+    <FeatureFlagsContext.Provider value={current}>
+      {children}
+    </FeatureFlagsContext.Provider>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import {useState} from "react"
+import {Flag} from "lucide-react"
+import {
+  clearFeatureFlagOverrides,
+  setFeatureFlagOverride,
+} from "@/lib/actions/feature-flags"
+import {
+  overridableFeatureFlagNames,
+  type FeatureFlagOverrides,
+  type OverridableFeatureFlag,
+} from "@/lib/feature-flags"
+import {useFeatureFlags} from "@/lib/hooks/use-feature"
+import {Button} from "@/components/ui/button"
+
+interface FeatureFlagToolbarProps {
+  // The overrides in this browser's cookie
+  overrides: FeatureFlagOverrides
+}
+
+const options = [
+  {value: undefined, label: "Default"},
+  {value: true, label: "On"},
+  {value: false, label: "Off"},
+] as const
+
+/**
+ * Lets testers flip flags for their own browser
+ *
+ * Rendered on signed-in pages (UserFeatureFlags) outside production, and in
+ * production for admins. Overrides are stored in a signed cookie; the
+ * actions revalidate the layout, so the page re-renders with them straight
+ * away. Maintenance and read-only mode are not listed: middleware applies
+ * them before any override could be read (`siteWideFeatureFlags`).
+ */
+export function FeatureFlagToolbar({overrides}: FeatureFlagToolbarProps) {
+  const flags = useFeatureFlags()
+  const [open, setOpen] = useState(false)
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const overrideCount = Object.keys(overrides).length
+
+  async function run(
+    action: () => ReturnType<typeof clearFeatureFlagOverrides>
+  ) {
+    setPending(true)
+    setError(null)
+
+    const result = await action()
+    if (!result.success) {
+      setError(result.error)
+    }
+    setPending(false)
+  }
+
+  function handleSelect(
+    flag: OverridableFeatureFlag,
+    enabled: boolean | undefined
+  ) {
+    run(() => setFeatureFlagOverride({flag, enabled: enabled ?? null}))
+  }
+
+  return (
+    <div className='fixed bottom-4 left-4 z-50 flex flex-col items-start gap-2'>
+      {open && (
+        <div
+          id='feature-flag-toolbar'
+          className='max-h-[70vh] w-80 overflow-y-auto rounded-lg border bg-background p-3 text-sm shadow-lg'
+        >
+          <div className='mb-2 flex items-center justify-between'>
+            <h2 className='font-semibold'>Flag overrides</h2>
+            {overrideCount > 0 && (
+              <Button
+                variant='ghost'
+                size='sm'
+                disabled={pending}
+                onClick={() => run(clearFeatureFlagOverrides)}
+              >
+                Reset all
+              </Button>
+            )}
+          </div>
+          <p className='mb-3 text-xs text-muted-foreground'>
+            Only affects this browser.
+          </p>
+          {error && (
+            <p role='alert' className='mb-2 text-xs text-destructive'>
+              {error}
+            </p>
+          )}
+          <ul className='space-y-2'>
+            {overridableFeatureFlagNames.map(flag => (
+              <li
+                key={flag}
+                className='flex items-center justify-between gap-2'
+              >
+                <span className='truncate font-mono text-xs'>
+                  {flag}
+                  <span className='sr-only'>
+                    {flags[flag] ? " (on)" : " (off)"}
+                  </span>
+                  <span
+                    aria-hidden
+                    className={`ml-1.5 inline-block h-1.5 w-1.5 rounded-full ${
+                      flags[flag] ? "bg-green-500" : "bg-muted-foreground/40"
+                    }`}
+                  />
+                </span>
+                <div
+                  role='group'
+                  aria-label={`Override ${flag}`}
+                  className='inline-flex shrink-0 rounded-md border'
+                >
+                  {options.map(option => (
+                    <Button
+                      key={option.label}
+                      variant={
+                        overrides[flag] === option.value ? "secondary" : "ghost"
+                      }
+                      size='sm'
+                      className='h-7 rounded-none px-2 text-xs first:rounded-l-md last:rounded-r-md'
+                      aria-pressed={overrides[flag] === option.value}
+                      disabled={pending}
+                      onClick={() => handleSelect(flag, option.value)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <Button
+        variant='outline'
+        size='sm'
+        className='shadow-md'
+        aria-expanded={open}
+        aria-controls='feature-flag-toolbar'
+        onClick={() => setOpen(!open)}
+      >
+        <Flag className='h-4 w-4' />
+        Flags
+        {overrideCount > 0 && ` (${overrideCount})`}
+      </Button>
+    </div>
+  )
+}
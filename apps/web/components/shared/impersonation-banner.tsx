@@ -0,0 +1,60 @@
+"use client"
+
+import {useState} from "react"
+import {useRouter} from "next/navigation"
+import {UserCog} from "lucide-react"
+import {authClient} from "@/lib/auth-client"
+import {Button} from "@/components/ui/button"
+
+interface ImpersonationBannerProps {
+  user: {
+    name: string
+    email: string
+  }
+}
+
+/**
+ * Shown on every page while an admin is signed in as another user
+ */
+export function ImpersonationBanner({user}: ImpersonationBannerProps) {
+  const router = useRouter()
+  const [isStopping, setIsStopping] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleStop() {
+    setIsStopping(true)
+    setError(null)
+
+    // Restores the admin's own session
+    const {error} = await authClient.admin.stopImpersonating()
+    if (error) {
+      setError(error.message || "Failed to stop impersonating")
+      setIsStopping(false)
+      return
+    }
+    router.push("/admin/users")
+    router.refresh()
+  }
+
+  return (
+    <div
+      role='status'
+      className='flex flex-wrap items-center justify-center gap-x-3 gap-y-1 bg-amber-500 px-4 py-2 text-sm font-medium text-amber-950'
+    >
+      <UserCog className='h-4 w-4 shrink-0' />
+      <span>
+        You are impersonating {user.name} ({user.email})
+      </span>
+      {error && <span className='text-red-900'>{error}</span>}
+      <Button
+        size='sm'
+        variant='outline'
+        className='h-7 border-amber-950/30 bg-transparent text-amber-950 hover:bg-amber-400'
+        disabled={isStopping}
+        onClick={handleStop}
+      >
+        {isStopping ? "Stopping..." : "Stop impersonating"}
+      </Button>
+    </div>
+  )
+}
@@ -1,7 +1,13 @@
 // Shared components that can be used across the application
 export {AppNav} from "./app-nav"
+export {Can, PermissionProvider, usePermission} from "./can"
 export {Container} from "./container"
+export {ExperimentProvider} from "./experiment-provider"
+export {FeatureFlagProvider} from "./feature-flag-provider"
+export {FeatureFlagToolbar} from "./feature-flag-toolbar"
 export {PageLayout} from "./page-layout"
+export {ReadOnlyBanner} from "./read-only-banner"
 export {Section} from "./section"
 export {ThemeProvider, useTheme} from "./theme-provider"
 export {ThemeToggle} from "./theme-toggle"
+export {UserAvatar} from "./user-avatar"
@@ -0,0 +1,68 @@
+"use client"
+
+import {useState} from "react"
+import Link from "next/link"
+import {useRouter} from "next/navigation"
+import {Building2, Plus} from "lucide-react"
+import {switchOrganization} from "@/lib/actions/organizations"
+
+export interface OrganizationOption {
+  id: string
+  name: string
+}
+
+interface OrganizationSwitcherProps {
+  organizations: OrganizationOption[]
+  activeOrganizationId: string | null
+}
+
+/**
+ * Select for the session's active organization, shown in the app nav
+ */
+export function OrganizationSwitcher({
+  organizations,
+  activeOrganizationId,
+}: OrganizationSwitcherProps) {
+  const router = useRouter()
+  const [isSwitching, setIsSwitching] = useState(false)
+
+  async function handleChange(organizationId: string) {
+    setIsSwitching(true)
+    const result = await switchOrganization({organizationId})
+    setIsSwitching(false)
+    if (result.success) {
+      router.refresh()
+    }
+  }
+
+  if (organizations.length === 0) {
+    return (
+      <Link
+        href='/dashboard/settings/organization'
+        className='flex shrink-0 items-center gap-1.5 rounded-md border border-dashed px-2.5 py-1.5 text-sm text-muted-foreground hover:text-foreground'
+      >
+        <Plus className='h-4 w-4' />
+        <span className='hidden sm:inline'>Create organization</span>
+      </Link>
+    )
+  }
+
+  return (
+    <div className='flex min-w-0 items-center gap-1.5'>
+      <Building2 className='hidden h-4 w-4 shrink-0 text-muted-foreground sm:block' />
+      <select
+        aria-label='Active organization'
+        value={activeOrganizationId ?? ""}
+        disabled={isSwitching}
+        onChange={event => handleChange(event.target.value)}
+        className='h-9 max-w-[10rem] truncate rounded-md border border-input bg-background px-2 text-sm sm:max-w-[14rem]'
+      >
+        {organizations.map(organization => (
+          <option key={organization.id} value={organization.id}>
+            {organization.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+"use client"
+
+import {Lock} from "lucide-react"
+import {useFeature} from "@/lib/hooks/use-feature"
+import {readOnlyModeMessage} from "@/lib/site-mode"
+
+/**
+ * Shown on every page while the site is in read-only mode
+ */
+export function ReadOnlyBanner() {
+  if (!useFeature("readOnlyMode")) return null
+
+  return (
+    <div
+      role='status'
+      className='flex items-center justify-center gap-2 bg-sky-600 px-4 py-2 text-center text-sm font-medium text-white'
+    >
+      <Lock className='h-4 w-4 shrink-0' />
+      <span>{readOnlyModeMessage}</span>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import Image from "next/image"
+import {User} from "lucide-react"
+import {avatarSizes, getAvatarUrl} from "@/lib/avatars"
+import {cn} from "@/lib/utils"
+
+interface UserAvatarProps {
+  user: {
+    name: string
+    image?: string | null
+  }
+  // Rendered size in CSS pixels
+  size?: number
+  className?: string
+}
+
+/**
+ * The user's avatar, or a generic icon when they have none
+ */
+export function UserAvatar({user, size = 32, className}: UserAvatarProps) {
+  if (!user.image) {
+    // Sized with attributes rather than a style attribute, which the
+    // production CSP blocks (lib/csp.ts)
+    return (
+      <svg
+        width={size}
+        height={size}
+        viewBox='0 0 24 24'
+        aria-hidden
+        className={cn(
+          "shrink-0 rounded-full bg-muted text-muted-foreground",
+          className
+        )}
+      >
+        <User x={6} y={6} width={12} height={12} />
+      </svg>
+    )
+  }
+
+  // Stored avatars are already resized; pick the smallest that stays sharp
+  // on high-density screens
+  const variant =
+    avatarSizes.find(candidate => candidate >= size * 2) ??
+    avatarSizes[avatarSizes.length - 1]
+
+  return (
+    <Image
+      src={getAvatarUrl(user.image, variant)}
+      alt={user.name}
+      width={size}
+      height={size}
+      unoptimized
+      className={cn("shrink-0 rounded-full object-cover", className)}
+    />
+  )
+}
@@ -0,0 +1,43 @@
+import {getAllFeatures} from "@/lib/feature-flags"
+import {getExperimentSubject} from "@/lib/server/experiments"
+import {
+  canOverrideFeatureFlags,
+  getFeatureContext,
+} from "@/lib/server/feature-flags"
+import type {CurrentSession} from "@/lib/server/session"
+import {ExperimentProvider} from "./experiment-provider"
+import {FeatureFlagProvider} from "./feature-flag-provider"
+import {FeatureFlagToolbar} from "./feature-flag-toolbar"
+
+interface UserFeatureFlagsProps {
+  current: CurrentSession
+  children: React.ReactNode
+}
+
+/**
+ * The signed-in user's flags and experiments, for the dashboard and admin
+ * layouts
+ *
+ * Evaluated per user so client components agree with the server, and kept
+ * live over the flag stream. Also renders the QA flag toolbar for those
+ * allowed to use it. A server component, so it is imported from this file
+ * rather than the components/shared index.
+ */
+export async function UserFeatureFlags({
+  current,
+  children,
+}: UserFeatureFlagsProps) {
+  const featureContext = await getFeatureContext(current)
+  const experimentSubject = await getExperimentSubject()
+
+  return (
+    <FeatureFlagProvider flags={getAllFeatures(featureContext)} live>
+      <ExperimentProvider subject={experimentSubject}>
+        {children}
+      </ExperimentProvider>
+      {canOverrideFeatureFlags(current.user) && (
+        <FeatureFlagToolbar overrides={featureContext.overrides ?? {}} />
+      )}
+    </FeatureFlagProvider>
+  )
+}
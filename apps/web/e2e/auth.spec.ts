@@ -1,4 +1,8 @@
 import {test, expect} from "@playwright/test"
+import {findLink, waitForEmail} from "./helpers/mailbox"
+import {setNextOidcUser} from "./helpers/mock-oidc-issuer"
+import {createVerifiedUser, signInWithPassword} from "./helpers/accounts"
+import {addVirtualAuthenticator} from "./helpers/virtual-authenticator"
 
 /**
  * E2E Tests for Authentication Flows
@@ -9,6 +13,12 @@ import {test, expect} from "@playwright/test"
  * - Sign out flow
  * - Protected route access
  * - Invalid credentials handling
+ * - Password reset and verification emails (captured by the file email transport)
+ * - Social sign-in against the mock OIDC issuer (e2e/helpers/mock-oidc-issuer.ts)
+ * - Passkey registration and sign-in with a virtual authenticator
+ * - Magic-link sign-in and rejection of reused links
+ * - Revoking another device from the active sessions page
+ * - Password policy: breached-list and reuse rejection
  */
 
 test.describe("Authentication", () => {
@@ -184,5 +194,224 @@ test.describe("Authentication", () => {
         timeout: 5000,
       })
     })
+
+    test("should reset password through the emailed link", async ({page}) => {
+      // Create a throwaway account so the shared test user is untouched
+      const email = `reset-${Date.now()}@example.com`
+      await page.goto("/auth/signup")
+      await page.getByLabel(/name/i).fill("Reset User")
+      await page.getByLabel(/email/i).fill(email)
+      await page.getByLabel(/password/i).fill("Test123!@#")
+      await page.getByRole("button", {name: /create account/i}).click()
+      await expect(page).not.toHaveURL("/auth/signup", {timeout: 10000})
+      await page.context().clearCookies()
+
+      await page.goto("/auth/forgot-password")
+      await page.getByLabel(/email/i).fill(email)
+      await page.getByRole("button", {name: /send|reset/i}).click()
+      await expect(page.locator("text=/check your email/i")).toBeVisible()
+
+      const message = await waitForEmail(email, {subject: /reset/i})
+      await page.goto(findLink(message, /reset-password/))
+
+      await expect(page).toHaveURL(/\/auth\/reset-password\?token=/)
+      await page.getByLabel(/^new password/i).fill("NewPass123!@#")
+      await page.getByLabel(/confirm password/i).fill("NewPass123!@#")
+      await page.getByRole("button", {name: /reset password/i}).click()
+
+      await expect(page).toHaveURL("/auth/signin?reset=success", {
+        timeout: 10000,
+      })
+    })
+
+    test("should reject reusing the current password", async ({page}) => {
+      const {email, password} = await createVerifiedUser(page, {
+        email: `reuse-${Date.now()}@example.com`,
+      })
+
+      await page.goto("/auth/forgot-password")
+      await page.getByLabel(/email/i).fill(email)
+      await page.getByRole("button", {name: /send|reset/i}).click()
+      const message = await waitForEmail(email, {subject: /reset/i})
+      await page.goto(findLink(message, /reset-password/))
+
+      await page.getByLabel(/^new password/i).fill(password)
+      await page.getByLabel(/confirm password/i).fill(password)
+      await page.getByRole("button", {name: /reset password/i}).click()
+
+      await expect(
+        page.locator("text=/used this password recently/i")
+      ).toBeVisible()
+    })
+  })
+
+  test.describe("Password Policy", () => {
+    test("should reject a breached password at sign up", async ({page}) => {
+      await page.goto("/auth/signup")
+      await page.getByLabel(/name/i).fill("Breached User")
+      await page.getByLabel(/email/i).fill(`breached-${Date.now()}@example.com`)
+      await page.getByLabel(/password/i).fill("P@ssw0rd!")
+      await page.getByRole("button", {name: /create account/i}).click()
+
+      await expect(
+        page.locator("text=/appeared in a data breach/i")
+      ).toBeVisible()
+      await expect(page).toHaveURL("/auth/signup")
+    })
+  })
+
+  test.describe("Email Verification", () => {
+    test("should verify email through the emailed link", async ({page}) => {
+      const email = `verify-${Date.now()}@example.com`
+      await page.goto("/auth/signup")
+      await page.getByLabel(/name/i).fill("Verify User")
+      await page.getByLabel(/email/i).fill(email)
+      await page.getByLabel(/password/i).fill("Test123!@#")
+      await page.getByRole("button", {name: /create account/i}).click()
+
+      await expect(page).toHaveURL(/\/auth\/verify-email\?email=/, {
+        timeout: 10000,
+      })
+
+      const message = await waitForEmail(email, {subject: /verify/i})
+      const link = findLink(message, /verify-email\/confirm/)
+      await page.goto(link)
+      await expect(
+        page.getByRole("heading", {name: /email verified/i})
+      ).toBeVisible()
+
+      // Links are single-use
+      await page.goto(link)
+      await expect(
+        page.getByRole("heading", {name: /verification failed/i})
+      ).toBeVisible()
+    })
+  })
+
+  test.describe("Social Sign In", () => {
+    test("should sign in with the OIDC provider", async ({page}) => {
+      const email = `oidc-${Date.now()}@example.com`
+      await setNextOidcUser({sub: email, email, name: "OIDC User"})
+
+      await page.goto("/auth/signin")
+      await page.getByRole("button", {name: /continue with mock sso/i}).click()
+
+      await expect(page).toHaveURL("/dashboard", {timeout: 10000})
+      await expect(page.locator(`text=${email}`)).toBeVisible()
+    })
+
+    test("should list and unlink a linked account", async ({page}) => {
+      // Password account first, then link the OIDC identity from settings
+      const {email} = await createVerifiedUser(page, {
+        email: `link-${Date.now()}@example.com`,
+      })
+      await signInWithPassword(page, {email})
+
+      await setNextOidcUser({sub: `linked-${email}`, email})
+      await page.goto("/dashboard/settings/accounts")
+      await page.getByRole("button", {name: /connect mock sso/i}).click()
+      await expect(page).toHaveURL("/dashboard/settings/accounts", {
+        timeout: 10000,
+      })
+
+      const row = page.getByRole("listitem").filter({hasText: "Mock SSO"})
+      await expect(row).toBeVisible()
+      await row.getByRole("button", {name: /unlink/i}).click()
+      await expect(row).toHaveCount(0)
+    })
+  })
+
+  test.describe("Passkeys", () => {
+    test("should register a passkey and sign in with it", async ({
+      page,
+      browserName,
+    }) => {
+      test.skip(
+        browserName !== "chromium",
+        "Virtual authenticators are only available through Chromium CDP"
+      )
+      const authenticator = await addVirtualAuthenticator(page)
+
+      const {email} = await createVerifiedUser(page, {
+        email: `passkey-${Date.now()}@example.com`,
+      })
+      await signInWithPassword(page, {email})
+
+      await page.goto("/dashboard/settings/security")
+      await page.getByRole("button", {name: /add a passkey/i}).click()
+      await page.getByLabel(/passkey name/i).fill("Virtual key")
+      await page.getByRole("button", {name: /create passkey/i}).click()
+      await expect(page.getByText("Virtual key")).toBeVisible()
+      expect(await authenticator.credentials()).toHaveLength(1)
+
+      await page.context().clearCookies()
+      await page.goto("/auth/signin")
+      await page.getByRole("button", {name: /use a passkey/i}).click()
+      await expect(page).toHaveURL("/dashboard", {timeout: 10000})
+      await expect(page.locator(`text=${email}`)).toBeVisible()
+    })
+  })
+
+  test.describe("Magic Link", () => {
+    test("should sign in through a single-use emailed link", async ({page}) => {
+      const {email} = await createVerifiedUser(page, {
+        email: `magic-${Date.now()}@example.com`,
+      })
+
+      await page.goto("/auth/signin")
+      await page.getByRole("button", {name: /email me a sign-in link/i}).click()
+      await page.getByLabel(/email/i).fill(email)
+      await page.getByRole("button", {name: /email me a sign-in link/i}).click()
+      await expect(page.locator("text=Check Your Email")).toBeVisible()
+
+      const message = await waitForEmail(email, {subject: /sign-in link/i})
+      const link = findLink(message, /magic-link\/verify/)
+      await page.goto(link)
+      await expect(page).toHaveURL("/dashboard", {timeout: 10000})
+
+      await page.context().clearCookies()
+      await page.goto(link)
+      await expect(page).toHaveURL(/\/auth\/magic-link\?error=/)
+      await expect(page.locator("text=already been used")).toBeVisible()
+    })
+  })
+
+  test.describe("Active Sessions", () => {
+    test("should sign out a revoked device on its next request", async ({
+      page,
+      browser,
+    }) => {
+      const {email} = await createVerifiedUser(page, {
+        email: `sessions-${Date.now()}@example.com`,
+      })
+      await signInWithPassword(page, {email})
+
+      const otherContext = await browser.newContext()
+      const otherPage = await otherContext.newPage()
+      await signInWithPassword(otherPage, {email})
+
+      await page.goto("/dashboard/settings/sessions")
+      await expect(page.getByText("This device")).toBeVisible()
+      await page.getByRole("button", {name: /^revoke$/i}).click()
+      await expect(page.getByRole("button", {name: /^revoke$/i})).toHaveCount(0)
+
+      await otherPage.goto("/dashboard")
+      await expect(otherPage).toHaveURL(/\/auth\/signin/)
+      await otherContext.close()
+    })
+  })
+
+  test.describe("Transactional Email", () => {
+    test("should send a welcome email after sign up", async ({page}) => {
+      const email = `welcome-${Date.now()}@example.com`
+      await page.goto("/auth/signup")
+      await page.getByLabel(/name/i).fill("Welcome User")
+      await page.getByLabel(/email/i).fill(email)
+      await page.getByLabel(/password/i).fill("Test123!@#")
+      await page.getByRole("button", {name: /create account/i}).click()
+
+      const message = await waitForEmail(email, {subject: /welcome/i})
+      expect(findLink(message, /\/dashboard$/)).toBeTruthy()
+    })
   })
 })
@@ -0,0 +1,59 @@
+import {test, expect} from "@playwright/test"
+import {createVerifiedUser, signInWithPassword} from "./helpers/accounts"
+import {overrideFeatureFlags} from "./helpers/feature-flags"
+
+/**
+ * E2E Tests for QA feature flag overrides
+ *
+ * Tests cover:
+ * - Overriding a flag for one test through the signed cookie
+ * - Flipping a flag from the toolbar
+ *
+ * They switch `twoFactorAuth`, which the security settings page reads on
+ * the server, so a passing test shows the server honours the override too.
+ */
+
+const twoFactorUnavailable = "Two-factor authentication is not available yet."
+
+test.describe("Feature flag overrides", () => {
+  test("should apply overrides set by the test", async ({
+    page,
+    context,
+    baseURL,
+  }) => {
+    await overrideFeatureFlags({context, baseURL}, {twoFactorAuth: true})
+    const user = await createVerifiedUser(page)
+    await signInWithPassword(page, user)
+    await page.goto("/dashboard/settings/security")
+
+    await expect(page.getByText(twoFactorUnavailable)).toBeHidden()
+  })
+
+  test("should not carry overrides into other tests", async ({page}) => {
+    const user = await createVerifiedUser(page)
+    await signInWithPassword(page, user)
+    await page.goto("/dashboard/settings/security")
+
+    await expect(page.getByText(twoFactorUnavailable)).toBeVisible()
+  })
+
+  test("should override a flag from the toolbar", async ({page}) => {
+    // The toolbar is only rendered on signed-in pages
+    const user = await createVerifiedUser(page)
+    await signInWithPassword(page, user)
+    await page.goto("/dashboard/settings/security")
+    await expect(page.getByText(twoFactorUnavailable)).toBeVisible()
+
+    await page.getByRole("button", {name: /flags/i}).click()
+    await page
+      .getByRole("group", {name: "Override twoFactorAuth"})
+      .getByRole("button", {name: "On"})
+      .click()
+
+    await expect(page.getByText(twoFactorUnavailable)).toBeHidden()
+    await expect(page.getByRole("button", {name: /flags \(1\)/i})).toBeVisible()
+
+    await page.getByRole("button", {name: /reset all/i}).click()
+    await expect(page.getByText(twoFactorUnavailable)).toBeVisible()
+  })
+})
@@ -0,0 +1,15 @@
+import {startMockOidcIssuer} from "./helpers/mock-oidc-issuer"
+
+/**
+ * Playwright global setup
+ *
+ * Starts local stand-ins for external services. The returned function is
+ * used by Playwright as the global teardown.
+ */
+export default async function globalSetup() {
+  const oidcIssuer = await startMockOidcIssuer()
+
+  return async () => {
+    await new Promise(resolve => oidcIssuer.close(resolve))
+  }
+}
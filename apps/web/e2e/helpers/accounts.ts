@@ -0,0 +1,43 @@
+import {expect, type Page} from "@playwright/test"
+import {findLink, waitForEmail} from "./mailbox"
+
+export const defaultPassword = "Test123!@#"
+
+/**
+ * Sign up a fresh user and confirm their email through the captured
+ * verification message. Leaves the page signed out.
+ */
+export async function createVerifiedUser(
+  page: Page,
+  {
+    email = `user-${Date.now()}@example.com`,
+    name = "Test User",
+    password = defaultPassword,
+  }: {email?: string; name?: string; password?: string} = {}
+) {
+  await page.goto("/auth/signup")
+  await page.getByLabel(/name/i).fill(name)
+  await page.getByLabel(/email/i).fill(email)
+  await page.getByLabel(/password/i).fill(password)
+  await page.getByRole("button", {name: /create account/i}).click()
+
+  const verification = await waitForEmail(email, {subject: /verify/i})
+  await page.goto(findLink(verification, /verify-email\/confirm/))
+  await page.context().clearCookies()
+
+  return {email, name, password}
+}
+
+/**
+ * Sign in with email and password and wait for the dashboard
+ */
+export async function signInWithPassword(
+  page: Page,
+  {email, password = defaultPassword}: {email: string; password?: string}
+) {
+  await page.goto("/auth/signin")
+  await page.getByLabel(/email/i).fill(email)
+  await page.getByLabel(/password/i).fill(password)
+  await page.getByRole("button", {name: /^sign in$/i}).click()
+  await expect(page).toHaveURL("/dashboard", {timeout: 10000})
+}
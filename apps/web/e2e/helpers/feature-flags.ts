@@ -0,0 +1,40 @@
+import type {BrowserContext} from "@playwright/test"
+import type {FeatureFlagOverrides} from "../../lib/feature-flags"
+import {
+  FEATURE_FLAG_OVERRIDES_COOKIE,
+  signFeatureFlagOverrides,
+} from "../../lib/server/feature-flag-overrides"
+
+/**
+ * Per-test feature flag overrides
+ *
+ * Signs the same cookie the flag toolbar writes, with a key playwright.config
+ * hands to the dev server. A reused dev server must be started with the
+ * same FEATURE_FLAG_OVERRIDES_SECRET.
+ *
+ * Usage:
+ * ```ts
+ * test.beforeEach(async ({context, baseURL}) => {
+ *   await overrideFeatureFlags({context, baseURL}, {dashboardCharts: false})
+ * })
+ * ```
+ */
+
+export const featureFlagOverridesSecret =
+  process.env.FEATURE_FLAG_OVERRIDES_SECRET ||
+  "e2e-feature-flag-overrides-secret-0123456789"
+
+export async function overrideFeatureFlags(
+  {context, baseURL}: {context: BrowserContext; baseURL?: string},
+  overrides: FeatureFlagOverrides
+) {
+  await context.addCookies([
+    {
+      name: FEATURE_FLAG_OVERRIDES_COOKIE,
+      value: signFeatureFlagOverrides(overrides, featureFlagOverridesSecret),
+      url: baseURL || "http://localhost:3000",
+      httpOnly: true,
+      sameSite: "Lax",
+    },
+  ])
+}
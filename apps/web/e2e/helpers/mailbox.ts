@@ -0,0 +1,76 @@
+import {readdir, readFile, rm} from "fs/promises"
+import path from "path"
+import type {CapturedEmail} from "../../lib/server/email/types"
+
+/**
+ * Mailbox helper for E2E tests
+ *
+ * Reads messages captured by the file email transport (EMAIL_TRANSPORT=file).
+ * The dev server started by Playwright writes to the same EMAIL_FILE_DIR.
+ */
+
+export const mailDir =
+  process.env.EMAIL_FILE_DIR || path.join(__dirname, "..", "..", ".mail")
+
+/**
+ * Read every captured message, newest first
+ */
+export async function readMailbox(): Promise<CapturedEmail[]> {
+  const files = await readdir(mailDir).catch(() => [] as string[])
+  const messages = await Promise.all(
+    files
+      .filter(file => file.endsWith(".json"))
+      .map(
+        async file =>
+          JSON.parse(
+            await readFile(path.join(mailDir, file), "utf8")
+          ) as CapturedEmail
+      )
+  )
+  return messages.sort((a, b) => b.sentAt.localeCompare(a.sentAt))
+}
+
+/**
+ * Wait for the newest message sent to `to`, optionally filtered by subject
+ */
+export async function waitForEmail(
+  to: string,
+  {subject, timeout = 10000}: {subject?: string | RegExp; timeout?: number} = {}
+): Promise<CapturedEmail> {
+  const deadline = Date.now() + timeout
+
+  while (Date.now() < deadline) {
+    const match = (await readMailbox()).find(
+      message =>
+        message.to === to &&
+        (!subject ||
+          (typeof subject === "string"
+            ? message.subject === subject
+            : subject.test(message.subject)))
+    )
+    if (match) return match
+    await new Promise(resolve => setTimeout(resolve, 250))
+  }
+
+  throw new Error(`No email to ${to} received within ${timeout}ms`)
+}
+
+/**
+ * Find the first link in a message whose URL matches `pattern`
+ */
+export function findLink(message: CapturedEmail, pattern: RegExp): string {
+  const link = message.links.find(href => pattern.test(href))
+  if (!link) {
+    throw new Error(
+      `No link matching ${pattern} in "${message.subject}": ${message.links.join(", ")}`
+    )
+  }
+  return link
+}
+
+/**
+ * Remove all captured messages
+ */
+export async function clearMailbox() {
+  await rm(mailDir, {recursive: true, force: true})
+}
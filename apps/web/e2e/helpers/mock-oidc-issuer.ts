@@ -0,0 +1,158 @@
+import {createHmac, randomBytes} from "crypto"
+import {createServer, type Server} from "http"
+
+/**
+ * Minimal OpenID Connect issuer for E2E tests
+ *
+ * Implements just enough of the spec for BetterAuth's genericOAuth plugin:
+ * discovery, an authorize endpoint that immediately redirects back with a
+ * code (no login screen), token exchange and userinfo. Tests choose who
+ * "logs in" next with `setNextOidcUser()`.
+ */
+
+export const MOCK_OIDC_PORT = Number(process.env.MOCK_OIDC_PORT || 4011)
+export const mockOidcIssuer = `http://127.0.0.1:${MOCK_OIDC_PORT}`
+export const mockOidcClient = {
+  clientId: "e2e-client",
+  clientSecret: "e2e-client-secret",
+}
+
+export interface MockOidcUser {
+  sub: string
+  email: string
+  name: string
+  email_verified?: boolean
+}
+
+const defaultUser: MockOidcUser = {
+  sub: "mock-user",
+  email: "oidc-user@example.com",
+  name: "OIDC User",
+  email_verified: true,
+}
+
+function base64url(input: string | Buffer) {
+  return Buffer.from(input).toString("base64url")
+}
+
+function signIdToken(user: MockOidcUser, nonce?: string) {
+  const now = Math.floor(Date.now() / 1000)
+  const header = base64url(JSON.stringify({alg: "HS256", typ: "JWT"}))
+  const payload = base64url(
+    JSON.stringify({
+      ...user,
+      iss: mockOidcIssuer,
+      aud: mockOidcClient.clientId,
+      iat: now,
+      exp: now + 300,
+      nonce,
+    })
+  )
+  const signature = createHmac("sha256", mockOidcClient.clientSecret)
+    .update(`${header}.${payload}`)
+    .digest("base64url")
+  return `${header}.${payload}.${signature}`
+}
+
+/**
+ * Start the issuer. Resolves once it is listening.
+ */
+export function startMockOidcIssuer(): Promise<Server> {
+  let nextUser = defaultUser
+  const codes = new Map<string, {user: MockOidcUser; nonce?: string}>()
+  const accessTokens = new Map<string, MockOidcUser>()
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", mockOidcIssuer)
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, {"Content-Type": "application/json"})
+      res.end(JSON.stringify(body))
+    }
+    const readBody = async () => {
+      let body = ""
+      for await (const chunk of req) body += chunk
+      return body
+    }
+
+    switch (`${req.method} ${url.pathname}`) {
+      case "GET /.well-known/openid-configuration":
+        return json(200, {
+          issuer: mockOidcIssuer,
+          authorization_endpoint: `${mockOidcIssuer}/authorize`,
+          token_endpoint: `${mockOidcIssuer}/token`,
+          userinfo_endpoint: `${mockOidcIssuer}/userinfo`,
+          response_types_supported: ["code"],
+          subject_types_supported: ["public"],
+          id_token_signing_alg_values_supported: ["HS256"],
+          code_challenge_methods_supported: ["S256"],
+        })
+
+      case "GET /authorize": {
+        const redirectUri = url.searchParams.get("redirect_uri")
+        if (!redirectUri) return json(400, {error: "invalid_request"})
+
+        const code = randomBytes(16).toString("hex")
+        codes.set(code, {
+          user: nextUser,
+          nonce: url.searchParams.get("nonce") ?? undefined,
+        })
+        nextUser = defaultUser
+
+        const target = new URL(redirectUri)
+        target.searchParams.set("code", code)
+        const state = url.searchParams.get("state")
+        if (state) target.searchParams.set("state", state)
+        res.writeHead(302, {Location: target.toString()})
+        return res.end()
+      }
+
+      case "POST /token": {
+        const params = new URLSearchParams(await readBody())
+        const grant = codes.get(params.get("code") || "")
+        if (!grant) return json(400, {error: "invalid_grant"})
+        codes.delete(params.get("code")!)
+
+        const accessToken = randomBytes(16).toString("hex")
+        accessTokens.set(accessToken, grant.user)
+        return json(200, {
+          access_token: accessToken,
+          token_type: "Bearer",
+          expires_in: 3600,
+          scope: "openid email profile",
+          id_token: signIdToken(grant.user, grant.nonce),
+        })
+      }
+
+      case "GET /userinfo": {
+        const token = req.headers.authorization?.replace(/^Bearer /, "")
+        const user = token && accessTokens.get(token)
+        return user ? json(200, user) : json(401, {error: "invalid_token"})
+      }
+
+      // Test control endpoint, see setNextOidcUser()
+      case "POST /__mock/next-user":
+        nextUser = {...defaultUser, ...JSON.parse(await readBody())}
+        return json(200, nextUser)
+
+      default:
+        return json(404, {error: "not_found"})
+    }
+  })
+
+  return new Promise(resolve => {
+    server.listen(MOCK_OIDC_PORT, "127.0.0.1", () => resolve(server))
+  })
+}
+
+/**
+ * Choose the identity returned by the next authorization request
+ */
+export async function setNextOidcUser(user: Partial<MockOidcUser>) {
+  const response = await fetch(`${mockOidcIssuer}/__mock/next-user`, {
+    method: "POST",
+    body: JSON.stringify(user),
+  })
+  if (!response.ok) {
+    throw new Error(`Mock OIDC issuer is not running at ${mockOidcIssuer}`)
+  }
+}
@@ -0,0 +1,39 @@
+import type {Page} from "@playwright/test"
+
+/**
+ * Attach a CDP virtual authenticator to the page (Chromium only)
+ *
+ * The authenticator stores resident keys and auto-approves user presence
+ * and verification, so passkey ceremonies complete without any prompt.
+ */
+export async function addVirtualAuthenticator(page: Page) {
+  const client = await page.context().newCDPSession(page)
+  await client.send("WebAuthn.enable")
+  const {authenticatorId} = await client.send(
+    "WebAuthn.addVirtualAuthenticator",
+    {
+      options: {
+        protocol: "ctap2",
+        transport: "internal",
+        hasResidentKey: true,
+        hasUserVerification: true,
+        isUserVerified: true,
+        automaticPresenceSimulation: true,
+      },
+    }
+  )
+
+  return {
+    async credentials() {
+      const {credentials} = await client.send("WebAuthn.getCredentials", {
+        authenticatorId,
+      })
+      return credentials
+    },
+    async remove() {
+      await client.send("WebAuthn.removeVirtualAuthenticator", {
+        authenticatorId,
+      })
+    },
+  }
+}
@@ -0,0 +1,69 @@
+import {test, expect} from "@playwright/test"
+import {findLink, waitForEmail} from "./helpers/mailbox"
+import {
+  createVerifiedUser,
+  defaultPassword,
+  signInWithPassword,
+} from "./helpers/accounts"
+
+/**
+ * E2E Tests for Organizations
+ *
+ * Tests cover:
+ * - Creating an organization from settings and switching to it
+ * - Inviting a member by email and accepting after signing in
+ */
+
+test.describe("Organizations", () => {
+  test("should invite a member who joins after signing in", async ({
+    page,
+    browser,
+  }) => {
+    const stamp = Date.now()
+    const owner = await createVerifiedUser(page, {
+      email: `org-owner-${stamp}@example.com`,
+    })
+    const invitee = await createVerifiedUser(page, {
+      email: `org-invitee-${stamp}@example.com`,
+    })
+    const organizationName = `Acme ${stamp}`
+
+    await signInWithPassword(page, {email: owner.email})
+    await page.goto("/dashboard/settings/organization")
+    await page.getByLabel(/organization name/i).fill(organizationName)
+    await page.getByRole("button", {name: /create organization/i}).click()
+    await expect(
+      page.getByRole("combobox", {name: /active organization/i})
+    ).toHaveValue(/.+/)
+    await expect(
+      page.getByRole("heading", {name: organizationName})
+    ).toBeVisible()
+
+    await page.getByLabel(/email address/i).fill(invitee.email)
+    await page.getByRole("button", {name: /send invite/i}).click()
+    await expect(
+      page.getByText(`Invitation sent to ${invitee.email}`)
+    ).toBeVisible()
+
+    const message = await waitForEmail(invitee.email, {
+      subject: /invited to join/i,
+    })
+    const link = findLink(message, /invitations\/accept/)
+
+    const inviteeContext = await browser.newContext()
+    const inviteePage = await inviteeContext.newPage()
+    await inviteePage.goto(link)
+    await expect(inviteePage).toHaveURL(/\/auth\/signin\?redirectTo=/)
+    await inviteePage.getByLabel(/email/i).fill(invitee.email)
+    await inviteePage.getByLabel(/password/i).fill(defaultPassword)
+    await inviteePage.getByRole("button", {name: /^sign in$/i}).click()
+    await expect(inviteePage).toHaveURL("/dashboard", {timeout: 10000})
+
+    await inviteePage.goto("/dashboard/settings/organization")
+    await expect(
+      inviteePage.getByRole("heading", {name: organizationName})
+    ).toBeVisible()
+    await expect(inviteePage.getByText(owner.email)).toBeVisible()
+    await inviteeContext.close()
+  })
+})
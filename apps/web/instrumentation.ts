@@ -0,0 +1,17 @@
+/**
+ * Runs once when a server process starts, before it handles requests
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const {registerFeatureFlagStore} = await import(
+      "./lib/server/feature-flags"
+    )
+    await registerFeatureFlagStore()
+
+    // Fail fast rather than drop verification and reset emails
+    if (process.env.NODE_ENV === "production") {
+      const {getEmailTransport} = await import("./lib/server/email")
+      getEmailTransport()
+    }
+  }
+}
@@ -0,0 +1,333 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {
+  getSoleOwnedOrganizations,
+  requestEmailChange,
+  scheduleAccountDeletion as scheduleAccountDeletionRecord,
+} from "@/lib/server/account"
+import {recordAuditEvent} from "@/lib/server/audit"
+import {setUserAvatar, storeAvatar} from "@/lib/server/avatars"
+import {requestDataExport as requestDataExportRecord} from "@/lib/server/data-export"
+import {auth} from "@/lib/server/auth"
+import {getCurrentSession} from "@/lib/server/session"
+import {
+  changeEmail,
+  requestDataExport,
+  scheduleAccountDeletion,
+  updateName,
+  uploadAvatar,
+} from "../account"
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(async () => new Headers()),
+  cookies: vi.fn(async () => ({get: vi.fn()})),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/server/auth", () => ({
+  auth: {
+    api: {
+      updateUser: vi.fn(),
+      revokeOtherSessions: vi.fn(),
+    },
+  },
+}))
+
+vi.mock("@/lib/server/audit", () => ({
+  recordAuditEvent: vi.fn(),
+}))
+
+vi.mock("@/lib/server/session", () => ({
+  getCurrentSession: vi.fn(),
+}))
+
+vi.mock("@/lib/server/account", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/server/account")>()),
+  requestEmailChange: vi.fn(),
+  cancelEmailChange: vi.fn(),
+  getSoleOwnedOrganizations: vi.fn(),
+  scheduleAccountDeletion: vi.fn(),
+  cancelAccountDeletion: vi.fn(),
+}))
+
+vi.mock("@/lib/server/data-export", () => ({
+  requestDataExport: vi.fn(),
+}))
+
+vi.mock("@/lib/server/avatars", () => ({
+  setUserAvatar: vi.fn(),
+  storeAvatar: vi.fn(),
+}))
+
+vi.mock("@/lib/server/db", () => ({db: {}}))
+
+function signedIn(overrides: object = {}) {
+  return {
+    session: {id: "session-1"},
+    user: {id: "user-1", name: "Test", email: "test@example.com"},
+    organization: null,
+    memberships: [],
+    apiKey: null,
+    ...overrides,
+  } as never
+}
+
+describe("updateName", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentSession).mockResolvedValue(signedIn())
+  })
+
+  it("updates the name through BetterAuth", async () => {
+    const result = await updateName({name: "New Name"})
+
+    expect(result.success).toBe(true)
+    expect(auth.api.updateUser).toHaveBeenCalledWith(
+      expect.objectContaining({body: {name: "New Name"}})
+    )
+  })
+
+  it("rejects an empty name", async () => {
+    const result = await updateName({name: ""})
+
+    expect(result.success).toBe(false)
+    expect(auth.api.updateUser).not.toHaveBeenCalled()
+  })
+
+  it("refuses while impersonating", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(
+      signedIn({session: {id: "session-1", impersonatedBy: "admin-1"}})
+    )
+
+    const result = await updateName({name: "New Name"})
+
+    expect(result.success).toBe(false)
+    expect(auth.api.updateUser).not.toHaveBeenCalled()
+  })
+})
+
+describe("changeEmail", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentSession).mockResolvedValue(signedIn())
+  })
+
+  it("sends a confirmation link and records the request", async () => {
+    vi.mocked(requestEmailChange).mockResolvedValue({
+      ok: true,
+      email: "new@example.com",
+    })
+
+    const result = await changeEmail({email: "New@Example.com"})
+
+    expect(result).toEqual({success: true, data: {email: "new@example.com"}})
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "auth.email-change-requested",
+        metadata: {to: "new@example.com"},
+      })
+    )
+  })
+
+  it("reports an address used by another account", async () => {
+    vi.mocked(requestEmailChange).mockResolvedValue({
+      ok: false,
+      reason: "taken",
+    })
+
+    const result = await changeEmail({email: "other@example.com"})
+
+    expect(result).toEqual({
+      success: false,
+      error: "That email address is already in use",
+    })
+    expect(recordAuditEvent).not.toHaveBeenCalled()
+  })
+
+  it("refuses API key requests", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(
+      signedIn({apiKey: {id: "key-1", scopes: [], organizationId: "org-1"}})
+    )
+
+    const result = await changeEmail({email: "new@example.com"})
+
+    expect(result.success).toBe(false)
+    expect(requestEmailChange).not.toHaveBeenCalled()
+  })
+})
+
+describe("scheduleAccountDeletion", () => {
+  const deletionScheduledAt = new Date("2030-01-15T00:00:00.000Z")
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentSession).mockResolvedValue(signedIn())
+    vi.mocked(getSoleOwnedOrganizations).mockResolvedValue([])
+    vi.mocked(scheduleAccountDeletionRecord).mockResolvedValue(
+      deletionScheduledAt
+    )
+  })
+
+  it("schedules deletion and signs out other sessions", async () => {
+    const result = await scheduleAccountDeletion({
+      confirmation: "TEST@example.com ",
+    })
+
+    expect(result).toEqual({
+      success: true,
+      data: {deletionScheduledAt: deletionScheduledAt.toISOString()},
+    })
+    expect(scheduleAccountDeletionRecord).toHaveBeenCalledWith("user-1")
+    expect(auth.api.revokeOtherSessions).toHaveBeenCalled()
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({action: "auth.account-deletion-scheduled"})
+    )
+  })
+
+  it("requires the email to be typed", async () => {
+    const result = await scheduleAccountDeletion({confirmation: "delete"})
+
+    expect(result).toEqual({
+      success: false,
+      error: "The email you typed does not match",
+    })
+    expect(scheduleAccountDeletionRecord).not.toHaveBeenCalled()
+  })
+
+  it("refuses while the user is the only owner of a shared organization", async () => {
+    vi.mocked(getSoleOwnedOrganizations).mockResolvedValue([
+      {id: "org-1", name: "Acme"},
+    ])
+
+    const result = await scheduleAccountDeletion({
+      confirmation: "test@example.com",
+    })
+
+    expect(result.success).toBe(false)
+    expect(!result.success && result.error).toContain("Acme")
+    expect(scheduleAccountDeletionRecord).not.toHaveBeenCalled()
+  })
+})
+
+describe("requestDataExport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentSession).mockResolvedValue(signedIn())
+  })
+
+  it("queues an export and records the request", async () => {
+    vi.mocked(requestDataExportRecord).mockResolvedValue({
+      ok: true,
+      exportId: "export-1",
+    })
+
+    const result = await requestDataExport()
+
+    expect(result.success).toBe(true)
+    expect(requestDataExportRecord).toHaveBeenCalledWith("user-1")
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "auth.data-export-requested",
+        metadata: {exportId: "export-1"},
+      })
+    )
+  })
+
+  it("refuses while an export is being prepared", async () => {
+    vi.mocked(requestDataExportRecord).mockResolvedValue({
+      ok: false,
+      reason: "pending",
+    })
+
+    const result = await requestDataExport()
+
+    expect(result).toEqual({
+      success: false,
+      error: "Your previous export is still being prepared",
+    })
+    expect(recordAuditEvent).not.toHaveBeenCalled()
+  })
+
+  it("refuses while impersonating", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(
+      signedIn({session: {id: "session-1", impersonatedBy: "admin-1"}})
+    )
+
+    const result = await requestDataExport()
+
+    expect(result.success).toBe(false)
+    expect(requestDataExportRecord).not.toHaveBeenCalled()
+  })
+})
+
+describe("uploadAvatar", () => {
+  function avatarForm() {
+    const data = new FormData()
+    data.set("avatar", new File(["png"], "avatar.png", {type: "image/png"}))
+    return data
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllEnvs()
+    vi.mocked(getCurrentSession).mockResolvedValue(
+      signedIn({
+        user: {
+          id: "user-1",
+          name: "Test",
+          email: "test@example.com",
+          image: "/old.webp",
+        },
+      })
+    )
+  })
+
+  it("is unavailable while the flag is off", async () => {
+    const result = await uploadAvatar(avatarForm())
+
+    expect(result).toEqual({
+      success: false,
+      error: "Avatar uploads are currently disabled",
+    })
+    expect(storeAvatar).not.toHaveBeenCalled()
+  })
+
+  describe("with the flag on", () => {
+    beforeEach(() => {
+      vi.resetModules()
+    })
+
+    it("stores the image and replaces the previous avatar", async () => {
+      vi.stubEnv("NEXT_PUBLIC_FEATURE_AVATAR_UPLOAD", "true")
+      const {uploadAvatar: upload} = await import("../account")
+      vi.mocked(storeAvatar).mockResolvedValue({ok: true, image: "/new.webp"})
+
+      const result = await upload(avatarForm())
+
+      expect(result).toEqual({success: true, data: {image: "/new.webp"}})
+      expect(setUserAvatar).toHaveBeenCalledWith(
+        expect.objectContaining({id: "user-1", image: "/old.webp"}),
+        "/new.webp"
+      )
+    })
+
+    it("explains why an image was rejected", async () => {
+      vi.stubEnv("NEXT_PUBLIC_FEATURE_AVATAR_UPLOAD", "true")
+      const {uploadAvatar: upload} = await import("../account")
+      vi.mocked(storeAvatar).mockResolvedValue({
+        ok: false,
+        reason: "invalid-image",
+      })
+
+      const result = await upload(avatarForm())
+
+      expect(result).toEqual({
+        success: false,
+        error: "That file could not be read as an image",
+      })
+      expect(setUserAvatar).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,386 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {APIError} from "better-auth/api"
+import {deleteUserApiKeys} from "@/lib/server/api-keys"
+import {recordAuditEvent} from "@/lib/server/audit"
+import {auth} from "@/lib/server/auth"
+import {db} from "@/lib/server/db"
+import {setStoredFeatureFlag} from "@/lib/server/feature-flags"
+import {getCurrentSession} from "@/lib/server/session"
+import {
+  createUser,
+  deleteUser,
+  forcePasswordReset,
+  setFeatureFlag,
+  setFeatureFlagRules,
+  setUserDisabled,
+  verifyUserEmail,
+} from "../admin"
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(async () => new Headers()),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/server/auth", () => ({
+  auth: {
+    api: {
+      createUser: vi.fn(),
+      banUser: vi.fn(),
+      unbanUser: vi.fn(),
+      adminUpdateUser: vi.fn(),
+      revokeUserSessions: vi.fn(),
+      requestPasswordReset: vi.fn(),
+      removeUser: vi.fn(),
+    },
+  },
+}))
+
+vi.mock("@/lib/server/api-keys", () => ({
+  deleteUserApiKeys: vi.fn(),
+}))
+
+vi.mock("@/lib/server/audit", () => ({
+  recordAuditEvent: vi.fn(),
+}))
+
+vi.mock("@/lib/server/session", () => ({
+  getCurrentSession: vi.fn(),
+}))
+
+vi.mock("@/lib/server/feature-flags", () => ({
+  setStoredFeatureFlag: vi.fn(),
+}))
+
+vi.mock("@/lib/server/db", () => ({
+  db: {
+    query: {
+      users: {
+        findFirst: vi.fn(),
+      },
+    },
+  },
+}))
+
+function sessionWithRole(role: string) {
+  return {
+    session: {id: "session-1"},
+    user: {id: "admin-1", email: "admin@example.com", role},
+    organization: null,
+    memberships: [],
+  } as never
+}
+
+const target = {id: "user-2", email: "user@example.com"}
+
+describe("admin actions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("admin"))
+    vi.mocked(db.query.users.findFirst).mockResolvedValue(target as never)
+  })
+
+  it("refuses users without the admin role", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("user"))
+
+    const results = await Promise.all([
+      createUser({
+        name: "New User",
+        email: "new@example.com",
+        password: "Correct-Horse-9",
+      }),
+      setUserDisabled({userId: "user-2", disabled: true}),
+      forcePasswordReset({userId: "user-2"}),
+      verifyUserEmail({userId: "user-2"}),
+      deleteUser({userId: "user-2"}),
+      setFeatureFlag({flag: "maintenanceMode", enabled: true}),
+    ])
+
+    for (const result of results) {
+      expect(result).toEqual({
+        success: false,
+        error: "You do not have permission to do that",
+      })
+    }
+    expect(auth.api.createUser).not.toHaveBeenCalled()
+    expect(auth.api.banUser).not.toHaveBeenCalled()
+    expect(auth.api.adminUpdateUser).not.toHaveBeenCalled()
+    expect(auth.api.removeUser).not.toHaveBeenCalled()
+    expect(setStoredFeatureFlag).not.toHaveBeenCalled()
+    expect(recordAuditEvent).not.toHaveBeenCalled()
+  })
+
+  describe("createUser", () => {
+    it("validates the email with the user schema", async () => {
+      const result = await createUser({
+        name: "New User",
+        email: "not-an-email",
+        password: "Correct-Horse-9",
+      })
+
+      expect(result.success).toBe(false)
+      expect(auth.api.createUser).not.toHaveBeenCalled()
+    })
+
+    it("applies the password policy", async () => {
+      const result = await createUser({
+        name: "New User",
+        email: "new@example.com",
+        password: "P@ssw0rd!",
+      })
+
+      expect(result).toEqual({
+        success: false,
+        error:
+          "This password has appeared in a data breach. Please choose a different one.",
+      })
+      expect(auth.api.createUser).not.toHaveBeenCalled()
+    })
+
+    it("creates a normalized user through the admin plugin", async () => {
+      vi.mocked(auth.api.createUser).mockResolvedValue({
+        user: {id: "user-3"},
+      } as never)
+
+      const result = await createUser({
+        name: " New User ",
+        email: "New@Example.com",
+        password: "Correct-Horse-9",
+        emailVerified: true,
+      })
+
+      expect(result).toEqual({success: true, data: {id: "user-3"}})
+      expect(auth.api.createUser).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            name: "New User",
+            email: "new@example.com",
+            role: "user",
+            data: {emailVerified: true},
+          }),
+        })
+      )
+    })
+
+    it("returns the plugin's message for duplicate emails", async () => {
+      vi.mocked(auth.api.createUser).mockRejectedValue(
+        new APIError("BAD_REQUEST", {
+          message: "User already exists. Use another email.",
+        })
+      )
+
+      const result = await createUser({
+        name: "New User",
+        email: "taken@example.com",
+        password: "Correct-Horse-9",
+      })
+
+      expect(result).toEqual({
+        success: false,
+        error: "User already exists. Use another email.",
+      })
+    })
+  })
+
+  describe("setUserDisabled", () => {
+    it("refuses to disable the admin's own account", async () => {
+      const result = await setUserDisabled({userId: "admin-1", disabled: true})
+
+      expect(result.success).toBe(false)
+      expect(auth.api.banUser).not.toHaveBeenCalled()
+    })
+
+    it("deletes the disabled user's API keys", async () => {
+      await setUserDisabled({userId: "user-2", disabled: true})
+
+      expect(deleteUserApiKeys).toHaveBeenCalledWith("user-2")
+    })
+
+    it("leaves API keys alone when enabling a user", async () => {
+      await setUserDisabled({userId: "user-2", disabled: false})
+
+      expect(deleteUserApiKeys).not.toHaveBeenCalled()
+    })
+
+    it("bans and unbans the target user", async () => {
+      await setUserDisabled({userId: "user-2", disabled: true})
+      await setUserDisabled({userId: "user-2", disabled: false})
+
+      expect(auth.api.banUser).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({userId: "user-2"}),
+        })
+      )
+      expect(auth.api.unbanUser).toHaveBeenCalledWith(
+        expect.objectContaining({body: {userId: "user-2"}})
+      )
+      expect(
+        vi.mocked(recordAuditEvent).mock.calls.map(([event]) => event.action)
+      ).toEqual(["admin.user-disabled", "admin.user-enabled"])
+    })
+  })
+
+  describe("forcePasswordReset", () => {
+    it("flags the user, signs them out and emails a reset link", async () => {
+      const result = await forcePasswordReset({userId: "user-2"})
+
+      expect(result.success).toBe(true)
+      expect(auth.api.adminUpdateUser).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: {userId: "user-2", data: {passwordResetRequired: true}},
+        })
+      )
+      expect(auth.api.revokeUserSessions).toHaveBeenCalledWith(
+        expect.objectContaining({body: {userId: "user-2"}})
+      )
+      expect(auth.api.requestPasswordReset).toHaveBeenCalledWith({
+        body: {email: "user@example.com", redirectTo: "/auth/reset-password"},
+      })
+    })
+
+    it("reports unknown users", async () => {
+      vi.mocked(db.query.users.findFirst).mockResolvedValue(undefined)
+
+      const result = await forcePasswordReset({userId: "user-missing"})
+
+      expect(result).toEqual({success: false, error: "User not found"})
+      expect(auth.api.adminUpdateUser).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("deleteUser", () => {
+    it("refuses to delete the admin's own account", async () => {
+      const result = await deleteUser({userId: "admin-1"})
+
+      expect(result.success).toBe(false)
+      expect(auth.api.removeUser).not.toHaveBeenCalled()
+    })
+
+    it("removes the target user", async () => {
+      const result = await deleteUser({userId: "user-2"})
+
+      expect(result.success).toBe(true)
+      expect(auth.api.removeUser).toHaveBeenCalledWith(
+        expect.objectContaining({body: {userId: "user-2"}})
+      )
+      expect(recordAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "admin.user-deleted",
+          actor: expect.objectContaining({id: "admin-1"}),
+          target: {type: "user", id: "user-2"},
+          metadata: {email: "user@example.com"},
+        })
+      )
+    })
+  })
+
+  describe("setFeatureFlag", () => {
+    it("rejects unknown flags", async () => {
+      const result = await setFeatureFlag({
+        flag: "noSuchFlag" as never,
+        enabled: true,
+      })
+
+      expect(result).toEqual({success: false, error: "Invalid feature flag"})
+      expect(setStoredFeatureFlag).not.toHaveBeenCalled()
+    })
+
+    it("stores the value and records the change", async () => {
+      vi.mocked(setStoredFeatureFlag).mockResolvedValue(null)
+
+      const result = await setFeatureFlag({
+        flag: "maintenanceMode",
+        enabled: true,
+      })
+
+      expect(result.success).toBe(true)
+      expect(setStoredFeatureFlag).toHaveBeenCalledWith(
+        "maintenanceMode",
+        {enabled: true},
+        "admin-1"
+      )
+      expect(recordAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "admin.feature-flag-changed",
+          target: {type: "feature-flag", id: "maintenanceMode"},
+          metadata: {enabled: true, previous: null},
+        })
+      )
+    })
+
+    it("resets a flag to its default", async () => {
+      vi.mocked(setStoredFeatureFlag).mockResolvedValue({
+        enabled: false,
+        rules: null,
+      })
+
+      await setFeatureFlag({flag: "dashboardCharts", enabled: null})
+
+      expect(setStoredFeatureFlag).toHaveBeenCalledWith(
+        "dashboardCharts",
+        null,
+        "admin-1"
+      )
+      expect(recordAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({metadata: {enabled: null, previous: false}})
+      )
+    })
+  })
+
+  describe("setFeatureFlagRules", () => {
+    it("rejects invalid rules", async () => {
+      const result = await setFeatureFlagRules({
+        flag: "experimentalFeatureA",
+        rules: {percentage: 150},
+      })
+
+      expect(result).toEqual({
+        success: false,
+        error: "Invalid targeting rules",
+      })
+      expect(setStoredFeatureFlag).not.toHaveBeenCalled()
+    })
+
+    it("stores normalized rules and records the change", async () => {
+      vi.mocked(setStoredFeatureFlag).mockResolvedValue(null)
+
+      const result = await setFeatureFlagRules({
+        flag: "experimentalFeatureA",
+        rules: {emailDomains: ["@Example.com"], percentage: 10},
+      })
+
+      expect(result.success).toBe(true)
+      expect(setStoredFeatureFlag).toHaveBeenCalledWith(
+        "experimentalFeatureA",
+        {rules: {emailDomains: ["example.com"], percentage: 10}},
+        "admin-1"
+      )
+      expect(recordAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "admin.feature-flag-changed",
+          metadata: {
+            rules: {emailDomains: ["example.com"], percentage: 10},
+            previousRules: null,
+          },
+        })
+      )
+    })
+
+    it("stores empty rules as no rules", async () => {
+      vi.mocked(setStoredFeatureFlag).mockResolvedValue(null)
+
+      await setFeatureFlagRules({
+        flag: "experimentalFeatureA",
+        rules: {userIds: [], environments: []},
+      })
+
+      expect(setStoredFeatureFlag).toHaveBeenCalledWith(
+        "experimentalFeatureA",
+        {rules: null},
+        "admin-1"
+      )
+    })
+  })
+})
@@ -0,0 +1,177 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {recordAuditEvent} from "@/lib/server/audit"
+import {auth} from "@/lib/server/auth"
+import {db} from "@/lib/server/db"
+import {getCurrentSession} from "@/lib/server/session"
+import type {MemberRole} from "@/lib/organization-roles"
+import {createApiKey, revokeApiKey} from "../api-keys"
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(async () => new Headers()),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/server/auth", () => ({
+  auth: {
+    api: {
+      createApiKey: vi.fn(),
+      deleteApiKey: vi.fn(),
+    },
+  },
+}))
+
+vi.mock("@/lib/server/audit", () => ({
+  recordAuditEvent: vi.fn(),
+}))
+
+vi.mock("@/lib/server/session", () => ({
+  getCurrentSession: vi.fn(),
+}))
+
+vi.mock("@/lib/server/db", () => ({
+  db: {
+    query: {
+      apiKeys: {
+        findFirst: vi.fn(),
+      },
+    },
+  },
+}))
+
+function sessionWithRole(role: MemberRole, overrides: object = {}) {
+  return {
+    session: {id: "session-1"},
+    user: {id: "user-1", email: "test@example.com"},
+    organization: {id: "org-1", name: "Acme", slug: "acme", role},
+    memberships: [],
+    apiKey: null,
+    ...overrides,
+  } as never
+}
+
+const input = {
+  name: "CI",
+  scopes: ["members:read" as const],
+  expiresInDays: 90,
+}
+
+describe("createApiKey", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("member"))
+  })
+
+  it("creates a scoped key for the active organization", async () => {
+    vi.mocked(auth.api.createApiKey).mockResolvedValue({
+      id: "key-1",
+      key: "sk_secret",
+      expiresAt: null,
+    } as never)
+
+    const result = await createApiKey(input)
+
+    expect(result).toEqual({success: true, data: {key: "sk_secret"}})
+    expect(auth.api.createApiKey).toHaveBeenCalledWith({
+      body: {
+        userId: "user-1",
+        name: "CI",
+        expiresIn: 90 * 24 * 60 * 60,
+        permissions: {members: ["read"]},
+        metadata: {organizationId: "org-1"},
+      },
+    })
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "auth.api-key-created",
+        target: {type: "api-key", id: "key-1"},
+      })
+    )
+  })
+
+  it("refuses scopes the user's role does not grant", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("viewer"))
+
+    const result = await createApiKey({
+      ...input,
+      scopes: ["members:read", "content:write"],
+    })
+
+    expect(result).toEqual({
+      success: false,
+      error: "Keys can only be given permissions your role has",
+    })
+    expect(auth.api.createApiKey).not.toHaveBeenCalled()
+  })
+
+  it("refuses requests made with an API key", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(
+      sessionWithRole("owner", {
+        apiKey: {id: "key-0", scopes: [], organizationId: "org-1"},
+      })
+    )
+
+    const result = await createApiKey(input)
+
+    expect(result).toEqual({
+      success: false,
+      error: "API keys cannot be used for account management",
+    })
+    expect(auth.api.createApiKey).not.toHaveBeenCalled()
+  })
+
+  it("refuses while an admin is impersonating", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(
+      sessionWithRole("owner", {
+        session: {id: "session-1", impersonatedBy: "admin-1"},
+      })
+    )
+
+    const result = await createApiKey(input)
+
+    expect(result.success).toBe(false)
+    expect(auth.api.createApiKey).not.toHaveBeenCalled()
+  })
+
+  it("requires at least one scope", async () => {
+    const result = await createApiKey({...input, scopes: []})
+
+    expect(result.success).toBe(false)
+    expect(auth.api.createApiKey).not.toHaveBeenCalled()
+  })
+})
+
+describe("revokeApiKey", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("member"))
+  })
+
+  it("only revokes the user's own keys", async () => {
+    vi.mocked(db.query.apiKeys.findFirst).mockResolvedValue(undefined)
+
+    const result = await revokeApiKey({keyId: "key-foreign"})
+
+    expect(result).toEqual({success: false, error: "API key not found"})
+    expect(auth.api.deleteApiKey).not.toHaveBeenCalled()
+  })
+
+  it("deletes the key and records it", async () => {
+    vi.mocked(db.query.apiKeys.findFirst).mockResolvedValue({
+      id: "key-1",
+      name: "CI",
+    } as never)
+
+    const result = await revokeApiKey({keyId: "key-1"})
+
+    expect(result.success).toBe(true)
+    expect(auth.api.deleteApiKey).toHaveBeenCalledWith(
+      expect.objectContaining({body: {keyId: "key-1"}})
+    )
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({action: "auth.api-key-revoked"})
+    )
+  })
+})
@@ -0,0 +1,110 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {db} from "@/lib/server/db"
+import {
+  getResendCooldown,
+  sendEmailVerification,
+} from "@/lib/server/email-verification"
+import {setRateLimitStore} from "@/lib/server/rate-limit"
+import {createMemoryStore} from "@/lib/server/rate-limit/stores/memory"
+import {resendVerificationEmail} from "../email-verification"
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(async () => new Headers({"x-forwarded-for": "203.0.113.7"})),
+}))
+
+vi.mock("@/lib/server/db", () => ({
+  db: {
+    query: {
+      users: {
+        findFirst: vi.fn(),
+      },
+    },
+  },
+}))
+
+vi.mock("@/lib/server/email-verification", () => ({
+  RESEND_COOLDOWN_MS: 60_000,
+  getResendCooldown: vi.fn(),
+  sendEmailVerification: vi.fn(),
+}))
+
+const unverifiedUser = {
+  id: "user-1",
+  name: "Ada",
+  email: "ada@example.com",
+  emailVerified: false,
+}
+
+describe("resendVerificationEmail", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setRateLimitStore(createMemoryStore())
+  })
+
+  it("rejects malformed email addresses", async () => {
+    const result = await resendVerificationEmail({email: "not-an-email"})
+
+    expect(result.success).toBe(false)
+    expect(db.query.users.findFirst).not.toHaveBeenCalled()
+  })
+
+  it("reports success for unknown addresses without sending", async () => {
+    vi.mocked(db.query.users.findFirst).mockResolvedValue(undefined)
+
+    const result = await resendVerificationEmail({email: "nobody@example.com"})
+
+    expect(result).toEqual({success: true, data: {retryAfter: 60}})
+    expect(sendEmailVerification).not.toHaveBeenCalled()
+  })
+
+  it("does not resend to already verified users", async () => {
+    vi.mocked(db.query.users.findFirst).mockResolvedValue({
+      ...unverifiedUser,
+      emailVerified: true,
+    } as never)
+
+    const result = await resendVerificationEmail({email: unverifiedUser.email})
+
+    expect(result.success).toBe(true)
+    expect(sendEmailVerification).not.toHaveBeenCalled()
+  })
+
+  it("throttles repeated requests without revealing the account", async () => {
+    vi.mocked(db.query.users.findFirst).mockResolvedValue(
+      unverifiedUser as never
+    )
+    vi.mocked(getResendCooldown).mockResolvedValue(42_500)
+
+    const result = await resendVerificationEmail({email: unverifiedUser.email})
+
+    expect(result).toEqual({success: true, data: {retryAfter: 60}})
+    expect(sendEmailVerification).not.toHaveBeenCalled()
+  })
+
+  it("sends a new link once the cooldown has passed", async () => {
+    vi.mocked(db.query.users.findFirst).mockResolvedValue(
+      unverifiedUser as never
+    )
+    vi.mocked(getResendCooldown).mockResolvedValue(0)
+
+    const result = await resendVerificationEmail({email: unverifiedUser.email})
+
+    expect(result.success).toBe(true)
+    expect(sendEmailVerification).toHaveBeenCalledWith(unverifiedUser)
+  })
+
+  it("rate limits requests for the same address", async () => {
+    vi.mocked(db.query.users.findFirst).mockResolvedValue(undefined)
+
+    for (let i = 0; i < 3; i++) {
+      await resendVerificationEmail({email: "nobody@example.com"})
+    }
+    const result = await resendVerificationEmail({email: "nobody@example.com"})
+
+    expect(result).toEqual({
+      success: false,
+      error: "Too many attempts. Please try again in 15 minutes.",
+    })
+    expect(db.query.users.findFirst).toHaveBeenCalledTimes(3)
+  })
+})
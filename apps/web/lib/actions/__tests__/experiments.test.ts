@@ -0,0 +1,61 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {
+  getCurrentExperimentAssignments,
+  getExperimentSubject,
+  recordExposure,
+} from "@/lib/server/experiments"
+import {recordExperimentExposure} from "../experiments"
+
+vi.mock("@/lib/server/experiments", () => ({
+  getCurrentExperimentAssignments: vi.fn(),
+  getExperimentSubject: vi.fn(),
+  recordExposure: vi.fn(),
+}))
+
+const subject = {userId: "user-1", anonymousId: "anonymous-1"}
+
+describe("recordExperimentExposure", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getExperimentSubject).mockResolvedValue(subject)
+  })
+
+  it("records the variant the server assigns", async () => {
+    vi.mocked(getCurrentExperimentAssignments).mockResolvedValue({
+      dashboardWelcome: "team",
+    })
+
+    const result = await recordExperimentExposure({
+      experiment: "dashboardWelcome",
+    })
+
+    expect(result).toEqual({success: true, data: undefined})
+    expect(recordExposure).toHaveBeenCalledWith(
+      "dashboardWelcome",
+      "team",
+      subject
+    )
+  })
+
+  it("skips visitors outside the experiment", async () => {
+    vi.mocked(getCurrentExperimentAssignments).mockResolvedValue({
+      dashboardWelcome: null,
+    })
+
+    const result = await recordExperimentExposure({
+      experiment: "dashboardWelcome",
+    })
+
+    expect(result).toEqual({success: true, data: undefined})
+    expect(recordExposure).not.toHaveBeenCalled()
+  })
+
+  it("rejects unknown experiments", async () => {
+    const result = await recordExperimentExposure({
+      experiment: "unknown" as never,
+    })
+
+    expect(result).toEqual({success: false, error: "Unknown experiment"})
+    expect(getCurrentExperimentAssignments).not.toHaveBeenCalled()
+  })
+})
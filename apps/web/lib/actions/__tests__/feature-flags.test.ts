@@ -0,0 +1,144 @@
+import {afterEach, describe, it, expect, vi, beforeEach} from "vitest"
+import {cookies} from "next/headers"
+import {
+  canOverrideFeatureFlags,
+  getFeatureFlagOverrides,
+} from "@/lib/server/feature-flags"
+import {
+  FEATURE_FLAG_OVERRIDES_COOKIE,
+  verifyFeatureFlagOverrides,
+} from "@/lib/server/feature-flag-overrides"
+import {getCurrentSession} from "@/lib/server/session"
+import {
+  clearFeatureFlagOverrides,
+  setFeatureFlagOverride,
+} from "../feature-flags"
+
+const cookieStore = {set: vi.fn(), delete: vi.fn()}
+
+vi.mock("next/headers", () => ({
+  cookies: vi.fn(async () => cookieStore),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/server/session", () => ({
+  getCurrentSession: vi.fn(),
+}))
+
+vi.mock("@/lib/server/feature-flags", () => ({
+  canOverrideFeatureFlags: vi.fn(() => true),
+  getFeatureFlagOverrides: vi.fn(async () => null),
+}))
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+function writtenOverrides() {
+  const [name, value] = cookieStore.set.mock.calls[0]
+  expect(name).toBe(FEATURE_FLAG_OVERRIDES_COOKIE)
+  return verifyFeatureFlagOverrides(value)
+}
+
+describe("setFeatureFlagOverride", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv("FEATURE_FLAG_OVERRIDES_SECRET", "test-secret")
+    vi.mocked(getCurrentSession).mockResolvedValue(null)
+    vi.mocked(cookies).mockResolvedValue(cookieStore as never)
+  })
+
+  it("adds to the browser's existing overrides", async () => {
+    vi.mocked(getFeatureFlagOverrides).mockResolvedValueOnce({
+      dashboardCharts: false,
+    })
+
+    const result = await setFeatureFlagOverride({
+      flag: "experimentalFeatureA",
+      enabled: true,
+    })
+
+    expect(result).toEqual({success: true, data: undefined})
+    expect(writtenOverrides()).toEqual({
+      dashboardCharts: false,
+      experimentalFeatureA: true,
+    })
+  })
+
+  it("removes an override", async () => {
+    vi.mocked(getFeatureFlagOverrides).mockResolvedValueOnce({
+      dashboardCharts: false,
+      experimentalFeatureA: true,
+    })
+
+    await setFeatureFlagOverride({flag: "experimentalFeatureA", enabled: null})
+
+    expect(writtenOverrides()).toEqual({dashboardCharts: false})
+  })
+
+  it("deletes the cookie once no override is left", async () => {
+    vi.mocked(getFeatureFlagOverrides).mockResolvedValueOnce({
+      experimentalFeatureA: true,
+    })
+
+    await setFeatureFlagOverride({flag: "experimentalFeatureA", enabled: null})
+
+    expect(cookieStore.delete).toHaveBeenCalledWith(
+      FEATURE_FLAG_OVERRIDES_COOKIE
+    )
+    expect(cookieStore.set).not.toHaveBeenCalled()
+  })
+
+  it("refuses users who may not override flags", async () => {
+    vi.mocked(canOverrideFeatureFlags).mockReturnValueOnce(false)
+
+    const result = await setFeatureFlagOverride({
+      flag: "experimentalFeatureA",
+      enabled: true,
+    })
+
+    expect(result).toEqual({
+      success: false,
+      error: "Flag overrides are only available to admins in production",
+    })
+    expect(cookieStore.set).not.toHaveBeenCalled()
+  })
+
+  it("rejects unknown flags", async () => {
+    const result = await setFeatureFlagOverride({
+      flag: "notAFlag" as never,
+      enabled: true,
+    })
+
+    expect(result).toEqual({success: false, error: "Invalid flag override"})
+  })
+
+  it("rejects site-wide flags", async () => {
+    const result = await setFeatureFlagOverride({
+      flag: "readOnlyMode" as never,
+      enabled: true,
+    })
+
+    expect(result).toEqual({success: false, error: "Invalid flag override"})
+    expect(cookieStore.set).not.toHaveBeenCalled()
+  })
+})
+
+describe("clearFeatureFlagOverrides", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(cookies).mockResolvedValue(cookieStore as never)
+  })
+
+  it("deletes the cookie", async () => {
+    const result = await clearFeatureFlagOverrides()
+
+    expect(result).toEqual({success: true, data: undefined})
+    expect(cookieStore.delete).toHaveBeenCalledWith(
+      FEATURE_FLAG_OVERRIDES_COOKIE
+    )
+  })
+})
@@ -0,0 +1,282 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {recordAuditEvent} from "@/lib/server/audit"
+import {
+  createOrganization as createOrganizationRecord,
+  getMembership,
+  getOrganizationMember,
+  getOrganizationMembers,
+  inviteToOrganization,
+  removeMember as removeMemberRecord,
+  setActiveOrganization,
+} from "@/lib/server/organizations"
+import {getCurrentSession} from "@/lib/server/session"
+import {isReadOnlyMode, readOnlyModeMessage} from "@/lib/site-mode"
+import type {MemberRole} from "@/lib/organization-roles"
+import {
+  createOrganization,
+  inviteMember,
+  removeMember,
+  switchOrganization,
+} from "../organizations"
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(async () => new Headers()),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/server/analytics", () => ({
+  recordAnalyticsEvent: vi.fn(),
+}))
+
+vi.mock("@/lib/server/audit", () => ({
+  recordAuditEvent: vi.fn(),
+}))
+
+vi.mock("@/lib/server/session", () => ({
+  getCurrentSession: vi.fn(),
+}))
+
+vi.mock("@/lib/server/organizations", () => ({
+  createOrganization: vi.fn(),
+  getMembership: vi.fn(),
+  getOrganizationMember: vi.fn(),
+  getOrganizationMembers: vi.fn(),
+  inviteToOrganization: vi.fn(),
+  removeMember: vi.fn(),
+  revokeInvitation: vi.fn(),
+  setActiveOrganization: vi.fn(),
+}))
+
+vi.mock("@/lib/site-mode", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/site-mode")>()),
+  isReadOnlyMode: vi.fn(() => false),
+}))
+
+function sessionWithRole(role: MemberRole) {
+  return {
+    session: {id: "session-1"},
+    user: {id: "user-1", name: "Test User", email: "test@example.com"},
+    organization: {id: "org-1", name: "Acme", slug: "acme", role},
+    memberships: [{id: "org-1", name: "Acme", slug: "acme", role}],
+  } as never
+}
+
+describe("createOrganization", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(createOrganizationRecord).mockResolvedValue({
+      id: "org-2",
+    } as never)
+  })
+
+  it("creates the organization and makes it active", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("member"))
+
+    const result = await createOrganization({name: "Globex"})
+
+    expect(result).toEqual({success: true, data: {id: "org-2"}})
+    expect(setActiveOrganization).toHaveBeenCalledWith("session-1", "org-2")
+  })
+
+  it("is refused while an admin is impersonating", async () => {
+    const current = sessionWithRole("member") as {session: object}
+    vi.mocked(getCurrentSession).mockResolvedValue({
+      ...current,
+      session: {...current.session, impersonatedBy: "admin-1"},
+    } as never)
+
+    const result = await createOrganization({name: "Globex"})
+
+    expect(result.success).toBe(false)
+    expect(createOrganizationRecord).not.toHaveBeenCalled()
+    expect(setActiveOrganization).not.toHaveBeenCalled()
+  })
+
+  it("is refused to API keys", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue({
+      ...(sessionWithRole("member") as object),
+      apiKey: {id: "key-1", permissions: {}},
+    } as never)
+
+    const result = await createOrganization({name: "Globex"})
+
+    expect(result.success).toBe(false)
+    expect(createOrganizationRecord).not.toHaveBeenCalled()
+  })
+})
+
+describe("inviteMember", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getOrganizationMembers).mockResolvedValue([])
+  })
+
+  it.each<MemberRole>(["member", "viewer"])("refuses %s", async role => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole(role))
+
+    const result = await inviteMember({
+      email: "new@example.com",
+      role: "member",
+    })
+
+    expect(result).toEqual({
+      success: false,
+      error: "You do not have permission to do that",
+    })
+    expect(inviteToOrganization).not.toHaveBeenCalled()
+  })
+
+  it("is refused in read-only mode", async () => {
+    vi.mocked(isReadOnlyMode).mockReturnValueOnce(true)
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("owner"))
+
+    const result = await inviteMember({
+      email: "new@example.com",
+      role: "member",
+    })
+
+    expect(result).toEqual({success: false, error: readOnlyModeMessage})
+    expect(inviteToOrganization).not.toHaveBeenCalled()
+  })
+
+  it("is refused while an admin is impersonating", async () => {
+    const current = sessionWithRole("admin") as {session: object}
+    vi.mocked(getCurrentSession).mockResolvedValue({
+      ...current,
+      session: {...current.session, impersonatedBy: "admin-1"},
+    } as never)
+
+    const result = await inviteMember({
+      email: "new@example.com",
+      role: "member",
+    })
+
+    expect(result.success).toBe(false)
+    expect(inviteToOrganization).not.toHaveBeenCalled()
+  })
+
+  it("rejects owner as an invitation role", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("owner"))
+
+    const result = await inviteMember({
+      email: "new@example.com",
+      role: "owner" as never,
+    })
+
+    expect(result.success).toBe(false)
+    expect(inviteToOrganization).not.toHaveBeenCalled()
+  })
+
+  it("does not invite existing members", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("admin"))
+    vi.mocked(getOrganizationMembers).mockResolvedValue([
+      {email: "existing@example.com"},
+    ] as never)
+
+    const result = await inviteMember({
+      email: "Existing@example.com",
+      role: "member",
+    })
+
+    expect(result).toEqual({
+      success: false,
+      error: "existing@example.com is already a member",
+    })
+    expect(inviteToOrganization).not.toHaveBeenCalled()
+  })
+
+  it("invites on behalf of an admin", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("admin"))
+    vi.mocked(inviteToOrganization).mockResolvedValue("invitation-1")
+
+    const result = await inviteMember({email: "new@example.com", role: "admin"})
+
+    expect(result.success).toBe(true)
+    expect(inviteToOrganization).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: "new@example.com",
+        role: "admin",
+        organization: expect.objectContaining({id: "org-1"}),
+      })
+    )
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "organization.member-invited",
+        actor: expect.objectContaining({id: "user-1"}),
+        target: {type: "invitation", id: "invitation-1"},
+      })
+    )
+  })
+})
+
+describe("removeMember", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("owner"))
+  })
+
+  it.each<MemberRole>(["member", "viewer"])("refuses %s", async role => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole(role))
+
+    const result = await removeMember({memberId: "member-2"})
+
+    expect(result.success).toBe(false)
+    expect(getOrganizationMember).not.toHaveBeenCalled()
+    expect(removeMemberRecord).not.toHaveBeenCalled()
+  })
+
+  it("refuses to remove an owner", async () => {
+    vi.mocked(getOrganizationMember).mockResolvedValue({
+      id: "member-2",
+      role: "owner",
+    } as never)
+
+    const result = await removeMember({memberId: "member-2"})
+
+    expect(result).toEqual({success: false, error: "Owners cannot be removed"})
+    expect(removeMemberRecord).not.toHaveBeenCalled()
+  })
+
+  it("only removes members of the active organization", async () => {
+    vi.mocked(getOrganizationMember).mockResolvedValue(undefined)
+
+    const result = await removeMember({memberId: "member-foreign"})
+
+    expect(result).toEqual({success: false, error: "Member not found"})
+    expect(getOrganizationMember).toHaveBeenCalledWith(
+      "org-1",
+      "member-foreign"
+    )
+    expect(removeMemberRecord).not.toHaveBeenCalled()
+  })
+})
+
+describe("switchOrganization", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("member"))
+  })
+
+  it("refuses organizations the user does not belong to", async () => {
+    vi.mocked(getMembership).mockResolvedValue(undefined)
+
+    const result = await switchOrganization({organizationId: "org-2"})
+
+    expect(result.success).toBe(false)
+    expect(setActiveOrganization).not.toHaveBeenCalled()
+  })
+
+  it("stores the active organization on the session", async () => {
+    vi.mocked(getMembership).mockResolvedValue({
+      organizationId: "org-2",
+    } as never)
+
+    const result = await switchOrganization({organizationId: "org-2"})
+
+    expect(result.success).toBe(true)
+    expect(setActiveOrganization).toHaveBeenCalledWith("session-1", "org-2")
+  })
+})
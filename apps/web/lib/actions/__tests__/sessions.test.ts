@@ -0,0 +1,148 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {auth} from "@/lib/server/auth"
+import {db} from "@/lib/server/db"
+import {isReadOnlyMode, readOnlyModeMessage} from "@/lib/site-mode"
+import {revokeOtherSessions, revokeSession} from "../sessions"
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(async () => new Headers()),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/server/auth", () => ({
+  auth: {
+    api: {
+      getSession: vi.fn(),
+      revokeSession: vi.fn(),
+      revokeOtherSessions: vi.fn(),
+    },
+  },
+}))
+
+vi.mock("@/lib/server/db", () => ({
+  db: {
+    query: {
+      sessions: {
+        findFirst: vi.fn(),
+      },
+    },
+  },
+}))
+
+vi.mock("@/lib/site-mode", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/site-mode")>()),
+  isReadOnlyMode: vi.fn(() => false),
+}))
+
+const currentSession = {
+  session: {id: "session-current", token: "token-current"},
+  user: {id: "user-1"},
+}
+
+describe("revokeSession", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(auth.api.getSession).mockResolvedValue(currentSession as never)
+  })
+
+  it("requires a signed-in user", async () => {
+    vi.mocked(auth.api.getSession).mockResolvedValue(null)
+
+    const result = await revokeSession({sessionId: "session-other"})
+
+    expect(result.success).toBe(false)
+    expect(auth.api.revokeSession).not.toHaveBeenCalled()
+  })
+
+  it("is refused in read-only mode", async () => {
+    vi.mocked(isReadOnlyMode).mockReturnValueOnce(true)
+
+    const result = await revokeSession({sessionId: "session-other"})
+
+    expect(result).toEqual({success: false, error: readOnlyModeMessage})
+    expect(auth.api.revokeSession).not.toHaveBeenCalled()
+  })
+
+  it("refuses to revoke the current session", async () => {
+    const result = await revokeSession({sessionId: "session-current"})
+
+    expect(result.success).toBe(false)
+    expect(auth.api.revokeSession).not.toHaveBeenCalled()
+  })
+
+  it("does not revoke sessions belonging to someone else", async () => {
+    vi.mocked(db.query.sessions.findFirst).mockResolvedValue(undefined)
+
+    const result = await revokeSession({sessionId: "session-foreign"})
+
+    expect(result).toEqual({success: false, error: "Session not found"})
+    expect(auth.api.revokeSession).not.toHaveBeenCalled()
+  })
+
+  it("revokes another session by its token", async () => {
+    vi.mocked(db.query.sessions.findFirst).mockResolvedValue({
+      id: "session-other",
+      token: "token-other",
+      userId: "user-1",
+    } as never)
+
+    const result = await revokeSession({sessionId: "session-other"})
+
+    expect(result.success).toBe(true)
+    expect(auth.api.revokeSession).toHaveBeenCalledWith(
+      expect.objectContaining({body: {token: "token-other"}})
+    )
+  })
+})
+
+describe("revokeOtherSessions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("revokes every other session for the signed-in user", async () => {
+    vi.mocked(auth.api.getSession).mockResolvedValue(currentSession as never)
+
+    const result = await revokeOtherSessions()
+
+    expect(result.success).toBe(true)
+    expect(auth.api.revokeOtherSessions).toHaveBeenCalledTimes(1)
+  })
+
+  it("is refused while an admin is impersonating the user", async () => {
+    vi.mocked(auth.api.getSession).mockResolvedValue({
+      ...currentSession,
+      session: {...currentSession.session, impersonatedBy: "admin-1"},
+    } as never)
+
+    const result = await revokeOtherSessions()
+
+    expect(result).toEqual({
+      success: false,
+      error: "This action is not available while impersonating a user",
+    })
+    expect(auth.api.revokeOtherSessions).not.toHaveBeenCalled()
+  })
+
+  it("is refused in read-only mode", async () => {
+    vi.mocked(isReadOnlyMode).mockReturnValueOnce(true)
+    vi.mocked(auth.api.getSession).mockResolvedValue(currentSession as never)
+
+    const result = await revokeOtherSessions()
+
+    expect(result).toEqual({success: false, error: readOnlyModeMessage})
+    expect(auth.api.revokeOtherSessions).not.toHaveBeenCalled()
+  })
+
+  it("requires a signed-in user", async () => {
+    vi.mocked(auth.api.getSession).mockResolvedValue(null)
+
+    const result = await revokeOtherSessions()
+
+    expect(result.success).toBe(false)
+    expect(auth.api.revokeOtherSessions).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,355 @@
+"use server"
+
+import {headers} from "next/headers"
+import {revalidatePath} from "next/cache"
+import {z} from "zod"
+import {AVATAR_MAX_BYTES} from "@/lib/avatars"
+import {getFeature} from "@/lib/feature-flags"
+import {
+  cancelAccountDeletion as cancelAccountDeletionRecord,
+  cancelEmailChange as cancelEmailChangeRecord,
+  getSelfServiceRestriction,
+  getSoleOwnedOrganizations,
+  requestEmailChange,
+  scheduleAccountDeletion as scheduleAccountDeletionRecord,
+} from "@/lib/server/account"
+import {recordAuditEvent} from "@/lib/server/audit"
+import {setUserAvatar, storeAvatar} from "@/lib/server/avatars"
+import {auth} from "@/lib/server/auth"
+import {requestDataExport as requestDataExportRecord} from "@/lib/server/data-export"
+import {insertUserSchema} from "@/lib/server/db/schema"
+import {getFeatureContext} from "@/lib/server/feature-flags"
+import {logError} from "@/lib/server/logger"
+import {getCurrentSession} from "@/lib/server/session"
+import {isReadOnlyMode, readOnlyModeMessage} from "@/lib/site-mode"
+import type {ActionResult} from "./types"
+
+const accountPath = "/dashboard/settings/account"
+
+// Why an action is refused when its feature is off for the user
+const featureDisabledMessages = {
+  userProfileEditing: "Profile editing is currently disabled",
+  userAvatarUpload: "Avatar uploads are currently disabled",
+}
+
+const avatarErrors = {
+  "too-large": `Images must be ${AVATAR_MAX_BYTES / (1024 * 1024)} MB or smaller`,
+  "unsupported-type": "Please upload a JPEG, PNG, WebP or GIF image",
+  "invalid-image": "That file could not be read as an image",
+}
+
+const nameSchema = insertUserSchema.pick({name: true})
+
+const emailSchema = insertUserSchema.pick({email: true})
+
+const deletionSchema = z.object({
+  confirmation: z.string(),
+})
+
+/**
+ * The signed-in user, or the reason they may not change their account,
+ * including the feature the action needs being off for them
+ */
+async function getAccountOwner(feature?: keyof typeof featureDisabledMessages) {
+  const current = await getCurrentSession()
+  if (!current) {
+    return {ok: false as const, error: "You must be signed in"}
+  }
+  const restriction = getSelfServiceRestriction(current)
+  if (restriction) {
+    return {ok: false as const, error: restriction}
+  }
+  if (feature && !getFeature(feature, await getFeatureContext(current))) {
+    return {ok: false as const, error: featureDisabledMessages[feature]}
+  }
+  return {ok: true as const, current}
+}
+
+export async function updateName(
+  input: z.input<typeof nameSchema>
+): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = nameSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Name must be between 1 and 100 characters"}
+  }
+
+  try {
+    const owner = await getAccountOwner("userProfileEditing")
+    if (!owner.ok) {
+      return {success: false, error: owner.error}
+    }
+
+    await auth.api.updateUser({
+      headers: await headers(),
+      body: {name: parsed.data.name},
+    })
+
+    revalidatePath("/dashboard", "layout")
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "updateName"})
+    return {success: false, error: "Failed to update name"}
+  }
+}
+
+/**
+ * Replace the user's avatar with an uploaded image (form field "avatar")
+ */
+export async function uploadAvatar(
+  formData: FormData
+): Promise<ActionResult<{image: string}>> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const file = formData.get("avatar")
+  if (!(file instanceof File) || file.size === 0) {
+    return {success: false, error: "Please choose an image"}
+  }
+
+  try {
+    const owner = await getAccountOwner("userAvatarUpload")
+    if (!owner.ok) {
+      return {success: false, error: owner.error}
+    }
+    const {user} = owner.current
+
+    const stored = await storeAvatar(user.id, file)
+    if (!stored.ok) {
+      return {success: false, error: avatarErrors[stored.reason]}
+    }
+    await setUserAvatar(user, stored.image)
+
+    revalidatePath("/dashboard", "layout")
+    return {success: true, data: {image: stored.image}}
+  } catch (error) {
+    logError(error as Error, {action: "uploadAvatar"})
+    return {success: false, error: "Failed to upload avatar"}
+  }
+}
+
+export async function removeAvatar(): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  try {
+    const owner = await getAccountOwner("userAvatarUpload")
+    if (!owner.ok) {
+      return {success: false, error: owner.error}
+    }
+    const {user} = owner.current
+
+    await setUserAvatar(user, null)
+
+    revalidatePath("/dashboard", "layout")
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "removeAvatar"})
+    return {success: false, error: "Failed to remove avatar"}
+  }
+}
+
+/**
+ * Email a confirmation link to the new address; the change applies once
+ * it is opened
+ */
+export async function changeEmail(
+  input: z.input<typeof emailSchema>
+): Promise<ActionResult<{email: string}>> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = emailSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Please enter a valid email address"}
+  }
+
+  try {
+    const owner = await getAccountOwner("userProfileEditing")
+    if (!owner.ok) {
+      return {success: false, error: owner.error}
+    }
+    const {user} = owner.current
+
+    const result = await requestEmailChange(user, parsed.data.email)
+    if (!result.ok) {
+      return {
+        success: false,
+        error:
+          result.reason === "unchanged"
+            ? "That is already your email address"
+            : "That email address is already in use",
+      }
+    }
+    await recordAuditEvent({
+      action: "auth.email-change-requested",
+      actor: user,
+      target: {type: "user", id: user.id},
+      headers: await headers(),
+      metadata: {to: result.email},
+    })
+
+    revalidatePath(accountPath)
+    return {success: true, data: {email: result.email}}
+  } catch (error) {
+    logError(error as Error, {action: "changeEmail"})
+    return {success: false, error: "Failed to send confirmation email"}
+  }
+}
+
+export async function cancelEmailChange(): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  try {
+    const owner = await getAccountOwner()
+    if (!owner.ok) {
+      return {success: false, error: owner.error}
+    }
+
+    await cancelEmailChangeRecord(owner.current.user.id)
+
+    revalidatePath(accountPath)
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "cancelEmailChange"})
+    return {success: false, error: "Failed to cancel email change"}
+  }
+}
+
+/**
+ * Schedule the account for deletion and sign out every other device
+ *
+ * The user confirms by typing their email address. Owners must hand over
+ * or empty their organizations first.
+ */
+export async function scheduleAccountDeletion(
+  input: z.infer<typeof deletionSchema>
+): Promise<ActionResult<{deletionScheduledAt: string}>> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = deletionSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Please confirm by typing your email"}
+  }
+
+  try {
+    const owner = await getAccountOwner()
+    if (!owner.ok) {
+      return {success: false, error: owner.error}
+    }
+    const {user} = owner.current
+
+    if (
+      parsed.data.confirmation.trim().toLowerCase() !== user.email.toLowerCase()
+    ) {
+      return {success: false, error: "The email you typed does not match"}
+    }
+
+    const soleOwned = await getSoleOwnedOrganizations(user.id)
+    if (soleOwned.length > 0) {
+      return {
+        success: false,
+        error: `Transfer ownership of ${soleOwned
+          .map(organization => organization.name)
+          .join(", ")} or remove its members first`,
+      }
+    }
+
+    const requestHeaders = await headers()
+    const deletionScheduledAt = await scheduleAccountDeletionRecord(user.id)
+    await auth.api.revokeOtherSessions({headers: requestHeaders})
+    await recordAuditEvent({
+      action: "auth.account-deletion-scheduled",
+      actor: user,
+      target: {type: "user", id: user.id},
+      headers: requestHeaders,
+      metadata: {deletionScheduledAt},
+    })
+
+    revalidatePath(accountPath)
+    return {
+      success: true,
+      data: {deletionScheduledAt: deletionScheduledAt.toISOString()},
+    }
+  } catch (error) {
+    logError(error as Error, {action: "scheduleAccountDeletion"})
+    return {success: false, error: "Failed to schedule account deletion"}
+  }
+}
+
+export async function cancelAccountDeletion(): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  try {
+    const owner = await getAccountOwner()
+    if (!owner.ok) {
+      return {success: false, error: owner.error}
+    }
+    const {user} = owner.current
+
+    await cancelAccountDeletionRecord(user.id)
+    await recordAuditEvent({
+      action: "auth.account-deletion-cancelled",
+      actor: user,
+      target: {type: "user", id: user.id},
+      headers: await headers(),
+    })
+
+    revalidatePath(accountPath)
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "cancelAccountDeletion"})
+    return {success: false, error: "Failed to cancel account deletion"}
+  }
+}
+
+/**
+ * Start building a copy of the user's data; a download link is emailed
+ * when it is ready
+ */
+export async function requestDataExport(): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  try {
+    const owner = await getAccountOwner()
+    if (!owner.ok) {
+      return {success: false, error: owner.error}
+    }
+    const {user} = owner.current
+
+    const result = await requestDataExportRecord(user.id)
+    if (!result.ok) {
+      return {
+        success: false,
+        error: "Your previous export is still being prepared",
+      }
+    }
+    await recordAuditEvent({
+      action: "auth.data-export-requested",
+      actor: user,
+      target: {type: "user", id: user.id},
+      headers: await headers(),
+      metadata: {exportId: result.exportId},
+    })
+
+    revalidatePath(accountPath)
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "requestDataExport"})
+    return {success: false, error: "Failed to request data export"}
+  }
+}
@@ -0,0 +1,385 @@
+"use server"
+
+import {eq} from "drizzle-orm"
+import {headers} from "next/headers"
+import {revalidatePath} from "next/cache"
+import {APIError} from "better-auth/api"
+import {z} from "zod"
+import {featureFlagRulesSchema} from "@/lib/feature-flag-rules"
+import {featureFlagSchema} from "@/lib/feature-flags"
+import {deleteUserApiKeys} from "@/lib/server/api-keys"
+import {recordAuditEvent} from "@/lib/server/audit"
+import {auth} from "@/lib/server/auth"
+import {db} from "@/lib/server/db"
+import {insertUserSchema, users} from "@/lib/server/db/schema"
+import {setStoredFeatureFlag} from "@/lib/server/feature-flags"
+import {logError} from "@/lib/server/logger"
+import {getPasswordPolicyError} from "@/lib/server/password-policy"
+import {PermissionError, requireAdmin} from "@/lib/server/permissions"
+import {isReadOnlyMode, readOnlyModeMessage} from "@/lib/site-mode"
+import type {ActionResult} from "./types"
+
+const usersPath = "/admin/users"
+
+const createUserSchema = insertUserSchema
+  .pick({name: true, email: true, emailVerified: true})
+  .extend({password: z.string()})
+
+const userIdSchema = z.object({
+  userId: insertUserSchema.shape.id.min(1),
+})
+
+const setDisabledSchema = userIdSchema.extend({
+  disabled: z.boolean(),
+})
+
+const setFeatureFlagSchema = z.object({
+  flag: featureFlagSchema,
+  // null resets the flag to its deployment default
+  enabled: z.boolean().nullable(),
+})
+
+const setFeatureFlagRulesSchema = z.object({
+  flag: featureFlagSchema,
+  rules: featureFlagRulesSchema.nullable(),
+})
+
+// Rules with nothing in them are stored as no rules
+function hasRules(rules: z.infer<typeof featureFlagRulesSchema>) {
+  return Object.values(rules).some(value =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined
+  )
+}
+
+// Expected failures surface as messages; anything else is logged
+function failure(error: unknown, action: string, fallback: string) {
+  if (error instanceof PermissionError || error instanceof APIError) {
+    return {success: false as const, error: error.message || fallback}
+  }
+  logError(error as Error, {action})
+  return {success: false as const, error: fallback}
+}
+
+/**
+ * The target user, refusing the admin's own account for destructive actions
+ */
+async function findTarget(userId: string, adminId: string) {
+  if (userId === adminId) {
+    return {ok: false as const, error: "You cannot do this to your own account"}
+  }
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: {id: true, email: true},
+  })
+  return user
+    ? {ok: true as const, user}
+    : {ok: false as const, error: "User not found"}
+}
+
+/**
+ * Create a user with a password; the admin can mark their email verified
+ */
+export async function createUser(
+  input: z.input<typeof createUserSchema>
+): Promise<ActionResult<{id: string}>> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = createUserSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Please provide a valid name and email"}
+  }
+
+  const passwordError = getPasswordPolicyError(parsed.data.password)
+  if (passwordError) {
+    return {success: false, error: passwordError}
+  }
+
+  try {
+    const current = await requireAdmin()
+
+    const requestHeaders = await headers()
+    const {user} = await auth.api.createUser({
+      headers: requestHeaders,
+      body: {
+        name: parsed.data.name,
+        email: parsed.data.email,
+        password: parsed.data.password,
+        role: "user",
+        data: {emailVerified: parsed.data.emailVerified ?? false},
+      },
+    })
+    await recordAuditEvent({
+      action: "admin.user-created",
+      actor: current.user,
+      target: {type: "user", id: user.id},
+      headers: requestHeaders,
+      metadata: {email: user.email},
+    })
+
+    revalidatePath(usersPath)
+    return {success: true, data: {id: user.id}}
+  } catch (error) {
+    return failure(error, "createUser", "Failed to create user")
+  }
+}
+
+/**
+ * Disable (ban) or re-enable a user. Disabling signs them out everywhere.
+ */
+export async function setUserDisabled(
+  input: z.infer<typeof setDisabledSchema>
+): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = setDisabledSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid user"}
+  }
+
+  try {
+    const current = await requireAdmin()
+    const target = await findTarget(parsed.data.userId, current.user.id)
+    if (!target.ok) {
+      return {success: false, error: target.error}
+    }
+
+    const requestHeaders = await headers()
+    if (parsed.data.disabled) {
+      // Banning also deletes the user's sessions; their API keys go too
+      await auth.api.banUser({
+        headers: requestHeaders,
+        body: {
+          userId: target.user.id,
+          banReason: "Disabled by an administrator",
+        },
+      })
+      await deleteUserApiKeys(target.user.id)
+    } else {
+      await auth.api.unbanUser({
+        headers: requestHeaders,
+        body: {userId: target.user.id},
+      })
+    }
+    await recordAuditEvent({
+      action: parsed.data.disabled
+        ? "admin.user-disabled"
+        : "admin.user-enabled",
+      actor: current.user,
+      target: {type: "user", id: target.user.id},
+      headers: requestHeaders,
+      metadata: {email: target.user.email},
+    })
+
+    revalidatePath(usersPath)
+    return {success: true, data: undefined}
+  } catch (error) {
+    return failure(error, "setUserDisabled", "Failed to update user")
+  }
+}
+
+/**
+ * Sign the user out everywhere, refuse new sign-ins until they choose a new
+ * password, and email them a reset link
+ */
+export async function forcePasswordReset(
+  input: z.infer<typeof userIdSchema>
+): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = userIdSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid user"}
+  }
+
+  try {
+    const current = await requireAdmin()
+    const target = await findTarget(parsed.data.userId, current.user.id)
+    if (!target.ok) {
+      return {success: false, error: target.error}
+    }
+
+    const requestHeaders = await headers()
+    await auth.api.adminUpdateUser({
+      headers: requestHeaders,
+      body: {userId: target.user.id, data: {passwordResetRequired: true}},
+    })
+    await auth.api.revokeUserSessions({
+      headers: requestHeaders,
+      body: {userId: target.user.id},
+    })
+    await auth.api.requestPasswordReset({
+      body: {email: target.user.email, redirectTo: "/auth/reset-password"},
+    })
+    await recordAuditEvent({
+      action: "admin.password-reset-forced",
+      actor: current.user,
+      target: {type: "user", id: target.user.id},
+      headers: requestHeaders,
+      metadata: {email: target.user.email},
+    })
+
+    revalidatePath(usersPath)
+    return {success: true, data: undefined}
+  } catch (error) {
+    return failure(error, "forcePasswordReset", "Failed to reset password")
+  }
+}
+
+export async function verifyUserEmail(
+  input: z.infer<typeof userIdSchema>
+): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = userIdSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid user"}
+  }
+
+  try {
+    const current = await requireAdmin()
+
+    const requestHeaders = await headers()
+    await auth.api.adminUpdateUser({
+      headers: requestHeaders,
+      body: {userId: parsed.data.userId, data: {emailVerified: true}},
+    })
+    await recordAuditEvent({
+      action: "admin.email-verified",
+      actor: current.user,
+      target: {type: "user", id: parsed.data.userId},
+      headers: requestHeaders,
+    })
+
+    revalidatePath(usersPath)
+    return {success: true, data: undefined}
+  } catch (error) {
+    return failure(error, "verifyUserEmail", "Failed to verify email")
+  }
+}
+
+/**
+ * Permanently delete a user along with their sessions and memberships
+ */
+export async function deleteUser(
+  input: z.infer<typeof userIdSchema>
+): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = userIdSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid user"}
+  }
+
+  try {
+    const current = await requireAdmin()
+    const target = await findTarget(parsed.data.userId, current.user.id)
+    if (!target.ok) {
+      return {success: false, error: target.error}
+    }
+
+    const requestHeaders = await headers()
+    await auth.api.removeUser({
+      headers: requestHeaders,
+      body: {userId: target.user.id},
+    })
+    // The target row is gone, so keep the email for the record
+    await recordAuditEvent({
+      action: "admin.user-deleted",
+      actor: current.user,
+      target: {type: "user", id: target.user.id},
+      headers: requestHeaders,
+      metadata: {email: target.user.email},
+    })
+
+    revalidatePath(usersPath)
+    return {success: true, data: undefined}
+  } catch (error) {
+    return failure(error, "deleteUser", "Failed to delete user")
+  }
+}
+
+/**
+ * Turn a feature flag on or off for everyone, or reset it to its deployment
+ * default. Allowed in read-only mode, which is itself a flag.
+ */
+export async function setFeatureFlag(
+  input: z.infer<typeof setFeatureFlagSchema>
+): Promise<ActionResult> {
+  const parsed = setFeatureFlagSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid feature flag"}
+  }
+
+  try {
+    const current = await requireAdmin()
+    const {flag, enabled} = parsed.data
+
+    const previous = await setStoredFeatureFlag(
+      flag,
+      enabled === null ? null : {enabled},
+      current.user.id
+    )
+    await recordAuditEvent({
+      action: "admin.feature-flag-changed",
+      actor: current.user,
+      target: {type: "feature-flag", id: flag},
+      headers: await headers(),
+      metadata: {enabled, previous: previous?.enabled ?? null},
+    })
+
+    // Flags can change any page
+    revalidatePath("/", "layout")
+    return {success: true, data: undefined}
+  } catch (error) {
+    return failure(error, "setFeatureFlag", "Failed to update feature flag")
+  }
+}
+
+/**
+ * Replace a feature flag's targeting rules, or remove them with `null`
+ */
+export async function setFeatureFlagRules(
+  input: z.input<typeof setFeatureFlagRulesSchema>
+): Promise<ActionResult> {
+  const parsed = setFeatureFlagRulesSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid targeting rules"}
+  }
+
+  try {
+    const current = await requireAdmin()
+    const {flag} = parsed.data
+    const rules =
+      parsed.data.rules && hasRules(parsed.data.rules)
+        ? parsed.data.rules
+        : null
+
+    const previous = await setStoredFeatureFlag(flag, {rules}, current.user.id)
+    await recordAuditEvent({
+      action: "admin.feature-flag-changed",
+      actor: current.user,
+      target: {type: "feature-flag", id: flag},
+      headers: await headers(),
+      metadata: {rules, previousRules: previous?.rules ?? null},
+    })
+
+    revalidatePath("/", "layout")
+    return {success: true, data: undefined}
+  } catch (error) {
+    return failure(
+      error,
+      "setFeatureFlagRules",
+      "Failed to update targeting rules"
+    )
+  }
+}
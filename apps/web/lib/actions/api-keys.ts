@@ -0,0 +1,163 @@
+"use server"
+
+import {and, eq} from "drizzle-orm"
+import {headers} from "next/headers"
+import {revalidatePath} from "next/cache"
+import {z} from "zod"
+import {hasPermission, permissions} from "@/lib/permissions"
+import {getSelfServiceRestriction} from "@/lib/server/account"
+import {toPermissionStatements} from "@/lib/server/api-keys"
+import {recordAuditEvent} from "@/lib/server/audit"
+import {auth} from "@/lib/server/auth"
+import {db} from "@/lib/server/db"
+import {apiKeys} from "@/lib/server/db/schema"
+import {logError} from "@/lib/server/logger"
+import {getCurrentSession} from "@/lib/server/session"
+import {isReadOnlyMode, readOnlyModeMessage} from "@/lib/site-mode"
+import type {ActionResult} from "./types"
+
+const apiKeysPath = "/dashboard/settings/api-keys"
+
+const createSchema = z.object({
+  name: z.string().trim().min(1).max(32),
+  scopes: z.array(z.enum(permissions)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+})
+
+const revokeSchema = z.object({
+  keyId: z.string().min(1),
+})
+
+/**
+ * Create an API key for the active organization
+ *
+ * The key is returned once and only its hash is stored. Scopes are limited
+ * to what the user's role grants.
+ */
+export async function createApiKey(
+  input: z.input<typeof createSchema>
+): Promise<ActionResult<{key: string}>> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = createSchema.safeParse(input)
+  if (!parsed.success) {
+    return {
+      success: false,
+      error:
+        "Please provide a name of up to 32 characters and at least one scope",
+    }
+  }
+
+  try {
+    const current = await getCurrentSession()
+    if (!current) {
+      return {success: false, error: "You must be signed in"}
+    }
+    const refused = getSelfServiceRestriction(current)
+    if (refused) {
+      return {success: false, error: refused}
+    }
+    if (!current.organization) {
+      return {success: false, error: "Select an organization first"}
+    }
+
+    const role = current.organization.role
+    if (!parsed.data.scopes.every(scope => hasPermission(role, scope))) {
+      return {
+        success: false,
+        error: "Keys can only be given permissions your role has",
+      }
+    }
+
+    // Called without headers so the server-only `permissions` can be set
+    const created = await auth.api.createApiKey({
+      body: {
+        userId: current.user.id,
+        name: parsed.data.name,
+        expiresIn: parsed.data.expiresInDays
+          ? parsed.data.expiresInDays * 24 * 60 * 60
+          : null,
+        permissions: toPermissionStatements(parsed.data.scopes),
+        metadata: {organizationId: current.organization.id},
+      },
+    })
+    await recordAuditEvent({
+      action: "auth.api-key-created",
+      actor: current.user,
+      target: {type: "api-key", id: created.id},
+      headers: await headers(),
+      metadata: {
+        name: parsed.data.name,
+        organizationId: current.organization.id,
+        scopes: parsed.data.scopes,
+        expiresAt: created.expiresAt,
+      },
+    })
+
+    revalidatePath(apiKeysPath)
+    return {success: true, data: {key: created.key}}
+  } catch (error) {
+    logError(error as Error, {action: "createApiKey"})
+    return {success: false, error: "Failed to create API key"}
+  }
+}
+
+/**
+ * Delete one of the user's API keys; requests using it fail immediately
+ */
+export async function revokeApiKey(
+  input: z.infer<typeof revokeSchema>
+): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = revokeSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid API key"}
+  }
+
+  try {
+    const current = await getCurrentSession()
+    if (!current) {
+      return {success: false, error: "You must be signed in"}
+    }
+    const refused = getSelfServiceRestriction(current)
+    if (refused) {
+      return {success: false, error: refused}
+    }
+
+    // Scoped to the user so another user's key id is simply not found
+    const key = await db.query.apiKeys.findFirst({
+      where: and(
+        eq(apiKeys.id, parsed.data.keyId),
+        eq(apiKeys.userId, current.user.id)
+      ),
+      columns: {id: true, name: true},
+    })
+    if (!key) {
+      return {success: false, error: "API key not found"}
+    }
+
+    const requestHeaders = await headers()
+    await auth.api.deleteApiKey({
+      headers: requestHeaders,
+      body: {keyId: key.id},
+    })
+    await recordAuditEvent({
+      action: "auth.api-key-revoked",
+      actor: current.user,
+      target: {type: "api-key", id: key.id},
+      headers: requestHeaders,
+      metadata: {name: key.name},
+    })
+
+    revalidatePath(apiKeysPath)
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "revokeApiKey"})
+    return {success: false, error: "Failed to revoke API key"}
+  }
+}
@@ -0,0 +1,70 @@
+"use server"
+
+import {eq} from "drizzle-orm"
+import {headers} from "next/headers"
+import {z} from "zod"
+import {getClientIp} from "@/lib/client-ip"
+import {db} from "@/lib/server/db"
+import {users} from "@/lib/server/db/schema"
+import {
+  getResendCooldown,
+  RESEND_COOLDOWN_MS,
+  sendEmailVerification,
+} from "@/lib/server/email-verification"
+import {logError} from "@/lib/server/logger"
+import {limitAuthRequest} from "@/lib/server/rate-limit/auth"
+import {isReadOnlyMode, readOnlyModeMessage} from "@/lib/site-mode"
+import type {ActionResult} from "./types"
+
+const resendSchema = z.object({
+  email: z.string().email(),
+})
+
+/**
+ * Resend the verification email for an unverified account
+ *
+ * Responds the same way for unknown, already-verified and throttled
+ * addresses so the endpoint cannot be used to enumerate accounts. Sends are
+ * throttled per user by the age of the outstanding verification token (a
+ * throttled request silently sends nothing), and requests are rate limited
+ * per IP and submitted email like the auth endpoints.
+ */
+export async function resendVerificationEmail(
+  input: z.infer<typeof resendSchema>
+): Promise<ActionResult<{retryAfter: number}>> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = resendSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Please provide a valid email address"}
+  }
+
+  try {
+    const denial = await limitAuthRequest("verification", {
+      ip: getClientIp(await headers()),
+      email: parsed.data.email,
+    })
+    if (denial) {
+      return {success: false, error: denial.message}
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.email, parsed.data.email.toLowerCase()),
+    })
+
+    if (
+      user &&
+      !user.emailVerified &&
+      (await getResendCooldown(user.id)) === 0
+    ) {
+      await sendEmailVerification(user)
+    }
+
+    return {success: true, data: {retryAfter: RESEND_COOLDOWN_MS / 1000}}
+  } catch (error) {
+    logError(error as Error, {action: "resendVerificationEmail"})
+    return {success: false, error: "Failed to send verification email"}
+  }
+}
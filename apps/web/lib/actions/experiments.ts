@@ -0,0 +1,43 @@
+"use server"
+
+import {z} from "zod"
+import {experimentKeys, type ExperimentKey} from "@/lib/experiments"
+import {
+  getCurrentExperimentAssignments,
+  getExperimentSubject,
+  recordExposure,
+} from "@/lib/server/experiments"
+import {logError} from "@/lib/server/logger"
+import type {ActionResult} from "./types"
+
+const exposureSchema = z.object({
+  experiment: z.enum(experimentKeys as [ExperimentKey, ...ExperimentKey[]]),
+})
+
+/**
+ * Record that the current visitor saw their variant of an experiment, for
+ * `useExperiment()`. The variant is worked out again here rather than
+ * trusted from the browser; visitors outside the experiment are skipped.
+ */
+export async function recordExperimentExposure(
+  input: z.infer<typeof exposureSchema>
+): Promise<ActionResult> {
+  const parsed = exposureSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Unknown experiment"}
+  }
+
+  try {
+    const key = parsed.data.experiment
+    const assignments = await getCurrentExperimentAssignments()
+    const variant = assignments[key]
+    if (variant) {
+      await recordExposure(key, variant, await getExperimentSubject())
+    }
+
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "recordExperimentExposure"})
+    return {success: false, error: "Failed to record exposure"}
+  }
+}
@@ -0,0 +1,103 @@
+"use server"
+
+import {revalidatePath} from "next/cache"
+import {cookies} from "next/headers"
+import {z} from "zod"
+import {
+  overridableFeatureFlagSchema,
+  type FeatureFlagOverrides,
+} from "@/lib/feature-flags"
+import {
+  FEATURE_FLAG_OVERRIDES_COOKIE,
+  FEATURE_FLAG_OVERRIDES_MAX_AGE,
+  signFeatureFlagOverrides,
+} from "@/lib/server/feature-flag-overrides"
+import {
+  canOverrideFeatureFlags,
+  getFeatureFlagOverrides,
+} from "@/lib/server/feature-flags"
+import {logError} from "@/lib/server/logger"
+import {getCurrentSession} from "@/lib/server/session"
+import type {ActionResult} from "./types"
+
+const overrideSchema = z.object({
+  flag: overridableFeatureFlagSchema,
+  // null removes the override
+  enabled: z.boolean().nullable(),
+})
+
+const overridesUnavailableMessage =
+  "Flag overrides are only available to admins in production"
+
+async function saveOverrides(overrides: FeatureFlagOverrides) {
+  const cookieStore = await cookies()
+  if (Object.keys(overrides).length === 0) {
+    cookieStore.delete(FEATURE_FLAG_OVERRIDES_COOKIE)
+  } else {
+    cookieStore.set(
+      FEATURE_FLAG_OVERRIDES_COOKIE,
+      signFeatureFlagOverrides(overrides),
+      {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        path: "/",
+        maxAge: FEATURE_FLAG_OVERRIDES_MAX_AGE,
+      }
+    )
+  }
+  // Every page renders the flags, starting with the root layout
+  revalidatePath("/", "layout")
+}
+
+/**
+ * Override one flag for this browser only, or remove its override (`null`).
+ * A cookie rather than a database write, so it also works in read-only mode.
+ */
+export async function setFeatureFlagOverride(
+  input: z.infer<typeof overrideSchema>
+): Promise<ActionResult> {
+  const parsed = overrideSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid flag override"}
+  }
+
+  try {
+    const current = await getCurrentSession()
+    if (!canOverrideFeatureFlags(current?.user)) {
+      return {success: false, error: overridesUnavailableMessage}
+    }
+
+    const {flag, enabled} = parsed.data
+    const overrides = {...(await getFeatureFlagOverrides(current?.user))}
+    if (enabled === null) {
+      delete overrides[flag]
+    } else {
+      overrides[flag] = enabled
+    }
+    await saveOverrides(overrides)
+
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "setFeatureFlagOverride"})
+    return {success: false, error: "Failed to override flag"}
+  }
+}
+
+/**
+ * Remove every override for this browser
+ */
+export async function clearFeatureFlagOverrides(): Promise<ActionResult> {
+  try {
+    const current = await getCurrentSession()
+    if (!canOverrideFeatureFlags(current?.user)) {
+      return {success: false, error: overridesUnavailableMessage}
+    }
+
+    await saveOverrides({})
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "clearFeatureFlagOverrides"})
+    return {success: false, error: "Failed to clear flag overrides"}
+  }
+}
@@ -0,0 +1,280 @@
+"use server"
+
+import {revalidatePath} from "next/cache"
+import {headers} from "next/headers"
+import {z} from "zod"
+import {invitableRoles} from "@/lib/organization-roles"
+import {getSelfServiceRestriction} from "@/lib/server/account"
+import {recordAnalyticsEvent} from "@/lib/server/analytics"
+import {recordAuditEvent} from "@/lib/server/audit"
+import {insertOrganizationSchema} from "@/lib/server/db/schema"
+import {
+  impersonationRestrictedMessage,
+  isImpersonating,
+} from "@/lib/server/impersonation"
+import {logError} from "@/lib/server/logger"
+import {
+  createOrganization as createOrganizationRecord,
+  getMembership,
+  getOrganizationMember,
+  getOrganizationMembers,
+  inviteToOrganization,
+  removeMember as removeMemberRecord,
+  revokeInvitation as revokeInvitationRecord,
+  setActiveOrganization,
+} from "@/lib/server/organizations"
+import {PermissionError, requirePermission} from "@/lib/server/permissions"
+import {getCurrentSession} from "@/lib/server/session"
+import {isReadOnlyMode, readOnlyModeMessage} from "@/lib/site-mode"
+import type {ActionResult} from "./types"
+
+const createSchema = insertOrganizationSchema.pick({name: true})
+
+const switchSchema = z.object({
+  organizationId: z.string().min(1),
+})
+
+const inviteSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(invitableRoles),
+})
+
+const invitationSchema = z.object({
+  invitationId: z.string().min(1),
+})
+
+const memberSchema = z.object({
+  memberId: z.string().min(1),
+})
+
+/**
+ * Create an organization owned by the current user and switch to it
+ */
+export async function createOrganization(
+  input: z.infer<typeof createSchema>
+): Promise<ActionResult<{id: string}>> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = createSchema.safeParse(input)
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: "Organization name must be between 2 and 64 characters",
+    }
+  }
+
+  try {
+    const current = await getCurrentSession()
+    if (!current) {
+      return {success: false, error: "You must be signed in"}
+    }
+    const refused = getSelfServiceRestriction(current)
+    if (refused) {
+      return {success: false, error: refused}
+    }
+
+    const organization = await createOrganizationRecord({
+      name: parsed.data.name,
+      ownerId: current.user.id,
+    })
+    await setActiveOrganization(current.session.id, organization.id)
+    await recordAnalyticsEvent("organization.created", {
+      organizationId: organization.id,
+    })
+
+    revalidatePath("/dashboard", "layout")
+    return {success: true, data: {id: organization.id}}
+  } catch (error) {
+    logError(error as Error, {action: "createOrganization"})
+    return {success: false, error: "Failed to create organization"}
+  }
+}
+
+/**
+ * Make another of the user's organizations active for this session
+ */
+export async function switchOrganization(
+  input: z.infer<typeof switchSchema>
+): Promise<ActionResult> {
+  const parsed = switchSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid organization"}
+  }
+
+  try {
+    const current = await getCurrentSession()
+    if (!current) {
+      return {success: false, error: "You must be signed in"}
+    }
+
+    const membership = await getMembership(
+      parsed.data.organizationId,
+      current.user.id
+    )
+    if (!membership) {
+      return {
+        success: false,
+        error: "You are not a member of that organization",
+      }
+    }
+
+    await setActiveOrganization(current.session.id, membership.organizationId)
+
+    revalidatePath("/dashboard", "layout")
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "switchOrganization"})
+    return {success: false, error: "Failed to switch organization"}
+  }
+}
+
+/**
+ * Email an invitation to join the active organization
+ */
+export async function inviteMember(
+  input: z.infer<typeof inviteSchema>
+): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = inviteSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Please provide a valid email and role"}
+  }
+
+  try {
+    const current = await requirePermission("members:invite")
+    if (isImpersonating(current)) {
+      return {success: false, error: impersonationRestrictedMessage}
+    }
+
+    const email = parsed.data.email.toLowerCase()
+    const existing = await getOrganizationMembers(current.organization.id)
+    if (existing.some(member => member.email === email)) {
+      return {success: false, error: `${email} is already a member`}
+    }
+
+    const invitationId = await inviteToOrganization({
+      organization: current.organization,
+      email,
+      role: parsed.data.role,
+      inviter: current.user,
+    })
+    await recordAuditEvent({
+      action: "organization.member-invited",
+      actor: current.user,
+      target: {type: "invitation", id: invitationId},
+      headers: await headers(),
+      metadata: {
+        organizationId: current.organization.id,
+        email,
+        role: parsed.data.role,
+      },
+    })
+
+    revalidatePath("/dashboard/settings/organization")
+    return {success: true, data: undefined}
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return {success: false, error: error.message}
+    }
+    logError(error as Error, {action: "inviteMember"})
+    return {success: false, error: "Failed to send invitation"}
+  }
+}
+
+export async function revokeInvitation(
+  input: z.infer<typeof invitationSchema>
+): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = invitationSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid invitation"}
+  }
+
+  try {
+    const current = await requirePermission("members:invite")
+    if (isImpersonating(current)) {
+      return {success: false, error: impersonationRestrictedMessage}
+    }
+
+    await revokeInvitationRecord(
+      current.organization.id,
+      parsed.data.invitationId
+    )
+    await recordAuditEvent({
+      action: "organization.invitation-revoked",
+      actor: current.user,
+      target: {type: "invitation", id: parsed.data.invitationId},
+      headers: await headers(),
+      metadata: {organizationId: current.organization.id},
+    })
+
+    revalidatePath("/dashboard/settings/organization")
+    return {success: true, data: undefined}
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return {success: false, error: error.message}
+    }
+    logError(error as Error, {action: "revokeInvitation"})
+    return {success: false, error: "Failed to revoke invitation"}
+  }
+}
+
+/**
+ * Remove a member from the active organization. Owners cannot be removed.
+ */
+export async function removeMember(
+  input: z.infer<typeof memberSchema>
+): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = memberSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid member"}
+  }
+
+  try {
+    const current = await requirePermission("members:remove")
+    if (isImpersonating(current)) {
+      return {success: false, error: impersonationRestrictedMessage}
+    }
+
+    const target = await getOrganizationMember(
+      current.organization.id,
+      parsed.data.memberId
+    )
+    if (!target) {
+      return {success: false, error: "Member not found"}
+    }
+    if (target.role === "owner") {
+      return {success: false, error: "Owners cannot be removed"}
+    }
+
+    await removeMemberRecord(current.organization.id, target.id)
+    await recordAuditEvent({
+      action: "organization.member-removed",
+      actor: current.user,
+      target: {type: "user", id: target.userId},
+      headers: await headers(),
+      metadata: {organizationId: current.organization.id, role: target.role},
+    })
+
+    revalidatePath("/dashboard/settings/organization")
+    return {success: true, data: undefined}
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return {success: false, error: error.message}
+    }
+    logError(error as Error, {action: "removeMember"})
+    return {success: false, error: "Failed to remove member"}
+  }
+}
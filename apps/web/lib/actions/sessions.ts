@@ -0,0 +1,109 @@
+"use server"
+
+import {and, eq} from "drizzle-orm"
+import {headers} from "next/headers"
+import {revalidatePath} from "next/cache"
+import {z} from "zod"
+import {auth} from "@/lib/server/auth"
+import {db} from "@/lib/server/db"
+import {sessions} from "@/lib/server/db/schema"
+import {
+  impersonationRestrictedMessage,
+  isImpersonating,
+} from "@/lib/server/impersonation"
+import {logError} from "@/lib/server/logger"
+import {isReadOnlyMode, readOnlyModeMessage} from "@/lib/site-mode"
+import type {ActionResult} from "./types"
+
+const sessionsPath = "/dashboard/settings/sessions"
+
+const revokeSchema = z.object({
+  sessionId: z.string().min(1),
+})
+
+/**
+ * Revoke one of the signed-in user's other sessions
+ *
+ * The session row is deleted, so the revoked device is signed out on its
+ * next request. The current session is excluded; use sign out instead.
+ */
+export async function revokeSession(
+  input: z.infer<typeof revokeSchema>
+): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  const parsed = revokeSchema.safeParse(input)
+  if (!parsed.success) {
+    return {success: false, error: "Invalid session"}
+  }
+
+  try {
+    const requestHeaders = await headers()
+    const current = await auth.api.getSession({headers: requestHeaders})
+    if (!current) {
+      return {success: false, error: "You must be signed in"}
+    }
+    if (isImpersonating(current)) {
+      return {success: false, error: impersonationRestrictedMessage}
+    }
+
+    if (parsed.data.sessionId === current.session.id) {
+      return {
+        success: false,
+        error: "Sign out to end the session on this device",
+      }
+    }
+
+    // Scoped to the user so another user's session id is simply not found
+    const target = await db.query.sessions.findFirst({
+      where: and(
+        eq(sessions.id, parsed.data.sessionId),
+        eq(sessions.userId, current.user.id)
+      ),
+    })
+    if (!target) {
+      return {success: false, error: "Session not found"}
+    }
+
+    await auth.api.revokeSession({
+      headers: requestHeaders,
+      body: {token: target.token},
+    })
+
+    revalidatePath(sessionsPath)
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "revokeSession"})
+    return {success: false, error: "Failed to revoke session"}
+  }
+}
+
+/**
+ * Revoke every session of the signed-in user except the current one
+ */
+export async function revokeOtherSessions(): Promise<ActionResult> {
+  if (isReadOnlyMode()) {
+    return {success: false, error: readOnlyModeMessage}
+  }
+
+  try {
+    const requestHeaders = await headers()
+    const current = await auth.api.getSession({headers: requestHeaders})
+    if (!current) {
+      return {success: false, error: "You must be signed in"}
+    }
+    if (isImpersonating(current)) {
+      return {success: false, error: impersonationRestrictedMessage}
+    }
+
+    await auth.api.revokeOtherSessions({headers: requestHeaders})
+
+    revalidatePath(sessionsPath)
+    return {success: true, data: undefined}
+  } catch (error) {
+    logError(error as Error, {action: "revokeOtherSessions"})
+    return {success: false, error: "Failed to revoke sessions"}
+  }
+}
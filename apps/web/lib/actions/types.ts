@@ -0,0 +1,10 @@
+/**
+ * Standard return shape for server actions
+ *
+ * Actions never throw for expected failures (validation, permissions,
+ * throttling); they return `{success: false, error}` so forms can render
+ * the message directly.
+ */
+export type ActionResult<T = void> =
+  | {success: true; data: T}
+  | {success: false; error: string}
@@ -0,0 +1,18 @@
+/**
+ * API keys shared by the settings UI and the server
+ *
+ * Keys are sent as `Authorization: Bearer <key>`. Their scopes are
+ * permissions from lib/permissions.ts: a request made with a key may do what
+ * both the key's scopes and the owner's organization role allow.
+ */
+
+export const API_KEY_PREFIX = "sk_"
+
+export const apiKeyExpiryOptions = [
+  {days: 30, label: "30 days"},
+  {days: 90, label: "90 days"},
+  {days: 365, label: "1 year"},
+  {days: null, label: "Never"},
+] as const
+
+export type ApiKeyExpiryDays = (typeof apiKeyExpiryOptions)[number]["days"]
@@ -1,7 +1,24 @@
 import { createAuthClient } from "better-auth/react"
+import {
+  adminClient,
+  genericOAuthClient,
+  magicLinkClient,
+  passkeyClient,
+  twoFactorClient,
+} from "better-auth/client/plugins"
 
 export const authClient = createAuthClient({
   baseURL: process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
+  plugins: [
+    // The sign-in form renders the second step itself, so no redirect here
+    twoFactorClient(),
+    genericOAuthClient(),
+    passkeyClient(),
+    magicLinkClient(),
+    // Impersonation goes through the auth route so its cookies are set
+    adminClient(),
+  ],
 })
 
-export const { signIn, signUp, signOut, useSession } = authClient
+export const { signIn, signUp, signOut, useSession, twoFactor, passkey } =
+  authClient
@@ -0,0 +1,32 @@
+/**
+ * Avatar upload limits and URLs shared by the upload form and the server
+ *
+ * Uploads are cropped to a square and stored as WebP at every size in
+ * `avatarSizes`, side by side as `<size>.webp`. `user.image` points at the
+ * largest; `getAvatarUrl()` swaps in a smaller one for the size displayed.
+ */
+
+export const avatarSizes = [32, 64, 128, 256] as const
+
+export type AvatarSize = (typeof avatarSizes)[number]
+
+export const AVATAR_MAX_BYTES = 4 * 1024 * 1024
+
+export const avatarContentTypes = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+] as const
+
+const storedAvatarPattern = /\/avatars\/[^/]+\/[^/]+\/\d+\.webp$/
+
+/**
+ * URL of the avatar at the given size. Images from elsewhere (e.g. an
+ * OAuth provider) are returned unchanged.
+ */
+export function getAvatarUrl(image: string, size: AvatarSize) {
+  return storedAvatarPattern.test(image)
+    ? image.replace(/\d+\.webp$/, `${size}.webp`)
+    : image
+}
@@ -0,0 +1,51 @@
+import {afterEach, describe, expect, it} from "vitest"
+import {getClientIp} from "./client-ip"
+
+function forwardedFor(value: string) {
+  return new Headers({"x-forwarded-for": value})
+}
+
+describe("getClientIp", () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_COUNT
+    delete process.env.CLIENT_IP_HEADER
+  })
+
+  it("takes the address the proxy appended, not the one the client sent", () => {
+    expect(getClientIp(forwardedFor("1.2.3.4, 203.0.113.7"))).toBe(
+      "203.0.113.7"
+    )
+    expect(getClientIp(forwardedFor("203.0.113.7"))).toBe("203.0.113.7")
+  })
+
+  it("skips the addresses added by each trusted proxy", () => {
+    process.env.TRUSTED_PROXY_COUNT = "2"
+
+    expect(getClientIp(forwardedFor("1.2.3.4, 203.0.113.7, 10.0.0.1"))).toBe(
+      "203.0.113.7"
+    )
+  })
+
+  it("ignores X-Forwarded-For when no proxy is trusted", () => {
+    process.env.TRUSTED_PROXY_COUNT = "0"
+
+    expect(getClientIp(forwardedFor("203.0.113.7"))).toBe("unknown")
+  })
+
+  it("reads the platform's client IP header when configured", () => {
+    process.env.CLIENT_IP_HEADER = "cf-connecting-ip"
+
+    expect(
+      getClientIp(
+        new Headers({
+          "cf-connecting-ip": "203.0.113.7",
+          "x-forwarded-for": "1.2.3.4",
+        })
+      )
+    ).toBe("203.0.113.7")
+  })
+
+  it("does not trust X-Real-IP unless configured", () => {
+    expect(getClientIp(new Headers({"x-real-ip": "1.2.3.4"}))).toBe("unknown")
+  })
+})
@@ -0,0 +1,46 @@
+/**
+ * Client IP address
+ *
+ * The address rate limits, audit events and the maintenance allowlist are
+ * keyed on. Every proxy in front of the app appends the address it received
+ * the request from to `X-Forwarded-For`, so only entries added by trusted
+ * proxies can be believed: anything to their left was sent by the client
+ * and may be made up. With TRUSTED_PROXY_COUNT proxies (default 1, e.g. the
+ * Vercel edge or a single nginx), the client is the entry that many places
+ * from the right. Set it to 0 when nothing sits in front of the app.
+ *
+ * Platforms that already resolve the client put it in a header of their
+ * own; set CLIENT_IP_HEADER (e.g. "cf-connecting-ip") to read that instead.
+ *
+ * Kept free of server-only imports so middleware can use it.
+ */
+
+const DEFAULT_TRUSTED_PROXY_COUNT = 1
+
+function getTrustedProxyCount() {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT)
+  return Number.isInteger(count) && count >= 0
+    ? count
+    : DEFAULT_TRUSTED_PROXY_COUNT
+}
+
+/**
+ * Client address for a request, or "unknown" when no trusted source has it
+ */
+export function getClientIp(headers: Headers) {
+  const clientIpHeader = process.env.CLIENT_IP_HEADER
+  if (clientIpHeader) {
+    return headers.get(clientIpHeader)?.trim() || "unknown"
+  }
+
+  const trustedProxies = getTrustedProxyCount()
+  if (trustedProxies === 0) return "unknown"
+
+  const forwardedFor = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  if (forwardedFor.length === 0) return "unknown"
+
+  return forwardedFor[Math.max(0, forwardedFor.length - trustedProxies)]
+}
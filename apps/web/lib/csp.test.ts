@@ -0,0 +1,52 @@
+import {afterEach, describe, expect, it} from "vitest"
+import {createNonce, getContentSecurityPolicy, getCspHeaderName} from "./csp"
+
+describe("content security policy", () => {
+  afterEach(() => {
+    delete process.env.CSP_REPORT_ONLY
+  })
+
+  it("creates a different nonce for every request", () => {
+    expect(createNonce()).not.toBe(createNonce())
+  })
+
+  it("allows only nonced scripts in production", () => {
+    const policy = getContentSecurityPolicy("abc123", {production: true})
+
+    expect(policy).toContain(
+      "script-src 'self' 'nonce-abc123' 'strict-dynamic'"
+    )
+    expect(policy).not.toMatch(/script-src [^;]*'unsafe-/)
+    expect(policy).toContain("upgrade-insecure-requests")
+  })
+
+  it("allows inline styles, which a nonce cannot cover", () => {
+    const policy = getContentSecurityPolicy("abc123", {production: true})
+
+    expect(policy).toContain("style-src 'self' 'unsafe-inline'")
+  })
+
+  it("sends violation reports to the report endpoint", () => {
+    const policy = getContentSecurityPolicy("abc123", {production: true})
+
+    expect(policy).toContain("report-uri /api/csp-report")
+    expect(policy).toContain("report-to csp-endpoint")
+  })
+
+  it("allows eval and hot reload in development", () => {
+    const policy = getContentSecurityPolicy("abc123", {production: false})
+
+    expect(policy).toContain(
+      "script-src 'self' 'nonce-abc123' 'strict-dynamic' 'unsafe-eval'"
+    )
+    expect(policy).toContain("connect-src 'self' https: ws:")
+    expect(policy).not.toContain("upgrade-insecure-requests")
+  })
+
+  it("only reports violations when CSP_REPORT_ONLY is set", () => {
+    expect(getCspHeaderName()).toBe("Content-Security-Policy")
+
+    process.env.CSP_REPORT_ONLY = "true"
+    expect(getCspHeaderName()).toBe("Content-Security-Policy-Report-Only")
+  })
+})
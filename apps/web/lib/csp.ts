@@ -0,0 +1,78 @@
+/**
+ * Content Security Policy
+ *
+ * middleware.ts builds a policy with a fresh nonce for every request. It
+ * passes both to the app as request headers: Next.js reads the nonce from
+ * the policy and adds it to its own scripts, and the root layout reads
+ * `CSP_NONCE_HEADER` for the inline scripts it renders. With
+ * 'strict-dynamic', scripts loaded by a nonced script are trusted too, so
+ * production needs no 'unsafe-inline' or 'unsafe-eval' for scripts.
+ *
+ * Only scripts are locked down. Styles keep 'unsafe-inline': components set
+ * inline `style` attributes, framer-motion renders its initial state as one
+ * on the server, and a nonce cannot cover attributes.
+ *
+ * Browsers report violations to `cspReportPath` (app/api/csp-report).
+ * Set CSP_REPORT_ONLY="true" to only report them while trying out a
+ * stricter policy.
+ */
+
+export const CSP_NONCE_HEADER = "x-nonce"
+
+export const cspReportPath = "/api/csp-report"
+
+// The Reporting API endpoint name used by `report-to`
+export const CSP_REPORT_GROUP = "csp-endpoint"
+
+export function createNonce() {
+  return Buffer.from(crypto.randomUUID()).toString("base64")
+}
+
+export function isCspReportOnly() {
+  return process.env.CSP_REPORT_ONLY === "true"
+}
+
+/**
+ * The response header carrying the policy
+ */
+export function getCspHeaderName() {
+  return isCspReportOnly()
+    ? "Content-Security-Policy-Report-Only"
+    : "Content-Security-Policy"
+}
+
+/**
+ * The policy for one response. Development also allows eval (React's
+ * debugging tools) and the hot reload socket.
+ */
+export function getContentSecurityPolicy(
+  nonce: string,
+  {production = process.env.NODE_ENV === "production"} = {}
+) {
+  const directives = {
+    "default-src": ["'self'"],
+    "script-src": [
+      "'self'",
+      `'nonce-${nonce}'`,
+      "'strict-dynamic'",
+      ...(production ? [] : ["'unsafe-eval'"]),
+    ],
+    "style-src": ["'self'", "'unsafe-inline'"],
+    "img-src": ["'self'", "blob:", "data:", "https:"],
+    "font-src": ["'self'", "data:"],
+    "connect-src": ["'self'", "https:", ...(production ? [] : ["ws:"])],
+    "object-src": ["'none'"],
+    "base-uri": ["'self'"],
+    "form-action": ["'self'"],
+    "frame-ancestors": ["'none'"],
+    "report-uri": [cspReportPath],
+    "report-to": [CSP_REPORT_GROUP],
+  }
+
+  return [
+    ...Object.entries(directives).map(
+      ([name, values]) => `${name} ${values.join(" ")}`
+    ),
+    ...(production ? ["upgrade-insecure-requests"] : []),
+  ].join("; ")
+}
@@ -0,0 +1,101 @@
+import {describe, expect, it} from "vitest"
+import {
+  assignVariant,
+  getControlVariant,
+  getExperimentAssignments,
+} from "./experiments"
+import {getDefaultFeatures, type FeatureFlags} from "./feature-flags"
+
+const userIds = Array.from({length: 10_000}, (_, i) => `user-${i}`)
+
+function flags(overrides: Partial<FeatureFlags> = {}): FeatureFlags {
+  return {...getDefaultFeatures(), experimentalFeatureA: true, ...overrides}
+}
+
+describe("assignVariant", () => {
+  it("gives each subject the same variant every time", () => {
+    for (const userId of userIds.slice(0, 100)) {
+      expect(assignVariant("dashboardWelcome", {userId}, flags())).toBe(
+        assignVariant("dashboardWelcome", {userId}, flags())
+      )
+    }
+  })
+
+  it("splits subjects by the variant weights", () => {
+    const team = userIds.filter(
+      userId => assignVariant("dashboardWelcome", {userId}, flags()) === "team"
+    )
+
+    expect(team.length).toBeGreaterThan(4700)
+    expect(team.length).toBeLessThan(5300)
+  })
+
+  it("buckets signed-out visitors by their anonymous id", () => {
+    const variants = new Set(
+      userIds
+        .slice(0, 100)
+        .map(anonymousId =>
+          assignVariant("dashboardWelcome", {anonymousId}, flags())
+        )
+    )
+
+    expect(variants).toEqual(new Set(["control", "team"]))
+  })
+
+  it("keeps a visitor's variant when they sign in", () => {
+    for (const [i, anonymousId] of userIds.slice(0, 100).entries()) {
+      const subject = {userId: `signed-in-${i}`, anonymousId}
+
+      expect(assignVariant("dashboardWelcome", subject, flags())).toBe(
+        assignVariant("dashboardWelcome", {anonymousId}, flags())
+      )
+    }
+  })
+
+  it("falls back to the user id without an anonymous id", () => {
+    const subject = {userId: "user-1", anonymousId: null}
+
+    expect(assignVariant("dashboardWelcome", subject, flags())).toBe(
+      assignVariant("dashboardWelcome", {userId: "user-1"}, flags())
+    )
+  })
+
+  it("leaves subjects out while the experiment's flag is off", () => {
+    const off = flags({experimentalFeatureA: false})
+
+    expect(
+      userIds
+        .slice(0, 100)
+        .some(userId => assignVariant("dashboardWelcome", {userId}, off))
+    ).toBe(false)
+  })
+
+  it("leaves out requests without a user or anonymous id", () => {
+    expect(assignVariant("dashboardWelcome", {}, flags())).toBeNull()
+    expect(
+      assignVariant(
+        "dashboardWelcome",
+        {userId: null, anonymousId: ""},
+        flags()
+      )
+    ).toBeNull()
+  })
+})
+
+describe("getExperimentAssignments", () => {
+  it("assigns every experiment", () => {
+    expect(getExperimentAssignments({userId: "user-1"}, flags())).toEqual({
+      dashboardWelcome: assignVariant(
+        "dashboardWelcome",
+        {userId: "user-1"},
+        flags()
+      ),
+    })
+  })
+})
+
+describe("getControlVariant", () => {
+  it("is the first variant", () => {
+    expect(getControlVariant("dashboardWelcome")).toBe("control")
+  })
+})
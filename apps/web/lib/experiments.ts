@@ -0,0 +1,112 @@
+import {getRolloutBucket} from "./feature-flag-rules"
+import type {FeatureFlag, FeatureFlags} from "./feature-flags"
+
+/**
+ * A/B experiments
+ *
+ * Each experiment splits the people its feature flag is on for between
+ * weighted variants. Assignment is a hash of the experiment and the
+ * subject, so it needs no storage and stays the same on every request and
+ * in every process. Subjects are bucketed by the `anonymous_id` cookie
+ * middleware sets, which survives signing in, so a visitor keeps the variant
+ * they were exposed to when they sign up or sign in; the user id is only a
+ * fallback for requests without the cookie. Changing an experiment's
+ * weights reshuffles some subjects, so settle them before it starts.
+ *
+ * Anyone the flag is off for (including admins turning the experiment off
+ * from /admin/flags) sees "control" and is not counted.
+ *
+ * Usage:
+ * - Server Components: `await getExperiment("dashboardWelcome")`
+ *   (lib/server/experiments.ts)
+ * - Client Components: `useExperiment("dashboardWelcome")`, in the
+ *   dashboard and admin layouts
+ *
+ * Both record an "experiment.exposure" analytics event
+ * (lib/server/analytics.ts); the report at /admin/experiments compares how
+ * many exposed subjects of each variant went on to record the experiment's
+ * `conversionEvent`.
+ */
+
+interface ExperimentDefinition {
+  description: string
+  // The flag that runs the experiment; its targeting rules pick who takes part
+  flag: FeatureFlag
+  // Relative weights; the first variant is the control
+  variants: Record<string, number>
+  // The analytics event that counts as a conversion
+  conversionEvent: string
+}
+
+export const experiments = {
+  dashboardWelcome: {
+    description: "Dashboard welcome message that suggests creating a team",
+    flag: "experimentalFeatureA",
+    variants: {control: 50, team: 50},
+    conversionEvent: "organization.created",
+  },
+} satisfies Record<string, ExperimentDefinition>
+
+export type ExperimentKey = keyof typeof experiments
+
+export type ExperimentVariant<K extends ExperimentKey = ExperimentKey> =
+  keyof (typeof experiments)[K]["variants"] & string
+
+// The variant each experiment shows, or null when the subject takes no part
+export type ExperimentAssignments = {
+  [K in ExperimentKey]: ExperimentVariant<K> | null
+}
+
+export interface ExperimentSubject {
+  userId?: string | null
+  anonymousId?: string | null
+}
+
+export const experimentKeys = Object.keys(experiments) as ExperimentKey[]
+
+export const EXPERIMENT_EXPOSURE_EVENT = "experiment.exposure"
+
+export const ANONYMOUS_ID_COOKIE = "anonymous_id"
+
+export function getControlVariant<K extends ExperimentKey>(key: K) {
+  return Object.keys(experiments[key].variants)[0] as ExperimentVariant<K>
+}
+
+/**
+ * The variant `subject` is assigned in experiment `key`, or null when the
+ * experiment's flag is off for them or there is nobody to bucket
+ */
+export function assignVariant<K extends ExperimentKey>(
+  key: K,
+  subject: ExperimentSubject,
+  flags: FeatureFlags
+): ExperimentVariant<K> | null {
+  const experiment: ExperimentDefinition = experiments[key]
+  const subjectKey = subject.anonymousId || subject.userId
+  if (!flags[experiment.flag] || !subjectKey) return null
+
+  const variants = Object.entries(experiment.variants)
+  const total = variants.reduce((sum, [, weight]) => sum + weight, 0)
+  // Salted so experiments on the same flag split people independently
+  const bucket = getRolloutBucket(`experiment:${key}`, subjectKey)
+
+  let upper = 0
+  for (const [variant, weight] of variants) {
+    upper += (weight / total) * 100
+    if (bucket < upper) return variant as ExperimentVariant<K>
+  }
+  // Rounding can leave the last sliver of buckets unclaimed
+  return variants[variants.length - 1][0] as ExperimentVariant<K>
+}
+
+/**
+ * Every experiment's assignment for one subject
+ */
+export function getExperimentAssignments(
+  subject: ExperimentSubject,
+  flags: FeatureFlags
+): ExperimentAssignments {
+  return Object.fromEntries(
+    experimentKeys.map(key => [key, assignVariant(key, subject, flags)])
+  ) as ExperimentAssignments
+}
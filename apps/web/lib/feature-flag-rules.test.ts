@@ -0,0 +1,214 @@
+import {afterEach, describe, expect, it, vi} from "vitest"
+import {
+  evaluateFeatureFlag,
+  featureFlagRulesSchema,
+  getFeatureEnvironment,
+  getRolloutBucket,
+  type FeatureFlagRules,
+} from "./feature-flag-rules"
+
+const userIds = Array.from({length: 10_000}, (_, i) => `user-${i}`)
+
+function evaluate(
+  rules: FeatureFlagRules | null,
+  context = {},
+  enabled = false
+) {
+  return evaluateFeatureFlag(
+    "experimentalFeatureA",
+    {enabled, rules},
+    {environment: "production", ...context}
+  )
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("evaluateFeatureFlag", () => {
+  it("returns the stored value without rules", () => {
+    expect(evaluate(null, {}, true)).toBe(true)
+    expect(evaluate(null, {userId: "user-1"}, false)).toBe(false)
+  })
+
+  it("returns the stored value when no rule matches", () => {
+    const rules = {userIds: ["user-1"]}
+
+    expect(evaluate(rules, {userId: "user-2"}, false)).toBe(false)
+    expect(evaluate(rules, {userId: "user-2"}, true)).toBe(true)
+    expect(evaluate(rules, {}, false)).toBe(false)
+  })
+
+  describe("allowlists", () => {
+    it("matches user ids", () => {
+      expect(
+        evaluate({userIds: ["user-1", "user-2"]}, {userId: "user-2"})
+      ).toBe(true)
+    })
+
+    it("matches email domains case-insensitively", () => {
+      const rules = {emailDomains: ["example.com"]}
+
+      expect(evaluate(rules, {email: "ada@example.com"})).toBe(true)
+      expect(evaluate(rules, {email: "Ada@EXAMPLE.com"})).toBe(true)
+      expect(evaluate(rules, {email: "ada@mail.example.com"})).toBe(false)
+      expect(evaluate(rules, {email: "ada@example.com.evil.test"})).toBe(false)
+      expect(evaluate(rules, {email: "not-an-email"})).toBe(false)
+      expect(evaluate(rules, {email: null})).toBe(false)
+    })
+
+    it("matches organizations and roles", () => {
+      expect(
+        evaluate({organizationIds: ["org-1"]}, {organizationId: "org-1"})
+      ).toBe(true)
+      expect(
+        evaluate({organizationIds: ["org-1"]}, {organizationId: "org-2"})
+      ).toBe(false)
+      expect(evaluate({roles: ["owner", "admin"]}, {role: "admin"})).toBe(true)
+      expect(evaluate({roles: ["owner"]}, {role: "member"})).toBe(false)
+      expect(evaluate({roles: ["owner"]}, {role: null})).toBe(false)
+    })
+
+    it("switches the flag on when any list matches", () => {
+      const rules = {userIds: ["user-1"], organizationIds: ["org-1"]}
+
+      expect(evaluate(rules, {userId: "user-9", organizationId: "org-1"})).toBe(
+        true
+      )
+    })
+
+    it("treats empty lists as matching nobody", () => {
+      expect(
+        evaluate(
+          {userIds: [], emailDomains: [], organizationIds: [], roles: []},
+          {userId: "", email: "ada@example.com", role: ""}
+        )
+      ).toBe(false)
+    })
+  })
+
+  describe("percentage rollouts", () => {
+    it("includes nobody at 0% and everybody at 100%", () => {
+      expect(userIds.some(userId => evaluate({percentage: 0}, {userId}))).toBe(
+        false
+      )
+      expect(
+        userIds.every(userId => evaluate({percentage: 100}, {userId}))
+      ).toBe(true)
+    })
+
+    it("includes roughly the requested share of users", () => {
+      const included = userIds.filter(userId =>
+        evaluate({percentage: 25}, {userId})
+      )
+
+      expect(included.length).toBeGreaterThan(2300)
+      expect(included.length).toBeLessThan(2700)
+    })
+
+    it("gives each user the same answer every time", () => {
+      for (const userId of userIds.slice(0, 100)) {
+        expect(evaluate({percentage: 50}, {userId})).toBe(
+          evaluate({percentage: 50}, {userId})
+        )
+      }
+    })
+
+    it("keeps users in the rollout as the percentage grows", () => {
+      const atTen = userIds.filter(userId =>
+        evaluate({percentage: 10}, {userId})
+      )
+
+      expect(atTen.every(userId => evaluate({percentage: 20}, {userId}))).toBe(
+        true
+      )
+    })
+
+    it("needs a user id", () => {
+      expect(evaluate({percentage: 100}, {email: "ada@example.com"})).toBe(
+        false
+      )
+    })
+  })
+
+  describe("environments", () => {
+    it("turns the flag off outside the listed environments", () => {
+      const rules = {environments: ["staging"], userIds: ["user-1"]}
+
+      expect(evaluate(rules, {userId: "user-1"}, true)).toBe(false)
+      expect(
+        evaluate(rules, {userId: "user-1", environment: "staging"}, false)
+      ).toBe(true)
+      expect(evaluate(rules, {environment: "staging"}, true)).toBe(true)
+      expect(evaluate(rules, {environment: "staging"}, false)).toBe(false)
+    })
+
+    it("applies everywhere when no environment is listed", () => {
+      expect(evaluate({environments: []}, {}, true)).toBe(true)
+    })
+
+    it("defaults to the deployment environment", () => {
+      vi.stubEnv("APP_ENV", "staging")
+      const value = {enabled: true, rules: {environments: ["staging"]}}
+
+      expect(getFeatureEnvironment()).toBe("staging")
+      expect(evaluateFeatureFlag("experimentalFeatureA", value)).toBe(true)
+
+      vi.stubEnv("APP_ENV", "production")
+      expect(evaluateFeatureFlag("experimentalFeatureA", value)).toBe(false)
+    })
+
+    it("falls back to NODE_ENV", () => {
+      vi.stubEnv("APP_ENV", "")
+      vi.stubEnv("NODE_ENV", "test")
+
+      expect(getFeatureEnvironment()).toBe("test")
+    })
+  })
+})
+
+describe("getRolloutBucket", () => {
+  it("is stable and within [0, 100)", () => {
+    for (const userId of userIds.slice(0, 1000)) {
+      const bucket = getRolloutBucket("experimentalFeatureA", userId)
+      expect(bucket).toBeGreaterThanOrEqual(0)
+      expect(bucket).toBeLessThan(100)
+      expect(getRolloutBucket("experimentalFeatureA", userId)).toBe(bucket)
+    }
+  })
+
+  it("buckets users independently for each flag", () => {
+    const inA = userIds.filter(
+      userId => getRolloutBucket("experimentalFeatureA", userId) < 10
+    )
+    const inBoth = inA.filter(
+      userId => getRolloutBucket("experimentalFeatureB", userId) < 10
+    )
+
+    // About 10% of the first rollout, not all of it
+    expect(inBoth.length).toBeLessThan(inA.length / 2)
+  })
+})
+
+describe("featureFlagRulesSchema", () => {
+  it("normalizes email domains", () => {
+    expect(
+      featureFlagRulesSchema.parse({emailDomains: [" @Example.COM "]})
+    ).toEqual({emailDomains: ["example.com"]})
+  })
+
+  it("rejects out-of-range percentages and blank entries", () => {
+    expect(featureFlagRulesSchema.safeParse({percentage: -1}).success).toBe(
+      false
+    )
+    expect(featureFlagRulesSchema.safeParse({percentage: 101}).success).toBe(
+      false
+    )
+    expect(featureFlagRulesSchema.safeParse({userIds: [" "]}).success).toBe(
+      false
+    )
+    expect(
+      featureFlagRulesSchema.safeParse({emailDomains: ["@"]}).success
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,144 @@
+import {z} from "zod"
+
+/**
+ * Feature flag targeting rules
+ *
+ * A stored flag (lib/server/feature-flags.ts) can carry rules that decide
+ * its value per request instead of for everyone:
+ *
+ * - `environments`: the flag is off outside these environments
+ *   (`getFeatureEnvironment()`)
+ * - `userIds`, `emailDomains`, `organizationIds`, `roles`: on for anyone
+ *   matching any of them
+ * - `percentage`: on for this share of signed-in users, bucketed by user
+ *   id so each user keeps their answer as the percentage grows
+ *
+ * Anyone the rules do not switch on gets the flag's stored value. Free of
+ * server-only imports, so it runs anywhere flags are read.
+ */
+
+const idList = z.array(z.string().trim().min(1).max(200)).max(1000).optional()
+
+export const featureFlagRulesSchema = z.object({
+  environments: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  userIds: idList,
+  // Matched case-insensitively, without the "@"
+  emailDomains: z
+    .array(
+      z
+        .string()
+        .trim()
+        .toLowerCase()
+        .transform(domain => domain.replace(/^@/, ""))
+        .pipe(z.string().min(1).max(200))
+    )
+    .max(1000)
+    .optional(),
+  organizationIds: idList,
+  // Organization member roles ("owner", "admin", "member", "viewer")
+  roles: idList,
+  percentage: z.number().min(0).max(100).optional(),
+})
+
+export type FeatureFlagRules = z.infer<typeof featureFlagRulesSchema>
+
+/**
+ * Who a flag is being evaluated for. Every field is optional; rules that
+ * need a missing field simply do not match.
+ */
+export interface FeatureFlagContext {
+  userId?: string | null
+  email?: string | null
+  organizationId?: string | null
+  // The user's role in `organizationId`
+  role?: string | null
+  // Defaults to `getFeatureEnvironment()`
+  environment?: string
+  // QA overrides from the browser's signed cookie, which beat every stored
+  // value and rule (lib/server/feature-flag-overrides.ts)
+  overrides?: Partial<Record<string, boolean>>
+}
+
+export interface StoredFeatureFlagValue {
+  enabled: boolean
+  rules: FeatureFlagRules | null
+}
+
+/**
+ * The environment flags are scoped to: APP_ENV, falling back to NODE_ENV
+ */
+export function getFeatureEnvironment() {
+  return process.env.APP_ENV || process.env.NODE_ENV || "development"
+}
+
+// 32-bit FNV-1a, which spreads similar ids evenly and needs no crypto API
+function hash(input: string) {
+  let value = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    value ^= input.charCodeAt(i)
+    value = Math.imul(value, 0x01000193)
+  }
+  return value >>> 0
+}
+
+/**
+ * A stable position in [0, 100) for this key and flag. Salting with the flag
+ * keeps users from landing in the early buckets of every rollout.
+ */
+export function getRolloutBucket(flag: string, key: string) {
+  return (hash(`${flag}:${key}`) % 10_000) / 100
+}
+
+function emailDomain(email: string) {
+  const at = email.lastIndexOf("@")
+  return at === -1 ? null : email.slice(at + 1).toLowerCase()
+}
+
+function includes(list: string[] | undefined, value: string | null) {
+  return value !== null && (list?.includes(value) ?? false)
+}
+
+/**
+ * Whether the rules switch the flag on for this context
+ */
+function matchesTargets(
+  flag: string,
+  rules: FeatureFlagRules,
+  context: FeatureFlagContext
+) {
+  const userId = context.userId ?? null
+  const domain = context.email ? emailDomain(context.email) : null
+
+  if (
+    includes(rules.userIds, userId) ||
+    includes(rules.emailDomains, domain) ||
+    includes(rules.organizationIds, context.organizationId ?? null) ||
+    includes(rules.roles, context.role ?? null)
+  ) {
+    return true
+  }
+
+  return (
+    rules.percentage !== undefined &&
+    userId !== null &&
+    getRolloutBucket(flag, userId) < rules.percentage
+  )
+}
+
+/**
+ * A stored flag's value for one context
+ */
+export function evaluateFeatureFlag(
+  flag: string,
+  {enabled, rules}: StoredFeatureFlagValue,
+  context: FeatureFlagContext = {}
+) {
+  if (!rules) return enabled
+
+  const environment = context.environment ?? getFeatureEnvironment()
+  if (rules.environments?.length && !rules.environments.includes(environment)) {
+    return false
+  }
+
+  return matchesTargets(flag, rules, context) || enabled
+}
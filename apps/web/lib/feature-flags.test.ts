@@ -0,0 +1,153 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest"
+import type {StoredFeatureFlagValue} from "./feature-flag-rules"
+import {
+  getDefaultFeatures,
+  getFeaturesEnabled,
+  getFeature,
+  refreshFeatureFlags,
+  registerStoredFeatureFlags,
+  requireFeature,
+} from "./feature-flags"
+
+afterEach(() => {
+  registerStoredFeatureFlags(null)
+  vi.useRealTimers()
+})
+
+describe("stored feature flags", () => {
+  it("uses deployment defaults without a loader", () => {
+    expect(getFeature("dashboardCharts")).toBe(true)
+    expect(getFeature("experimentalFeatureA")).toBe(false)
+  })
+
+  it("lets stored values override deployment defaults", async () => {
+    registerStoredFeatureFlags(async () => ({
+      dashboardCharts: {enabled: false, rules: null},
+      experimentalFeatureA: {enabled: true, rules: null},
+    }))
+    await refreshFeatureFlags()
+
+    expect(getFeature("dashboardCharts")).toBe(false)
+    expect(getFeature("experimentalFeatureA")).toBe(true)
+    expect(getDefaultFeatures().experimentalFeatureA).toBe(false)
+  })
+
+  it("serves cached values and refreshes them in the background once stale", async () => {
+    vi.useFakeTimers()
+    let enabled = true
+    const loader = vi.fn(async () => ({
+      experimentalFeatureA: {enabled, rules: null},
+    }))
+    registerStoredFeatureFlags(loader)
+    await refreshFeatureFlags()
+
+    enabled = false
+    expect(getFeature("experimentalFeatureA")).toBe(true)
+    expect(loader).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(31_000)
+    expect(getFeature("experimentalFeatureA")).toBe(true)
+    expect(loader).toHaveBeenCalledTimes(2)
+
+    await refreshFeatureFlags()
+    expect(getFeature("experimentalFeatureA")).toBe(false)
+  })
+
+  it("keeps the last values when a load fails", async () => {
+    const loader = vi
+      .fn<() => Promise<{experimentalFeatureA: StoredFeatureFlagValue}>>()
+      .mockResolvedValueOnce({
+        experimentalFeatureA: {enabled: true, rules: null},
+      })
+      .mockRejectedValueOnce(new Error("database unavailable"))
+    registerStoredFeatureFlags(loader)
+    await refreshFeatureFlags()
+
+    await refreshFeatureFlags()
+
+    expect(loader).toHaveBeenCalledTimes(2)
+    expect(getFeature("experimentalFeatureA")).toBe(true)
+  })
+})
+
+describe("targeted feature flags", () => {
+  const context = {
+    userId: "user-1",
+    email: "ada@example.com",
+    environment: "production",
+  }
+
+  beforeEach(async () => {
+    registerStoredFeatureFlags(async () => ({
+      experimentalFeatureA: {enabled: false, rules: {userIds: ["user-1"]}},
+      experimentalFeatureB: {
+        enabled: true,
+        rules: {environments: ["staging"]},
+      },
+    }))
+    await refreshFeatureFlags()
+  })
+
+  it("evaluates rules against the context", () => {
+    expect(getFeature("experimentalFeatureA", context)).toBe(true)
+    expect(getFeature("experimentalFeatureA", {userId: "user-2"})).toBe(false)
+    expect(getFeature("experimentalFeatureA")).toBe(false)
+  })
+
+  it("accepts a context after the flags in getFeaturesEnabled", () => {
+    expect(
+      getFeaturesEnabled(
+        "experimentalFeatureA",
+        "experimentalFeatureB",
+        context
+      )
+    ).toEqual({experimentalFeatureA: true, experimentalFeatureB: false})
+    expect(getFeaturesEnabled("experimentalFeatureA")).toEqual({
+      experimentalFeatureA: false,
+    })
+  })
+
+  it("accepts a context in requireFeature", () => {
+    expect(() => requireFeature("experimentalFeatureA", context)).not.toThrow()
+    expect(() =>
+      requireFeature("experimentalFeatureA", "Not for you", {userId: "user-2"})
+    ).toThrow("Not for you")
+    expect(() =>
+      requireFeature("experimentalFeatureB", {environment: "staging"})
+    ).not.toThrow()
+  })
+})
+
+describe("QA overrides", () => {
+  beforeEach(async () => {
+    registerStoredFeatureFlags(async () => ({
+      experimentalFeatureA: {enabled: false, rules: {userIds: ["user-1"]}},
+    }))
+    await refreshFeatureFlags()
+  })
+
+  it("take precedence over stored values, rules and defaults", () => {
+    const overrides = {experimentalFeatureA: false, dashboardCharts: false}
+
+    expect(
+      getFeature("experimentalFeatureA", {userId: "user-1", overrides})
+    ).toBe(false)
+    expect(getFeature("dashboardCharts", {overrides})).toBe(false)
+  })
+
+  it("leave flags without an override alone", () => {
+    const overrides = {dashboardCharts: false}
+
+    expect(
+      getFeature("experimentalFeatureA", {userId: "user-1", overrides})
+    ).toBe(true)
+    expect(getFeature("userDarkMode", {overrides})).toBe(true)
+  })
+
+  it("do not apply to site-wide flags", () => {
+    const overrides = {maintenanceMode: true, readOnlyMode: true}
+
+    expect(getFeature("maintenanceMode", {overrides})).toBe(false)
+    expect(getFeature("readOnlyMode", {overrides})).toBe(false)
+  })
+})
@@ -1,4 +1,11 @@
 import {z} from "zod"
+import {
+  evaluateFeatureFlag,
+  type FeatureFlagContext,
+  type StoredFeatureFlagValue,
+} from "./feature-flag-rules"
+
+export type {FeatureFlagContext} from "./feature-flag-rules"
 
 /**
  * Feature Flags System
@@ -8,8 +15,25 @@ import {z} from "zod"
  *
  * Usage:
  * - Server Components: `await getFeature("featureName")`
- * - Client Components: `useFeature("featureName")`
+ * - Client Components: `useFeature("featureName")`, inside a
+ *   FeatureFlagProvider (the root layout's, or the signed-in user's in the
+ *   dashboard and admin layouts)
  * - Server Actions: `await getFeature("featureName")`
+ * - Per user: `getFeature("featureName", await getFeatureContext(session))`
+ *
+ * A flag's value is, in order of precedence: the value stored from the
+ * admin console (lib/server/feature-flags.ts), its env override, then its
+ * schema default. Stored values are cached per server process and
+ * refreshed in the background once older than `STORED_FLAGS_TTL_MS`, so
+ * `getFeature` stays synchronous; a change reaches other processes within
+ * that window. Stored values can target users, organizations and
+ * environments (lib/feature-flag-rules.ts); pass a context to evaluate them
+ * for someone. A context built for a request also carries the tester's QA
+ * overrides, which take precedence over everything else except for the
+ * site-wide flags.
+ *
+ * A/B tests are experiments (lib/experiments.ts) that split the people a
+ * flag is on for between variants.
  */
 
 // Define all feature flags with their default values
@@ -45,6 +69,36 @@ const featureFlagsSchema = z.object({
 export type FeatureFlags = z.infer<typeof featureFlagsSchema>
 export type FeatureFlag = keyof FeatureFlags
 
+export const featureFlagSchema = featureFlagsSchema.keyof()
+
+export const featureFlagNames = featureFlagSchema.options
+
+// Flags that switch the whole site (lib/site-mode.ts). Middleware reads them
+// before there is a session to build a context from, so they follow the
+// admin console and env only: a QA override could not reach middleware and
+// would leave the server and the tester's browser disagreeing.
+export const siteWideFeatureFlags = ["maintenanceMode", "readOnlyMode"] as const
+
+export const overridableFeatureFlagSchema =
+  featureFlagSchema.exclude(siteWideFeatureFlags)
+
+export type OverridableFeatureFlag = z.infer<
+  typeof overridableFeatureFlagSchema
+>
+
+export const overridableFeatureFlagNames = overridableFeatureFlagSchema.options
+
+// Flags a tester has switched for their own browser
+export const featureFlagOverridesSchema = z.partialRecord(
+  overridableFeatureFlagSchema,
+  z.boolean()
+)
+
+export type FeatureFlagOverrides = z.infer<typeof featureFlagOverridesSchema>
+
+// Server-Sent Events with the caller's flags (app/api/feature-flags/stream)
+export const featureFlagsStreamPath = "/api/feature-flags/stream"
+
 /**
  * Environment-based feature flag overrides
  * Set these in .env files to override defaults
@@ -52,41 +106,160 @@ export type FeatureFlag = keyof FeatureFlags
 const envOverrides: Partial<FeatureFlags> = {
   // Parse from environment variables
   socialAuth: process.env.NEXT_PUBLIC_FEATURE_SOCIAL_AUTH === "true",
+  emailVerificationRequired:
+    process.env.NEXT_PUBLIC_FEATURE_EMAIL_VERIFICATION !== "false", // true by default
   twoFactorAuth: process.env.NEXT_PUBLIC_FEATURE_2FA === "true",
+  userAvatarUpload: process.env.NEXT_PUBLIC_FEATURE_AVATAR_UPLOAD === "true",
   maintenanceMode: process.env.NEXT_PUBLIC_MAINTENANCE_MODE === "true",
+  readOnlyMode: process.env.NEXT_PUBLIC_READ_ONLY_MODE === "true",
   enableAnalytics: process.env.NEXT_PUBLIC_ENABLE_ANALYTICS !== "false", // true by default
 }
 
+// How long stored flag values are served before being refreshed
+const STORED_FLAGS_TTL_MS = 30 * 1000
+
+type StoredFlags = Partial<Record<FeatureFlag, StoredFeatureFlagValue>>
+
+type StoredFlagsLoader = () => Promise<StoredFlags>
+
+interface StoredFlagsCache {
+  loader: StoredFlagsLoader | null
+  values: StoredFlags
+  loadedAt: number
+  refreshing: Promise<void> | null
+  listeners: Set<() => void>
+}
+
+// Kept on globalThis so every bundle in the server process (instrumentation,
+// middleware, pages and routes) shares one cache
+const globalForFlags = globalThis as typeof globalThis & {
+  storedFeatureFlags?: StoredFlagsCache
+}
+const storedFlags = (globalForFlags.storedFeatureFlags ??= {
+  loader: null,
+  values: {},
+  loadedAt: 0,
+  refreshing: null,
+  listeners: new Set(),
+})
+
+/**
+ * Set where stored flag values come from, clearing any cached ones. Done
+ * once per server process by lib/server/feature-flags.ts; without a loader
+ * (the browser, tests) only env overrides apply.
+ */
+export function registerStoredFeatureFlags(loader: StoredFlagsLoader | null) {
+  storedFlags.loader = loader
+  storedFlags.values = {}
+  storedFlags.loadedAt = 0
+  storedFlags.refreshing = null
+}
+
 /**
- * Get all feature flags with environment overrides applied
+ * Reload stored flag values now. A failed load keeps serving the last
+ * values; the loader is responsible for logging it.
  */
-function getAllFeatureFlags(): FeatureFlags {
+export function refreshFeatureFlags(): Promise<void> {
+  const {loader} = storedFlags
+  if (!loader) return Promise.resolve()
+
+  storedFlags.refreshing ??= loader()
+    .catch(() => storedFlags.values)
+    .then(values => {
+      // Ignore a load that finished after the loader was replaced
+      if (storedFlags.loader !== loader) return
+      const changed =
+        JSON.stringify(values) !== JSON.stringify(storedFlags.values)
+      storedFlags.values = values
+      storedFlags.loadedAt = Date.now()
+      storedFlags.refreshing = null
+      if (changed) storedFlags.listeners.forEach(listener => listener())
+    })
+  return storedFlags.refreshing
+}
+
+/**
+ * Call `listener` whenever this process loads changed stored values.
+ * Returns a function that unsubscribes.
+ */
+export function subscribeToFeatureFlags(listener: () => void) {
+  storedFlags.listeners.add(listener)
+  return () => {
+    storedFlags.listeners.delete(listener)
+  }
+}
+
+/**
+ * Defaults with environment overrides applied, ignoring stored values
+ */
+export function getDefaultFeatures(): FeatureFlags {
   const defaults = featureFlagsSchema.parse({})
   return {...defaults, ...envOverrides}
 }
 
+function isOverridableFeatureFlag(
+  flag: FeatureFlag
+): flag is OverridableFeatureFlag {
+  return !(siteWideFeatureFlags as readonly FeatureFlag[]).includes(flag)
+}
+
+/**
+ * Get all feature flags with environment, stored and QA overrides applied
+ */
+function getAllFeatureFlags(context?: FeatureFlagContext): FeatureFlags {
+  if (
+    storedFlags.loader &&
+    Date.now() - storedFlags.loadedAt > STORED_FLAGS_TTL_MS
+  ) {
+    // Serve the cached values while fresh ones load
+    void refreshFeatureFlags()
+  }
+
+  const flags = getDefaultFeatures()
+  for (const flag of featureFlagNames) {
+    const override = isOverridableFeatureFlag(flag)
+      ? context?.overrides?.[flag]
+      : undefined
+    const stored = storedFlags.values[flag]
+    if (override !== undefined) flags[flag] = override
+    else if (stored) flags[flag] = evaluateFeatureFlag(flag, stored, context)
+  }
+  return flags
+}
+
 /**
  * Server-side: Get a specific feature flag value
  */
-export function getFeature(flag: FeatureFlag): boolean {
-  const flags = getAllFeatureFlags()
+export function getFeature(
+  flag: FeatureFlag,
+  context?: FeatureFlagContext
+): boolean {
+  const flags = getAllFeatureFlags(context)
   return flags[flag]
 }
 
 /**
  * Server-side: Get all feature flags
  */
-export function getAllFeatures(): FeatureFlags {
-  return getAllFeatureFlags()
+export function getAllFeatures(context?: FeatureFlagContext): FeatureFlags {
+  return getAllFeatureFlags(context)
 }
 
 /**
- * Server-side: Check if multiple features are enabled
+ * Server-side: Check if multiple features are enabled, optionally for a
+ * context passed last
  */
 export function getFeaturesEnabled(
-  ...flags: FeatureFlag[]
+  ...args: FeatureFlag[] | [...FeatureFlag[], FeatureFlagContext]
 ): Record<FeatureFlag, boolean> {
-  const allFlags = getAllFeatureFlags()
+  const values: (FeatureFlag | FeatureFlagContext)[] = args
+  const last = values[values.length - 1]
+  const context = typeof last === "object" ? last : undefined
+  const flags = values.filter(
+    (value): value is FeatureFlag => typeof value === "string"
+  )
+
+  const allFlags = getAllFeatureFlags(context)
   return flags.reduce(
     (acc, flag) => {
       acc[flag] = allFlags[flag]
@@ -99,8 +272,16 @@ export function getFeaturesEnabled(
 /**
  * Server-side: Feature gate - throws error if feature is disabled
  */
-export function requireFeature(flag: FeatureFlag, errorMessage?: string): void {
-  if (!getFeature(flag)) {
+export function requireFeature(
+  flag: FeatureFlag,
+  errorMessage?: string | FeatureFlagContext,
+  context?: FeatureFlagContext
+): void {
+  if (typeof errorMessage === "object") {
+    context = errorMessage
+    errorMessage = undefined
+  }
+  if (!getFeature(flag, context)) {
     throw new Error(
       errorMessage || `Feature "${flag}" is not enabled in this environment`
     )
@@ -113,7 +294,8 @@ export function requireFeature(flag: FeatureFlag, errorMessage?: string): void {
 export function isFeatureEnabled<T>(
   flag: FeatureFlag,
   enabledValue: T,
-  disabledValue: T
+  disabledValue: T,
+  context?: FeatureFlagContext
 ): T {
-  return getFeature(flag) ? enabledValue : disabledValue
+  return getFeature(flag, context) ? enabledValue : disabledValue
 }
@@ -0,0 +1,51 @@
+"use client"
+
+import {createContext, useContext, useEffect} from "react"
+import {recordExperimentExposure} from "../actions/experiments"
+import {
+  assignVariant,
+  getControlVariant,
+  type ExperimentKey,
+  type ExperimentSubject,
+  type ExperimentVariant,
+} from "../experiments"
+import {useFeatureFlags} from "./use-feature"
+
+/**
+ * Client-side hook for A/B experiments
+ *
+ * Returns the current visitor's variant, the same one
+ * `getExperiment()` gives the server, and records the exposure the first
+ * time it renders on a page load. Visitors outside the experiment get the
+ * control variant and are not recorded.
+ *
+ * Usage:
+ * ```tsx
+ * const variant = useExperiment("dashboardWelcome")
+ * ```
+ */
+
+// Who experiments bucket; empty outside a provider, so nobody is enrolled
+export const ExperimentSubjectContext = createContext<ExperimentSubject>({})
+
+function useExperimentSubject(): ExperimentSubject {
+  return useContext(ExperimentSubjectContext)
+}
+
+// Exposures already sent by this page load, as "experiment:variant"
+const recorded = new Set<string>()
+
+export function useExperiment<K extends ExperimentKey>(
+  key: K
+): ExperimentVariant<K> {
+  const variant = assignVariant(key, useExperimentSubject(), useFeatureFlags())
+
+  useEffect(() => {
+    if (!variant || recorded.has(`${key}:${variant}`)) return
+    recorded.add(`${key}:${variant}`)
+    // Best effort: a lost exposure only undercounts the report
+    recordExperimentExposure({experiment: key}).catch(() => {})
+  }, [key, variant])
+
+  return variant ?? getControlVariant(key)
+}
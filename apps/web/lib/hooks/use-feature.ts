@@ -1,13 +1,18 @@
 "use client"
 
-import {useEffect, useState} from "react"
-import type {FeatureFlag, FeatureFlags} from "../feature-flags"
+import {createContext, useContext} from "react"
+import {
+  getDefaultFeatures,
+  type FeatureFlag,
+  type FeatureFlags,
+} from "../feature-flags"
 
 /**
  * Client-side hook for feature flags
  *
- * This hook reads feature flags from environment variables (NEXT_PUBLIC_*)
- * and provides reactive updates if flags change.
+ * Reads the flags the server evaluated for the current request, provided by
+ * the nearest FeatureFlagProvider (components/shared/feature-flag-provider),
+ * and re-renders when they change.
  *
  * Usage:
  * ```tsx
@@ -16,32 +21,24 @@ import type {FeatureFlag, FeatureFlags} from "../feature-flags"
  * ```
  */
 
-// Client-side feature flag values (from NEXT_PUBLIC_ env vars)
-const clientFeatureFlags: Partial<FeatureFlags> = {
-  socialAuth: process.env.NEXT_PUBLIC_FEATURE_SOCIAL_AUTH === "true",
-  twoFactorAuth: process.env.NEXT_PUBLIC_FEATURE_2FA === "true",
-  maintenanceMode: process.env.NEXT_PUBLIC_MAINTENANCE_MODE === "true",
-  enableAnalytics: process.env.NEXT_PUBLIC_ENABLE_ANALYTICS !== "false",
-  userDarkMode: true, // Default enabled
-  dashboardAnalytics: true,
-  dashboardCharts: true,
-  userProfileEditing: true,
+// Flags evaluated for the current user; null outside a provider
+export const FeatureFlagsContext = createContext<FeatureFlags | null>(null)
+
+let defaultFlags: FeatureFlags | undefined
+
+/**
+ * The current user's flags, or the deployment defaults outside a provider
+ */
+export function useFeatureFlags(): FeatureFlags {
+  const flags = useContext(FeatureFlagsContext)
+  return flags ?? (defaultFlags ??= getDefaultFeatures())
 }
 
 /**
  * Hook to get a single feature flag value
  */
 export function useFeature(flag: FeatureFlag): boolean {
-  const [isEnabled, setIsEnabled] = useState<boolean>(
-    clientFeatureFlags[flag] ?? false
-  )
-
-  useEffect(() => {
-    // In production, you could poll an API or use WebSocket for real-time updates
-    setIsEnabled(clientFeatureFlags[flag] ?? false)
-  }, [flag])
-
-  return isEnabled
+  return useFeatureFlags()[flag]
 }
 
 /**
@@ -50,35 +47,19 @@ export function useFeature(flag: FeatureFlag): boolean {
 export function useFeatures(
   flags: FeatureFlag[]
 ): Record<FeatureFlag, boolean> {
-  const [featureStates, setFeatureStates] = useState<
-    Record<FeatureFlag, boolean>
-  >(() => {
-    return flags.reduce(
-      (acc, flag) => {
-        acc[flag] = clientFeatureFlags[flag] ?? false
-        return acc
-      },
-      {} as Record<FeatureFlag, boolean>
-    )
-  })
-
-  useEffect(() => {
-    const states = flags.reduce(
-      (acc, flag) => {
-        acc[flag] = clientFeatureFlags[flag] ?? false
-        return acc
-      },
-      {} as Record<FeatureFlag, boolean>
-    )
-    setFeatureStates(states)
-  }, [flags])
-
-  return featureStates
+  const allFlags = useFeatureFlags()
+  return flags.reduce(
+    (acc, flag) => {
+      acc[flag] = allFlags[flag]
+      return acc
+    },
+    {} as Record<FeatureFlag, boolean>
+  )
 }
 
 /**
  * Hook to get all feature flags
  */
-export function useAllFeatures(): Partial<FeatureFlags> {
-  return clientFeatureFlags
+export function useAllFeatures(): FeatureFlags {
+  return useFeatureFlags()
 }
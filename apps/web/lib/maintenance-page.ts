@@ -0,0 +1,51 @@
+import {maintenanceMessage} from "./site-mode"
+
+const appName = "Next.js Starter"
+
+/**
+ * Standalone maintenance page served by middleware.ts
+ *
+ * Plain HTML with inline styles (theme colors from app/globals.css), so it
+ * renders without the app, its assets or the database.
+ */
+export function renderMaintenancePage({
+  retryAfterSeconds,
+}: {
+  retryAfterSeconds: number
+}) {
+  const minutes = Math.max(1, Math.round(retryAfterSeconds / 60))
+  const estimate =
+    minutes < 60
+      ? `${minutes} minute${minutes === 1 ? "" : "s"}`
+      : `${Math.round(minutes / 60)} hour${minutes < 90 ? "" : "s"}`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Down for maintenance | ${appName}</title>
+<style>
+  :root { color-scheme: light dark; --bg: hsl(0 0% 100%); --fg: hsl(222.2 84% 4.9%); --muted: hsl(215.4 16.3% 46.9%); --border: hsl(214.3 31.8% 91.4%); }
+  @media (prefers-color-scheme: dark) {
+    :root { --bg: hsl(222.2 84% 4.9%); --fg: hsl(210 40% 98%); --muted: hsl(215 20.2% 65.1%); --border: hsl(217.2 32.6% 17.5%); }
+  }
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; padding: 2rem 1rem; box-sizing: border-box; background: var(--bg); color: var(--fg); font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", sans-serif; }
+  main { max-width: 28rem; text-align: center; }
+  .brand { font-weight: 700; font-size: 0.875rem; letter-spacing: 0.05em; text-transform: uppercase; color: var(--muted); }
+  h1 { margin: 1rem 0 0.75rem; font-size: 1.875rem; line-height: 1.2; }
+  p { margin: 0; color: var(--muted); line-height: 1.6; }
+  .estimate { margin-top: 1.5rem; padding-top: 1.5rem; border-top: 1px solid var(--border); font-size: 0.875rem; }
+</style>
+</head>
+<body>
+<main>
+  <div class="brand">${appName}</div>
+  <h1>Down for maintenance</h1>
+  <p>${maintenanceMessage}</p>
+  <p class="estimate">We expect to be back within about ${estimate}.</p>
+</main>
+</body>
+</html>`
+}
@@ -0,0 +1,22 @@
+/**
+ * Roles a user can hold within an organization, most privileged first
+ *
+ * What each role may do is defined by the matrix in lib/permissions.ts.
+ */
+export const memberRoles = ["owner", "admin", "member", "viewer"] as const
+
+export type MemberRole = (typeof memberRoles)[number]
+
+export const memberRoleLabels: Record<MemberRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+  viewer: "Viewer",
+}
+
+// Roles that can be granted through an invitation; ownership is never invited
+export const invitableRoles = [
+  "admin",
+  "member",
+  "viewer",
+] as const satisfies readonly MemberRole[]
@@ -0,0 +1,53 @@
+import {describe, it, expect} from "vitest"
+import {checkPassword, getPasswordStrength} from "./password-policy"
+
+describe("checkPassword", () => {
+  it("accepts a password that meets every rule", () => {
+    expect(checkPassword("Correct-Horse-9")).toMatchObject({
+      valid: true,
+      errors: [],
+    })
+  })
+
+  it("reports each unmet rule in order", () => {
+    expect(checkPassword("abc").errors).toEqual([
+      "Password must be at least 8 characters",
+      "Password must contain an uppercase letter",
+      "Password must contain a number",
+      "Password must contain a symbol",
+    ])
+  })
+
+  it("rejects passwords over the maximum length", () => {
+    const check = checkPassword(`Aa1!${"x".repeat(200)}`)
+
+    expect(check.valid).toBe(false)
+    expect(check.errors).toEqual(["Password must be at most 128 characters"])
+  })
+
+  it("marks met rules for the checklist", () => {
+    const met = checkPassword("abcdefgh")
+      .rules.filter(rule => rule.met)
+      .map(rule => rule.id)
+
+    expect(met).toEqual(["length", "lowercase"])
+  })
+})
+
+describe("getPasswordStrength", () => {
+  it("scores empty and short passwords as very weak", () => {
+    expect(getPasswordStrength("")).toBe(0)
+    expect(getPasswordStrength("abc")).toBe(0)
+  })
+
+  it("rewards length and character variety", () => {
+    expect(getPasswordStrength("abcdefgh")).toBe(1)
+    expect(getPasswordStrength("Abcdefg1")).toBe(2)
+    expect(getPasswordStrength("Abcdefg1!")).toBe(3)
+    expect(getPasswordStrength("Correct-Horse-Battery-9")).toBe(4)
+  })
+
+  it("does not reward repeated characters", () => {
+    expect(getPasswordStrength("Aa1!Aa1!Aa1!Aa1!")).toBe(3)
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Password policy shared by the auth forms and the server
+ *
+ * The client uses it for live feedback; BetterAuth hooks enforce the same
+ * rules (plus the breached-password and reuse checks, which need server
+ * data) so both sides report identical messages.
+ */
+
+export const passwordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  // Previous passwords a new one must differ from, unless overridden per account
+  defaultHistorySize: 5,
+}
+
+export type PasswordRuleId =
+  | "length"
+  | "lowercase"
+  | "uppercase"
+  | "number"
+  | "symbol"
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId
+  label: string
+  message: string
+  met: boolean
+}
+
+export interface PasswordCheck {
+  valid: boolean
+  rules: PasswordRuleResult[]
+  // Messages for the unmet rules, in rule order
+  errors: string[]
+}
+
+export const passwordMessages = {
+  tooLong: `Password must be at most ${passwordPolicy.maxLength} characters`,
+  breached:
+    "This password has appeared in a data breach. Please choose a different one.",
+  reused: "You have used this password recently. Please choose a new one.",
+}
+
+/**
+ * Check a password against the length and character-class rules
+ */
+export function checkPassword(password: string): PasswordCheck {
+  const rules: PasswordRuleResult[] = [
+    {
+      id: "length",
+      label: `At least ${passwordPolicy.minLength} characters`,
+      message: `Password must be at least ${passwordPolicy.minLength} characters`,
+      met: password.length >= passwordPolicy.minLength,
+    },
+    {
+      id: "lowercase",
+      label: "A lowercase letter",
+      message: "Password must contain a lowercase letter",
+      met: /[a-z]/.test(password),
+    },
+    {
+      id: "uppercase",
+      label: "An uppercase letter",
+      message: "Password must contain an uppercase letter",
+      met: /[A-Z]/.test(password),
+    },
+    {
+      id: "number",
+      label: "A number",
+      message: "Password must contain a number",
+      met: /\d/.test(password),
+    },
+    {
+      id: "symbol",
+      label: "A symbol",
+      message: "Password must contain a symbol",
+      met: /[^A-Za-z0-9]/.test(password),
+    },
+  ]
+
+  const errors = rules.filter(rule => !rule.met).map(rule => rule.message)
+  if (password.length > passwordPolicy.maxLength) {
+    errors.push(passwordMessages.tooLong)
+  }
+
+  return {valid: errors.length === 0, rules, errors}
+}
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4
+
+export const passwordStrengthLabels: Record<PasswordStrength, string> = {
+  0: "Very weak",
+  1: "Weak",
+  2: "Fair",
+  3: "Good",
+  4: "Strong",
+}
+
+/**
+ * Rough 0–4 strength score from length and character variety
+ */
+export function getPasswordStrength(password: string): PasswordStrength {
+  if (!password) return 0
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern =>
+    pattern.test(password)
+  ).length
+  // Repeated characters ("aaaa") add length without adding entropy
+  const unique = new Set(password).size
+
+  let score = 0
+  if (password.length >= passwordPolicy.minLength) score++
+  if (password.length >= 14) score++
+  if (classes >= 3) score++
+  if (classes === 4 && unique >= passwordPolicy.minLength) score++
+
+  return Math.min(score, 4) as PasswordStrength
+}
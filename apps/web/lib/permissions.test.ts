@@ -0,0 +1,48 @@
+import {describe, it, expect} from "vitest"
+import {memberRoles} from "./organization-roles"
+import {hasPermission, permissions, rolePermissions} from "./permissions"
+
+describe("hasPermission", () => {
+  it("grants owners every permission", () => {
+    for (const permission of permissions) {
+      expect(hasPermission("owner", permission)).toBe(true)
+    }
+  })
+
+  it("denies admins organization deletion", () => {
+    expect(hasPermission("admin", "organization:delete")).toBe(false)
+    expect(hasPermission("admin", "members:invite")).toBe(true)
+  })
+
+  it("denies members organization and member management", () => {
+    expect(hasPermission("member", "organization:update")).toBe(false)
+    expect(hasPermission("member", "organization:delete")).toBe(false)
+    expect(hasPermission("member", "members:invite")).toBe(false)
+    expect(hasPermission("member", "members:remove")).toBe(false)
+    expect(hasPermission("member", "content:write")).toBe(true)
+  })
+
+  it("limits viewers to read permissions", () => {
+    for (const permission of permissions) {
+      expect(hasPermission("viewer", permission)).toBe(
+        permission.endsWith(":read")
+      )
+    }
+  })
+
+  it("denies everything without an active organization", () => {
+    for (const permission of permissions) {
+      expect(hasPermission(null, permission)).toBe(false)
+      expect(hasPermission(undefined, permission)).toBe(false)
+    }
+  })
+
+  it("never grants a less privileged role more than the one above it", () => {
+    for (let i = 1; i < memberRoles.length; i++) {
+      const above = rolePermissions[memberRoles[i - 1]]
+      for (const permission of rolePermissions[memberRoles[i]]) {
+        expect(above).toContain(permission)
+      }
+    }
+  })
+})
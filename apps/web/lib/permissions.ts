@@ -0,0 +1,59 @@
+import type {MemberRole} from "./organization-roles"
+
+/**
+ * Permission matrix for organization roles
+ *
+ * Shared by the server (`requirePermission()` in lib/server/permissions.ts)
+ * and the client (`<Can>`), so hiding a control and rejecting the request
+ * behind it always agree. Permissions are `resource:action` strings; add new
+ * ones here and grant them per role below.
+ */
+
+export const permissions = [
+  "organization:read",
+  "organization:update",
+  "organization:delete",
+  "members:read",
+  "members:invite",
+  "members:remove",
+  "content:read",
+  "content:write",
+] as const
+
+export type Permission = (typeof permissions)[number]
+
+const viewerPermissions = [
+  "organization:read",
+  "members:read",
+  "content:read",
+] as const satisfies readonly Permission[]
+
+const memberPermissions = [
+  ...viewerPermissions,
+  "content:write",
+] as const satisfies readonly Permission[]
+
+const adminPermissions = [
+  ...memberPermissions,
+  "organization:update",
+  "members:invite",
+  "members:remove",
+] as const satisfies readonly Permission[]
+
+export const rolePermissions: Record<MemberRole, readonly Permission[]> = {
+  owner: permissions,
+  admin: adminPermissions,
+  member: memberPermissions,
+  viewer: viewerPermissions,
+}
+
+/**
+ * Whether a role grants a permission. A missing role (no active
+ * organization) grants nothing.
+ */
+export function hasPermission(
+  role: MemberRole | null | undefined,
+  permission: Permission
+): boolean {
+  return role ? rolePermissions[role].includes(permission) : false
+}
@@ -0,0 +1,289 @@
+import {and, eq, inArray, isNotNull, lte, ne} from "drizzle-orm"
+import {apiKeyRestrictedMessage, type ApiKeyGrant} from "./api-keys"
+import {recordAuditEvent} from "./audit"
+import {deleteStoredAvatar} from "./avatars"
+import {db} from "./db"
+import {accounts, members, organizations, users} from "./db/schema"
+import {sendEmailChangeEmail} from "./email"
+import {impersonationRestrictedMessage, isImpersonating} from "./impersonation"
+import {consumeToken, issueToken, revokeTokens} from "./tokens"
+
+/**
+ * Account self-service
+ *
+ * Email changes are held in `user.pendingEmail` until the new address
+ * confirms them through a single-use "email-change" token (see tokens.ts),
+ * redeemed by `app/auth/change-email/confirm/route.ts`.
+ *
+ * Deleting an account only schedules it: `deletionScheduledAt` is set
+ * `ACCOUNT_DELETION_GRACE_DAYS` ahead and the user can cancel until then.
+ * `purgeScheduledDeletions()`, run daily by jobs/account-deletions.ts,
+ * removes the user row, and with it (by cascade) their sessions, accounts,
+ * memberships, passkeys and API keys, along with any uploaded avatar.
+ */
+
+export const ACCOUNT_DELETION_GRACE_DAYS = 14
+
+// How long an email change link stays valid
+export const EMAIL_CHANGE_TOKEN_TTL_MS = 24 * 60 * 60 * 1000
+
+export type RequestEmailChangeResult =
+  | {ok: true; email: string}
+  | {ok: false; reason: "unchanged" | "taken"}
+
+export type ConfirmEmailChangeResult =
+  | {ok: true; userId: string}
+  | {ok: false; reason: "invalid" | "expired" | "taken"}
+
+/**
+ * Why the request may not change the account's settings, or null if it may
+ *
+ * Account and credential changes need the user's own browser session: an
+ * admin impersonating them or an API key acting as them is refused.
+ */
+export function getSelfServiceRestriction(current: {
+  session: {impersonatedBy?: string | null}
+  apiKey: ApiKeyGrant | null
+}) {
+  if (isImpersonating(current)) return impersonationRestrictedMessage
+  if (current.apiKey) return apiKeyRestrictedMessage
+  return null
+}
+
+/**
+ * What the account settings page shows beyond the session user
+ */
+export async function getAccountSettings(userId: string) {
+  const [user, credential] = await Promise.all([
+    db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: {pendingEmail: true, deletionScheduledAt: true},
+    }),
+    db.query.accounts.findFirst({
+      where: and(
+        eq(accounts.userId, userId),
+        eq(accounts.providerId, "credential")
+      ),
+      columns: {id: true},
+    }),
+  ])
+
+  return {
+    pendingEmail: user?.pendingEmail ?? null,
+    deletionScheduledAt: user?.deletionScheduledAt ?? null,
+    hasPassword: Boolean(credential),
+  }
+}
+
+async function isEmailTaken(email: string, exceptUserId: string) {
+  const existing = await db.query.users.findFirst({
+    where: and(eq(users.email, email), ne(users.id, exceptUserId)),
+    columns: {id: true},
+  })
+  return Boolean(existing)
+}
+
+/**
+ * Remember the new address and email it a confirmation link. The current
+ * address stays in use until the link is opened.
+ */
+export async function requestEmailChange(
+  user: {id: string; email: string; name: string},
+  newEmail: string
+): Promise<RequestEmailChangeResult> {
+  const email = newEmail.trim().toLowerCase()
+  if (email === user.email.toLowerCase()) {
+    return {ok: false, reason: "unchanged"}
+  }
+  if (await isEmailTaken(email, user.id)) {
+    return {ok: false, reason: "taken"}
+  }
+
+  await db
+    .update(users)
+    .set({pendingEmail: email, updatedAt: new Date()})
+    .where(eq(users.id, user.id))
+
+  const token = await issueToken("email-change", user.id, {
+    expiresIn: EMAIL_CHANGE_TOKEN_TTL_MS,
+  })
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+  const url = `${baseUrl}/auth/change-email/confirm?token=${encodeURIComponent(token)}`
+
+  await sendEmailChangeEmail({to: email, name: user.name, url})
+  return {ok: true, email}
+}
+
+/**
+ * Redeem an email change link and switch the account to the new address
+ */
+export async function confirmEmailChange(
+  token: string,
+  headers?: Headers
+): Promise<ConfirmEmailChangeResult> {
+  const consumed = await consumeToken("email-change", token)
+  if (!consumed.ok) return consumed
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, consumed.subject),
+    columns: {id: true, email: true, pendingEmail: true},
+  })
+  if (!user?.pendingEmail) {
+    return {ok: false, reason: "invalid"}
+  }
+
+  // Another account may have claimed the address since the link was sent
+  if (await isEmailTaken(user.pendingEmail, user.id)) {
+    await db
+      .update(users)
+      .set({pendingEmail: null, updatedAt: new Date()})
+      .where(eq(users.id, user.id))
+    return {ok: false, reason: "taken"}
+  }
+
+  await db
+    .update(users)
+    .set({
+      email: user.pendingEmail,
+      emailVerified: true,
+      pendingEmail: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, user.id))
+  await recordAuditEvent({
+    action: "auth.email-changed",
+    actor: {id: user.id, email: user.pendingEmail},
+    target: {type: "user", id: user.id},
+    headers,
+    metadata: {from: user.email, to: user.pendingEmail},
+  })
+
+  return {ok: true, userId: user.id}
+}
+
+export async function cancelEmailChange(userId: string) {
+  await revokeTokens("email-change", userId)
+  await db
+    .update(users)
+    .set({pendingEmail: null, updatedAt: new Date()})
+    .where(eq(users.id, userId))
+}
+
+/**
+ * Organizations that would be left without an owner if the user left,
+ * while other members remain
+ */
+export async function getSoleOwnedOrganizations(userId: string) {
+  const owned = await db
+    .select({id: organizations.id, name: organizations.name})
+    .from(members)
+    .innerJoin(organizations, eq(members.organizationId, organizations.id))
+    .where(and(eq(members.userId, userId), eq(members.role, "owner")))
+  if (owned.length === 0) return []
+
+  const others = await db
+    .select({organizationId: members.organizationId, role: members.role})
+    .from(members)
+    .where(
+      and(
+        inArray(
+          members.organizationId,
+          owned.map(organization => organization.id)
+        ),
+        ne(members.userId, userId)
+      )
+    )
+
+  return owned.filter(
+    organization =>
+      others.some(member => member.organizationId === organization.id) &&
+      !others.some(
+        member =>
+          member.organizationId === organization.id && member.role === "owner"
+      )
+  )
+}
+
+/**
+ * Schedule the account for deletion after the grace period
+ */
+export async function scheduleAccountDeletion(
+  userId: string,
+  now = new Date()
+) {
+  const deletionScheduledAt = new Date(
+    now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+  )
+  await db
+    .update(users)
+    .set({deletionScheduledAt, updatedAt: now})
+    .where(eq(users.id, userId))
+  return deletionScheduledAt
+}
+
+export async function cancelAccountDeletion(userId: string) {
+  await db
+    .update(users)
+    .set({deletionScheduledAt: null, updatedAt: new Date()})
+    .where(eq(users.id, userId))
+}
+
+/**
+ * Delete every account whose grace period has ended
+ *
+ * Organizations the user was the only member of go with them. Returns the
+ * number of accounts deleted.
+ */
+export async function purgeScheduledDeletions(now = new Date()) {
+  const due = await db
+    .select({id: users.id, email: users.email, image: users.image})
+    .from(users)
+    .where(
+      and(
+        isNotNull(users.deletionScheduledAt),
+        lte(users.deletionScheduledAt, now)
+      )
+    )
+
+  for (const user of due) {
+    const memberships = await db
+      .select({organizationId: members.organizationId})
+      .from(members)
+      .where(eq(members.userId, user.id))
+    const organizationIds = memberships.map(
+      membership => membership.organizationId
+    )
+    const shared = organizationIds.length
+      ? await db
+          .select({organizationId: members.organizationId})
+          .from(members)
+          .where(
+            and(
+              inArray(members.organizationId, organizationIds),
+              ne(members.userId, user.id)
+            )
+          )
+      : []
+    const solo = organizationIds.filter(
+      id => !shared.some(member => member.organizationId === id)
+    )
+
+    await db.transaction(async tx => {
+      if (solo.length > 0) {
+        await tx.delete(organizations).where(inArray(organizations.id, solo))
+      }
+      await tx.delete(users).where(eq(users.id, user.id))
+    })
+    await revokeTokens("email-verification", user.id)
+    await revokeTokens("email-change", user.id)
+    await deleteStoredAvatar(user.image)
+
+    await recordAuditEvent({
+      action: "auth.account-deleted",
+      target: {type: "user", id: user.id},
+      metadata: {email: user.email, deletedOrganizations: solo},
+    })
+  }
+
+  return due.length
+}
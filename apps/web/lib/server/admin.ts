@@ -0,0 +1,107 @@
+import {and, count, desc, eq, gt, ilike, max, or} from "drizzle-orm"
+import {APIError} from "better-auth/api"
+import {db} from "./db"
+import {sessions, users} from "./db/schema"
+
+/**
+ * Site administration
+ *
+ * Admins are users whose `role` is "admin" (set directly in the database or
+ * through the admin plugin's set-role endpoint). They manage every account
+ * from the /admin console; mutations go through the server actions in
+ * lib/actions/admin.ts, which call the BetterAuth admin plugin.
+ */
+
+export const ADMIN_ROLE = "admin"
+
+export const ADMIN_USERS_PAGE_SIZE = 20
+
+export const passwordResetRequiredMessage =
+  'An administrator has asked you to choose a new password. Use "Forgot password?" to reset it.'
+
+export function isAdmin(user: {role?: string | null}) {
+  return user.role === ADMIN_ROLE
+}
+
+/**
+ * Refuse a new session for users an admin has flagged for a password reset
+ *
+ * Runs as a session create hook, so it covers every sign-in method.
+ */
+export async function refuseFlaggedSignIn(userId: string) {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: {passwordResetRequired: true},
+  })
+
+  if (user?.passwordResetRequired) {
+    throw new APIError("FORBIDDEN", {
+      code: "PASSWORD_RESET_REQUIRED",
+      message: passwordResetRequiredMessage,
+    })
+  }
+}
+
+export async function clearPasswordResetRequired(userId: string) {
+  await db
+    .update(users)
+    .set({passwordResetRequired: false, updatedAt: new Date()})
+    .where(eq(users.id, userId))
+}
+
+// Escape LIKE wildcards so a search for "100%" matches literally
+function likePattern(search: string) {
+  return `%${search.replace(/[\\%_]/g, match => `\\${match}`)}%`
+}
+
+/**
+ * One page of users matching the search (name or email), newest first,
+ * with their active session count and last activity
+ */
+export async function listUsers({
+  search,
+  page = 1,
+  pageSize = ADMIN_USERS_PAGE_SIZE,
+}: {
+  search?: string
+  page?: number
+  pageSize?: number
+}) {
+  const term = search?.trim()
+  const where = term
+    ? or(
+        ilike(users.name, likePattern(term)),
+        ilike(users.email, likePattern(term))
+      )
+    : undefined
+
+  const [{total}] = await db.select({total: count()}).from(users).where(where)
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+  const currentPage = Math.min(Math.max(1, page), pageCount)
+
+  const rows = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+      emailVerified: users.emailVerified,
+      role: users.role,
+      banned: users.banned,
+      passwordResetRequired: users.passwordResetRequired,
+      createdAt: users.createdAt,
+      activeSessions: count(sessions.id),
+      lastActiveAt: max(sessions.updatedAt),
+    })
+    .from(users)
+    .leftJoin(
+      sessions,
+      and(eq(sessions.userId, users.id), gt(sessions.expiresAt, new Date()))
+    )
+    .where(where)
+    .groupBy(users.id)
+    .orderBy(desc(users.createdAt), desc(users.id))
+    .limit(pageSize)
+    .offset((currentPage - 1) * pageSize)
+
+  return {users: rows, total, page: currentPage, pageCount}
+}
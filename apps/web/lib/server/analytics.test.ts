@@ -0,0 +1,87 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {getFeature} from "../feature-flags"
+import {recordAnalyticsEvent} from "./analytics"
+import {getFeatureContext} from "./feature-flags"
+import {getCurrentSession} from "./session"
+
+const values = vi.fn()
+
+vi.mock("./db", () => ({
+  db: {insert: vi.fn(() => ({values}))},
+}))
+
+vi.mock("next/headers", () => ({
+  cookies: vi.fn(async () => ({
+    get: (name: string) =>
+      name === "anonymous_id" ? {value: "anonymous-1"} : undefined,
+  })),
+}))
+
+vi.mock("./session", () => ({
+  getCurrentSession: vi.fn(),
+}))
+
+vi.mock("./feature-flags", () => ({
+  getFeatureContext: vi.fn(async () => ({userId: "user-1"})),
+}))
+
+vi.mock("../feature-flags", () => ({
+  getFeature: vi.fn(() => true),
+}))
+
+describe("recordAnalyticsEvent", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentSession).mockResolvedValue({
+      user: {id: "user-1"},
+    } as never)
+    vi.mocked(getFeature).mockReturnValue(true)
+  })
+
+  it("attributes the event to the current user and browser", async () => {
+    await recordAnalyticsEvent("organization.created", {organizationId: "o1"})
+
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "organization.created",
+        userId: "user-1",
+        anonymousId: "anonymous-1",
+        properties: {organizationId: "o1"},
+      })
+    )
+  })
+
+  it("attributes the event to the given subject", async () => {
+    await recordAnalyticsEvent("experiment.exposure", undefined, {
+      anonymousId: "anonymous-2",
+    })
+
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: null,
+        anonymousId: "anonymous-2",
+        properties: null,
+      })
+    )
+  })
+
+  it("stores nothing while analytics is off for the current user", async () => {
+    vi.mocked(getFeature).mockReturnValue(false)
+
+    await recordAnalyticsEvent("organization.created")
+
+    expect(getFeature).toHaveBeenCalledWith("enableAnalytics", {
+      userId: "user-1",
+    })
+    expect(getFeatureContext).toHaveBeenCalledWith({user: {id: "user-1"}})
+    expect(values).not.toHaveBeenCalled()
+  })
+
+  it("never throws when the write fails", async () => {
+    values.mockRejectedValueOnce(new Error("connection refused"))
+
+    await expect(
+      recordAnalyticsEvent("organization.created")
+    ).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,68 @@
+import {randomUUID} from "crypto"
+import {cache} from "react"
+import {cookies} from "next/headers"
+import {ANONYMOUS_ID_COOKIE, type ExperimentSubject} from "../experiments"
+import {getFeature} from "../feature-flags"
+import {db} from "./db"
+import {analyticsEvents} from "./db/schema"
+import {getFeatureContext} from "./feature-flags"
+import {logError, logEvent} from "./logger"
+import {getCurrentSession} from "./session"
+
+/**
+ * Product analytics
+ *
+ * Business events such as "organization.created", stored in the
+ * `analytics_events` table while the `enableAnalytics` flag is on for the
+ * current user. Experiments read their exposures and conversions from here
+ * (lib/server/experiments.ts), so an event becomes a conversion by being
+ * named in an experiment's `conversionEvent`, not by the code recording it.
+ * Every event is also logged to stdout. Recording never throws: a failed
+ * write is logged and the request carries on.
+ */
+
+/**
+ * Who the current request's events are attributed to
+ */
+export const getAnalyticsSubject = cache(
+  async (): Promise<ExperimentSubject> => {
+    const [current, cookieStore] = await Promise.all([
+      getCurrentSession(),
+      cookies(),
+    ])
+    return {
+      userId: current?.user.id ?? null,
+      anonymousId: cookieStore.get(ANONYMOUS_ID_COOKIE)?.value ?? null,
+    }
+  }
+)
+
+/**
+ * Record a business event, attributed to `subject` or else to whoever made
+ * the current request
+ */
+export async function recordAnalyticsEvent(
+  name: string,
+  properties?: Record<string, unknown>,
+  subject?: ExperimentSubject
+) {
+  logEvent(name, properties)
+
+  try {
+    const current = await getCurrentSession()
+    if (!getFeature("enableAnalytics", await getFeatureContext(current))) {
+      return
+    }
+
+    const {userId, anonymousId} = subject ?? (await getAnalyticsSubject())
+    await db.insert(analyticsEvents).values({
+      id: randomUUID(),
+      name,
+      userId: userId ?? null,
+      anonymousId: anonymousId ?? null,
+      properties: properties ?? null,
+    })
+  } catch (error) {
+    logError(error as Error, {module: "analytics", event: name})
+  }
+}
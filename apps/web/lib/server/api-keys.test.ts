@@ -0,0 +1,110 @@
+import {describe, it, expect, vi} from "vitest"
+import {
+  apiKeyGuard,
+  canUseApiKeys,
+  getBearerApiKey,
+  parseScopes,
+  toPermissionStatements,
+} from "./api-keys"
+
+vi.mock("./db", () => ({db: {}}))
+
+const [guard] = apiKeyGuard().hooks.before
+
+function bearer(token: string) {
+  return new Headers({authorization: `Bearer ${token}`})
+}
+
+describe("getBearerApiKey", () => {
+  it("reads sk_ keys from the Authorization header", () => {
+    expect(getBearerApiKey(bearer("sk_abc123"))).toBe("sk_abc123")
+    expect(
+      getBearerApiKey(new Headers({authorization: "bearer   sk_abc123"}))
+    ).toBe("sk_abc123")
+  })
+
+  it("ignores other credentials", () => {
+    expect(getBearerApiKey(bearer("eyJhbGciOi.jwt"))).toBeNull()
+    expect(
+      getBearerApiKey(new Headers({authorization: "Basic c2tfYWJj"}))
+    ).toBeNull()
+    expect(getBearerApiKey(new Headers())).toBeNull()
+    expect(getBearerApiKey(undefined)).toBeNull()
+  })
+})
+
+describe("scopes", () => {
+  it("round-trips through permission statements", () => {
+    const statements = toPermissionStatements([
+      "members:read",
+      "members:invite",
+      "content:read",
+    ])
+
+    expect(statements).toEqual({
+      members: ["read", "invite"],
+      content: ["read"],
+    })
+    expect(parseScopes(JSON.stringify(statements))).toEqual([
+      "members:read",
+      "members:invite",
+      "content:read",
+    ])
+  })
+
+  it("drops unknown permissions and unreadable values", () => {
+    expect(parseScopes('{"members":["read","destroy"]}')).toEqual([
+      "members:read",
+    ])
+    expect(parseScopes("not json")).toEqual([])
+    expect(parseScopes(null)).toEqual([])
+  })
+})
+
+describe("apiKeyGuard", () => {
+  it("only lets keys through to session lookup", () => {
+    const headers = bearer("sk_abc123")
+
+    expect(guard.matcher({path: "/get-session", headers} as never)).toBe(false)
+    for (const path of [
+      "/update-user",
+      "/change-password",
+      "/api-key/create",
+      "/admin/list-users",
+    ]) {
+      expect(guard.matcher({path, headers} as never)).toBe(true)
+    }
+  })
+
+  it("leaves cookie sessions alone", () => {
+    expect(
+      guard.matcher({path: "/update-user", headers: new Headers()} as never)
+    ).toBe(false)
+  })
+})
+
+describe("canUseApiKeys", () => {
+  it("allows users in good standing", () => {
+    expect(canUseApiKeys({banned: false, passwordResetRequired: false})).toBe(
+      true
+    )
+    expect(canUseApiKeys({})).toBe(true)
+  })
+
+  it("refuses disabled users", () => {
+    expect(canUseApiKeys({banned: true, banExpires: null})).toBe(false)
+    expect(
+      canUseApiKeys({banned: true, banExpires: new Date(Date.now() + 60_000)})
+    ).toBe(false)
+  })
+
+  it("allows users whose ban has run out", () => {
+    expect(
+      canUseApiKeys({banned: true, banExpires: new Date(Date.now() - 60_000)})
+    ).toBe(true)
+  })
+
+  it("refuses users who must reset their password", () => {
+    expect(canUseApiKeys({passwordResetRequired: true})).toBe(false)
+  })
+})
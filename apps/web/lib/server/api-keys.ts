@@ -0,0 +1,187 @@
+import {randomBytes} from "crypto"
+import {desc, eq} from "drizzle-orm"
+import type {BetterAuthPlugin} from "better-auth"
+import {APIError, createAuthMiddleware} from "better-auth/api"
+import {apiKey} from "better-auth/plugins"
+import {API_KEY_PREFIX} from "../api-keys"
+import {permissions, type Permission} from "../permissions"
+import {db} from "./db"
+import {apiKeys} from "./db/schema"
+
+/**
+ * API keys for programmatic access
+ *
+ * BetterAuth's apiKey plugin stores the keys (hashed) and, with
+ * `enableSessionForAPIKeys`, makes `auth.api.getSession()` accept a key in
+ * place of the session cookie, so `getCurrentSession()` and everything built
+ * on it work unchanged. Only `sk_`-prefixed Bearer tokens are treated as
+ * keys, and they are refused on every other auth endpoint: a key can read
+ * the session it stands for but never manage the account behind it.
+ *
+ * Scopes are stored in the plugin's `permissions` column as
+ * `{resource: [action]}` and checked by `requirePermission()`.
+ */
+
+// Nothing the key is used for needs the auth endpoints beyond this one
+const API_KEY_SESSION_PATH = "/get-session"
+
+export const apiKeyRestrictedMessage =
+  "API keys cannot be used for account management"
+
+export interface ApiKeyGrant {
+  id: string
+  scopes: Permission[]
+  organizationId: string | null
+}
+
+/**
+ * The API key in an `Authorization: Bearer` header, if it carries one
+ */
+export function getBearerApiKey(headers: Headers | null | undefined) {
+  const authorization = headers?.get("authorization")
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+  return match?.[1].startsWith(API_KEY_PREFIX) ? match[1] : null
+}
+
+export function toPermissionStatements(scopes: readonly Permission[]) {
+  const statements: Record<string, string[]> = {}
+  for (const scope of scopes) {
+    const [resource, action] = scope.split(":")
+    statements[resource] = [...(statements[resource] ?? []), action]
+  }
+  return statements
+}
+
+export function parseScopes(stored: string | null): Permission[] {
+  if (!stored) return []
+  try {
+    const statements = JSON.parse(stored) as Record<string, string[]>
+    return permissions.filter(permission => {
+      const [resource, action] = permission.split(":")
+      return statements[resource]?.includes(action) ?? false
+    })
+  } catch {
+    return []
+  }
+}
+
+function parseOrganizationId(metadata: string | null) {
+  if (!metadata) return null
+  try {
+    const {organizationId} = JSON.parse(metadata) as {organizationId?: unknown}
+    return typeof organizationId === "string" ? organizationId : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Scopes and organization of the key behind an API key session
+ */
+export async function getApiKeyGrant(
+  keyId: string
+): Promise<ApiKeyGrant | null> {
+  const key = await db.query.apiKeys.findFirst({
+    where: eq(apiKeys.id, keyId),
+    columns: {id: true, permissions: true, metadata: true},
+  })
+  if (!key) return null
+
+  return {
+    id: key.id,
+    scopes: parseScopes(key.permissions),
+    organizationId: parseOrganizationId(key.metadata),
+  }
+}
+
+/**
+ * Whether a key's owner may still use it. The apiKey plugin only checks the
+ * key itself (enabled, not expired), so a user an admin has disabled or
+ * made choose a new password would otherwise keep access through it.
+ */
+export function canUseApiKeys(user: {
+  banned?: boolean | null
+  banExpires?: Date | null
+  passwordResetRequired?: boolean | null
+}) {
+  const banned =
+    Boolean(user.banned) && (!user.banExpires || user.banExpires > new Date())
+  return !banned && !user.passwordResetRequired
+}
+
+/**
+ * Delete every key the user owns
+ */
+export async function deleteUserApiKeys(userId: string) {
+  await db.delete(apiKeys).where(eq(apiKeys.userId, userId))
+}
+
+/**
+ * The user's keys for the settings page. Hashes never leave the server.
+ */
+export async function listApiKeys(userId: string) {
+  const keys = await db
+    .select({
+      id: apiKeys.id,
+      name: apiKeys.name,
+      start: apiKeys.start,
+      permissions: apiKeys.permissions,
+      expiresAt: apiKeys.expiresAt,
+      lastRequest: apiKeys.lastRequest,
+      createdAt: apiKeys.createdAt,
+    })
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(desc(apiKeys.createdAt))
+
+  return keys.map(({permissions, ...key}) => ({
+    ...key,
+    scopes: parseScopes(permissions),
+  }))
+}
+
+/**
+ * The apiKey plugin, configured for Bearer keys with scopes
+ */
+export const apiKeyAuth = () =>
+  apiKey({
+    defaultPrefix: API_KEY_PREFIX,
+    // The plugin's default generator uses Math.random
+    customKeyGenerator: ({length, prefix}) =>
+      `${prefix ?? ""}${randomBytes(length).toString("base64url").slice(0, length)}`,
+    customAPIKeyGetter: ctx => getBearerApiKey(ctx.headers),
+    enableSessionForAPIKeys: true,
+    // Holds the organization the key acts in
+    enableMetadata: true,
+    // Shown in settings to tell keys apart ("sk_" plus 8 characters)
+    startingCharactersConfig: {charactersLength: API_KEY_PREFIX.length + 8},
+    // Requests are already limited per IP by lib/server/rate-limit
+    rateLimit: {enabled: false},
+    keyExpiration: {minExpiresIn: 1, maxExpiresIn: 365},
+  })
+
+/**
+ * Refuses API keys on every auth endpoint except session lookup
+ *
+ * Must come before `apiKeyAuth()` in the plugin list, since that plugin
+ * turns the key into a session for whichever endpoint it reaches.
+ */
+export const apiKeyGuard = () =>
+  ({
+    id: "api-key-guard",
+    hooks: {
+      before: [
+        {
+          matcher: ctx =>
+            ctx.path !== API_KEY_SESSION_PATH &&
+            getBearerApiKey(ctx.headers) !== null,
+          handler: createAuthMiddleware(async () => {
+            throw new APIError("FORBIDDEN", {
+              code: "API_KEY_RESTRICTED",
+              message: apiKeyRestrictedMessage,
+            })
+          }),
+        },
+      ],
+    },
+  }) satisfies BetterAuthPlugin
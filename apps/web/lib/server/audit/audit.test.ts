@@ -0,0 +1,147 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {PgDialect} from "drizzle-orm/pg-core"
+import {db} from "../db"
+import type {AuditEvent} from "../db/schema"
+import {auditFiltersSchema, auditWhere, recordAuditEvent} from "."
+import {toCsvField, toCsvRow, toJsonLine} from "./export"
+
+const values = vi.fn()
+
+vi.mock("../db", () => ({
+  db: {insert: vi.fn(() => ({values}))},
+}))
+
+const dialect = new PgDialect()
+
+function toQuery(filters: Parameters<typeof auditWhere>[0]) {
+  const where = auditWhere(filters)
+  return where ? dialect.sqlToQuery(where) : null
+}
+
+const event: AuditEvent = {
+  id: "event-1",
+  action: "admin.user-deleted",
+  actorId: "admin-1",
+  actorEmail: "admin@example.com",
+  impersonatorId: null,
+  targetType: "user",
+  targetId: "user-2",
+  ipAddress: "203.0.113.7",
+  userAgent: "Mozilla/5.0 (X11; Linux x86_64)",
+  metadata: {email: "user@example.com"},
+  createdAt: new Date("2026-01-02T03:04:05.000Z"),
+}
+
+describe("recordAuditEvent", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("stores the actor, target and client details", async () => {
+    await recordAuditEvent({
+      action: "auth.sign-in",
+      actor: {id: "user-1", email: "user@example.com"},
+      target: {type: "user", id: "user-1"},
+      headers: new Headers({
+        // The proxy appends the real address after whatever the client sent
+        "x-forwarded-for": "198.51.100.9, 203.0.113.7",
+        "user-agent": "test-agent",
+      }),
+      metadata: {method: "/sign-in/email"},
+    })
+
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "auth.sign-in",
+        actorId: "user-1",
+        actorEmail: "user@example.com",
+        targetType: "user",
+        targetId: "user-1",
+        ipAddress: "203.0.113.7",
+        userAgent: "test-agent",
+        metadata: {method: "/sign-in/email"},
+      })
+    )
+  })
+
+  it("never throws when the write fails", async () => {
+    values.mockRejectedValueOnce(new Error("connection refused"))
+
+    await expect(
+      recordAuditEvent({action: "auth.sign-out"})
+    ).resolves.toBeUndefined()
+    expect(db.insert).toHaveBeenCalledOnce()
+  })
+})
+
+describe("auditFiltersSchema", () => {
+  it("drops blank and malformed filters instead of failing", () => {
+    expect(
+      auditFiltersSchema.parse({
+        action: "  ",
+        actor: "admin@example.com",
+        from: "yesterday",
+        to: "2026-01-31",
+        page: "2",
+      })
+    ).toEqual({actor: "admin@example.com", to: "2026-01-31"})
+  })
+})
+
+describe("auditWhere", () => {
+  it("matches nothing extra without filters", () => {
+    expect(toQuery({})).toBeNull()
+  })
+
+  it("treats an action with a dot as exact and without as a category", () => {
+    expect(toQuery({action: "auth.sign-in"})?.params).toEqual(["auth.sign-in"])
+    expect(toQuery({action: "admin"})?.params).toEqual(["admin.%"])
+  })
+
+  it("escapes LIKE wildcards in the actor filter", () => {
+    expect(toQuery({actor: "100%_sure"})?.params).toEqual([
+      "100%_sure",
+      "%100\\%\\_sure%",
+    ])
+  })
+
+  it("includes the whole of the end date", () => {
+    const query = toQuery({from: "2026-01-01", to: "2026-01-31"})
+
+    expect(query?.params).toEqual([
+      new Date("2026-01-01T00:00:00.000Z").toISOString(),
+      new Date("2026-02-01T00:00:00.000Z").toISOString(),
+    ])
+  })
+})
+
+describe("audit export", () => {
+  it("quotes CSV fields containing separators", () => {
+    expect(toCsvField('say "hi", then\nleave')).toBe(
+      '"say ""hi"", then\nleave"'
+    )
+    expect(toCsvField(null)).toBe("")
+  })
+
+  it("neutralizes spreadsheet formulas", () => {
+    expect(toCsvField('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"')
+    expect(toCsvField("@SUM(A1)")).toBe("'@SUM(A1)")
+  })
+
+  it("writes one CSV row per event with JSON metadata", () => {
+    expect(toCsvRow(event)).toBe(
+      '2026-01-02T03:04:05.000Z,admin.user-deleted,admin-1,admin@example.com,,user,user-2,203.0.113.7,Mozilla/5.0 (X11; Linux x86_64),"{""email"":""user@example.com""}"\r\n'
+    )
+  })
+
+  it("writes one JSON object per line", () => {
+    const line = toJsonLine(event)
+
+    expect(line.endsWith("\n")).toBe(true)
+    expect(JSON.parse(line)).toMatchObject({
+      action: "admin.user-deleted",
+      createdAt: "2026-01-02T03:04:05.000Z",
+      metadata: {email: "user@example.com"},
+    })
+  })
+})
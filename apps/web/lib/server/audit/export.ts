@@ -0,0 +1,95 @@
+import type {AuditEvent} from "../db/schema"
+import {iterateAuditEvents, type AuditFilters} from "."
+
+/**
+ * CSV and JSONL exports of the audit log
+ *
+ * Rows are streamed from `iterateAuditEvents()`, so an export of the whole
+ * table never sits in memory.
+ */
+
+export const auditExportFormats = ["csv", "jsonl"] as const
+
+export type AuditExportFormat = (typeof auditExportFormats)[number]
+
+const contentTypes: Record<AuditExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+}
+
+const csvColumns = [
+  "createdAt",
+  "action",
+  "actorId",
+  "actorEmail",
+  "impersonatorId",
+  "targetType",
+  "targetId",
+  "ipAddress",
+  "userAgent",
+  "metadata",
+] as const satisfies readonly (keyof AuditEvent)[]
+
+function serialize(event: AuditEvent) {
+  return {
+    ...event,
+    createdAt: event.createdAt.toISOString(),
+  }
+}
+
+export function toCsvField(value: unknown) {
+  if (value === null || value === undefined) return ""
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value)
+  // Spreadsheet apps evaluate cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsvRow(event: AuditEvent) {
+  const row = serialize(event)
+  return csvColumns.map(column => toCsvField(row[column])).join(",") + "\r\n"
+}
+
+export function toJsonLine(event: AuditEvent) {
+  return JSON.stringify(serialize(event)) + "\n"
+}
+
+/**
+ * Stream matching events as a download, newest first
+ */
+export function exportAuditEvents(
+  filters: AuditFilters,
+  format: AuditExportFormat
+) {
+  const encoder = new TextEncoder()
+  const events = iterateAuditEvents(filters)
+  const toLine = format === "csv" ? toCsvRow : toJsonLine
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === "csv") {
+        controller.enqueue(encoder.encode(csvColumns.join(",") + "\r\n"))
+      }
+    },
+    async pull(controller) {
+      const {value, done} = await events.next()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(encoder.encode(toLine(value)))
+      }
+    },
+    async cancel() {
+      await events.return(undefined)
+    },
+  })
+
+  const date = new Date().toISOString().slice(0, 10)
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentTypes[format],
+      "Content-Disposition": `attachment; filename="audit-log-${date}.${format}"`,
+      "Cache-Control": "no-store",
+    },
+  })
+}
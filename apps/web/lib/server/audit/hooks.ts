@@ -0,0 +1,140 @@
+import type {BetterAuthPlugin} from "better-auth"
+import {
+  APIError,
+  createAuthMiddleware,
+  getSessionFromCtx,
+} from "better-auth/api"
+import {recordAuditEvent, type AuditAction} from "."
+
+/**
+ * BetterAuth plugin recording auth events to the audit log
+ *
+ * Sign-ins are detected from the new session rather than by path, so every
+ * method (password, magic link, passkey, social, second factor) is covered.
+ * Password resets are recorded from `emailAndPassword.onPasswordReset` and
+ * impersonation from lib/server/impersonation.ts.
+ */
+
+type HookContext = Parameters<Parameters<typeof createAuthMiddleware>[0]>[0]
+
+// Successful calls to these endpoints are recorded against the signed-in user
+const sessionActions: Record<string, AuditAction> = {
+  "/change-password": "auth.password-changed",
+  "/two-factor/disable": "auth.two-factor-disabled",
+  "/passkey/verify-registration": "auth.passkey-added",
+  "/passkey/delete-passkey": "auth.passkey-removed",
+  "/revoke-session": "auth.session-revoked",
+  "/revoke-sessions": "auth.session-revoked",
+  "/revoke-other-sessions": "auth.session-revoked",
+}
+
+const passwordResetRequestPaths = [
+  "/request-password-reset",
+  "/forget-password",
+]
+
+function requestHeaders(ctx: HookContext) {
+  return ctx.request?.headers ?? ctx.headers ?? null
+}
+
+async function currentSession(ctx: HookContext) {
+  return ctx.context.session ?? (await getSessionFromCtx(ctx).catch(() => null))
+}
+
+export const auditLog = () =>
+  ({
+    id: "audit-log",
+    hooks: {
+      before: [
+        {
+          // The session is gone once sign-out has run
+          matcher: ctx => ctx.path === "/sign-out",
+          handler: createAuthMiddleware(async ctx => {
+            const current = await currentSession(ctx)
+            if (!current) return
+
+            await recordAuditEvent({
+              action: "auth.sign-out",
+              actor: current.user,
+              impersonatorId: current.session.impersonatedBy,
+              target: {type: "user", id: current.user.id},
+              headers: requestHeaders(ctx),
+            })
+          }),
+        },
+      ],
+      after: [
+        {
+          matcher: () => true,
+          handler: createAuthMiddleware(async ctx => {
+            const returned = ctx.context.returned
+            const failed = returned instanceof APIError
+            const headers = requestHeaders(ctx)
+
+            if (ctx.path === "/sign-in/email" && failed) {
+              await recordAuditEvent({
+                action: "auth.sign-in-failed",
+                headers,
+                metadata: {
+                  email: ctx.body?.email,
+                  code: (returned as APIError).body?.code,
+                },
+              })
+              return
+            }
+            if (failed) return
+
+            if (passwordResetRequestPaths.includes(ctx.path)) {
+              // No target: whether the account exists is not revealed
+              await recordAuditEvent({
+                action: "auth.password-reset-requested",
+                headers,
+                metadata: {email: ctx.body?.email},
+              })
+              return
+            }
+
+            if (ctx.path === "/sign-up/email") {
+              const user = (returned as {user?: {id: string; email: string}})
+                ?.user
+              if (user) {
+                await recordAuditEvent({
+                  action: "auth.sign-up",
+                  actor: user,
+                  target: {type: "user", id: user.id},
+                  headers,
+                })
+              }
+              return
+            }
+
+            const newSession = ctx.context.newSession
+            if (newSession && !ctx.path.startsWith("/admin/")) {
+              await recordAuditEvent({
+                action: "auth.sign-in",
+                actor: newSession.user,
+                target: {type: "user", id: newSession.user.id},
+                headers,
+                metadata: {method: ctx.path},
+              })
+              return
+            }
+
+            const action = sessionActions[ctx.path]
+            if (action) {
+              const current = await currentSession(ctx)
+              if (!current) return
+
+              await recordAuditEvent({
+                action,
+                actor: current.user,
+                impersonatorId: current.session.impersonatedBy,
+                target: {type: "user", id: current.user.id},
+                headers,
+              })
+            }
+          }),
+        },
+      ],
+    },
+  }) satisfies BetterAuthPlugin
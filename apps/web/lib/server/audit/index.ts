@@ -0,0 +1,241 @@
+import {randomUUID} from "crypto"
+import {and, count, desc, eq, gte, ilike, lt, or, type SQL} from "drizzle-orm"
+import {z} from "zod"
+import {getClientIp} from "../../client-ip"
+import {db} from "../db"
+import {auditEvents, type AuditEvent} from "../db/schema"
+import {createLogger, logError} from "../logger"
+
+/**
+ * Audit log
+ *
+ * Durable, append-only security history in the `audit_events` table. Auth
+ * events are recorded by the BetterAuth plugin in ./hooks.ts, admin and
+ * organization changes by their server actions. Every event is also logged
+ * to stdout. Recording never throws: a failed write is logged and the
+ * request carries on.
+ */
+
+export const auditActions = [
+  "auth.sign-up",
+  "auth.sign-in",
+  "auth.sign-in-failed",
+  "auth.sign-out",
+  "auth.password-reset-requested",
+  "auth.password-reset",
+  "auth.password-changed",
+  "auth.email-verified",
+  "auth.email-change-requested",
+  "auth.email-changed",
+  "auth.two-factor-disabled",
+  "auth.passkey-added",
+  "auth.passkey-removed",
+  "auth.session-revoked",
+  "auth.api-key-created",
+  "auth.api-key-revoked",
+  "auth.data-export-requested",
+  "auth.data-export-downloaded",
+  "auth.account-deletion-scheduled",
+  "auth.account-deletion-cancelled",
+  "auth.account-deleted",
+  "auth.impersonation-started",
+  "auth.impersonation-stopped",
+  "admin.user-created",
+  "admin.user-disabled",
+  "admin.user-enabled",
+  "admin.password-reset-forced",
+  "admin.email-verified",
+  "admin.user-deleted",
+  "admin.feature-flag-changed",
+  "organization.member-invited",
+  "organization.invitation-revoked",
+  "organization.member-removed",
+  "organization.member-joined",
+] as const
+
+export type AuditAction = (typeof auditActions)[number]
+
+export const auditCategories = ["auth", "admin", "organization"] as const
+
+export const AUDIT_PAGE_SIZE = 50
+
+export interface AuditEventInput {
+  action: AuditAction
+  actor?: {id: string; email?: string | null} | null
+  impersonatorId?: string | null
+  target?: {
+    type: "user" | "organization" | "invitation" | "api-key" | "feature-flag"
+    id: string
+  } | null
+  // Request headers, for the client IP and user agent
+  headers?: Headers | null
+  metadata?: Record<string, unknown>
+}
+
+const log = createLogger({module: "audit"})
+
+function clientIp(headers: Headers) {
+  const ip = getClientIp(headers)
+  return ip === "unknown" ? null : ip
+}
+
+export async function recordAuditEvent({
+  action,
+  actor,
+  impersonatorId,
+  target,
+  headers,
+  metadata,
+}: AuditEventInput) {
+  const event = {
+    id: randomUUID(),
+    action,
+    actorId: actor?.id ?? null,
+    actorEmail: actor?.email ?? null,
+    impersonatorId: impersonatorId ?? null,
+    targetType: target?.type ?? null,
+    targetId: target?.id ?? null,
+    ipAddress: headers ? clientIp(headers) : null,
+    userAgent: headers?.get("user-agent") ?? null,
+    metadata: metadata ?? null,
+  }
+
+  log.info(event, "Audit Event")
+  try {
+    await db.insert(auditEvents).values(event)
+  } catch (error) {
+    logError(error as Error, {module: "audit", action})
+  }
+}
+
+// Blank or malformed query params are ignored rather than rejected
+const optionalText = z
+  .string()
+  .trim()
+  .max(200)
+  .transform(value => value || undefined)
+  .optional()
+  .catch(undefined)
+const optionalDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .optional()
+  .catch(undefined)
+
+export const auditFiltersSchema = z.object({
+  // An exact action ("auth.sign-in") or a category ("auth")
+  action: optionalText,
+  // Actor id or email (partial match on email)
+  actor: optionalText,
+  target: optionalText,
+  // Inclusive YYYY-MM-DD dates (UTC)
+  from: optionalDate,
+  to: optionalDate,
+})
+
+export type AuditFilters = z.infer<typeof auditFiltersSchema>
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+export function auditWhere(filters: AuditFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = []
+
+  if (filters.action) {
+    conditions.push(
+      filters.action.includes(".")
+        ? eq(auditEvents.action, filters.action)
+        : ilike(auditEvents.action, `${escapeLike(filters.action)}.%`)
+    )
+  }
+  if (filters.actor) {
+    conditions.push(
+      or(
+        eq(auditEvents.actorId, filters.actor),
+        ilike(auditEvents.actorEmail, `%${escapeLike(filters.actor)}%`)
+      )
+    )
+  }
+  if (filters.target) {
+    conditions.push(eq(auditEvents.targetId, filters.target))
+  }
+  if (filters.from) {
+    conditions.push(gte(auditEvents.createdAt, new Date(filters.from)))
+  }
+  if (filters.to) {
+    const end = new Date(filters.to)
+    end.setUTCDate(end.getUTCDate() + 1)
+    conditions.push(lt(auditEvents.createdAt, end))
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined
+}
+
+/**
+ * One page of matching events, newest first
+ */
+export async function listAuditEvents(
+  filters: AuditFilters,
+  {
+    page = 1,
+    pageSize = AUDIT_PAGE_SIZE,
+  }: {page?: number; pageSize?: number} = {}
+) {
+  const where = auditWhere(filters)
+
+  const [{total}] = await db
+    .select({total: count()})
+    .from(auditEvents)
+    .where(where)
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+  const currentPage = Math.min(Math.max(1, page), pageCount)
+
+  const events = await db
+    .select()
+    .from(auditEvents)
+    .where(where)
+    .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+    .limit(pageSize)
+    .offset((currentPage - 1) * pageSize)
+
+  return {events, total, page: currentPage, pageCount}
+}
+
+/**
+ * Every matching event, newest first, fetched in batches so large exports
+ * are never held in memory at once
+ */
+export async function* iterateAuditEvents(
+  filters: AuditFilters,
+  batchSize = 500
+): AsyncGenerator<AuditEvent> {
+  const where = auditWhere(filters)
+  let cursor: {createdAt: Date; id: string} | null = null
+
+  while (true) {
+    const batch: AuditEvent[] = await db
+      .select()
+      .from(auditEvents)
+      .where(
+        and(
+          where,
+          cursor
+            ? or(
+                lt(auditEvents.createdAt, cursor.createdAt),
+                and(
+                  eq(auditEvents.createdAt, cursor.createdAt),
+                  lt(auditEvents.id, cursor.id)
+                )
+              )
+            : undefined
+        )
+      )
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(batchSize)
+
+    yield* batch
+    if (batch.length < batchSize) return
+    cursor = batch[batch.length - 1]
+  }
+}
@@ -1,7 +1,47 @@
 import { betterAuth } from "better-auth"
 import { drizzleAdapter } from "better-auth/adapters/drizzle"
+import { admin, genericOAuth, magicLink, twoFactor } from "better-auth/plugins"
+import { passkey } from "better-auth/plugins/passkey"
 import { db } from "./db"
-import { users, sessions, accounts, verifications } from "./db/schema"
+import {
+  users,
+  sessions,
+  accounts,
+  verifications,
+  twoFactors,
+  passkeys,
+  apiKeys,
+} from "./db/schema"
+import {
+  sendMagicLinkEmail,
+  sendPasswordResetEmail,
+  sendWelcomeEmail,
+} from "./email"
+import { getResendCooldown, sendEmailVerification } from "./email-verification"
+import {
+  ADMIN_ROLE,
+  clearPasswordResetRequired,
+  refuseFlaggedSignIn,
+} from "./admin"
+import { apiKeyAuth, apiKeyGuard } from "./api-keys"
+import { recordAuditEvent } from "./audit"
+import { auditLog } from "./audit/hooks"
+import { featureGates } from "./feature-gates"
+import { impersonation, IMPERSONATION_TTL_SECONDS } from "./impersonation"
+import { logError } from "./logger"
+import {
+  enforcePasswordPolicy,
+  recordPasswordChange,
+  recordPasswordHistory,
+} from "./password-policy"
+import {
+  genericOAuthProviders,
+  socialProviders,
+  trustedProviders,
+} from "./oauth-providers"
+import { passwordPolicy } from "../password-policy"
+
+const MAGIC_LINK_TTL_SECONDS = 15 * 60
 
 export const auth = betterAuth({
   database: drizzleAdapter(db, {
@@ -11,27 +51,147 @@ export const auth = betterAuth({
       session: sessions,
       account: accounts,
       verification: verifications,
+      twoFactor: twoFactors,
+      passkey: passkeys,
+      apikey: apiKeys,
     },
   }),
+  user: {
+    additionalFields: {
+      passwordResetRequired: {
+        type: "boolean",
+        defaultValue: false,
+        required: false,
+        input: false,
+      },
+    },
+  },
+  session: {
+    // Every getSession call hits the session table, so revoking a session
+    // from settings signs that device out on its next request
+    cookieCache: { enabled: false },
+    additionalFields: {
+      // Set through lib/server/organizations.ts, never from client input
+      activeOrganizationId: {
+        type: "string",
+        required: false,
+        input: false,
+      },
+    },
+  },
   emailAndPassword: {
     enabled: true,
-    requireEmailVerification: false, // Disabled for local development
+    // Replaced on every sign-in and sign-up by featureGates() with the live
+    // `emailVerificationRequired` flag, which admins can switch at runtime
+    // (or NEXT_PUBLIC_FEATURE_EMAIL_VERIFICATION="false" for local development)
+    requireEmailVerification: true,
+    // Character-class, breached-list and reuse rules run in the hooks below
+    minPasswordLength: passwordPolicy.minLength,
+    maxPasswordLength: passwordPolicy.maxLength,
     sendResetPassword: async ({ user, url }) => {
-      // Send password reset email
-      // TODO: Replace with actual email service (e.g., Resend, SendGrid)
-      console.log(`Password reset for ${user.email}: ${url}`)
-      // Example with Resend:
-      // await resend.emails.send({
-      //   from: "noreply@yourapp.com",
-      //   to: user.email,
-      //   subject: "Reset your password",
-      //   html: `<p>Click <a href="${url}">here</a> to reset your password</p>`
-      // })
+      await sendPasswordResetEmail({ to: user.email, name: user.name, url })
+    },
+    onPasswordReset: async ({ user }, request) => {
+      await recordPasswordHistory(user.id)
+      // Clears a reset forced from the admin console
+      await clearPasswordResetRequired(user.id)
+      await recordAuditEvent({
+        action: "auth.password-reset",
+        actor: user,
+        target: { type: "user", id: user.id },
+        headers: request?.headers,
+      })
+    },
+  },
+  hooks: {
+    before: enforcePasswordPolicy,
+    after: recordPasswordChange,
+  },
+  emailVerification: {
+    sendOnSignUp: true,
+    // Unverified users who try to sign in get a fresh link
+    sendOnSignIn: true,
+    // BetterAuth's own (stateless) link is replaced by a single-use token
+    // stored in the verification table. Repeated sign-in attempts get the
+    // same cooldown as the resend button, so they cannot flood an inbox.
+    sendVerificationEmail: async ({ user }) => {
+      if ((await getResendCooldown(user.id)) > 0) return
+      await sendEmailVerification(user)
+    },
+  },
+  databaseHooks: {
+    session: {
+      create: {
+        // Covers every sign-in method, not just email and password
+        before: async (session) => {
+          await refuseFlaggedSignIn(session.userId)
+        },
+      },
+    },
+    user: {
+      create: {
+        after: async (user) => {
+          // A failed welcome email must never block sign up
+          await sendWelcomeEmail({ to: user.email, name: user.name }).catch(
+            (error: Error) => logError(error, { userId: user.id, email: "welcome" })
+          )
+        },
+      },
     },
   },
   secret: process.env.BETTER_AUTH_SECRET,
   baseURL: process.env.BETTER_AUTH_URL || process.env.NEXT_PUBLIC_APP_URL,
-  socialProviders: {
-    // Add social providers here when needed
+  // Configured from env, see oauth-providers.ts
+  socialProviders,
+  account: {
+    accountLinking: {
+      enabled: true,
+      trustedProviders,
+    },
   },
+  plugins: [
+    // Always installed so enrolled users keep their second factor even if
+    // the `twoFactorAuth` flag is turned off; featureGates() refuses
+    // enrollment and management while it is.
+    twoFactor({
+      issuer: "Next.js Starter",
+    }),
+    genericOAuth({
+      config: genericOAuthProviders,
+    }),
+    // Relying party ID is derived from baseURL
+    passkey({
+      rpName: "Next.js Starter",
+    }),
+    // Site admins (user.role = "admin") get the /admin console; disabling a
+    // user bans them, which also refuses new sessions
+    admin({
+      adminRoles: [ADMIN_ROLE],
+      impersonationSessionDuration: IMPERSONATION_TTL_SECONDS,
+      bannedUserMessage:
+        "Your account has been disabled. Please contact support if you believe this is an error.",
+    }),
+    // Refuses endpoints whose feature flag is off
+    featureGates(),
+    // Restricts what impersonation sessions can do and logs start/stop
+    impersonation(),
+    // Records sign-ins, sign-outs and security changes to audit_events
+    auditLog(),
+    // Tokens live in the verification table and are deleted on first use
+    magicLink({
+      expiresIn: MAGIC_LINK_TTL_SECONDS,
+      storeToken: "hashed",
+      sendMagicLink: async ({ email, url }) => {
+        await sendMagicLinkEmail({
+          to: email,
+          url,
+          expiresInMinutes: MAGIC_LINK_TTL_SECONDS / 60,
+        })
+      },
+    }),
+    // `Authorization: Bearer sk_...` keys stand in for a session on
+    // getSession only; the guard must stay ahead of the plugin
+    apiKeyGuard(),
+    apiKeyAuth(),
+  ],
 })
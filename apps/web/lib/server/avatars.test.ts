@@ -0,0 +1,114 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import sharp from "sharp"
+import {getAvatarUrl} from "../avatars"
+import {deleteStoredAvatar, processAvatar, storeAvatar} from "./avatars"
+import {setStorage, type StorageDriver} from "./storage"
+
+vi.mock("./db", () => ({db: {}}))
+
+const objects = new Map<string, Uint8Array>()
+
+const memoryStorage: StorageDriver = {
+  name: "memory",
+  async put(key, body) {
+    objects.set(key, body)
+  },
+  async delete(key) {
+    objects.delete(key)
+  },
+  url(key) {
+    return `https://cdn.example.com/${key}`
+  },
+}
+
+async function createImage(width: number, height: number) {
+  return sharp({
+    create: {width, height, channels: 3, background: "#3366ff"},
+  })
+    .png()
+    .toBuffer()
+}
+
+function imageFile(body: Buffer, type = "image/png") {
+  return new File([new Uint8Array(body)], "avatar.png", {type})
+}
+
+describe("processAvatar", () => {
+  it("crops to a square WebP at every size", async () => {
+    const rendered = await processAvatar(await createImage(300, 200))
+
+    expect([...rendered!.keys()]).toEqual([32, 64, 128, 256])
+    const metadata = await sharp(rendered!.get(128)).metadata()
+    expect(metadata).toMatchObject({format: "webp", width: 128, height: 128})
+  })
+
+  it("rejects data that is not an image", async () => {
+    expect(await processAvatar(Buffer.from("<svg></svg>"))).toBeNull()
+  })
+})
+
+describe("storeAvatar", () => {
+  beforeEach(() => {
+    objects.clear()
+    setStorage(memoryStorage)
+  })
+
+  it("stores every size under a fresh prefix", async () => {
+    const result = await storeAvatar(
+      "user-1",
+      imageFile(await createImage(64, 64))
+    )
+
+    expect(result.ok).toBe(true)
+    const image = result.ok ? result.image : ""
+    expect(image).toMatch(
+      /^https:\/\/cdn\.example\.com\/avatars\/user-1\/[0-9a-f]+\/256\.webp$/
+    )
+    expect(objects.size).toBe(4)
+    expect(getAvatarUrl(image, 32)).toBe(image.replace("256.webp", "32.webp"))
+  })
+
+  it("rejects unsupported types before decoding", async () => {
+    const result = await storeAvatar(
+      "user-1",
+      imageFile(Buffer.from("<svg/>"), "image/svg+xml")
+    )
+
+    expect(result).toEqual({ok: false, reason: "unsupported-type"})
+  })
+
+  it("rejects files that are not the image they claim to be", async () => {
+    const result = await storeAvatar(
+      "user-1",
+      imageFile(Buffer.from("not an image"))
+    )
+
+    expect(result).toEqual({ok: false, reason: "invalid-image"})
+    expect(objects.size).toBe(0)
+  })
+})
+
+describe("deleteStoredAvatar", () => {
+  beforeEach(() => {
+    objects.clear()
+    setStorage(memoryStorage)
+  })
+
+  it("removes every size of a stored avatar", async () => {
+    const result = await storeAvatar(
+      "user-1",
+      imageFile(await createImage(64, 64))
+    )
+    await deleteStoredAvatar(result.ok ? result.image : null)
+
+    expect(objects.size).toBe(0)
+  })
+
+  it("ignores images hosted elsewhere", async () => {
+    objects.set("avatars/user-1/abc/256.webp", new Uint8Array())
+
+    await deleteStoredAvatar("https://avatars.githubusercontent.com/u/1?v=4")
+
+    expect(objects.size).toBe(1)
+  })
+})
@@ -0,0 +1,142 @@
+import {randomBytes} from "crypto"
+import {eq} from "drizzle-orm"
+import sharp from "sharp"
+import {
+  AVATAR_MAX_BYTES,
+  avatarContentTypes,
+  avatarSizes,
+  type AvatarSize,
+} from "../avatars"
+import {db} from "./db"
+import {users} from "./db/schema"
+import {logError} from "./logger"
+import {getStorage} from "./storage"
+
+/**
+ * Avatar processing and storage
+ *
+ * Uploads are validated by their declared type and size, then decoded with
+ * sharp, which rejects anything that is not really an image of an accepted
+ * format. Each upload is stored under a fresh `avatars/<userId>/<version>/`
+ * prefix so URLs can be cached forever.
+ */
+
+// Refuse to decode images larger than this many pixels (decompression bombs)
+const MAX_INPUT_PIXELS = 40_000_000
+
+const acceptedFormats = new Set(["jpeg", "png", "webp", "gif"])
+
+export type StoreAvatarResult =
+  | {ok: true; image: string}
+  | {ok: false; reason: "too-large" | "unsupported-type" | "invalid-image"}
+
+/**
+ * Square-crop an image and render it as WebP at every avatar size
+ *
+ * Returns null when the input cannot be decoded as an accepted format.
+ */
+export async function processAvatar(
+  input: Buffer
+): Promise<Map<AvatarSize, Buffer> | null> {
+  const image = sharp(input, {limitInputPixels: MAX_INPUT_PIXELS})
+
+  try {
+    const {format} = await image.metadata()
+    if (!format || !acceptedFormats.has(format)) return null
+
+    // Apply EXIF orientation before cropping so phone photos stay upright
+    const oriented = image.rotate()
+    const rendered = await Promise.all(
+      avatarSizes.map(
+        async size =>
+          [
+            size,
+            await oriented
+              .clone()
+              .resize(size, size, {fit: "cover", position: "attention"})
+              .webp({quality: 85})
+              .toBuffer(),
+          ] as const
+      )
+    )
+    return new Map(rendered)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Validate, process and store an uploaded avatar, returning the URL of its
+ * largest size
+ */
+export async function storeAvatar(
+  userId: string,
+  file: File
+): Promise<StoreAvatarResult> {
+  if (!(avatarContentTypes as readonly string[]).includes(file.type)) {
+    return {ok: false, reason: "unsupported-type"}
+  }
+  if (file.size > AVATAR_MAX_BYTES) {
+    return {ok: false, reason: "too-large"}
+  }
+
+  const rendered = await processAvatar(Buffer.from(await file.arrayBuffer()))
+  if (!rendered) {
+    return {ok: false, reason: "invalid-image"}
+  }
+
+  const storage = getStorage()
+  const prefix = `avatars/${userId}/${randomBytes(8).toString("hex")}`
+  await Promise.all(
+    [...rendered].map(([size, body]) =>
+      storage.put(`${prefix}/${size}.webp`, body, {
+        contentType: "image/webp",
+        cacheControl: "public, max-age=31536000, immutable",
+      })
+    )
+  )
+
+  const largest = avatarSizes[avatarSizes.length - 1]
+  return {ok: true, image: storage.url(`${prefix}/${largest}.webp`)}
+}
+
+/**
+ * Remove every size of an avatar stored by `storeAvatar()`
+ *
+ * Images hosted elsewhere are left alone. Failures are logged rather than
+ * thrown: a leftover file must not fail the change that replaced it.
+ */
+export async function deleteStoredAvatar(image: string | null | undefined) {
+  if (!image) return
+
+  const storage = getStorage()
+  const base = storage.url("")
+  const match = image.startsWith(base)
+    ? image.slice(base.length).match(/^(avatars\/[^/]+\/[^/]+)\/\d+\.webp$/)
+    : null
+  if (!match) return
+
+  try {
+    await Promise.all(
+      avatarSizes.map(size => storage.delete(`${match[1]}/${size}.webp`))
+    )
+  } catch (error) {
+    logError(error as Error, {action: "deleteStoredAvatar", image})
+  }
+}
+
+/**
+ * Point the user at a new avatar (or none) and delete the one it replaces
+ */
+export async function setUserAvatar(
+  user: {id: string; image?: string | null},
+  image: string | null
+) {
+  await db
+    .update(users)
+    .set({image, updatedAt: new Date()})
+    .where(eq(users.id, user.id))
+  if (user.image !== image) {
+    await deleteStoredAvatar(user.image)
+  }
+}
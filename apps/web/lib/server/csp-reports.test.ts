@@ -0,0 +1,143 @@
+import {describe, expect, it, vi} from "vitest"
+import {
+  MAX_CSP_REPORT_BYTES,
+  parseCspReports,
+  readCspReportBody,
+} from "./csp-reports"
+
+vi.mock("./db", () => ({db: {}}))
+
+const reportingApiReport = {
+  type: "csp-violation",
+  url: "https://example.com/dashboard",
+  user_agent: "Mozilla/5.0",
+  body: {
+    documentURL: "https://example.com/dashboard?tab=billing",
+    blockedURL: "inline",
+    effectiveDirective: "script-src-elem",
+    disposition: "enforce",
+    sourceFile: "https://example.com/_next/static/chunks/app.js",
+    lineNumber: 12,
+    columnNumber: 4,
+    sample: "alert(1)",
+  },
+}
+
+describe("parseCspReports", () => {
+  it("parses a legacy report-uri body", () => {
+    const reports = parseCspReports({
+      "csp-report": {
+        "document-uri": "https://example.com/verify?token=secret#top",
+        "blocked-uri": "https://evil.example/x.js?id=1",
+        "violated-directive": "script-src-elem 'self'",
+        disposition: "report",
+        "line-number": 3,
+        "script-sample": "",
+      },
+    })
+
+    expect(reports).toEqual([
+      {
+        documentUri: "https://example.com/verify",
+        blockedUri: "https://evil.example/x.js",
+        effectiveDirective: "script-src-elem",
+        disposition: "report",
+        sourceFile: null,
+        lineNumber: 3,
+        columnNumber: null,
+        sample: null,
+        userAgent: null,
+      },
+    ])
+  })
+
+  it("parses a Reporting API batch", () => {
+    expect(parseCspReports([reportingApiReport])).toEqual([
+      {
+        documentUri: "https://example.com/dashboard",
+        blockedUri: "inline",
+        effectiveDirective: "script-src-elem",
+        disposition: "enforce",
+        sourceFile: "https://example.com/_next/static/chunks/app.js",
+        lineNumber: 12,
+        columnNumber: 4,
+        sample: "alert(1)",
+        userAgent: "Mozilla/5.0",
+      },
+    ])
+  })
+
+  it("drops entries that are not CSP violations", () => {
+    const reports = parseCspReports([
+      {type: "deprecation", body: {id: "x"}},
+      {...reportingApiReport, body: {documentURL: "https://example.com"}},
+      reportingApiReport,
+    ])
+
+    expect(reports).toHaveLength(1)
+    expect(parseCspReports({hello: "world"})).toEqual([])
+    expect(parseCspReports("csp-report")).toEqual([])
+  })
+
+  it("ignores malformed optional fields", () => {
+    const [report] = parseCspReports([
+      {
+        ...reportingApiReport,
+        body: {...reportingApiReport.body, lineNumber: -1, sample: 42},
+      },
+    ])
+
+    expect(report.lineNumber).toBeNull()
+    expect(report.sample).toBeNull()
+  })
+
+  it("truncates long values", () => {
+    const [report] = parseCspReports([
+      {
+        ...reportingApiReport,
+        body: {...reportingApiReport.body, sample: "x".repeat(1000)},
+      },
+    ])
+
+    expect(report.sample).toHaveLength(200)
+  })
+
+  it("keeps at most 20 reports from one request", () => {
+    const reports = parseCspReports(Array(50).fill(reportingApiReport))
+
+    expect(reports).toHaveLength(20)
+  })
+})
+
+describe("readCspReportBody", () => {
+  function streamedRequest(chunks: string[]) {
+    const encoder = new TextEncoder()
+    let index = 0
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (index < chunks.length) {
+          controller.enqueue(encoder.encode(chunks[index++]))
+        } else {
+          controller.close()
+        }
+      },
+    })
+    return {body, pulled: () => index} as unknown as Request & {
+      pulled: () => number
+    }
+  }
+
+  it("joins the chunks of a body within the limit", async () => {
+    const request = streamedRequest(['{"csp-report":', "{}}"])
+
+    expect(await readCspReportBody(request)).toBe('{"csp-report":{}}')
+  })
+
+  it("stops reading once the body passes the limit", async () => {
+    const chunk = "x".repeat(MAX_CSP_REPORT_BYTES / 2)
+    const request = streamedRequest([chunk, chunk, "x", chunk, chunk])
+
+    expect(await readCspReportBody(request)).toBeNull()
+    expect(request.pulled()).toBe(3)
+  })
+})
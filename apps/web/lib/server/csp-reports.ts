@@ -0,0 +1,209 @@
+import {randomUUID} from "crypto"
+import {z} from "zod"
+import {db} from "./db"
+import {cspReports, type NewCspReport} from "./db/schema"
+import {createLogger, logError} from "./logger"
+import {
+  getRateLimitStore,
+  isRateLimitEnabled,
+  retryAfterSeconds,
+  type RateLimitRule,
+} from "./rate-limit"
+
+/**
+ * Content Security Policy violation reports
+ *
+ * Browsers POST a report to /api/csp-report (app/api/csp-report) whenever
+ * the policy from lib/csp.ts blocks something, in one of two formats: the
+ * legacy `report-uri` body (`{"csp-report": {...}}`) or a Reporting API
+ * batch (`[{type: "csp-violation", body: {...}}]`). Both are normalized
+ * into the `csp_reports` table. The endpoint is open to anyone, so each
+ * address is rate limited and reports are capped in size and number.
+ */
+
+const log = createLogger({module: "csp-reports"})
+
+// Reports are small; anything bigger is not a browser report
+export const MAX_CSP_REPORT_BYTES = 64 * 1024
+
+// Reports kept from one request
+const MAX_REPORTS_PER_REQUEST = 20
+
+export const cspReportRateLimit: RateLimitRule = {
+  name: "csp-report:ip",
+  limit: 30,
+  windowMs: 60 * 1000,
+}
+
+const text = (max: number) =>
+  z
+    .string()
+    .transform(value => value.slice(0, max))
+    .optional()
+    .catch(undefined)
+const position = z.number().int().nonnegative().optional().catch(undefined)
+
+// The legacy report body, with kebab-case keys
+const legacyReportSchema = z.object({
+  "csp-report": z.object({
+    "document-uri": z.string(),
+    "blocked-uri": text(2048),
+    "violated-directive": text(200),
+    "effective-directive": text(200),
+    disposition: text(20),
+    "source-file": text(2048),
+    "line-number": position,
+    "column-number": position,
+    "script-sample": text(200),
+  }),
+})
+
+// A Reporting API report, with camelCase keys
+const reportingApiReportSchema = z.object({
+  type: z.literal("csp-violation"),
+  user_agent: text(500),
+  body: z.object({
+    documentURL: z.string(),
+    blockedURL: text(2048),
+    effectiveDirective: text(200),
+    disposition: text(20),
+    sourceFile: text(2048),
+    lineNumber: position,
+    columnNumber: position,
+    sample: text(200),
+  }),
+})
+
+// Query strings and fragments can carry tokens (e.g. email verification)
+function stripQuery(uri: string | undefined) {
+  return uri?.split(/[?#]/)[0].slice(0, 2048)
+}
+
+type ParsedCspReport = Omit<NewCspReport, "id" | "createdAt">
+
+/**
+ * The request body as text, or null once it passes MAX_CSP_REPORT_BYTES.
+ * Read chunk by chunk so an upload without a Content-Length cannot make
+ * the server buffer more than the limit.
+ */
+export async function readCspReportBody(
+  request: Request
+): Promise<string | null> {
+  if (!request.body) return ""
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const {done, value} = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > MAX_CSP_REPORT_BYTES) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return new TextDecoder().decode(bytes)
+}
+
+/**
+ * The violation reports in a request body, in either format. Anything
+ * that is not a CSP report is dropped.
+ */
+export function parseCspReports(body: unknown): ParsedCspReport[] {
+  const legacy = legacyReportSchema.safeParse(body)
+  if (legacy.success) {
+    const report = legacy.data["csp-report"]
+    const effectiveDirective =
+      report["effective-directive"] ??
+      report["violated-directive"]?.split(" ")[0]
+    if (!effectiveDirective) return []
+
+    return [
+      {
+        documentUri: stripQuery(report["document-uri"])!,
+        blockedUri: stripQuery(report["blocked-uri"]) ?? null,
+        effectiveDirective,
+        disposition: report.disposition ?? null,
+        sourceFile: stripQuery(report["source-file"]) ?? null,
+        lineNumber: report["line-number"] ?? null,
+        columnNumber: report["column-number"] ?? null,
+        sample: report["script-sample"] || null,
+        userAgent: null,
+      },
+    ]
+  }
+
+  if (!Array.isArray(body)) return []
+  return body.slice(0, MAX_REPORTS_PER_REQUEST).flatMap(entry => {
+    const parsed = reportingApiReportSchema.safeParse(entry)
+    if (!parsed.success) return []
+
+    const report = parsed.data.body
+    const {effectiveDirective} = report
+    if (!effectiveDirective) return []
+
+    return [
+      {
+        documentUri: stripQuery(report.documentURL)!,
+        blockedUri: stripQuery(report.blockedURL) ?? null,
+        effectiveDirective,
+        disposition: report.disposition ?? null,
+        sourceFile: stripQuery(report.sourceFile) ?? null,
+        lineNumber: report.lineNumber ?? null,
+        columnNumber: report.columnNumber ?? null,
+        sample: report.sample || null,
+        userAgent: parsed.data.user_agent ?? null,
+      },
+    ]
+  })
+}
+
+/**
+ * Count a report request from `ip`, returning the seconds to wait when it
+ * is over the limit. A failing limiter lets reports through.
+ */
+export async function limitCspReports(ip: string): Promise<number | null> {
+  if (!isRateLimitEnabled()) return null
+
+  try {
+    const result = await getRateLimitStore().limit(cspReportRateLimit, ip)
+    if (result.success) return null
+
+    log.warn({ip}, "CSP report rate limit exceeded")
+    return retryAfterSeconds(result)
+  } catch (error) {
+    logError(error as Error, {module: "csp-reports"})
+    return null
+  }
+}
+
+/**
+ * Store reports. Never throws: a failed write is logged and dropped.
+ */
+export async function recordCspReports(
+  reports: ParsedCspReport[],
+  {userAgent}: {userAgent?: string | null} = {}
+) {
+  if (reports.length === 0) return
+
+  try {
+    await db.insert(cspReports).values(
+      reports.map(report => ({
+        ...report,
+        id: randomUUID(),
+        userAgent: report.userAgent ?? userAgent?.slice(0, 500) ?? null,
+      }))
+    )
+  } catch (error) {
+    logError(error as Error, {module: "csp-reports"})
+  }
+}
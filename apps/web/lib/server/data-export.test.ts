@@ -0,0 +1,78 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {db} from "./db"
+import {redeemDataExport} from "./data-export"
+import {consumeToken, findToken} from "./tokens"
+
+vi.mock("./db", () => {
+  const where = vi.fn()
+  return {
+    db: {
+      query: {dataExports: {findFirst: vi.fn()}},
+      update: vi.fn(() => ({set: vi.fn(() => ({where}))})),
+    },
+  }
+})
+
+vi.mock("./tokens", () => ({
+  consumeToken: vi.fn(),
+  findToken: vi.fn(),
+  issueToken: vi.fn(),
+}))
+
+vi.mock("./email", () => ({sendDataExportReadyEmail: vi.fn()}))
+
+vi.mock("./jobs/client", () => ({inngest: {send: vi.fn()}}))
+
+const bundle = {user: {id: "user-1"}}
+
+describe("redeemDataExport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(findToken).mockResolvedValue({ok: true, subject: "export-1"})
+    vi.mocked(consumeToken).mockResolvedValue({ok: true, subject: "export-1"})
+    vi.mocked(db.query.dataExports.findFirst).mockResolvedValue({
+      id: "export-1",
+      userId: "user-1",
+      status: "ready",
+      data: bundle,
+    } as never)
+  })
+
+  it("returns the bundle once and clears it", async () => {
+    const result = await redeemDataExport("token", "user-1")
+
+    expect(result).toEqual({ok: true, exportId: "export-1", data: bundle})
+    expect(consumeToken).toHaveBeenCalledWith("data-export", "token")
+    expect(db.update).toHaveBeenCalled()
+  })
+
+  it("leaves the link unused for another account", async () => {
+    const result = await redeemDataExport("token", "user-2")
+
+    expect(result).toEqual({ok: false, reason: "wrong-account"})
+    expect(consumeToken).not.toHaveBeenCalled()
+  })
+
+  it("rejects exports that were already downloaded or expired", async () => {
+    vi.mocked(db.query.dataExports.findFirst).mockResolvedValue({
+      id: "export-1",
+      userId: "user-1",
+      status: "downloaded",
+      data: null,
+    } as never)
+
+    const result = await redeemDataExport("token", "user-1")
+
+    expect(result).toEqual({ok: false, reason: "invalid"})
+    expect(consumeToken).not.toHaveBeenCalled()
+  })
+
+  it("reports expired links", async () => {
+    vi.mocked(findToken).mockResolvedValue({ok: false, reason: "expired"})
+
+    const result = await redeemDataExport("token", "user-1")
+
+    expect(result).toEqual({ok: false, reason: "expired"})
+    expect(db.query.dataExports.findFirst).not.toHaveBeenCalled()
+  })
+})
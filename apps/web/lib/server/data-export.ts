@@ -0,0 +1,334 @@
+import {randomUUID} from "crypto"
+import {and, asc, desc, eq, gt, lte, or} from "drizzle-orm"
+import {db} from "./db"
+import {
+  accounts,
+  analyticsEvents,
+  apiKeys,
+  auditEvents,
+  dataExports,
+  members,
+  organizations,
+  passkeys,
+  sessions,
+  users,
+} from "./db/schema"
+import {sendDataExportReadyEmail} from "./email"
+import {inngest} from "./jobs/client"
+import {consumeToken, findToken, issueToken} from "./tokens"
+
+/**
+ * Personal data exports
+ *
+ * Requesting an export inserts a pending `data_export` row and sends an
+ * "account/data-export.requested" event; jobs/data-export.ts then collects
+ * the bundle into the row and emails a single-use "data-export" token
+ * (see tokens.ts). The link is redeemed by
+ * `app/dashboard/settings/account/export/route.ts` for the signed-in owner
+ * only, after which the stored bundle is cleared. Bundles nobody downloads
+ * are cleared once `DATA_EXPORT_TTL_MS` has passed.
+ *
+ * Secrets (password hashes, OAuth tokens, session tokens, TOTP secrets,
+ * passkey public keys and API key hashes) are never included.
+ */
+
+// How long the download link and the stored bundle are kept
+export const DATA_EXPORT_TTL_MS = 48 * 60 * 60 * 1000
+
+// A pending export older than this is assumed lost and no longer blocks
+// a new request
+const PENDING_EXPORT_TIMEOUT_MS = 60 * 60 * 1000
+
+export type RequestDataExportResult =
+  | {ok: true; exportId: string}
+  | {ok: false; reason: "pending"}
+
+export type RedeemDataExportResult =
+  | {ok: true; exportId: string; data: Record<string, unknown>}
+  | {ok: false; reason: "invalid" | "expired" | "wrong-account"}
+
+/**
+ * Queue an export of the user's data, unless one is already being built
+ */
+export async function requestDataExport(
+  userId: string,
+  now = new Date()
+): Promise<RequestDataExportResult> {
+  const pending = await db.query.dataExports.findFirst({
+    where: and(
+      eq(dataExports.userId, userId),
+      eq(dataExports.status, "pending"),
+      gt(
+        dataExports.createdAt,
+        new Date(now.getTime() - PENDING_EXPORT_TIMEOUT_MS)
+      )
+    ),
+    columns: {id: true},
+  })
+  if (pending) {
+    return {ok: false, reason: "pending"}
+  }
+
+  const exportId = randomUUID()
+  await db.insert(dataExports).values({id: exportId, userId})
+
+  try {
+    await inngest.send({
+      name: "account/data-export.requested",
+      data: {exportId},
+    })
+  } catch (error) {
+    await db.delete(dataExports).where(eq(dataExports.id, exportId))
+    throw error
+  }
+
+  return {ok: true, exportId}
+}
+
+/**
+ * The user's most recent export, for showing its progress
+ */
+export async function getLatestDataExport(userId: string) {
+  return db.query.dataExports.findFirst({
+    where: eq(dataExports.userId, userId),
+    columns: {
+      id: true,
+      status: true,
+      createdAt: true,
+      completedAt: true,
+      expiresAt: true,
+    },
+    orderBy: desc(dataExports.createdAt),
+  })
+}
+
+/**
+ * Everything stored about the user, without secrets
+ */
+export async function collectPersonalData(userId: string) {
+  const user = await db.query.users.findFirst({where: eq(users.id, userId)})
+  if (!user) return null
+
+  const [
+    linkedAccounts,
+    sessionHistory,
+    memberships,
+    userPasskeys,
+    userApiKeys,
+    activity,
+    events,
+  ] = await Promise.all([
+    db
+      .select({
+        id: accounts.id,
+        providerId: accounts.providerId,
+        accountId: accounts.accountId,
+        scope: accounts.scope,
+        createdAt: accounts.createdAt,
+        updatedAt: accounts.updatedAt,
+      })
+      .from(accounts)
+      .where(eq(accounts.userId, userId))
+      .orderBy(asc(accounts.createdAt)),
+    db
+      .select({
+        id: sessions.id,
+        ipAddress: sessions.ipAddress,
+        userAgent: sessions.userAgent,
+        createdAt: sessions.createdAt,
+        updatedAt: sessions.updatedAt,
+        expiresAt: sessions.expiresAt,
+      })
+      .from(sessions)
+      .where(eq(sessions.userId, userId))
+      .orderBy(asc(sessions.createdAt)),
+    db
+      .select({
+        organizationId: organizations.id,
+        organizationName: organizations.name,
+        role: members.role,
+        joinedAt: members.createdAt,
+      })
+      .from(members)
+      .innerJoin(organizations, eq(members.organizationId, organizations.id))
+      .where(eq(members.userId, userId))
+      .orderBy(asc(members.createdAt)),
+    db
+      .select({
+        id: passkeys.id,
+        name: passkeys.name,
+        deviceType: passkeys.deviceType,
+        backedUp: passkeys.backedUp,
+        createdAt: passkeys.createdAt,
+      })
+      .from(passkeys)
+      .where(eq(passkeys.userId, userId)),
+    db
+      .select({
+        id: apiKeys.id,
+        name: apiKeys.name,
+        start: apiKeys.start,
+        permissions: apiKeys.permissions,
+        createdAt: apiKeys.createdAt,
+        expiresAt: apiKeys.expiresAt,
+        lastRequest: apiKeys.lastRequest,
+      })
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId)),
+    db
+      .select({
+        id: auditEvents.id,
+        action: auditEvents.action,
+        actorId: auditEvents.actorId,
+        targetType: auditEvents.targetType,
+        targetId: auditEvents.targetId,
+        ipAddress: auditEvents.ipAddress,
+        userAgent: auditEvents.userAgent,
+        metadata: auditEvents.metadata,
+        createdAt: auditEvents.createdAt,
+      })
+      .from(auditEvents)
+      .where(
+        or(eq(auditEvents.actorId, userId), eq(auditEvents.targetId, userId))
+      )
+      .orderBy(asc(auditEvents.createdAt)),
+    // Product analytics recorded while signed in, experiment exposures
+    // included
+    db
+      .select({
+        id: analyticsEvents.id,
+        name: analyticsEvents.name,
+        anonymousId: analyticsEvents.anonymousId,
+        properties: analyticsEvents.properties,
+        createdAt: analyticsEvents.createdAt,
+      })
+      .from(analyticsEvents)
+      .where(eq(analyticsEvents.userId, userId))
+      .orderBy(asc(analyticsEvents.createdAt)),
+  ])
+
+  return {
+    user,
+    accounts: linkedAccounts,
+    sessions: sessionHistory,
+    memberships,
+    passkeys: userPasskeys,
+    apiKeys: userApiKeys,
+    activity,
+    analyticsEvents: events,
+  }
+}
+
+/**
+ * Collect the bundle for a pending export and store it
+ *
+ * Returns false when the export no longer exists or is not pending, e.g.
+ * because the account was deleted in the meantime.
+ */
+export async function buildDataExport(exportId: string, now = new Date()) {
+  const pending = await db.query.dataExports.findFirst({
+    where: and(eq(dataExports.id, exportId), eq(dataExports.status, "pending")),
+  })
+  if (!pending) return false
+
+  const personalData = await collectPersonalData(pending.userId)
+  if (!personalData) return false
+
+  await db
+    .update(dataExports)
+    .set({
+      status: "ready",
+      data: {exportedAt: now.toISOString(), ...personalData},
+      completedAt: now,
+      expiresAt: new Date(now.getTime() + DATA_EXPORT_TTL_MS),
+    })
+    .where(eq(dataExports.id, exportId))
+  return true
+}
+
+/**
+ * Email the owner of a ready export a single-use download link
+ */
+export async function sendDataExportLink(exportId: string) {
+  const [found] = await db
+    .select({
+      expiresAt: dataExports.expiresAt,
+      email: users.email,
+      name: users.name,
+    })
+    .from(dataExports)
+    .innerJoin(users, eq(dataExports.userId, users.id))
+    .where(and(eq(dataExports.id, exportId), eq(dataExports.status, "ready")))
+    .limit(1)
+  if (!found?.expiresAt) return
+
+  const token = await issueToken("data-export", exportId, {
+    expiresIn: Math.max(found.expiresAt.getTime() - Date.now(), 0),
+  })
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+  const url = `${baseUrl}/dashboard/settings/account/export?token=${encodeURIComponent(token)}`
+
+  await sendDataExportReadyEmail({
+    to: found.email,
+    name: found.name,
+    url,
+    expiresInHours: DATA_EXPORT_TTL_MS / (60 * 60 * 1000),
+  })
+}
+
+export async function markDataExportFailed(exportId: string) {
+  await db
+    .update(dataExports)
+    .set({status: "failed", data: null, completedAt: new Date()})
+    .where(eq(dataExports.id, exportId))
+}
+
+/**
+ * Redeem a download link for the signed-in user and clear the stored bundle
+ *
+ * The link is only consumed when it belongs to the user, so opening it
+ * while signed in to another account does not burn it.
+ */
+export async function redeemDataExport(
+  token: string,
+  userId: string
+): Promise<RedeemDataExportResult> {
+  const found = await findToken("data-export", token)
+  if (!found.ok) return found
+
+  const ready = await db.query.dataExports.findFirst({
+    where: eq(dataExports.id, found.subject),
+  })
+  if (!ready || ready.status !== "ready" || !ready.data) {
+    return {ok: false, reason: "invalid"}
+  }
+  if (ready.userId !== userId) {
+    return {ok: false, reason: "wrong-account"}
+  }
+
+  const consumed = await consumeToken("data-export", token)
+  if (!consumed.ok) return consumed
+
+  await db
+    .update(dataExports)
+    .set({status: "downloaded", data: null, downloadedAt: new Date()})
+    .where(eq(dataExports.id, ready.id))
+
+  return {ok: true, exportId: ready.id, data: ready.data}
+}
+
+/**
+ * Clear bundles whose download window has passed. Returns how many were
+ * cleared.
+ */
+export async function expireDataExports(now = new Date()) {
+  const expired = await db
+    .update(dataExports)
+    .set({status: "expired", data: null})
+    .where(
+      and(eq(dataExports.status, "ready"), lte(dataExports.expiresAt, now))
+    )
+    .returning({id: dataExports.id})
+
+  return expired.length
+}
@@ -1,6 +1,23 @@
 import { drizzle } from "drizzle-orm/postgres-js"
 import postgres from "postgres"
-import { users, sessions, accounts, verifications } from "./schema"
+import {
+  users,
+  sessions,
+  accounts,
+  verifications,
+  twoFactors,
+  passkeys,
+  passwordHistory,
+  organizations,
+  members,
+  invitations,
+  auditEvents,
+  apiKeys,
+  dataExports,
+  featureFlags,
+  analyticsEvents,
+  cspReports,
+} from "./schema"
 
 const connectionString = process.env.DATABASE_URL!
 
@@ -11,5 +28,17 @@ export const db = drizzle(client, {
     sessions,
     accounts,
     verifications,
+    twoFactors,
+    passkeys,
+    passwordHistory,
+    organizations,
+    members,
+    invitations,
+    auditEvents,
+    apiKeys,
+    dataExports,
+    featureFlags,
+    analyticsEvents,
+    cspReports,
   },
 })
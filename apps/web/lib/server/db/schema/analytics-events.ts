@@ -0,0 +1,34 @@
+import { index, jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { z } from "zod"
+
+// Business events recorded by lib/server/analytics, such as experiment
+// exposures and the conversions experiments measure. Like audit
+// events, user and anonymous ids are plain ids without foreign keys.
+export const analyticsEvents = pgTable(
+  "analytics_events",
+  {
+    id: text("id").primaryKey(),
+    name: text("name").notNull(),
+    userId: text("userId"),
+    // The anonymous_id cookie, set for signed-in users too
+    anonymousId: text("anonymousId"),
+    properties: jsonb("properties").$type<Record<string, unknown>>(),
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+  },
+  (table) => [
+    index("analytics_events_name_createdAt_idx").on(
+      table.name,
+      table.createdAt
+    ),
+    index("analytics_events_userId_idx").on(table.userId),
+    index("analytics_events_anonymousId_idx").on(table.anonymousId),
+  ]
+)
+
+// Zod schemas for validation
+export const insertAnalyticsEventSchema = createInsertSchema(analyticsEvents)
+export const selectAnalyticsEventSchema = createSelectSchema(analyticsEvents)
+
+export type AnalyticsEvent = z.infer<typeof selectAnalyticsEventSchema>
+export type NewAnalyticsEvent = z.infer<typeof insertAnalyticsEventSchema>
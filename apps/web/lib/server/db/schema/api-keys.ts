@@ -0,0 +1,41 @@
+import { boolean, integer, pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { users } from "./users"
+import { z } from "zod"
+
+// API keys for BetterAuth's apiKey plugin. `key` is a SHA-256 hash; only
+// `start` (the prefix and first few characters) is kept for display.
+// `permissions` holds the key's scopes and `metadata` the organization it
+// acts in, both as JSON strings.
+export const apiKeys = pgTable("apikey", {
+  id: text("id").primaryKey(),
+  name: text("name"),
+  start: text("start"),
+  prefix: text("prefix"),
+  key: text("key").notNull().unique(),
+  userId: text("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  refillInterval: integer("refillInterval"),
+  refillAmount: integer("refillAmount"),
+  lastRefillAt: timestamp("lastRefillAt"),
+  enabled: boolean("enabled").default(true),
+  rateLimitEnabled: boolean("rateLimitEnabled").default(true),
+  rateLimitTimeWindow: integer("rateLimitTimeWindow"),
+  rateLimitMax: integer("rateLimitMax"),
+  requestCount: integer("requestCount").default(0),
+  remaining: integer("remaining"),
+  lastRequest: timestamp("lastRequest"),
+  expiresAt: timestamp("expiresAt"),
+  createdAt: timestamp("createdAt").notNull(),
+  updatedAt: timestamp("updatedAt").notNull(),
+  permissions: text("permissions"),
+  metadata: text("metadata"),
+})
+
+// Zod schemas for validation
+export const insertApiKeySchema = createInsertSchema(apiKeys)
+export const selectApiKeySchema = createSelectSchema(apiKeys)
+
+export type ApiKey = z.infer<typeof selectApiKeySchema>
+export type NewApiKey = z.infer<typeof insertApiKeySchema>
@@ -0,0 +1,39 @@
+import { index, jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { z } from "zod"
+
+// Append-only security history written by lib/server/audit. Rows are never
+// updated or deleted, and actor/target are plain ids (no foreign keys) so
+// history survives account deletion.
+export const auditEvents = pgTable(
+  "audit_events",
+  {
+    id: text("id").primaryKey(),
+    action: text("action").notNull(),
+    actorId: text("actorId"),
+    actorEmail: text("actorEmail"),
+    // Admin acting through an impersonation session, if any
+    impersonatorId: text("impersonatorId"),
+    targetType: text("targetType"),
+    targetId: text("targetId"),
+    ipAddress: text("ipAddress"),
+    userAgent: text("userAgent"),
+    metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+    // Milliseconds, like a JS Date, so export cursors (createdAt, id) match
+    // the stored value exactly and no row sharing a millisecond is skipped
+    createdAt: timestamp("createdAt", { precision: 3 }).notNull().defaultNow(),
+  },
+  (table) => [
+    index("audit_events_createdAt_idx").on(table.createdAt),
+    index("audit_events_actorId_idx").on(table.actorId),
+    index("audit_events_targetId_idx").on(table.targetId),
+    index("audit_events_action_idx").on(table.action),
+  ]
+)
+
+// Zod schemas for validation
+export const insertAuditEventSchema = createInsertSchema(auditEvents)
+export const selectAuditEventSchema = createSelectSchema(auditEvents)
+
+export type AuditEvent = z.infer<typeof selectAuditEventSchema>
+export type NewAuditEvent = z.infer<typeof insertAuditEventSchema>
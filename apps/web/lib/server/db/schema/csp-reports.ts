@@ -0,0 +1,38 @@
+import { index, integer, pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { z } from "zod"
+
+// Content Security Policy violations reported by browsers to
+// /api/csp-report (lib/server/csp-reports.ts), kept to tighten the policy
+// without breaking pages
+export const cspReports = pgTable(
+  "csp_reports",
+  {
+    id: text("id").primaryKey(),
+    // The page the violation happened on, without its query string
+    documentUri: text("documentUri").notNull(),
+    // The resource that was blocked: a URL, or "inline", "eval", ...
+    blockedUri: text("blockedUri"),
+    effectiveDirective: text("effectiveDirective").notNull(),
+    // "enforce", or "report" under CSP_REPORT_ONLY
+    disposition: text("disposition"),
+    sourceFile: text("sourceFile"),
+    lineNumber: integer("lineNumber"),
+    columnNumber: integer("columnNumber"),
+    // The first characters of a blocked inline script or style
+    sample: text("sample"),
+    userAgent: text("userAgent"),
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+  },
+  (table) => [
+    index("csp_reports_createdAt_idx").on(table.createdAt),
+    index("csp_reports_effectiveDirective_idx").on(table.effectiveDirective),
+  ]
+)
+
+// Zod schemas for validation
+export const insertCspReportSchema = createInsertSchema(cspReports)
+export const selectCspReportSchema = createSelectSchema(cspReports)
+
+export type CspReport = z.infer<typeof selectCspReportSchema>
+export type NewCspReport = z.infer<typeof insertCspReportSchema>
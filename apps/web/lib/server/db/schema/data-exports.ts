@@ -0,0 +1,32 @@
+import { index, jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { users } from "./users"
+import { z } from "zod"
+
+// Personal data exports built by lib/server/data-export. `data` holds the
+// bundle until it is downloaded or expires, and is cleared after that.
+export const dataExports = pgTable(
+  "data_export",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // "pending" until the job builds the bundle, then "ready", "downloaded",
+    // "expired" or "failed"
+    status: text("status").notNull().default("pending"),
+    data: jsonb("data").$type<Record<string, unknown>>(),
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+    completedAt: timestamp("completedAt"),
+    expiresAt: timestamp("expiresAt"),
+    downloadedAt: timestamp("downloadedAt"),
+  },
+  (table) => [index("data_export_userId_idx").on(table.userId)]
+)
+
+// Zod schemas for validation
+export const insertDataExportSchema = createInsertSchema(dataExports)
+export const selectDataExportSchema = createSelectSchema(dataExports)
+
+export type DataExport = z.infer<typeof selectDataExportSchema>
+export type NewDataExport = z.infer<typeof insertDataExportSchema>
@@ -0,0 +1,28 @@
+import { boolean, jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import type { FeatureFlagRules } from "../../../feature-flag-rules"
+import { users } from "./users"
+import { z } from "zod"
+
+// Feature flag values set from the admin console. A row overrides the
+// deployment default (schema default or env var) for its flag; deleting it
+// falls back to that default. `rules` can switch the flag on for some users
+// regardless of `enabled` (see lib/feature-flag-rules.ts). Changes are
+// recorded in the audit log.
+export const featureFlags = pgTable("feature_flags", {
+  // A key of `FeatureFlags` in lib/feature-flags.ts
+  key: text("key").primaryKey(),
+  enabled: boolean("enabled").notNull(),
+  rules: jsonb("rules").$type<FeatureFlagRules>(),
+  updatedAt: timestamp("updatedAt").notNull().defaultNow(),
+  updatedBy: text("updatedBy").references(() => users.id, {
+    onDelete: "set null",
+  }),
+})
+
+// Zod schemas for validation
+export const insertFeatureFlagSchema = createInsertSchema(featureFlags)
+export const selectFeatureFlagSchema = createSelectSchema(featureFlags)
+
+export type StoredFeatureFlag = z.infer<typeof selectFeatureFlagSchema>
+export type NewStoredFeatureFlag = z.infer<typeof insertFeatureFlagSchema>
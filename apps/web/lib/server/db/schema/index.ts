@@ -3,3 +3,15 @@ export * from "./users"
 export * from "./sessions"
 export * from "./accounts"
 export * from "./verifications"
+export * from "./two-factors"
+export * from "./passkeys"
+export * from "./password-history"
+export * from "./organizations"
+export * from "./members"
+export * from "./invitations"
+export * from "./audit-events"
+export * from "./api-keys"
+export * from "./data-exports"
+export * from "./feature-flags"
+export * from "./analytics-events"
+export * from "./csp-reports"
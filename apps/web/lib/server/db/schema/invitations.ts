@@ -0,0 +1,29 @@
+import { pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { memberRoles } from "../../../organization-roles"
+import { organizations } from "./organizations"
+import { users } from "./users"
+import { z } from "zod"
+
+// Pending and accepted invitations to an organization. The emailed token and
+// its expiry live in the verification table (purpose "organization-invite").
+export const invitations = pgTable("invitation", {
+  id: text("id").primaryKey(),
+  organizationId: text("organizationId")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: text("role", { enum: memberRoles }).notNull().default("member"),
+  invitedById: text("invitedById").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  acceptedAt: timestamp("acceptedAt"),
+})
+
+// Zod schemas for validation
+export const insertInvitationSchema = createInsertSchema(invitations)
+export const selectInvitationSchema = createSelectSchema(invitations)
+
+export type Invitation = z.infer<typeof selectInvitationSchema>
+export type NewInvitation = z.infer<typeof insertInvitationSchema>
@@ -0,0 +1,32 @@
+import { pgTable, text, timestamp, unique } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { memberRoles } from "../../../organization-roles"
+import { organizations } from "./organizations"
+import { users } from "./users"
+import { z } from "zod"
+
+// A user's membership and role in an organization
+export const members = pgTable(
+  "member",
+  {
+    id: text("id").primaryKey(),
+    organizationId: text("organizationId")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("userId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: text("role", { enum: memberRoles }).notNull().default("member"),
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("member_organization_user").on(table.organizationId, table.userId),
+  ]
+)
+
+// Zod schemas for validation
+export const insertMemberSchema = createInsertSchema(members)
+export const selectMemberSchema = createSelectSchema(members)
+
+export type Member = z.infer<typeof selectMemberSchema>
+export type NewMember = z.infer<typeof insertMemberSchema>
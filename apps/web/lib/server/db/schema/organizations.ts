@@ -0,0 +1,20 @@
+import { pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { z } from "zod"
+
+export const organizations = pgTable("organization", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt").notNull().defaultNow(),
+})
+
+// Zod schemas for validation
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: (schema) => schema.trim().min(2).max(64),
+})
+export const selectOrganizationSchema = createSelectSchema(organizations)
+
+export type Organization = z.infer<typeof selectOrganizationSchema>
+export type NewOrganization = z.infer<typeof insertOrganizationSchema>
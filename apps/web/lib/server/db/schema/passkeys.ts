@@ -0,0 +1,28 @@
+import { boolean, integer, pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { users } from "./users"
+import { z } from "zod"
+
+// WebAuthn credentials for BetterAuth's passkey plugin
+export const passkeys = pgTable("passkey", {
+  id: text("id").primaryKey(),
+  name: text("name"),
+  publicKey: text("publicKey").notNull(),
+  userId: text("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  credentialID: text("credentialID").notNull(),
+  counter: integer("counter").notNull(),
+  deviceType: text("deviceType").notNull(),
+  backedUp: boolean("backedUp").notNull(),
+  transports: text("transports"),
+  createdAt: timestamp("createdAt").defaultNow(),
+  aaguid: text("aaguid"),
+})
+
+// Zod schemas for validation
+export const insertPasskeySchema = createInsertSchema(passkeys)
+export const selectPasskeySchema = createSelectSchema(passkeys)
+
+export type Passkey = z.infer<typeof selectPasskeySchema>
+export type NewPasskey = z.infer<typeof insertPasskeySchema>
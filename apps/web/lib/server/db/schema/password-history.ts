@@ -0,0 +1,26 @@
+import { index, pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { users } from "./users"
+import { z } from "zod"
+
+// Hashes of a user's recent passwords, used to block reuse.
+// Trimmed to the user's passwordHistorySize whenever a password is set.
+export const passwordHistory = pgTable(
+  "passwordHistory",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    passwordHash: text("passwordHash").notNull(),
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+  },
+  (table) => [index("passwordHistory_userId_idx").on(table.userId)]
+)
+
+// Zod schemas for validation
+export const insertPasswordHistorySchema = createInsertSchema(passwordHistory)
+export const selectPasswordHistorySchema = createSelectSchema(passwordHistory)
+
+export type PasswordHistory = z.infer<typeof selectPasswordHistorySchema>
+export type NewPasswordHistory = z.infer<typeof insertPasswordHistorySchema>
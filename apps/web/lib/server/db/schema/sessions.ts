@@ -1,5 +1,6 @@
 import { pgTable, text, timestamp } from "drizzle-orm/pg-core"
 import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { organizations } from "./organizations"
 import { users } from "./users"
 import { z } from "zod"
 
@@ -14,6 +15,15 @@ export const sessions = pgTable("session", {
   userId: text("userId")
     .notNull()
     .references(() => users.id, { onDelete: "cascade" }),
+  // Organization the user is working in on this device
+  activeOrganizationId: text("activeOrganizationId").references(
+    () => organizations.id,
+    { onDelete: "set null" }
+  ),
+  // Admin who started this session through impersonation
+  impersonatedBy: text("impersonatedBy").references(() => users.id, {
+    onDelete: "cascade",
+  }),
 })
 
 // Zod schemas for validation
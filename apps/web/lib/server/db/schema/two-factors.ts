@@ -0,0 +1,22 @@
+import { pgTable, text } from "drizzle-orm/pg-core"
+import { createInsertSchema, createSelectSchema } from "drizzle-zod"
+import { users } from "./users"
+import { z } from "zod"
+
+// TOTP secrets and backup codes for BetterAuth's twoFactor plugin.
+// Both columns are encrypted with BETTER_AUTH_SECRET before they are stored.
+export const twoFactors = pgTable("twoFactor", {
+  id: text("id").primaryKey(),
+  secret: text("secret").notNull(),
+  backupCodes: text("backupCodes").notNull(),
+  userId: text("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+})
+
+// Zod schemas for validation
+export const insertTwoFactorSchema = createInsertSchema(twoFactors)
+export const selectTwoFactorSchema = createSelectSchema(twoFactors)
+
+export type TwoFactor = z.infer<typeof selectTwoFactorSchema>
+export type NewTwoFactor = z.infer<typeof insertTwoFactorSchema>
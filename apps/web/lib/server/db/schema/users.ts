@@ -1,6 +1,7 @@
-import {pgTable, text, timestamp, boolean} from "drizzle-orm/pg-core"
+import {pgTable, text, timestamp, boolean, integer} from "drizzle-orm/pg-core"
 import {createInsertSchema, createSelectSchema} from "drizzle-zod"
 import {z} from "zod"
+import {passwordPolicy} from "../../../password-policy"
 
 export const users = pgTable("user", {
   id: text("id").primaryKey(),
@@ -8,12 +9,33 @@ export const users = pgTable("user", {
   email: text("email").notNull().unique(),
   emailVerified: boolean("emailVerified").notNull().default(false),
   image: text("image"),
+  twoFactorEnabled: boolean("twoFactorEnabled").notNull().default(false),
+  // How many previous passwords are blocked from reuse (0 disables the check)
+  passwordHistorySize: integer("passwordHistorySize")
+    .notNull()
+    .default(passwordPolicy.defaultHistorySize),
+  // Site-wide role managed by the BetterAuth admin plugin ("user" or "admin")
+  role: text("role").notNull().default("user"),
+  banned: boolean("banned").notNull().default(false),
+  banReason: text("banReason"),
+  banExpires: timestamp("banExpires"),
+  // Set by an admin; sign-in is refused until the password is reset
+  passwordResetRequired: boolean("passwordResetRequired")
+    .notNull()
+    .default(false),
+  // New address awaiting confirmation through an "email-change" token
+  pendingEmail: text("pendingEmail"),
+  // When a self-service deletion takes effect; cleared if cancelled
+  deletionScheduledAt: timestamp("deletionScheduledAt"),
   createdAt: timestamp("createdAt").notNull().defaultNow(),
   updatedAt: timestamp("updatedAt").notNull().defaultNow(),
 })
 
 // Zod schemas for validation
-export const insertUserSchema = createInsertSchema(users)
+export const insertUserSchema = createInsertSchema(users, {
+  name: schema => schema.trim().min(1).max(100),
+  email: schema => schema.trim().toLowerCase().email(),
+})
 export const selectUserSchema = createSelectSchema(users)
 
 export type User = z.infer<typeof selectUserSchema>
@@ -0,0 +1,79 @@
+import {eq} from "drizzle-orm"
+import {recordAuditEvent} from "./audit"
+import {db} from "./db"
+import {users} from "./db/schema"
+import {sendVerificationEmail} from "./email"
+import {logAuth} from "./logger"
+import {
+  consumeToken,
+  getTokenIssuedAt,
+  issueToken,
+  type ConsumeTokenResult,
+} from "./tokens"
+
+/**
+ * Email Verification
+ *
+ * Verification links carry a single-use token stored in the `verification`
+ * table (see `tokens.ts`) and are redeemed by
+ * `app/auth/verify-email/confirm/route.ts`.
+ */
+
+// How long a verification link stays valid
+export const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000
+
+// Minimum delay between two verification emails for the same user
+export const RESEND_COOLDOWN_MS = 60 * 1000
+
+interface VerificationRecipient {
+  id: string
+  email: string
+  name: string
+}
+
+/**
+ * Issue a fresh token and email the verification link
+ */
+export async function sendEmailVerification(user: VerificationRecipient) {
+  const token = await issueToken("email-verification", user.id, {
+    expiresIn: VERIFICATION_TOKEN_TTL_MS,
+  })
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+  const url = `${baseUrl}/auth/verify-email/confirm?token=${encodeURIComponent(token)}`
+
+  await sendVerificationEmail({to: user.email, name: user.name, url})
+}
+
+/**
+ * Milliseconds until another verification email may be sent (0 if allowed now)
+ */
+export async function getResendCooldown(userId: string): Promise<number> {
+  const issuedAt = await getTokenIssuedAt("email-verification", userId)
+  if (!issuedAt) return 0
+  return Math.max(0, issuedAt.getTime() + RESEND_COOLDOWN_MS - Date.now())
+}
+
+/**
+ * Redeem a verification token and mark the user's email as verified
+ */
+export async function confirmEmailVerification(
+  token: string,
+  headers?: Headers
+): Promise<ConsumeTokenResult> {
+  const result = await consumeToken("email-verification", token)
+  if (!result.ok) return result
+
+  await db
+    .update(users)
+    .set({emailVerified: true, updatedAt: new Date()})
+    .where(eq(users.id, result.subject))
+  logAuth("verify", result.subject)
+  await recordAuditEvent({
+    action: "auth.email-verified",
+    actor: {id: result.subject},
+    target: {type: "user", id: result.subject},
+    headers,
+  })
+
+  return result
+}
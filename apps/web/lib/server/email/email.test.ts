@@ -0,0 +1,153 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from "vitest"
+import {mkdtemp, readdir, readFile, rm} from "fs/promises"
+import {tmpdir} from "os"
+import path from "path"
+import {createFileTransport, extractLinks} from "./transports/file"
+import {
+  getEmailTransport,
+  sendMagicLinkEmail,
+  sendPasswordResetEmail,
+  sendWelcomeEmail,
+  setEmailTransport,
+  type CapturedEmail,
+  type EmailMessage,
+  type EmailTransport,
+} from "."
+
+describe("extractLinks", () => {
+  it("returns unique absolute links and decodes entities", () => {
+    const html =
+      '<a href="https://app.test/a?x=1&amp;y=2">A</a>' +
+      '<a href="https://app.test/a?x=1&amp;y=2">again</a>' +
+      '<a href="/relative">relative</a>'
+
+    expect(extractLinks(html)).toEqual(["https://app.test/a?x=1&y=2"])
+  })
+})
+
+describe("file transport", () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "mail-"))
+  })
+
+  afterEach(async () => {
+    await rm(dir, {recursive: true, force: true})
+  })
+
+  it("writes each message as JSON with its links", async () => {
+    const transport = createFileTransport({dir, from: "app@example.com"})
+
+    const result = await transport.send({
+      to: "user@example.com",
+      subject: "Hello",
+      html: '<a href="https://app.test/go">Go</a>',
+      text: "Go",
+    })
+
+    const files = await readdir(dir)
+    expect(files).toHaveLength(1)
+
+    const captured = JSON.parse(
+      await readFile(path.join(dir, files[0]), "utf8")
+    ) as CapturedEmail
+    expect(captured.id).toBe(result.id)
+    expect(captured.from).toBe("app@example.com")
+    expect(captured.links).toEqual(["https://app.test/go"])
+  })
+})
+
+describe("templated emails", () => {
+  const sent: EmailMessage[] = []
+  const memoryTransport: EmailTransport = {
+    name: "memory",
+    async send(message) {
+      sent.push(message)
+      return {id: String(sent.length), transport: "memory"}
+    },
+  }
+
+  beforeEach(() => {
+    sent.length = 0
+    setEmailTransport(memoryTransport)
+  })
+
+  afterEach(() => {
+    setEmailTransport(undefined)
+  })
+
+  it("renders the reset link into HTML and plain text", async () => {
+    const url = "http://localhost:3000/api/auth/reset-password/abc"
+
+    await sendPasswordResetEmail({to: "user@example.com", name: "Ada", url})
+
+    expect(sent).toHaveLength(1)
+    expect(sent[0].subject).toBe("Reset your password")
+    expect(extractLinks(sent[0].html)).toContain(url)
+    expect(sent[0].text).toContain(url)
+    expect(sent[0].tags).toEqual({template: "reset-password"})
+  })
+
+  it("states the magic link lifetime", async () => {
+    const url = "http://localhost:3000/api/auth/magic-link/verify?token=abc"
+
+    await sendMagicLinkEmail({
+      to: "user@example.com",
+      url,
+      expiresInMinutes: 15,
+    })
+
+    expect(extractLinks(sent[0].html)).toContain(url)
+    expect(sent[0].text).toContain("expires in 15 minutes")
+  })
+
+  it("links the welcome email to the dashboard", async () => {
+    await sendWelcomeEmail({to: "user@example.com", name: "Ada"})
+
+    expect(extractLinks(sent[0].html)).toContain(
+      "http://localhost:3000/dashboard"
+    )
+  })
+})
+
+describe("transport selection", () => {
+  beforeEach(() => {
+    vi.stubEnv("EMAIL_TRANSPORT", "")
+    vi.stubEnv("RESEND_API_KEY", "")
+  })
+
+  afterEach(() => {
+    setEmailTransport(undefined)
+    vi.unstubAllEnvs()
+  })
+
+  it("falls back to the file transport outside production", () => {
+    expect(getEmailTransport().name).toBe("file")
+  })
+
+  it("uses Resend when an API key is configured", () => {
+    vi.stubEnv("RESEND_API_KEY", "re_test")
+
+    expect(getEmailTransport().name).toBe("resend")
+  })
+
+  it("refuses to fall back to the file transport in production", () => {
+    vi.stubEnv("NODE_ENV", "production")
+
+    expect(() => getEmailTransport()).toThrow(/No email transport/)
+  })
+
+  it("captures mail on disk in production when asked to", () => {
+    vi.stubEnv("NODE_ENV", "production")
+    vi.stubEnv("EMAIL_TRANSPORT", "file")
+
+    expect(getEmailTransport().name).toBe("file")
+  })
+
+  it("rejects an unknown transport", () => {
+    vi.stubEnv("EMAIL_TRANSPORT", "smtp")
+
+    expect(() => getEmailTransport()).toThrow(/Unknown EMAIL_TRANSPORT/)
+  })
+})
@@ -0,0 +1,216 @@
+import path from "path"
+import {createElement} from "react"
+import {render} from "@react-email/components"
+import {createLogger} from "../logger"
+import {createFileTransport} from "./transports/file"
+import {createResendTransport} from "./transports/resend"
+import {ConfirmEmailChangeEmail} from "./templates/confirm-email-change-email"
+import {DataExportReadyEmail} from "./templates/data-export-ready-email"
+import {MagicLinkEmail} from "./templates/magic-link-email"
+import {OrganizationInviteEmail} from "./templates/organization-invite-email"
+import {ResetPasswordEmail} from "./templates/reset-password-email"
+import {VerifyEmail} from "./templates/verify-email"
+import {WelcomeEmail} from "./templates/welcome-email"
+import type {EmailMessage, EmailTransport} from "./types"
+
+/**
+ * Transactional Email
+ *
+ * Transport selection (EMAIL_TRANSPORT):
+ * - "resend": delivers through Resend (requires RESEND_API_KEY)
+ * - "file": captures messages as JSON in EMAIL_FILE_DIR for dev and CI
+ *
+ * When EMAIL_TRANSPORT is unset, Resend is used if an API key is configured
+ * and the file transport otherwise. Production refuses to fall back to the
+ * file transport, where mail would never reach anyone: instrumentation.ts
+ * creates the transport at startup, so a missing configuration stops the
+ * server instead of silently dropping verification and reset emails.
+ */
+
+export type {
+  EmailMessage,
+  EmailTransport,
+  SentEmail,
+  CapturedEmail,
+} from "./types"
+
+const log = createLogger({module: "email"})
+
+const defaultFrom =
+  process.env.EMAIL_FROM || "Next.js Starter <noreply@example.com>"
+
+let transport: EmailTransport | undefined
+
+function getTransportKind() {
+  if (process.env.EMAIL_TRANSPORT) return process.env.EMAIL_TRANSPORT
+  if (process.env.RESEND_API_KEY) return "resend"
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      'No email transport is configured: set RESEND_API_KEY, or EMAIL_TRANSPORT="file" to capture mail on disk'
+    )
+  }
+  return "file"
+}
+
+function createTransport(): EmailTransport {
+  const kind = getTransportKind()
+
+  switch (kind) {
+    case "resend":
+      if (!process.env.RESEND_API_KEY) {
+        throw new Error("RESEND_API_KEY is required for the resend transport")
+      }
+      return createResendTransport({
+        apiKey: process.env.RESEND_API_KEY,
+        from: defaultFrom,
+      })
+    case "file":
+      return createFileTransport({
+        dir: process.env.EMAIL_FILE_DIR || path.join(process.cwd(), ".mail"),
+        from: defaultFrom,
+      })
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`)
+  }
+}
+
+/**
+ * Get the configured transport (created once per process)
+ */
+export function getEmailTransport(): EmailTransport {
+  transport ??= createTransport()
+  return transport
+}
+
+/**
+ * Replace the active transport (useful in tests)
+ */
+export function setEmailTransport(next: EmailTransport | undefined) {
+  transport = next
+}
+
+/**
+ * Send a pre-rendered message through the active transport
+ */
+export async function sendEmail(message: EmailMessage) {
+  const active = getEmailTransport()
+  const result = await active.send(message)
+  log.info(
+    {id: result.id, transport: result.transport, tags: message.tags},
+    "Email sent"
+  )
+  return result
+}
+
+async function renderEmail(element: React.ReactElement) {
+  const [html, text] = await Promise.all([
+    render(element),
+    render(element, {plainText: true}),
+  ])
+  return {html, text}
+}
+
+interface RecipientLink {
+  to: string
+  name: string
+  url: string
+}
+
+export async function sendPasswordResetEmail({to, name, url}: RecipientLink) {
+  return sendEmail({
+    to,
+    subject: "Reset your password",
+    ...(await renderEmail(createElement(ResetPasswordEmail, {name, url}))),
+    tags: {template: "reset-password"},
+  })
+}
+
+export async function sendVerificationEmail({to, name, url}: RecipientLink) {
+  return sendEmail({
+    to,
+    subject: "Verify your email address",
+    ...(await renderEmail(createElement(VerifyEmail, {name, url}))),
+    tags: {template: "verify-email"},
+  })
+}
+
+export async function sendEmailChangeEmail({to, name, url}: RecipientLink) {
+  return sendEmail({
+    to,
+    subject: "Confirm your new email address",
+    ...(await renderEmail(createElement(ConfirmEmailChangeEmail, {name, url}))),
+    tags: {template: "email-change"},
+  })
+}
+
+export async function sendDataExportReadyEmail({
+  to,
+  name,
+  url,
+  expiresInHours,
+}: RecipientLink & {expiresInHours: number}) {
+  return sendEmail({
+    to,
+    subject: "Your data export is ready",
+    ...(await renderEmail(
+      createElement(DataExportReadyEmail, {name, url, expiresInHours})
+    )),
+    tags: {template: "data-export-ready"},
+  })
+}
+
+export async function sendMagicLinkEmail({
+  to,
+  url,
+  expiresInMinutes,
+}: Omit<RecipientLink, "name"> & {expiresInMinutes: number}) {
+  return sendEmail({
+    to,
+    subject: "Your sign-in link",
+    ...(await renderEmail(
+      createElement(MagicLinkEmail, {url, expiresInMinutes})
+    )),
+    tags: {template: "magic-link"},
+  })
+}
+
+export async function sendOrganizationInviteEmail({
+  to,
+  organizationName,
+  inviterName,
+  role,
+  url,
+  expiresInDays,
+}: Omit<RecipientLink, "name"> & {
+  organizationName: string
+  inviterName: string
+  role: string
+  expiresInDays: number
+}) {
+  return sendEmail({
+    to,
+    subject: `You've been invited to join ${organizationName}`,
+    ...(await renderEmail(
+      createElement(OrganizationInviteEmail, {
+        organizationName,
+        inviterName,
+        role,
+        url,
+        expiresInDays,
+      })
+    )),
+    tags: {template: "organization-invite"},
+  })
+}
+
+export async function sendWelcomeEmail({to, name}: Omit<RecipientLink, "url">) {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+  return sendEmail({
+    to,
+    subject: "Welcome aboard",
+    ...(await renderEmail(
+      createElement(WelcomeEmail, {name, dashboardUrl: `${baseUrl}/dashboard`})
+    )),
+    tags: {template: "welcome"},
+  })
+}
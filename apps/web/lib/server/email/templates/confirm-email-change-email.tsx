@@ -0,0 +1,30 @@
+import {Heading, Text} from "@react-email/components"
+import {EmailButton, EmailLayout, styles} from "./email-layout"
+
+interface ConfirmEmailChangeEmailProps {
+  name: string
+  url: string
+}
+
+export function ConfirmEmailChangeEmail({
+  name,
+  url,
+}: ConfirmEmailChangeEmailProps) {
+  return (
+    <EmailLayout preview='Confirm your new email address'>
+      <Heading style={styles.heading}>Confirm your new email</Heading>
+      <Text style={styles.text}>Hi {name},</Text>
+      <Text style={styles.text}>
+        You asked to change the email address on your account to this one.
+        Confirm the change to start signing in with it.
+      </Text>
+      <EmailButton href={url}>Confirm Email</EmailButton>
+      <Text style={styles.muted}>
+        If you didn&apos;t ask for this, you can ignore this email and your
+        account will keep its current address.
+      </Text>
+    </EmailLayout>
+  )
+}
+
+export default ConfirmEmailChangeEmail
@@ -0,0 +1,33 @@
+import {Heading, Text} from "@react-email/components"
+import {EmailButton, EmailLayout, styles} from "./email-layout"
+
+interface DataExportReadyEmailProps {
+  name: string
+  url: string
+  expiresInHours: number
+}
+
+export function DataExportReadyEmail({
+  name,
+  url,
+  expiresInHours,
+}: DataExportReadyEmailProps) {
+  return (
+    <EmailLayout preview='Your data export is ready'>
+      <Heading style={styles.heading}>Your data export is ready</Heading>
+      <Text style={styles.text}>Hi {name},</Text>
+      <Text style={styles.text}>
+        The copy of your personal data you asked for is ready. Sign in with this
+        account and download it below.
+      </Text>
+      <EmailButton href={url}>Download My Data</EmailButton>
+      <Text style={styles.muted}>
+        The link works once and expires in {expiresInHours} hours. If you
+        didn&apos;t ask for an export, secure your account by changing your
+        password.
+      </Text>
+    </EmailLayout>
+  )
+}
+
+export default DataExportReadyEmail
@@ -0,0 +1,104 @@
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Hr,
+  Html,
+  Preview,
+  Section,
+  Text,
+} from "@react-email/components"
+
+interface EmailLayoutProps {
+  preview: string
+  children: React.ReactNode
+}
+
+/**
+ * Shared shell for all transactional emails
+ */
+export function EmailLayout({preview, children}: EmailLayoutProps) {
+  return (
+    <Html lang='en'>
+      <Head />
+      <Preview>{preview}</Preview>
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          {children}
+          <Hr style={styles.hr} />
+          <Text style={styles.footer}>
+            You received this email because of activity on your account. If this
+            wasn&apos;t you, you can safely ignore it.
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+interface EmailButtonProps {
+  href: string
+  children: React.ReactNode
+}
+
+export function EmailButton({href, children}: EmailButtonProps) {
+  return (
+    <Section style={styles.buttonSection}>
+      <Button href={href} style={styles.button}>
+        {children}
+      </Button>
+    </Section>
+  )
+}
+
+export const styles = {
+  body: {
+    backgroundColor: "#f6f9fc",
+    fontFamily:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif',
+  },
+  container: {
+    backgroundColor: "#ffffff",
+    margin: "40px auto",
+    padding: "32px",
+    maxWidth: "480px",
+    borderRadius: "8px",
+  },
+  heading: {
+    fontSize: "24px",
+    fontWeight: 700,
+    margin: "0 0 16px",
+  },
+  text: {
+    fontSize: "14px",
+    lineHeight: "24px",
+    color: "#333333",
+  },
+  muted: {
+    fontSize: "12px",
+    lineHeight: "20px",
+    color: "#8898aa",
+    wordBreak: "break-all" as const,
+  },
+  buttonSection: {
+    margin: "24px 0",
+  },
+  button: {
+    backgroundColor: "#18181b",
+    borderRadius: "6px",
+    color: "#ffffff",
+    fontSize: "14px",
+    fontWeight: 600,
+    padding: "12px 20px",
+    textDecoration: "none",
+  },
+  hr: {
+    borderColor: "#e6ebf1",
+    margin: "24px 0",
+  },
+  footer: {
+    fontSize: "12px",
+    color: "#8898aa",
+  },
+}
@@ -0,0 +1,25 @@
+import {Heading, Text} from "@react-email/components"
+import {EmailButton, EmailLayout, styles} from "./email-layout"
+
+interface MagicLinkEmailProps {
+  url: string
+  expiresInMinutes: number
+}
+
+export function MagicLinkEmail({url, expiresInMinutes}: MagicLinkEmailProps) {
+  return (
+    <EmailLayout preview='Your sign-in link'>
+      <Heading style={styles.heading}>Sign in to your account</Heading>
+      <Text style={styles.text}>
+        Click the button below to sign in. This link can only be used once and
+        expires in {expiresInMinutes} minutes.
+      </Text>
+      <EmailButton href={url}>Sign In</EmailButton>
+      <Text style={styles.muted}>
+        Or copy and paste this URL into your browser: {url}
+      </Text>
+    </EmailLayout>
+  )
+}
+
+export default MagicLinkEmail
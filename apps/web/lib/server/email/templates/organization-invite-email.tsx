@@ -0,0 +1,35 @@
+import {Heading, Text} from "@react-email/components"
+import {EmailButton, EmailLayout, styles} from "./email-layout"
+
+interface OrganizationInviteEmailProps {
+  organizationName: string
+  inviterName: string
+  role: string
+  url: string
+  expiresInDays: number
+}
+
+export function OrganizationInviteEmail({
+  organizationName,
+  inviterName,
+  role,
+  url,
+  expiresInDays,
+}: OrganizationInviteEmailProps) {
+  return (
+    <EmailLayout preview={`Join ${organizationName}`}>
+      <Heading style={styles.heading}>Join {organizationName}</Heading>
+      <Text style={styles.text}>
+        {inviterName} has invited you to join {organizationName} as {role}. Sign
+        in with this email address and accept the invitation below.
+      </Text>
+      <EmailButton href={url}>Accept Invitation</EmailButton>
+      <Text style={styles.muted}>
+        This invitation expires in {expiresInDays} days. If you weren&apos;t
+        expecting it, you can ignore this email.
+      </Text>
+    </EmailLayout>
+  )
+}
+
+export default OrganizationInviteEmail
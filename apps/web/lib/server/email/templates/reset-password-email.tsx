@@ -0,0 +1,26 @@
+import {Heading, Text} from "@react-email/components"
+import {EmailButton, EmailLayout, styles} from "./email-layout"
+
+interface ResetPasswordEmailProps {
+  name: string
+  url: string
+}
+
+export function ResetPasswordEmail({name, url}: ResetPasswordEmailProps) {
+  return (
+    <EmailLayout preview='Reset your password'>
+      <Heading style={styles.heading}>Reset your password</Heading>
+      <Text style={styles.text}>Hi {name},</Text>
+      <Text style={styles.text}>
+        We received a request to reset the password for your account. Click the
+        button below to choose a new one. This link expires in one hour.
+      </Text>
+      <EmailButton href={url}>Reset Password</EmailButton>
+      <Text style={styles.muted}>
+        Or copy and paste this URL into your browser: {url}
+      </Text>
+    </EmailLayout>
+  )
+}
+
+export default ResetPasswordEmail
@@ -0,0 +1,26 @@
+import {Heading, Text} from "@react-email/components"
+import {EmailButton, EmailLayout, styles} from "./email-layout"
+
+interface VerifyEmailProps {
+  name: string
+  url: string
+}
+
+export function VerifyEmail({name, url}: VerifyEmailProps) {
+  return (
+    <EmailLayout preview='Verify your email address'>
+      <Heading style={styles.heading}>Verify your email</Heading>
+      <Text style={styles.text}>Hi {name},</Text>
+      <Text style={styles.text}>
+        Please confirm that this is your email address to finish setting up your
+        account.
+      </Text>
+      <EmailButton href={url}>Verify Email</EmailButton>
+      <Text style={styles.muted}>
+        Or copy and paste this URL into your browser: {url}
+      </Text>
+    </EmailLayout>
+  )
+}
+
+export default VerifyEmail
@@ -0,0 +1,21 @@
+import {Heading, Text} from "@react-email/components"
+import {EmailButton, EmailLayout, styles} from "./email-layout"
+
+interface WelcomeEmailProps {
+  name: string
+  dashboardUrl: string
+}
+
+export function WelcomeEmail({name, dashboardUrl}: WelcomeEmailProps) {
+  return (
+    <EmailLayout preview='Welcome aboard'>
+      <Heading style={styles.heading}>Welcome, {name}!</Heading>
+      <Text style={styles.text}>
+        Your account is ready. Head over to your dashboard to get started.
+      </Text>
+      <EmailButton href={dashboardUrl}>Go to Dashboard</EmailButton>
+    </EmailLayout>
+  )
+}
+
+export default WelcomeEmail
@@ -0,0 +1,55 @@
+import {randomUUID} from "crypto"
+import {mkdir, writeFile} from "fs/promises"
+import path from "path"
+import type {CapturedEmail, EmailMessage, EmailTransport} from "../types"
+
+interface FileTransportOptions {
+  dir: string
+  from: string
+}
+
+/**
+ * Extract absolute links from rendered HTML so tests can follow them
+ * without parsing markup themselves.
+ */
+export function extractLinks(html: string): string[] {
+  const links = new Set<string>()
+  for (const match of html.matchAll(/href="(https?:\/\/[^"]+)"/g)) {
+    links.add(match[1].replace(/&amp;/g, "&"))
+  }
+  return [...links]
+}
+
+/**
+ * Development/CI transport that captures messages as JSON files
+ *
+ * Acts as a local mail catcher: nothing leaves the machine, and Playwright
+ * reads the captured files through `e2e/helpers/mailbox.ts`.
+ */
+export function createFileTransport({
+  dir,
+  from,
+}: FileTransportOptions): EmailTransport {
+  return {
+    name: "file",
+    async send(message: EmailMessage) {
+      const id = randomUUID()
+      const sentAt = new Date()
+      const captured: CapturedEmail = {
+        ...message,
+        id,
+        from: message.from || from,
+        sentAt: sentAt.toISOString(),
+        links: extractLinks(message.html),
+      }
+
+      await mkdir(dir, {recursive: true})
+      await writeFile(
+        path.join(dir, `${sentAt.getTime()}-${id}.json`),
+        JSON.stringify(captured, null, 2)
+      )
+
+      return {id, transport: "file"}
+    },
+  }
+}
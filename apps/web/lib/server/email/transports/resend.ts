@@ -0,0 +1,42 @@
+import {Resend} from "resend"
+import type {EmailMessage, EmailTransport} from "../types"
+
+interface ResendTransportOptions {
+  apiKey: string
+  from: string
+}
+
+/**
+ * Production transport backed by the Resend API
+ */
+export function createResendTransport({
+  apiKey,
+  from,
+}: ResendTransportOptions): EmailTransport {
+  const resend = new Resend(apiKey)
+
+  return {
+    name: "resend",
+    async send(message: EmailMessage) {
+      const {data, error} = await resend.emails.send({
+        from: message.from || from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        replyTo: message.replyTo,
+        tags: message.tags
+          ? Object.entries(message.tags).map(([name, value]) => ({name, value}))
+          : undefined,
+      })
+
+      if (error || !data) {
+        throw new Error(
+          `Resend failed to send "${message.subject}": ${error?.message ?? "no response"}`
+        )
+      }
+
+      return {id: data.id, transport: "resend"}
+    },
+  }
+}
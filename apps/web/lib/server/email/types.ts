@@ -0,0 +1,39 @@
+/**
+ * Email transport contract
+ *
+ * Every transport receives a fully rendered message (HTML + plain text) so
+ * templates stay transport-agnostic. Add new transports under `transports/`
+ * and register them in `getEmailTransport()`.
+ */
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+  from?: string
+  replyTo?: string
+  // Free-form labels (e.g. template name) for logs and captured messages
+  tags?: Record<string, string>
+}
+
+export interface SentEmail {
+  id: string
+  transport: string
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<SentEmail>
+}
+
+/**
+ * Shape of a message written to disk by the file transport.
+ * Shared with the Playwright mailbox helper in `e2e/helpers/mailbox.ts`.
+ */
+export interface CapturedEmail extends EmailMessage {
+  id: string
+  from: string
+  sentAt: string
+  links: string[]
+}
@@ -0,0 +1,171 @@
+import {cache} from "react"
+import {sql} from "drizzle-orm"
+import {
+  EXPERIMENT_EXPOSURE_EVENT,
+  assignVariant,
+  experimentKeys,
+  experiments,
+  getControlVariant,
+  getExperimentAssignments,
+  type ExperimentKey,
+  type ExperimentSubject,
+  type ExperimentVariant,
+} from "../experiments"
+import {getAllFeatures} from "../feature-flags"
+import {getAnalyticsSubject, recordAnalyticsEvent} from "./analytics"
+import {db} from "./db"
+import {analyticsEvents} from "./db/schema"
+import {getFeatureContext} from "./feature-flags"
+import {getCurrentSession} from "./session"
+
+/**
+ * Server side of A/B experiments (lib/experiments.ts)
+ *
+ * Assignments are worked out from the current request's session and
+ * anonymous cookie. The dashboard and admin layouts hand the same subject
+ * to ExperimentProvider (UserFeatureFlags) so `useExperiment()` agrees with
+ * the server.
+ */
+
+/**
+ * Who the current request is bucketed as: the same subject its analytics
+ * events are attributed to
+ */
+export const getExperimentSubject = getAnalyticsSubject
+
+/**
+ * The current request's flags, evaluated for the signed-in user
+ */
+async function getSubjectFlags() {
+  return getAllFeatures(await getFeatureContext(await getCurrentSession()))
+}
+
+/**
+ * Every experiment's assignment for the current request
+ */
+export async function getCurrentExperimentAssignments() {
+  const [subject, flags] = await Promise.all([
+    getExperimentSubject(),
+    getSubjectFlags(),
+  ])
+  return getExperimentAssignments(subject, flags)
+}
+
+/**
+ * Record that `subject` saw `variant`. The report counts each subject once
+ * per variant, so repeat exposures only cost a row.
+ */
+export async function recordExposure<K extends ExperimentKey>(
+  key: K,
+  variant: ExperimentVariant<K>,
+  subject: ExperimentSubject
+) {
+  await recordAnalyticsEvent(
+    EXPERIMENT_EXPOSURE_EVENT,
+    {experiment: key, variant},
+    subject
+  )
+}
+
+// Once per experiment per request, however many components ask
+const recordRequestExposure = cache(
+  async (key: ExperimentKey, variant: string) => {
+    await recordExposure(
+      key,
+      variant as ExperimentVariant,
+      await getExperimentSubject()
+    )
+  }
+)
+
+/**
+ * The variant of experiment `key` to render for the current request,
+ * recording the exposure. The server equivalent of `useExperiment()`.
+ */
+export async function getExperiment<K extends ExperimentKey>(
+  key: K
+): Promise<ExperimentVariant<K>> {
+  const [subject, flags] = await Promise.all([
+    getExperimentSubject(),
+    getSubjectFlags(),
+  ])
+  const variant = assignVariant(key, subject, flags)
+  if (!variant) return getControlVariant(key)
+
+  await recordRequestExposure(key, variant)
+  return variant
+}
+
+export interface ExperimentVariantReport {
+  variant: string
+  weight: number
+  exposed: number
+  converted: number
+}
+
+/**
+ * Exposed and converted subjects per variant of experiment `key`. A subject
+ * converts by recording the experiment's conversion event, from the same
+ * browser or as the same user, after first seeing the variant.
+ */
+export async function getExperimentResults(
+  key: ExperimentKey
+): Promise<ExperimentVariantReport[]> {
+  const {conversionEvent} = experiments[key]
+
+  const rows = await db.execute<{
+    variant: string
+    exposed: number
+    converted: number
+  }>(sql`
+    with exposures as (
+      select
+        ${analyticsEvents.properties}->>'variant' as variant,
+        min(${analyticsEvents.userId}) as user_id,
+        min(${analyticsEvents.anonymousId}) as anonymous_id,
+        min(${analyticsEvents.createdAt}) as exposed_at
+      from ${analyticsEvents}
+      where ${analyticsEvents.name} = ${EXPERIMENT_EXPOSURE_EVENT}
+        and ${analyticsEvents.properties}->>'experiment' = ${key}
+      group by 1, coalesce(${analyticsEvents.anonymousId}, ${analyticsEvents.userId})
+    )
+    select
+      variant,
+      count(*)::int as exposed,
+      count(*) filter (
+        where exists (
+          select 1 from ${analyticsEvents} as conversion
+          where conversion."name" = ${conversionEvent}
+            and conversion."createdAt" >= exposures.exposed_at
+            and (
+              conversion."userId" = exposures.user_id
+              or conversion."anonymousId" = exposures.anonymous_id
+            )
+        )
+      )::int as converted
+    from exposures
+    group by variant
+  `)
+
+  const results = new Map(rows.map(row => [row.variant, row]))
+  const variants: Record<string, number> = experiments[key].variants
+  return Object.entries(variants).map(([variant, weight]) => ({
+    variant,
+    weight,
+    exposed: results.get(variant)?.exposed ?? 0,
+    converted: results.get(variant)?.converted ?? 0,
+  }))
+}
+
+/**
+ * Results for every experiment, for the admin report
+ */
+export async function getExperimentReport() {
+  return Promise.all(
+    experimentKeys.map(async key => ({
+      key,
+      ...experiments[key],
+      results: await getExperimentResults(key),
+    }))
+  )
+}
@@ -0,0 +1,61 @@
+import {describe, expect, it} from "vitest"
+import {
+  signFeatureFlagOverrides,
+  verifyFeatureFlagOverrides,
+} from "./feature-flag-overrides"
+
+const secret = "test-secret-that-is-long-enough-to-sign"
+
+describe("feature flag override cookies", () => {
+  it("round-trips signed overrides", () => {
+    const value = signFeatureFlagOverrides(
+      {userDarkMode: true, dashboardCharts: false},
+      secret
+    )
+
+    expect(verifyFeatureFlagOverrides(value, secret)).toEqual({
+      userDarkMode: true,
+      dashboardCharts: false,
+    })
+  })
+
+  it("rejects a value signed with another key", () => {
+    const value = signFeatureFlagOverrides({userDarkMode: true}, "other-key")
+
+    expect(verifyFeatureFlagOverrides(value, secret)).toBeNull()
+  })
+
+  it("rejects an edited payload", () => {
+    const [, signature] = signFeatureFlagOverrides(
+      {userDarkMode: false},
+      secret
+    ).split(".")
+    const payload = Buffer.from(JSON.stringify({userDarkMode: true})).toString(
+      "base64url"
+    )
+
+    expect(
+      verifyFeatureFlagOverrides(`${payload}.${signature}`, secret)
+    ).toBeNull()
+  })
+
+  it("rejects malformed values", () => {
+    expect(verifyFeatureFlagOverrides("", secret)).toBeNull()
+    expect(verifyFeatureFlagOverrides("payload", secret)).toBeNull()
+    expect(verifyFeatureFlagOverrides("a.b.c", secret)).toBeNull()
+  })
+
+  it("rejects signed values that are not overrides", () => {
+    const unknownFlag = signFeatureFlagOverrides(
+      {notAFlag: true} as never,
+      secret
+    )
+    const notBoolean = signFeatureFlagOverrides(
+      {userDarkMode: "yes"} as never,
+      secret
+    )
+
+    expect(verifyFeatureFlagOverrides(unknownFlag, secret)).toBeNull()
+    expect(verifyFeatureFlagOverrides(notBoolean, secret)).toBeNull()
+  })
+})
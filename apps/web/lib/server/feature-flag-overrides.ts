@@ -0,0 +1,76 @@
+import {createHmac, timingSafeEqual} from "crypto"
+import {
+  featureFlagOverridesSchema,
+  type FeatureFlagOverrides,
+} from "../feature-flags"
+
+/**
+ * QA feature flag overrides
+ *
+ * Testers flip flags for their own browser from the flag toolbar. The
+ * overrides live in a cookie signed with HMAC-SHA256, so they cannot be
+ * forged or edited by hand, and `getFeatureContext()` (./feature-flags.ts)
+ * applies them to every flag evaluated for the request. They are honored
+ * outside production, and in production for site admins only.
+ *
+ * The key is FEATURE_FLAG_OVERRIDES_SECRET, falling back to
+ * BETTER_AUTH_SECRET. Free of Next.js imports, so Playwright can sign
+ * cookies with the key it shares with the dev server
+ * (e2e/helpers/feature-flags.ts).
+ */
+
+export const FEATURE_FLAG_OVERRIDES_COOKIE = "feature_flag_overrides"
+
+// Long enough to get through a test session, short enough to be forgotten
+export const FEATURE_FLAG_OVERRIDES_MAX_AGE = 7 * 24 * 60 * 60
+
+function getSecret() {
+  const secret =
+    process.env.FEATURE_FLAG_OVERRIDES_SECRET || process.env.BETTER_AUTH_SECRET
+  if (!secret) {
+    throw new Error("FEATURE_FLAG_OVERRIDES_SECRET is not set")
+  }
+  return secret
+}
+
+function sign(payload: string, secret: string) {
+  return createHmac("sha256", secret).update(payload).digest("base64url")
+}
+
+/**
+ * The cookie value carrying `overrides`
+ */
+export function signFeatureFlagOverrides(
+  overrides: FeatureFlagOverrides,
+  secret = getSecret()
+) {
+  const payload = Buffer.from(JSON.stringify(overrides)).toString("base64url")
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * The overrides in a cookie value, or null when it is malformed or its
+ * signature does not match
+ */
+export function verifyFeatureFlagOverrides(
+  value: string,
+  secret = getSecret()
+): FeatureFlagOverrides | null {
+  const [payload, signature, ...rest] = value.split(".")
+  if (!payload || !signature || rest.length > 0) return null
+
+  const expected = Buffer.from(sign(payload, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const parsed = featureFlagOverridesSchema.safeParse(
+      JSON.parse(Buffer.from(payload, "base64url").toString())
+    )
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
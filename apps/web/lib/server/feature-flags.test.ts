@@ -0,0 +1,114 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest"
+import {refreshFeatureFlags, registerStoredFeatureFlags} from "../feature-flags"
+import {db} from "./db"
+import {
+  createFeatureFlagStream,
+  loadStoredFeatureFlags,
+  registerFeatureFlagStore,
+} from "./feature-flags"
+
+vi.mock("./db", () => ({
+  db: {select: vi.fn()},
+}))
+
+function storeRows(rows: {key: string; enabled: boolean; rules: unknown}[]) {
+  vi.mocked(db.select).mockReturnValue({
+    from: vi.fn(async () => rows),
+  } as never)
+}
+
+async function readEvent(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  const {value} = await reader.read()
+  const text = new TextDecoder().decode(value)
+  const [, event, data] = text.match(/^event: (\w+)\ndata: (.*)\n\n$/) ?? []
+  return {event, data: JSON.parse(data)}
+}
+
+describe("stored feature flags", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    storeRows([])
+  })
+
+  afterEach(() => {
+    registerStoredFeatureFlags(null)
+  })
+
+  it("skips keys that are no longer flags", async () => {
+    storeRows([
+      {key: "experimentalFeatureA", enabled: true, rules: null},
+      {key: "removedFlag", enabled: true, rules: null},
+    ])
+
+    expect(await loadStoredFeatureFlags()).toEqual({
+      experimentalFeatureA: {enabled: true, rules: null},
+    })
+  })
+
+  describe("createFeatureFlagStream", () => {
+    it("sends the context's flags on connect and whenever they change", async () => {
+      storeRows([
+        {
+          key: "experimentalFeatureA",
+          enabled: false,
+          rules: {userIds: ["user-1"]},
+        },
+      ])
+      await registerFeatureFlagStore()
+      const controller = new AbortController()
+      const reader = createFeatureFlagStream(
+        {userId: "user-1"},
+        controller.signal
+      ).getReader()
+
+      const first = await readEvent(reader)
+      expect(first.event).toBe("flags")
+      expect(first.data).toMatchObject({
+        experimentalFeatureA: true,
+        experimentalFeatureB: false,
+      })
+
+      storeRows([
+        {
+          key: "experimentalFeatureA",
+          enabled: false,
+          rules: {userIds: ["user-1"]},
+        },
+        {key: "experimentalFeatureB", enabled: true, rules: null},
+      ])
+      await refreshFeatureFlags()
+
+      const second = await readEvent(reader)
+      expect(second.data).toMatchObject({
+        experimentalFeatureA: true,
+        experimentalFeatureB: true,
+      })
+
+      controller.abort()
+      expect(await reader.read()).toEqual({done: true, value: undefined})
+    })
+
+    it("stays quiet when a change does not affect the context", async () => {
+      storeRows([])
+      await registerFeatureFlagStore()
+      const controller = new AbortController()
+      const reader = createFeatureFlagStream(
+        {userId: "user-2"},
+        controller.signal
+      ).getReader()
+      await readEvent(reader)
+
+      storeRows([
+        {
+          key: "experimentalFeatureA",
+          enabled: false,
+          rules: {userIds: ["user-1"]},
+        },
+      ])
+      await refreshFeatureFlags()
+      controller.abort()
+
+      expect(await reader.read()).toEqual({done: true, value: undefined})
+    })
+  })
+})
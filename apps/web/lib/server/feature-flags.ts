@@ -0,0 +1,244 @@
+import {cookies} from "next/headers"
+import {eq} from "drizzle-orm"
+import {
+  getFeatureEnvironment,
+  type FeatureFlagContext,
+  type FeatureFlagRules,
+  type StoredFeatureFlagValue,
+} from "../feature-flag-rules"
+import {
+  featureFlagNames,
+  featureFlagSchema,
+  getAllFeatures,
+  getDefaultFeatures,
+  refreshFeatureFlags,
+  registerStoredFeatureFlags,
+  subscribeToFeatureFlags,
+  type FeatureFlag,
+  type FeatureFlagOverrides,
+} from "../feature-flags"
+import {isAdmin} from "./admin"
+import {db} from "./db"
+import {featureFlags, users} from "./db/schema"
+import {
+  FEATURE_FLAG_OVERRIDES_COOKIE,
+  verifyFeatureFlagOverrides,
+} from "./feature-flag-overrides"
+import {logError} from "./logger"
+import type {CurrentSession} from "./session"
+
+/**
+ * Feature flags stored in the database
+ *
+ * Admins set flags from /admin/flags; each stored value overrides the
+ * deployment default until it is reset. instrumentation.ts registers
+ * `loadStoredFeatureFlags()` with lib/feature-flags.ts at startup, which
+ * caches the values and keeps `getFeature()` synchronous.
+ *
+ * Browsers receive their evaluated flags from the layouts. Signed-in pages
+ * then follow changes through `createFeatureFlagStream()`, served as
+ * Server-Sent Events at `featureFlagsStreamPath`.
+ *
+ * Testers can also override flags for their own browser with a signed
+ * cookie (./feature-flag-overrides.ts), which `getFeatureContext()` reads.
+ */
+
+// How often an open stream re-reads flags, which also refreshes a stale
+// cache so changes made by other processes arrive, and keeps proxies from
+// closing the idle connection
+const STREAM_POLL_MS = 15 * 1000
+
+/**
+ * Whether this user may override flags: anyone outside production, and
+ * site admins everywhere
+ */
+export function canOverrideFeatureFlags(
+  user: {role?: string | null} | null | undefined
+) {
+  return getFeatureEnvironment() !== "production" || (!!user && isAdmin(user))
+}
+
+/**
+ * The current request's overrides, or null when there are none or the user
+ * may not override flags
+ */
+export async function getFeatureFlagOverrides(
+  user: {role?: string | null} | null | undefined
+): Promise<FeatureFlagOverrides | null> {
+  if (!canOverrideFeatureFlags(user)) return null
+
+  const value = (await cookies()).get(FEATURE_FLAG_OVERRIDES_COOKIE)?.value
+  return value ? verifyFeatureFlagOverrides(value) : null
+}
+
+/**
+ * The context to evaluate flags for the current request: targeting for the
+ * signed-in user, and the browser's QA overrides when they are allowed
+ */
+export async function getFeatureContext(
+  current: {
+    user: Pick<CurrentSession["user"], "id" | "email" | "role">
+    organization?: CurrentSession["organization"]
+  } | null
+): Promise<FeatureFlagContext> {
+  const overrides = await getFeatureFlagOverrides(current?.user)
+  if (!current) return overrides ? {overrides} : {}
+  return {
+    userId: current.user.id,
+    email: current.user.email,
+    organizationId: current.organization?.id ?? null,
+    role: current.organization?.role ?? null,
+    ...(overrides && {overrides}),
+  }
+}
+
+/**
+ * Every stored flag value, skipping keys no longer in the schema
+ */
+export async function loadStoredFeatureFlags(): Promise<
+  Partial<Record<FeatureFlag, StoredFeatureFlagValue>>
+> {
+  const rows = await db
+    .select({
+      key: featureFlags.key,
+      enabled: featureFlags.enabled,
+      rules: featureFlags.rules,
+    })
+    .from(featureFlags)
+
+  const values: Partial<Record<FeatureFlag, StoredFeatureFlagValue>> = {}
+  for (const {key, ...value} of rows) {
+    const flag = featureFlagSchema.safeParse(key)
+    if (flag.success) values[flag.data] = value
+  }
+  return values
+}
+
+/**
+ * Serve stored flag values from this process and load them once
+ */
+export async function registerFeatureFlagStore() {
+  registerStoredFeatureFlags(async () => {
+    try {
+      return await loadStoredFeatureFlags()
+    } catch (error) {
+      logError(error as Error, {module: "feature-flags"})
+      throw error
+    }
+  })
+  await refreshFeatureFlags()
+}
+
+/**
+ * Every flag with its deployment default, stored value and current value,
+ * for the admin console
+ */
+export async function listFeatureFlags() {
+  const rows = await db
+    .select({
+      key: featureFlags.key,
+      enabled: featureFlags.enabled,
+      rules: featureFlags.rules,
+      updatedAt: featureFlags.updatedAt,
+      updatedByEmail: users.email,
+    })
+    .from(featureFlags)
+    .leftJoin(users, eq(featureFlags.updatedBy, users.id))
+  const stored = new Map(rows.map(row => [row.key, row]))
+
+  const defaults = getDefaultFeatures()
+  const current = getAllFeatures()
+  return featureFlagNames.map(flag => ({
+    flag,
+    defaultValue: defaults[flag],
+    stored: stored.get(flag) ?? null,
+    // What this process serves without a context, which may lag a change
+    // made elsewhere
+    enabled: current[flag],
+  }))
+}
+
+/**
+ * Update a flag's stored value and rules, or delete them (`null`) to fall
+ * back to the deployment default. A flag without a stored value starts from
+ * its default. Returns the stored value it replaced and applies the change
+ * to this process straight away.
+ */
+export async function setStoredFeatureFlag(
+  flag: FeatureFlag,
+  changes: {enabled?: boolean; rules?: FeatureFlagRules | null} | null,
+  actorId: string
+): Promise<StoredFeatureFlagValue | null> {
+  const previous = await db.query.featureFlags.findFirst({
+    where: eq(featureFlags.key, flag),
+    columns: {enabled: true, rules: true},
+  })
+
+  if (changes === null) {
+    await db.delete(featureFlags).where(eq(featureFlags.key, flag))
+  } else {
+    const values = {
+      enabled:
+        changes.enabled ?? previous?.enabled ?? getDefaultFeatures()[flag],
+      rules: changes.rules === undefined ? previous?.rules : changes.rules,
+      updatedAt: new Date(),
+      updatedBy: actorId,
+    }
+    await db
+      .insert(featureFlags)
+      .values({key: flag, ...values})
+      .onConflictDoUpdate({target: featureFlags.key, set: values})
+  }
+
+  await refreshFeatureFlags()
+  return previous ?? null
+}
+
+/**
+ * Server-Sent Events carrying the flags evaluated for `context`: a "flags"
+ * event with all of them on connect, then again whenever one changes.
+ * Ends when `signal` aborts.
+ */
+export function createFeatureFlagStream(
+  context: FeatureFlagContext,
+  signal: AbortSignal
+) {
+  const encoder = new TextEncoder()
+  let closed = false
+  let stop = () => {}
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let last = ""
+
+      const send = () => {
+        const flags = JSON.stringify(getAllFeatures(context))
+        if (flags === last) return false
+        last = flags
+        controller.enqueue(encoder.encode(`event: flags\ndata: ${flags}\n\n`))
+        return true
+      }
+
+      const unsubscribe = subscribeToFeatureFlags(send)
+      const poll = setInterval(() => {
+        if (!send()) controller.enqueue(encoder.encode(": keep-alive\n\n"))
+      }, STREAM_POLL_MS)
+
+      stop = () => {
+        closed = true
+        unsubscribe()
+        clearInterval(poll)
+      }
+      signal.addEventListener("abort", () => {
+        if (closed) return
+        stop()
+        controller.close()
+      })
+
+      send()
+    },
+    cancel() {
+      stop()
+    },
+  })
+}
@@ -0,0 +1,140 @@
+import {describe, it, expect, vi} from "vitest"
+import {betterAuth} from "better-auth"
+import {memoryAdapter} from "better-auth/adapters/memory"
+import {getFeature} from "../feature-flags"
+import {featureGates, socialAuthDisabledMessage} from "./feature-gates"
+
+vi.mock("./db", () => ({db: {}}))
+
+vi.mock("next/headers", () => ({
+  cookies: vi.fn(async () => ({get: vi.fn()})),
+}))
+
+vi.mock("../feature-flags", async importOriginal => ({
+  ...(await importOriginal<typeof import("../feature-flags")>()),
+  getFeature: vi.fn(),
+}))
+
+const [twoFactorGate, emailVerificationGate, socialAuthGate] =
+  featureGates().hooks.before
+
+describe("feature gates plugin", () => {
+  it.each([
+    "/two-factor/enable",
+    "/two-factor/disable",
+    "/two-factor/get-totp-uri",
+    "/two-factor/generate-backup-codes",
+    "/two-factor/view-backup-codes",
+  ])("gates %s on the twoFactorAuth flag", path => {
+    expect(twoFactorGate.matcher({path} as never)).toBe(true)
+  })
+
+  it.each([
+    "/two-factor/verify-totp",
+    "/two-factor/verify-backup-code",
+    "/two-factor/send-otp",
+    "/two-factor/verify-otp",
+    "/sign-in/email",
+  ])("leaves %s open so enrolled users can sign in", path => {
+    expect(twoFactorGate.matcher({path} as never)).toBe(false)
+  })
+})
+
+describe("email verification gate", () => {
+  const credentials = {email: "ada@example.com", password: "correct-horse-42"}
+
+  async function signUpAndIn() {
+    const auth = betterAuth({
+      database: memoryAdapter({
+        user: [],
+        session: [],
+        account: [],
+        verification: [],
+      }),
+      secret: "test-secret-at-least-32-characters-long",
+      baseURL: "http://localhost:3000",
+      emailAndPassword: {enabled: true, requireEmailVerification: true},
+      plugins: [featureGates()],
+    })
+    await auth.api.signUpEmail({body: {...credentials, name: "Ada"}})
+    return auth.api.signInEmail({body: credentials, asResponse: true})
+  }
+
+  it("matches the endpoints that read requireEmailVerification", () => {
+    expect(
+      emailVerificationGate.matcher({path: "/sign-in/email"} as never)
+    ).toBe(true)
+    expect(
+      emailVerificationGate.matcher({path: "/sign-up/email"} as never)
+    ).toBe(true)
+    expect(emailVerificationGate.matcher({path: "/sign-out"} as never)).toBe(
+      false
+    )
+  })
+
+  it("refuses unverified sign-ins while the flag is on", async () => {
+    vi.mocked(getFeature).mockReturnValue(true)
+
+    expect((await signUpAndIn()).status).toBe(403)
+  })
+
+  it("follows the flag when it is switched off at runtime", async () => {
+    vi.mocked(getFeature).mockReturnValue(false)
+
+    expect((await signUpAndIn()).status).toBe(200)
+  })
+})
+
+describe("social auth gate", () => {
+  function startSocialSignIn() {
+    const auth = betterAuth({
+      database: memoryAdapter({
+        user: [],
+        session: [],
+        account: [],
+        verification: [],
+      }),
+      secret: "test-secret-at-least-32-characters-long",
+      baseURL: "http://localhost:3000",
+      socialProviders: {
+        github: {clientId: "client-id", clientSecret: "client-secret"},
+      },
+      plugins: [featureGates()],
+    })
+    return auth.api.signInSocial({
+      body: {provider: "github"},
+      asResponse: true,
+    })
+  }
+
+  it.each([
+    "/sign-in/social",
+    "/sign-in/oauth2",
+    "/link-social",
+    "/oauth2/link",
+  ])("gates %s on the socialAuth flag", path => {
+    expect(socialAuthGate.matcher({path} as never)).toBe(true)
+  })
+
+  it.each(["/callback/github", "/oauth2/callback/acme", "/sign-in/email"])(
+    "leaves %s open",
+    path => {
+      expect(socialAuthGate.matcher({path} as never)).toBe(false)
+    }
+  )
+
+  it("refuses social sign-ins while the flag is off", async () => {
+    vi.mocked(getFeature).mockReturnValue(false)
+
+    await expect(startSocialSignIn()).rejects.toMatchObject({
+      statusCode: 403,
+      message: socialAuthDisabledMessage,
+    })
+  })
+
+  it("starts social sign-ins while the flag is on", async () => {
+    vi.mocked(getFeature).mockReturnValue(true)
+
+    expect((await startSocialSignIn()).status).toBe(200)
+  })
+})
@@ -0,0 +1,135 @@
+import type {BetterAuthPlugin} from "better-auth"
+import {
+  APIError,
+  createAuthMiddleware,
+  getSessionFromCtx,
+} from "better-auth/api"
+import {getFeature, type FeatureFlag} from "../feature-flags"
+import {getFeatureContext} from "./feature-flags"
+
+/**
+ * Feature flags enforced on the BetterAuth endpoints
+ *
+ * Hiding a feature's UI is not enough: its endpoints stay reachable from
+ * any client. This plugin checks the live flag, evaluated for the caller
+ * like the pages that render the UI, before the endpoint runs.
+ *
+ * BetterAuth reads its own options once, at startup, so options that follow
+ * a flag are also set here for each request: `requireEmailVerification`
+ * tracks `emailVerificationRequired`, which admins can switch at runtime and
+ * the dashboard layout checks on every render.
+ */
+
+export const twoFactorDisabledMessage =
+  "Two-factor authentication is not available"
+
+export const socialAuthDisabledMessage = "Social sign-in is not available"
+
+// Second-factor checks that finish a sign-in. They stay open while the
+// `twoFactorAuth` flag is off so users who enrolled earlier can still sign
+// in; everything else under /two-factor/ (enrollment, backup codes,
+// disabling) is refused.
+const twoFactorSignInPaths = [
+  "/two-factor/send-otp",
+  "/two-factor/verify-otp",
+  "/two-factor/verify-totp",
+  "/two-factor/verify-backup-code",
+]
+
+function isTwoFactorManagementPath(path: string) {
+  return path.startsWith("/two-factor/") && !twoFactorSignInPaths.includes(path)
+}
+
+// Signing in with, or linking, a social or OAuth account. Callbacks stay
+// open so a flow started before the flag was switched off can finish.
+const socialAuthPaths = [
+  "/sign-in/social",
+  "/sign-in/oauth2",
+  "/link-social",
+  "/oauth2/link",
+]
+
+function isSocialAuthPath(path: string) {
+  return socialAuthPaths.some(
+    prefix => path === prefix || path.startsWith(`${prefix}/`)
+  )
+}
+
+/**
+ * Refuse the request when `flag` is off for the caller
+ */
+function requireFlag(flag: FeatureFlag, message: string) {
+  return createAuthMiddleware(async ctx => {
+    const current = await getSessionFromCtx(ctx)
+    const context = await getFeatureContext(
+      current && {
+        user: {
+          id: current.user.id,
+          email: current.user.email,
+          role: (current.user as {role?: string | null}).role,
+        },
+      }
+    )
+    if (!getFeature(flag, context)) {
+      throw new APIError("FORBIDDEN", {code: "FEATURE_DISABLED", message})
+    }
+  })
+}
+
+// Endpoints whose behavior depends on `requireEmailVerification`
+const emailVerificationPaths = ["/sign-in/email", "/sign-up/email"]
+
+export const featureGates = () =>
+  ({
+    id: "feature-gates",
+    hooks: {
+      before: [
+        {
+          matcher: ctx => isTwoFactorManagementPath(ctx.path),
+          handler: requireFlag("twoFactorAuth", twoFactorDisabledMessage),
+        },
+        {
+          matcher: ctx => emailVerificationPaths.includes(ctx.path),
+          handler: createAuthMiddleware(async ctx => {
+            const email =
+              typeof ctx.body?.email === "string"
+                ? ctx.body.email.toLowerCase()
+                : undefined
+            // Evaluated for the account signing in, so targeting rules match
+            // what the dashboard sees once it is signed in
+            const found = email
+              ? await ctx.context.internalAdapter.findUserByEmail(email)
+              : null
+            const context = await getFeatureContext(
+              found && {
+                user: {
+                  id: found.user.id,
+                  email: found.user.email,
+                  role: (found.user as {role?: string | null}).role,
+                },
+              }
+            )
+
+            // Merged into this request's copy of the auth context. BetterAuth
+            // still checks the password before refusing an unverified
+            // account, so this reveals nothing about the email.
+            const requireEmailVerification = getFeature(
+              "emailVerificationRequired",
+              found ? context : {...context, email}
+            )
+            return {
+              context: {
+                context: {
+                  options: {emailAndPassword: {requireEmailVerification}},
+                },
+              },
+            }
+          }),
+        },
+        {
+          matcher: ctx => isSocialAuthPath(ctx.path),
+          handler: requireFlag("socialAuth", socialAuthDisabledMessage),
+        },
+      ],
+    },
+  }) satisfies BetterAuthPlugin
@@ -0,0 +1,66 @@
+import {describe, it, expect, vi} from "vitest"
+import {impersonation, isImpersonating} from "./impersonation"
+
+vi.mock("./db", () => ({db: {}}))
+
+const [restricted, impersonateUser, stopImpersonating] =
+  impersonation().hooks.before
+
+describe("impersonation plugin", () => {
+  it.each([
+    "/change-password",
+    "/change-email",
+    "/delete-user",
+    "/revoke-other-sessions",
+    "/two-factor/enable",
+    "/passkey/add-passkey",
+    "/api-key/create",
+    "/admin/impersonate-user",
+  ])("restricts %s", path => {
+    expect(restricted.matcher({path} as never)).toBe(true)
+  })
+
+  it.each([
+    "/get-session",
+    "/sign-out",
+    "/update-user",
+    "/admin/stop-impersonating",
+  ])("allows %s", path => {
+    expect(restricted.matcher({path} as never)).toBe(false)
+  })
+
+  it("refuses API key creation to an impersonation session", async () => {
+    const ctx = {
+      path: "/api-key/create",
+      headers: new Headers(),
+      context: {
+        session: {
+          session: {id: "session-1", impersonatedBy: "admin-1"},
+          user: {id: "user-1"},
+        },
+      },
+    }
+
+    await expect(restricted.handler(ctx as never)).rejects.toMatchObject({
+      statusCode: 403,
+      body: {code: "IMPERSONATION_RESTRICTED"},
+    })
+  })
+
+  it("checks the target and logs stops on the admin endpoints", () => {
+    expect(
+      impersonateUser.matcher({path: "/admin/impersonate-user"} as never)
+    ).toBe(true)
+    expect(
+      stopImpersonating.matcher({path: "/admin/stop-impersonating"} as never)
+    ).toBe(true)
+  })
+})
+
+describe("isImpersonating", () => {
+  it("reads the impersonating admin from the session", () => {
+    expect(isImpersonating({session: {impersonatedBy: "admin-1"}})).toBe(true)
+    expect(isImpersonating({session: {impersonatedBy: null}})).toBe(false)
+    expect(isImpersonating({session: {}})).toBe(false)
+  })
+})
@@ -0,0 +1,134 @@
+import type {BetterAuthPlugin} from "better-auth"
+import {
+  APIError,
+  createAuthMiddleware,
+  getSessionFromCtx,
+} from "better-auth/api"
+import {isAdmin} from "./admin"
+import {recordAuditEvent} from "./audit"
+import {logAuth} from "./logger"
+
+/**
+ * Admin impersonation
+ *
+ * The BetterAuth admin plugin issues the impersonation session (recording the
+ * admin in `session.impersonatedBy`) and restores the admin's own session on
+ * stop. This plugin scopes what that session may do: admins cannot be
+ * impersonated, security-sensitive endpoints are refused, and every start
+ * and stop is logged. Server actions check `isImpersonating()` themselves.
+ */
+
+// Impersonation sessions expire on their own after this long
+export const IMPERSONATION_TTL_SECONDS = 30 * 60
+
+export const impersonationRestrictedMessage =
+  "This action is not available while impersonating a user"
+
+// BetterAuth endpoints refused to impersonation sessions (matched by prefix)
+const restrictedPaths = [
+  "/change-password",
+  "/set-password",
+  "/change-email",
+  "/delete-user",
+  "/revoke-session",
+  "/revoke-other-sessions",
+  "/two-factor/",
+  "/passkey/",
+  "/link-social",
+  "/unlink-account",
+  // A key would outlive the impersonation session
+  "/api-key/",
+  "/admin/",
+]
+
+export function isImpersonating(current: {
+  session: {impersonatedBy?: string | null}
+}) {
+  return Boolean(current.session.impersonatedBy)
+}
+
+function isRestrictedPath(path: string) {
+  return (
+    path !== "/admin/stop-impersonating" &&
+    restrictedPaths.some(restricted => path.startsWith(restricted))
+  )
+}
+
+export const impersonation = () =>
+  ({
+    id: "impersonation",
+    hooks: {
+      before: [
+        {
+          matcher: ctx => isRestrictedPath(ctx.path),
+          handler: createAuthMiddleware(async ctx => {
+            const current = await getSessionFromCtx(ctx)
+            if (current?.session.impersonatedBy) {
+              throw new APIError("FORBIDDEN", {
+                code: "IMPERSONATION_RESTRICTED",
+                message: impersonationRestrictedMessage,
+              })
+            }
+          }),
+        },
+        {
+          matcher: ctx => ctx.path === "/admin/impersonate-user",
+          handler: createAuthMiddleware(async ctx => {
+            const target = await ctx.context.internalAdapter.findUserById(
+              String(ctx.body?.userId)
+            )
+            if (target && isAdmin(target as {role?: string | null})) {
+              throw new APIError("FORBIDDEN", {
+                code: "CANNOT_IMPERSONATE_ADMIN",
+                message: "Admins cannot be impersonated",
+              })
+            }
+          }),
+        },
+        {
+          // Logged before the session is swapped back, while the
+          // impersonated user is still known
+          matcher: ctx => ctx.path === "/admin/stop-impersonating",
+          handler: createAuthMiddleware(async ctx => {
+            const current = await getSessionFromCtx(ctx)
+            if (current?.session.impersonatedBy) {
+              logAuth("impersonation-stop", current.user.id, {
+                adminId: current.session.impersonatedBy,
+              })
+              await recordAuditEvent({
+                action: "auth.impersonation-stopped",
+                actor: {id: current.session.impersonatedBy},
+                target: {type: "user", id: current.user.id},
+                headers: ctx.request?.headers ?? ctx.headers,
+              })
+            }
+          }),
+        },
+      ],
+      after: [
+        {
+          matcher: ctx => ctx.path === "/admin/impersonate-user",
+          handler: createAuthMiddleware(async ctx => {
+            const returned = ctx.context.returned
+            if (!returned || returned instanceof APIError) return
+
+            const {session, user} = returned as {
+              session: {impersonatedBy: string; expiresAt: Date}
+              user: {id: string}
+            }
+            logAuth("impersonation-start", user.id, {
+              adminId: session.impersonatedBy,
+              expiresAt: session.expiresAt,
+            })
+            await recordAuditEvent({
+              action: "auth.impersonation-started",
+              actor: {id: session.impersonatedBy},
+              target: {type: "user", id: user.id},
+              headers: ctx.request?.headers ?? ctx.headers,
+              metadata: {expiresAt: session.expiresAt},
+            })
+          }),
+        },
+      ],
+    },
+  }) satisfies BetterAuthPlugin
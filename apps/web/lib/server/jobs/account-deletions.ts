@@ -0,0 +1,14 @@
+import {purgeScheduledDeletions} from "../account"
+import {inngest} from "./client"
+
+/**
+ * Deletes accounts whose deletion grace period has ended, once a day
+ */
+export const purgeAccountDeletions = inngest.createFunction(
+  {id: "purge-account-deletions"},
+  {cron: "0 3 * * *"},
+  async ({step}) => {
+    const deleted = await step.run("purge", () => purgeScheduledDeletions())
+    return {deleted}
+  }
+)
@@ -0,0 +1,19 @@
+import {EventSchemas, Inngest} from "inngest"
+
+/**
+ * Background jobs run by Inngest
+ *
+ * Functions live next to this client and are served from
+ * `app/api/inngest/route.ts`. Locally, run `npx inngest-cli@latest dev` to
+ * execute them; in production set INNGEST_EVENT_KEY and INNGEST_SIGNING_KEY.
+ */
+
+// Events sent with `inngest.send()` and the data they carry
+type Events = {
+  "account/data-export.requested": {data: {exportId: string}}
+}
+
+export const inngest = new Inngest({
+  id: "nextjs-starter",
+  schemas: new EventSchemas().fromRecord<Events>(),
+})
@@ -0,0 +1,41 @@
+import {
+  buildDataExport,
+  expireDataExports,
+  markDataExportFailed,
+  sendDataExportLink,
+} from "../data-export"
+import {inngest} from "./client"
+
+/**
+ * Builds a requested personal data export and emails the download link
+ */
+export const buildRequestedDataExport = inngest.createFunction(
+  {
+    id: "build-data-export",
+    onFailure: async ({event}) => {
+      await markDataExportFailed(event.data.event.data.exportId)
+    },
+  },
+  {event: "account/data-export.requested"},
+  async ({event, step}) => {
+    const {exportId} = event.data
+    // The bundle is stored by the step itself; step results stay small
+    const built = await step.run("build", () => buildDataExport(exportId))
+    if (built) {
+      await step.run("notify", () => sendDataExportLink(exportId))
+    }
+    return {built}
+  }
+)
+
+/**
+ * Clears export bundles that were not downloaded in time, every hour
+ */
+export const expireStaleDataExports = inngest.createFunction(
+  {id: "expire-data-exports"},
+  {cron: "0 * * * *"},
+  async ({step}) => {
+    const expired = await step.run("expire", () => expireDataExports())
+    return {expired}
+  }
+)
@@ -0,0 +1,11 @@
+import {purgeAccountDeletions} from "./account-deletions"
+import {buildRequestedDataExport, expireStaleDataExports} from "./data-export"
+
+export {inngest} from "./client"
+
+// Every function served by app/api/inngest
+export const functions = [
+  purgeAccountDeletions,
+  buildRequestedDataExport,
+  expireStaleDataExports,
+]
@@ -96,7 +96,14 @@ export function logQuery(query: string, duration?: number, context?: object) {
  * Log authentication event
  */
 export function logAuth(
-  event: "signin" | "signup" | "signout" | "verify" | "reset",
+  event:
+    | "signin"
+    | "signup"
+    | "signout"
+    | "verify"
+    | "reset"
+    | "impersonation-start"
+    | "impersonation-stop",
   userId?: string,
   context?: object
 ) {
@@ -0,0 +1,92 @@
+import type { GenericOAuthConfig } from "better-auth/plugins"
+
+/**
+ * OAuth / OIDC Providers
+ *
+ * Providers are enabled purely from environment variables:
+ * - GitHub: GITHUB_CLIENT_ID + GITHUB_CLIENT_SECRET
+ * - Google: GOOGLE_CLIENT_ID + GOOGLE_CLIENT_SECRET
+ * - Generic OIDC: OIDC_ISSUER + OIDC_CLIENT_ID + OIDC_CLIENT_SECRET
+ *   (OIDC_PROVIDER_NAME sets the button label)
+ *
+ * The UI additionally requires the `socialAuth` feature flag.
+ */
+
+export interface OAuthProviderInfo {
+  id: string
+  name: string
+  // "social" providers are built into BetterAuth, "oauth2" ones go through
+  // the genericOAuth plugin and use different client methods
+  type: "social" | "oauth2"
+}
+
+export const OIDC_PROVIDER_ID = "oidc"
+
+export const socialProviders = {
+  ...(process.env.GITHUB_CLIENT_ID &&
+    process.env.GITHUB_CLIENT_SECRET && {
+      github: {
+        clientId: process.env.GITHUB_CLIENT_ID,
+        clientSecret: process.env.GITHUB_CLIENT_SECRET,
+      },
+    }),
+  ...(process.env.GOOGLE_CLIENT_ID &&
+    process.env.GOOGLE_CLIENT_SECRET && {
+      google: {
+        clientId: process.env.GOOGLE_CLIENT_ID,
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+      },
+    }),
+}
+
+export const genericOAuthProviders: GenericOAuthConfig[] =
+  process.env.OIDC_ISSUER &&
+  process.env.OIDC_CLIENT_ID &&
+  process.env.OIDC_CLIENT_SECRET
+    ? [
+        {
+          providerId: OIDC_PROVIDER_ID,
+          discoveryUrl: `${process.env.OIDC_ISSUER.replace(/\/$/, "")}/.well-known/openid-configuration`,
+          clientId: process.env.OIDC_CLIENT_ID,
+          clientSecret: process.env.OIDC_CLIENT_SECRET,
+          scopes: ["openid", "email", "profile"],
+          pkce: true,
+        },
+      ]
+    : []
+
+// Providers whose email claims we trust enough to link to an existing
+// account with the same address
+export const trustedProviders = [
+  ...Object.keys(socialProviders),
+  ...genericOAuthProviders.map((provider) => provider.providerId),
+]
+
+const providerNames: Record<string, string> = {
+  github: "GitHub",
+  google: "Google",
+  [OIDC_PROVIDER_ID]: process.env.OIDC_PROVIDER_NAME || "SSO",
+  credential: "Email & password",
+}
+
+export function getProviderName(providerId: string) {
+  return providerNames[providerId] ?? providerId
+}
+
+/**
+ * Providers configured in this environment, for rendering sign-in buttons
+ */
+export function getOAuthProviders(): OAuthProviderInfo[] {
+  return [
+    ...Object.keys(socialProviders).map((id) => ({
+      id,
+      name: getProviderName(id),
+      type: "social" as const,
+    })),
+    ...genericOAuthProviders.map(({ providerId }) => ({
+      id: providerId,
+      name: getProviderName(providerId),
+      type: "oauth2" as const,
+    })),
+  ]
+}
@@ -0,0 +1,334 @@
+import {randomBytes, randomUUID} from "crypto"
+import {and, asc, eq, isNull} from "drizzle-orm"
+import type {MemberRole} from "../organization-roles"
+import {db} from "./db"
+import {invitations, members, organizations, sessions, users} from "./db/schema"
+import {sendOrganizationInviteEmail} from "./email"
+import {
+  consumeToken,
+  findToken,
+  getTokenExpiries,
+  issueToken,
+  revokeTokens,
+} from "./tokens"
+
+/**
+ * Organizations
+ *
+ * Users belong to organizations through `member` rows carrying their role.
+ * The organization a user is working in is stored per session
+ * (`session.activeOrganizationId`) and falls back to their first membership.
+ * Invitations are emailed as single-use tokens in the `verification` table
+ * and redeemed by `app/invitations/accept/route.ts`.
+ */
+
+// How long an invitation link stays valid
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface OrganizationMembership {
+  id: string
+  name: string
+  slug: string
+  role: MemberRole
+}
+
+export type AcceptInvitationResult =
+  | {ok: true; organizationId: string}
+  | {ok: false; reason: "invalid" | "expired" | "wrong-account"}
+
+function slugify(name: string) {
+  return (
+    name
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 48) || "organization"
+  )
+}
+
+/**
+ * Every organization the user belongs to, with their role in it
+ */
+export async function getUserOrganizations(
+  userId: string
+): Promise<OrganizationMembership[]> {
+  return db
+    .select({
+      id: organizations.id,
+      name: organizations.name,
+      slug: organizations.slug,
+      role: members.role,
+    })
+    .from(members)
+    .innerJoin(organizations, eq(members.organizationId, organizations.id))
+    .where(eq(members.userId, userId))
+    .orderBy(asc(organizations.name))
+}
+
+/**
+ * The session's active organization, falling back to the user's first
+ * membership when none is set or the user has since left it
+ */
+export async function resolveActiveOrganization({
+  userId,
+  activeOrganizationId,
+}: {
+  userId: string
+  activeOrganizationId?: string | null
+}) {
+  const memberships = await getUserOrganizations(userId)
+  const organization =
+    memberships.find(org => org.id === activeOrganizationId) ??
+    memberships[0] ??
+    null
+
+  return {organization, memberships}
+}
+
+export async function setActiveOrganization(
+  sessionId: string,
+  organizationId: string | null
+) {
+  await db
+    .update(sessions)
+    .set({activeOrganizationId: organizationId, updatedAt: new Date()})
+    .where(eq(sessions.id, sessionId))
+}
+
+export async function getMembership(organizationId: string, userId: string) {
+  return db.query.members.findFirst({
+    where: and(
+      eq(members.organizationId, organizationId),
+      eq(members.userId, userId)
+    ),
+  })
+}
+
+/**
+ * Create an organization with the given user as its owner
+ */
+export async function createOrganization({
+  name,
+  ownerId,
+}: {
+  name: string
+  ownerId: string
+}) {
+  const base = slugify(name)
+  const taken = await db.query.organizations.findFirst({
+    where: eq(organizations.slug, base),
+    columns: {id: true},
+  })
+  const slug = taken ? `${base}-${randomBytes(3).toString("hex")}` : base
+
+  return db.transaction(async tx => {
+    const [organization] = await tx
+      .insert(organizations)
+      .values({id: randomUUID(), name, slug})
+      .returning()
+
+    await tx.insert(members).values({
+      id: randomUUID(),
+      organizationId: organization.id,
+      userId: ownerId,
+      role: "owner",
+    })
+
+    return organization
+  })
+}
+
+export async function getOrganizationMembers(organizationId: string) {
+  return db
+    .select({
+      id: members.id,
+      userId: members.userId,
+      name: users.name,
+      email: users.email,
+      role: members.role,
+      createdAt: members.createdAt,
+    })
+    .from(members)
+    .innerJoin(users, eq(members.userId, users.id))
+    .where(eq(members.organizationId, organizationId))
+    .orderBy(asc(members.createdAt))
+}
+
+export async function getOrganizationMember(
+  organizationId: string,
+  memberId: string
+) {
+  return db.query.members.findFirst({
+    where: and(
+      eq(members.id, memberId),
+      eq(members.organizationId, organizationId)
+    ),
+  })
+}
+
+export async function removeMember(organizationId: string, memberId: string) {
+  await db
+    .delete(members)
+    .where(
+      and(eq(members.id, memberId), eq(members.organizationId, organizationId))
+    )
+}
+
+/**
+ * Invitations that have not been accepted, with the expiry of their link
+ * (null once the link has expired and been cleaned up)
+ */
+export async function getPendingInvitations(organizationId: string) {
+  const pending = await db
+    .select({
+      id: invitations.id,
+      email: invitations.email,
+      role: invitations.role,
+      createdAt: invitations.createdAt,
+    })
+    .from(invitations)
+    .where(
+      and(
+        eq(invitations.organizationId, organizationId),
+        isNull(invitations.acceptedAt)
+      )
+    )
+    .orderBy(asc(invitations.createdAt))
+
+  const expiries = await getTokenExpiries(
+    "organization-invite",
+    pending.map(invitation => invitation.id)
+  )
+
+  return pending.map(invitation => ({
+    ...invitation,
+    expiresAt: expiries.get(invitation.id) ?? null,
+  }))
+}
+
+/**
+ * Invite an email address to an organization and send the link
+ *
+ * Re-inviting an address with a pending invitation updates its role and
+ * replaces the previous link.
+ */
+export async function inviteToOrganization({
+  organization,
+  email,
+  role,
+  inviter,
+}: {
+  organization: {id: string; name: string}
+  email: string
+  role: MemberRole
+  inviter: {id: string; name: string}
+}) {
+  const normalizedEmail = email.trim().toLowerCase()
+
+  const existing = await db.query.invitations.findFirst({
+    where: and(
+      eq(invitations.organizationId, organization.id),
+      eq(invitations.email, normalizedEmail),
+      isNull(invitations.acceptedAt)
+    ),
+  })
+
+  const invitationId = existing?.id ?? randomUUID()
+  if (existing) {
+    await db
+      .update(invitations)
+      .set({role, invitedById: inviter.id})
+      .where(eq(invitations.id, existing.id))
+  } else {
+    await db.insert(invitations).values({
+      id: invitationId,
+      organizationId: organization.id,
+      email: normalizedEmail,
+      role,
+      invitedById: inviter.id,
+    })
+  }
+
+  const token = await issueToken("organization-invite", invitationId, {
+    expiresIn: INVITATION_TTL_MS,
+  })
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+  const url = `${baseUrl}/invitations/accept?token=${encodeURIComponent(token)}`
+
+  await sendOrganizationInviteEmail({
+    to: normalizedEmail,
+    organizationName: organization.name,
+    inviterName: inviter.name,
+    role,
+    url,
+    expiresInDays: INVITATION_TTL_MS / (24 * 60 * 60 * 1000),
+  })
+
+  return invitationId
+}
+
+export async function revokeInvitation(
+  organizationId: string,
+  invitationId: string
+) {
+  const [deleted] = await db
+    .delete(invitations)
+    .where(
+      and(
+        eq(invitations.id, invitationId),
+        eq(invitations.organizationId, organizationId)
+      )
+    )
+    .returning({id: invitations.id})
+
+  if (deleted) {
+    await revokeTokens("organization-invite", deleted.id)
+  }
+}
+
+/**
+ * Redeem an invitation link for the signed-in user
+ *
+ * The link is only consumed when the user's email matches the invited
+ * address, so opening it while signed in to another account does not
+ * burn it.
+ */
+export async function acceptInvitation(
+  token: string,
+  user: {id: string; email: string}
+): Promise<AcceptInvitationResult> {
+  const found = await findToken("organization-invite", token)
+  if (!found.ok) return found
+
+  const invitation = await db.query.invitations.findFirst({
+    where: eq(invitations.id, found.subject),
+  })
+  if (!invitation || invitation.acceptedAt) {
+    return {ok: false, reason: "invalid"}
+  }
+  if (invitation.email !== user.email.toLowerCase()) {
+    return {ok: false, reason: "wrong-account"}
+  }
+
+  const consumed = await consumeToken("organization-invite", token)
+  if (!consumed.ok) return consumed
+
+  await db.transaction(async tx => {
+    await tx
+      .insert(members)
+      .values({
+        id: randomUUID(),
+        organizationId: invitation.organizationId,
+        userId: user.id,
+        role: invitation.role,
+      })
+      .onConflictDoNothing()
+    await tx
+      .update(invitations)
+      .set({acceptedAt: new Date()})
+      .where(eq(invitations.id, invitation.id))
+  })
+
+  return {ok: true, organizationId: invitation.organizationId}
+}
@@ -0,0 +1,66 @@
+import {describe, it, expect, vi} from "vitest"
+import {betterAuth} from "better-auth"
+import {memoryAdapter} from "better-auth/adapters/memory"
+import {admin} from "better-auth/plugins"
+import {
+  enforcePasswordPolicy,
+  getPasswordPolicyError,
+  isBreachedPassword,
+} from "./password-policy"
+
+vi.mock("./db", () => ({db: {}}))
+
+describe("getPasswordPolicyError", () => {
+  it("returns the first shared policy message", () => {
+    expect(getPasswordPolicyError("short")).toBe(
+      "Password must be at least 8 characters"
+    )
+  })
+
+  it("rejects passwords from the bundled breached list", () => {
+    expect(getPasswordPolicyError("P@ssw0rd!")).toBe(
+      "This password has appeared in a data breach. Please choose a different one."
+    )
+  })
+
+  it("accepts a strong password that has not been breached", () => {
+    expect(getPasswordPolicyError("Correct-Horse-9")).toBeNull()
+  })
+})
+
+describe("isBreachedPassword", () => {
+  it("matches case-insensitively", () => {
+    expect(isBreachedPassword("PASSWORD123!")).toBe(true)
+    expect(isBreachedPassword("Correct-Horse-9")).toBe(false)
+  })
+})
+
+describe("enforcePasswordPolicy", () => {
+  const auth = betterAuth({
+    database: memoryAdapter({
+      user: [],
+      session: [],
+      account: [],
+      verification: [],
+    }),
+    secret: "test-secret-at-least-32-characters-long",
+    baseURL: "http://localhost:3000",
+    emailAndPassword: {enabled: true},
+    hooks: {before: enforcePasswordPolicy},
+    plugins: [admin()],
+  })
+
+  it("checks passwords set on an account without one", async () => {
+    await expect(
+      auth.api.setPassword({body: {newPassword: "P@ssw0rd!"}})
+    ).rejects.toMatchObject({body: {code: "WEAK_PASSWORD"}})
+  })
+
+  it("checks passwords admins set for users", async () => {
+    await expect(
+      auth.api.setUserPassword({
+        body: {userId: "user-1", newPassword: "short"},
+      })
+    ).rejects.toMatchObject({body: {code: "WEAK_PASSWORD"}})
+  })
+})
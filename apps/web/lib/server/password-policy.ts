@@ -0,0 +1,194 @@
+import {randomUUID} from "crypto"
+import {and, desc, eq, notInArray} from "drizzle-orm"
+import {
+  APIError,
+  createAuthMiddleware,
+  getSessionFromCtx,
+} from "better-auth/api"
+import {checkPassword, passwordMessages} from "../password-policy"
+import breachedPasswords from "./data/breached-passwords.json"
+import {db} from "./db"
+import {accounts, passwordHistory, users} from "./db/schema"
+
+/**
+ * Server-side password policy enforcement
+ *
+ * Runs as BetterAuth hooks on every endpoint that sets a password. On top of
+ * the shared rules in lib/password-policy.ts it rejects passwords from the
+ * bundled breached list (data/breached-passwords.json, checked offline and
+ * case-insensitively) and the user's last `passwordHistorySize` passwords.
+ */
+
+const breached = new Set(
+  breachedPasswords.map(password => password.toLowerCase())
+)
+
+// Endpoints that set a password, and the body field carrying it
+const passwordFields: Record<string, string> = {
+  "/sign-up/email": "password",
+  "/reset-password": "newPassword",
+  "/change-password": "newPassword",
+  "/set-password": "newPassword",
+  "/admin/set-user-password": "newPassword",
+}
+
+type VerifyPassword = (data: {
+  hash: string
+  password: string
+}) => Promise<boolean>
+
+export function isBreachedPassword(password: string) {
+  return breached.has(password.toLowerCase())
+}
+
+/**
+ * First policy violation for a new password, or null when it is acceptable
+ */
+export function getPasswordPolicyError(password: string): string | null {
+  const {errors} = checkPassword(password)
+  if (errors.length > 0) return errors[0]
+  if (isBreachedPassword(password)) return passwordMessages.breached
+  return null
+}
+
+async function getHistorySize(userId: string) {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: {passwordHistorySize: true},
+  })
+  return user?.passwordHistorySize ?? 0
+}
+
+async function getCredentialHash(userId: string) {
+  const account = await db.query.accounts.findFirst({
+    where: and(
+      eq(accounts.userId, userId),
+      eq(accounts.providerId, "credential")
+    ),
+    columns: {password: true},
+  })
+  return account?.password ?? null
+}
+
+/**
+ * Whether the password matches the current one or any in the user's history
+ */
+export async function isPasswordReused(
+  userId: string,
+  password: string,
+  verify: VerifyPassword
+) {
+  const size = await getHistorySize(userId)
+  if (size <= 0) return false
+
+  const recent = await db
+    .select({hash: passwordHistory.passwordHash})
+    .from(passwordHistory)
+    .where(eq(passwordHistory.userId, userId))
+    .orderBy(desc(passwordHistory.createdAt))
+    .limit(size)
+
+  // Accounts created before history was tracked only have the current hash
+  const current = await getCredentialHash(userId)
+  const hashes = [current, ...recent.map(entry => entry.hash)].filter(
+    (hash): hash is string => Boolean(hash)
+  )
+
+  for (const hash of hashes) {
+    if (await verify({hash, password})) return true
+  }
+  return false
+}
+
+/**
+ * Append the user's current password hash to their history and drop
+ * entries beyond their history size
+ */
+export async function recordPasswordHistory(userId: string) {
+  const [size, hash] = await Promise.all([
+    getHistorySize(userId),
+    getCredentialHash(userId),
+  ])
+
+  if (hash && size > 0) {
+    await db.insert(passwordHistory).values({
+      id: randomUUID(),
+      userId,
+      passwordHash: hash,
+    })
+  }
+
+  const keep = await db
+    .select({id: passwordHistory.id})
+    .from(passwordHistory)
+    .where(eq(passwordHistory.userId, userId))
+    .orderBy(desc(passwordHistory.createdAt))
+    .limit(size)
+
+  await db.delete(passwordHistory).where(
+    and(
+      eq(passwordHistory.userId, userId),
+      notInArray(
+        passwordHistory.id,
+        keep.map(entry => entry.id)
+      )
+    )
+  )
+}
+
+/**
+ * BetterAuth before hook: reject passwords that break the policy
+ */
+export const enforcePasswordPolicy = createAuthMiddleware(async ctx => {
+  const field = passwordFields[ctx.path]
+  const password = field ? ctx.body?.[field] : undefined
+  if (typeof password !== "string") return
+
+  const error = getPasswordPolicyError(password)
+  if (error) {
+    throw new APIError("BAD_REQUEST", {code: "WEAK_PASSWORD", message: error})
+  }
+
+  let userId: string | undefined
+  if (ctx.path === "/reset-password") {
+    const token = ctx.body?.token ?? ctx.query?.token
+    const verification = token
+      ? await ctx.context.internalAdapter.findVerificationValue(
+          `reset-password:${token}`
+        )
+      : null
+    userId = verification?.value
+  } else if (ctx.path === "/admin/set-user-password") {
+    userId = typeof ctx.body?.userId === "string" ? ctx.body.userId : undefined
+  } else {
+    userId = (await getSessionFromCtx(ctx))?.user.id
+  }
+
+  if (
+    userId &&
+    (await isPasswordReused(userId, password, ctx.context.password.verify))
+  ) {
+    throw new APIError("BAD_REQUEST", {
+      code: "PASSWORD_REUSED",
+      message: passwordMessages.reused,
+    })
+  }
+})
+
+/**
+ * BetterAuth after hook: remember passwords set through sign-up and change
+ *
+ * Resets are recorded through `emailAndPassword.onPasswordReset`, since the
+ * reset token (and with it the user) is gone by the time after hooks run.
+ */
+export const recordPasswordChange = createAuthMiddleware(async ctx => {
+  if (ctx.path !== "/sign-up/email" && ctx.path !== "/change-password") return
+
+  const returned = ctx.context.returned
+  if (!returned || returned instanceof APIError) return
+
+  const userId = (returned as {user?: {id?: string}}).user?.id
+  if (userId) {
+    await recordPasswordHistory(userId)
+  }
+})
@@ -0,0 +1,247 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {redirect} from "next/navigation"
+import type {MemberRole} from "../organization-roles"
+import type {Permission} from "../permissions"
+import {
+  PermissionError,
+  requireAdmin,
+  requirePermission,
+  withAdmin,
+  withPermission,
+} from "./permissions"
+import {getCurrentSession} from "./session"
+
+vi.mock("next/navigation", () => ({
+  redirect: vi.fn(() => {
+    throw new Error("NEXT_REDIRECT")
+  }),
+}))
+
+vi.mock("./session", () => ({
+  getCurrentSession: vi.fn(),
+}))
+
+function sessionWithRole(role: MemberRole | null) {
+  return {
+    session: {id: "session-1"},
+    user: {id: "user-1"},
+    organization: role ? {id: "org-1", name: "Acme", slug: "acme", role} : null,
+    memberships: [],
+  } as never
+}
+
+// A permission each role lacks
+const deniedByRole: [MemberRole, Permission][] = [
+  ["admin", "organization:delete"],
+  ["member", "members:invite"],
+  ["viewer", "content:write"],
+]
+
+describe("requirePermission", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it.each(deniedByRole)(
+    "throws a 403 PermissionError when %s lacks %s",
+    async (role, permission) => {
+      vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole(role))
+
+      const error = await requirePermission(permission).catch(e => e)
+
+      expect(error).toBeInstanceOf(PermissionError)
+      expect(error).toMatchObject({
+        reason: "forbidden",
+        status: 403,
+        permission,
+      })
+    }
+  )
+
+  it("throws a 401 PermissionError when signed out", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(null)
+
+    await expect(requirePermission("members:read")).rejects.toMatchObject({
+      reason: "unauthenticated",
+      status: 401,
+    })
+  })
+
+  it("denies users without an active organization", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole(null))
+
+    await expect(requirePermission("members:read")).rejects.toMatchObject({
+      reason: "no-organization",
+      status: 403,
+    })
+  })
+
+  it("returns the session when the role grants the permission", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("owner"))
+
+    const current = await requirePermission("organization:delete")
+
+    expect(current.organization.id).toBe("org-1")
+  })
+
+  it("limits API key requests to the key's scopes", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue({
+      ...(sessionWithRole("owner") as object),
+      apiKey: {id: "key-1", scopes: ["members:read"], organizationId: "org-1"},
+    } as never)
+
+    await expect(requirePermission("members:read")).resolves.toBeTruthy()
+    await expect(requirePermission("members:remove")).rejects.toMatchObject({
+      reason: "forbidden",
+      permission: "members:remove",
+    })
+  })
+
+  it("redirects instead of throwing when given a destination", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("viewer"))
+
+    await expect(
+      requirePermission("members:invite", {redirectTo: "/dashboard"})
+    ).rejects.toThrow("NEXT_REDIRECT")
+    expect(redirect).toHaveBeenCalledWith("/dashboard")
+  })
+
+  it("sends signed-out users to sign in when redirecting", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(null)
+
+    await expect(
+      requirePermission("members:invite", {redirectTo: "/dashboard"})
+    ).rejects.toThrow("NEXT_REDIRECT")
+    expect(redirect).toHaveBeenCalledWith("/auth/signin")
+  })
+})
+
+describe("requireAdmin", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("refuses users without the admin role, whatever their organization role", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue({
+      ...(sessionWithRole("owner") as object),
+      user: {id: "user-1", role: "user"},
+    } as never)
+
+    await expect(requireAdmin()).rejects.toMatchObject({
+      reason: "forbidden",
+      status: 403,
+    })
+  })
+
+  it("redirects signed-out users to sign in", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(null)
+
+    await expect(requireAdmin({redirectTo: "/dashboard"})).rejects.toThrow(
+      "NEXT_REDIRECT"
+    )
+    expect(redirect).toHaveBeenCalledWith("/auth/signin")
+  })
+
+  it("refuses API keys, even an admin's", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue({
+      ...(sessionWithRole(null) as object),
+      user: {id: "admin-1", role: "admin"},
+      apiKey: {id: "key-1", scopes: [], organizationId: null},
+    } as never)
+
+    await expect(requireAdmin()).rejects.toMatchObject({reason: "forbidden"})
+  })
+
+  it("returns the session for admins", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue({
+      ...(sessionWithRole(null) as object),
+      user: {id: "admin-1", role: "admin"},
+    } as never)
+
+    await expect(requireAdmin()).resolves.toMatchObject({
+      user: {id: "admin-1"},
+    })
+  })
+})
+
+describe("withPermission", () => {
+  const handler = vi.fn(async () => Response.json({ok: true}))
+  const route = withPermission("members:remove", handler)
+  const request = new Request("http://localhost/api/organization/members")
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it.each<MemberRole>(["member", "viewer"])(
+    "responds 403 for %s",
+    async role => {
+      vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole(role))
+
+      const response = await route(request, {})
+
+      expect(response.status).toBe(403)
+      expect(await response.json()).toEqual({
+        code: "forbidden",
+        message: "You do not have permission to do that",
+      })
+      expect(handler).not.toHaveBeenCalled()
+    }
+  )
+
+  it("responds 401 when signed out", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(null)
+
+    const response = await route(request, {})
+
+    expect(response.status).toBe(401)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it("passes the session to the handler when allowed", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue(sessionWithRole("admin"))
+
+    const response = await route(request, {})
+
+    expect(response.status).toBe(200)
+    expect(handler).toHaveBeenCalledWith(
+      request,
+      {},
+      expect.objectContaining({organization: expect.anything()})
+    )
+  })
+})
+
+describe("withAdmin", () => {
+  const handler = vi.fn(async () => new Response("ok"))
+  const route = withAdmin(handler)
+  const request = new Request("http://localhost/admin/audit/export")
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("responds 403 for non-admins", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue({
+      ...(sessionWithRole("owner") as object),
+      user: {id: "user-1", role: "user"},
+    } as never)
+
+    const response = await route(request, {})
+
+    expect(response.status).toBe(403)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it("runs the handler for admins", async () => {
+    vi.mocked(getCurrentSession).mockResolvedValue({
+      ...(sessionWithRole(null) as object),
+      user: {id: "admin-1", role: "admin"},
+    } as never)
+
+    const response = await route(request, {})
+
+    expect(response.status).toBe(200)
+    expect(handler).toHaveBeenCalledOnce()
+  })
+})
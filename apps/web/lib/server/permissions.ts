@@ -0,0 +1,163 @@
+import {redirect} from "next/navigation"
+import {hasPermission, type Permission} from "../permissions"
+import {isAdmin} from "./admin"
+import {getCurrentSession, type CurrentSession} from "./session"
+
+/**
+ * Server-side permission checks
+ *
+ * `requirePermission()` resolves the signed-in user's role in their active
+ * organization and checks it against the matrix in lib/permissions.ts:
+ *
+ * - Layouts and pages pass `redirectTo` and are redirected on denial
+ * - Server actions let the `PermissionError` reach their catch block and
+ *   return its message
+ * - Route handlers wrap themselves in `withPermission()`, which turns the
+ *   error into a 401/403 JSON response
+ *
+ * `requireAdmin()` and `withAdmin()` work the same way for the site-wide
+ * admin role, which is independent of organization roles.
+ */
+
+export type PermissionDenialReason =
+  | "unauthenticated"
+  | "no-organization"
+  | "forbidden"
+
+const denialMessages: Record<PermissionDenialReason, string> = {
+  unauthenticated: "You must be signed in",
+  "no-organization": "Select an organization first",
+  forbidden: "You do not have permission to do that",
+}
+
+export class PermissionError extends Error {
+  readonly reason: PermissionDenialReason
+  // Unset for site admin checks
+  readonly permission?: Permission
+
+  constructor(reason: PermissionDenialReason, permission?: Permission) {
+    super(denialMessages[reason])
+    this.name = "PermissionError"
+    this.reason = reason
+    this.permission = permission
+  }
+
+  get status() {
+    return this.reason === "unauthenticated" ? 401 : 403
+  }
+}
+
+export type PermissionContext = CurrentSession & {
+  organization: NonNullable<CurrentSession["organization"]>
+}
+
+// Redirect layouts and pages, throw everywhere else
+function deny(
+  reason: PermissionDenialReason,
+  {permission, redirectTo}: {permission?: Permission; redirectTo?: string}
+): never {
+  if (redirectTo) {
+    redirect(reason === "unauthenticated" ? "/auth/signin" : redirectTo)
+  }
+  throw new PermissionError(reason, permission)
+}
+
+/**
+ * The current session if its role in the active organization grants the
+ * permission (and, for API key requests, the key has it in scope)
+ *
+ * Throws a `PermissionError` on denial, or redirects when `redirectTo` is
+ * given (signed-out users always go to the sign-in page).
+ */
+export async function requirePermission(
+  permission: Permission,
+  {redirectTo}: {redirectTo?: string} = {}
+): Promise<PermissionContext> {
+  const current = await getCurrentSession()
+
+  if (!current) {
+    return deny("unauthenticated", {permission, redirectTo})
+  }
+  if (!current.organization) {
+    return deny("no-organization", {permission, redirectTo})
+  }
+  if (!hasPermission(current.organization.role, permission)) {
+    return deny("forbidden", {permission, redirectTo})
+  }
+  // API keys are further limited to their scopes
+  if (current.apiKey && !current.apiKey.scopes.includes(permission)) {
+    return deny("forbidden", {permission, redirectTo})
+  }
+
+  return current as PermissionContext
+}
+
+/**
+ * The current session if the user is a site admin
+ *
+ * Denial behaves as in `requirePermission()`.
+ */
+export async function requireAdmin({
+  redirectTo,
+}: {redirectTo?: string} = {}): Promise<CurrentSession> {
+  const current = await getCurrentSession()
+
+  if (!current) {
+    return deny("unauthenticated", {redirectTo})
+  }
+  // Admin access always needs a signed-in browser session
+  if (!isAdmin(current.user) || current.apiKey) {
+    return deny("forbidden", {redirectTo})
+  }
+
+  return current
+}
+
+// Run the handler once the check passes, answering denials with JSON
+function guarded<T, C>(
+  check: () => Promise<C>,
+  handler: (request: Request, context: T, current: C) => Promise<Response>
+) {
+  return async (request: Request, context: T) => {
+    let current: C
+    try {
+      current = await check()
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return Response.json(
+          {code: error.reason, message: error.message},
+          {status: error.status}
+        )
+      }
+      throw error
+    }
+    return handler(request, context, current)
+  }
+}
+
+/**
+ * Wrap a route handler so it only runs for users holding the permission
+ */
+export function withPermission<T>(
+  permission: Permission,
+  handler: (
+    request: Request,
+    context: T,
+    current: PermissionContext
+  ) => Promise<Response>
+) {
+  return guarded(() => requirePermission(permission), handler)
+}
+
+/**
+ * Wrap a route handler so it only runs for site admins
+ */
+export function withAdmin<T>(
+  handler: (
+    request: Request,
+    context: T,
+    current: CurrentSession
+  ) => Promise<Response>
+) {
+  return guarded(() => requireAdmin(), handler)
+}
@@ -0,0 +1,258 @@
+import {getClientIp} from "../../client-ip"
+import {createLogger, logError} from "../logger"
+import {
+  formatRetryAfter,
+  getRateLimitStore,
+  isRateLimitEnabled,
+  retryAfterSeconds,
+} from "."
+import type {RateLimitRule} from "./types"
+
+/**
+ * Brute-force protection for the authentication endpoints
+ *
+ * Every limited request counts against a per-IP window and, when the body
+ * carries an email, a per-email window. Second-factor checks also count
+ * against the pending sign-in they belong to (BetterAuth's two-factor
+ * cookie), so spreading guesses across addresses does not help: a new
+ * pending sign-in takes the password again, which the per-email sign-in
+ * window caps. Failed password sign-ins also count towards a lockout
+ * window; once it is full the account rejects sign-ins until the oldest
+ * failure ages out, even with the right password.
+ */
+
+const log = createLogger({module: "rate-limit"})
+
+const MINUTE = 60 * 1000
+
+export type AuthRateLimitAction =
+  | "signIn"
+  | "signUp"
+  | "forgotPassword"
+  | "verification"
+  | "magicLink"
+  | "twoFactor"
+
+export const authRateLimits: Record<
+  AuthRateLimitAction,
+  {ip: RateLimitRule; email?: RateLimitRule; pendingSignIn?: RateLimitRule}
+> = {
+  signIn: {
+    ip: {name: "sign-in:ip", limit: 20, windowMs: 15 * MINUTE},
+    email: {name: "sign-in:email", limit: 10, windowMs: 15 * MINUTE},
+  },
+  signUp: {
+    ip: {name: "sign-up:ip", limit: 5, windowMs: 60 * MINUTE},
+  },
+  forgotPassword: {
+    ip: {name: "forgot-password:ip", limit: 10, windowMs: 15 * MINUTE},
+    email: {name: "forgot-password:email", limit: 3, windowMs: 15 * MINUTE},
+  },
+  verification: {
+    ip: {name: "verification:ip", limit: 10, windowMs: 15 * MINUTE},
+    email: {name: "verification:email", limit: 3, windowMs: 15 * MINUTE},
+  },
+  magicLink: {
+    ip: {name: "magic-link:ip", limit: 10, windowMs: 15 * MINUTE},
+    email: {name: "magic-link:email", limit: 3, windowMs: 15 * MINUTE},
+  },
+  // Second-factor codes are short, so guesses are counted tightly
+  twoFactor: {
+    ip: {name: "two-factor:ip", limit: 10, windowMs: 15 * MINUTE},
+    pendingSignIn: {
+      name: "two-factor:sign-in",
+      limit: 5,
+      windowMs: 15 * MINUTE,
+    },
+  },
+}
+
+// Failed password sign-ins per email before the account is locked
+export const accountLockout: RateLimitRule = {
+  name: "lockout",
+  limit: 5,
+  windowMs: 15 * MINUTE,
+}
+
+// Paths below /api/auth that are limited, keyed to their rules
+const authEndpoints: Record<string, AuthRateLimitAction> = {
+  "/sign-in/email": "signIn",
+  "/sign-up/email": "signUp",
+  "/forget-password": "forgotPassword",
+  "/request-password-reset": "forgotPassword",
+  "/send-verification-email": "verification",
+  "/sign-in/magic-link": "magicLink",
+  "/two-factor/send-otp": "twoFactor",
+  "/two-factor/verify-otp": "twoFactor",
+  "/two-factor/verify-totp": "twoFactor",
+  "/two-factor/verify-backup-code": "twoFactor",
+}
+
+export interface RateLimitDenial {
+  code: "RATE_LIMITED" | "ACCOUNT_LOCKED"
+  message: string
+  retryAfter: number
+  limit: number
+}
+
+// BetterAuth's cookie for a sign-in waiting on its second factor, named
+// "better-auth.two_factor" (with a "__Secure-" prefix over HTTPS)
+const TWO_FACTOR_COOKIE_SUFFIX = ".two_factor"
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Count an auth request and return why it was refused, if it was
+ */
+export async function limitAuthRequest(
+  action: AuthRateLimitAction,
+  {
+    ip,
+    email,
+    pendingSignIn,
+  }: {ip: string; email?: string; pendingSignIn?: string}
+): Promise<RateLimitDenial | null> {
+  if (!isRateLimitEnabled()) return null
+
+  const store = getRateLimitStore()
+  const emailKey = email ? normalizeEmail(email) : undefined
+
+  if (action === "signIn" && emailKey) {
+    const lock = await store.peek(accountLockout, emailKey)
+    if (!lock.success) {
+      const retryAfter = retryAfterSeconds(lock)
+      return {
+        code: "ACCOUNT_LOCKED",
+        message: `Too many failed sign-in attempts. This account is locked for ${formatRetryAfter(retryAfter)}.`,
+        retryAfter,
+        limit: lock.limit,
+      }
+    }
+  }
+
+  const rules = authRateLimits[action]
+  const results = await Promise.all([
+    store.limit(rules.ip, ip),
+    ...(rules.email && emailKey ? [store.limit(rules.email, emailKey)] : []),
+    ...(rules.pendingSignIn && pendingSignIn
+      ? [store.limit(rules.pendingSignIn, pendingSignIn)]
+      : []),
+  ])
+
+  const denied = results.filter(result => !result.success)
+  if (denied.length === 0) return null
+
+  const retryAfter = Math.max(...denied.map(retryAfterSeconds))
+  log.warn({action, ip}, "Auth rate limit exceeded")
+  return {
+    code: "RATE_LIMITED",
+    message: `Too many attempts. Please try again in ${formatRetryAfter(retryAfter)}.`,
+    retryAfter,
+    limit: denied[0].limit,
+  }
+}
+
+/**
+ * Track password sign-in outcomes for the account lockout window
+ *
+ * A successful sign-in clears earlier failures.
+ */
+export async function recordSignInResult(email: string, succeeded: boolean) {
+  if (!isRateLimitEnabled()) return
+
+  const store = getRateLimitStore()
+  const emailKey = normalizeEmail(email)
+
+  if (succeeded) {
+    await store.reset(accountLockout, emailKey)
+    return
+  }
+
+  const result = await store.limit(accountLockout, emailKey)
+  if (result.remaining === 0) {
+    log.warn({email: emailKey}, "Account locked after repeated failed sign-ins")
+  }
+}
+
+/**
+ * 429 response in BetterAuth's error shape so auth clients surface the message
+ */
+export function rateLimitResponse(denial: RateLimitDenial) {
+  return Response.json(
+    {code: denial.code, message: denial.message},
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(denial.retryAfter),
+        "X-RateLimit-Limit": String(denial.limit),
+        "X-RateLimit-Remaining": "0",
+      },
+    }
+  )
+}
+
+async function readEmail(request: Request) {
+  const body = await request
+    .clone()
+    .json()
+    .catch(() => null)
+  return typeof body?.email === "string" ? body.email : undefined
+}
+
+function readTwoFactorCookie(request: Request) {
+  const cookies = (request.headers.get("cookie") ?? "").split(";")
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split("=")
+    if (name.endsWith(TWO_FACTOR_COOKIE_SUFFIX)) return value.join("=")
+  }
+  return undefined
+}
+
+/**
+ * Wrap the BetterAuth POST handler with per-endpoint limits
+ *
+ * Limiter failures (e.g. Redis unavailable) are logged and the request is
+ * let through rather than locking everyone out.
+ */
+export function withAuthRateLimit(
+  handler: (request: Request) => Promise<Response>
+) {
+  return async (request: Request) => {
+    const path = new URL(request.url).pathname.replace(/^\/api\/auth/, "")
+    const action = authEndpoints[path]
+    if (!action || !isRateLimitEnabled()) {
+      return handler(request)
+    }
+
+    const email = await readEmail(request)
+
+    try {
+      const denial = await limitAuthRequest(action, {
+        ip: getClientIp(request.headers),
+        email,
+        pendingSignIn: readTwoFactorCookie(request),
+      })
+      if (denial) return rateLimitResponse(denial)
+    } catch (error) {
+      logError(error as Error, {module: "rate-limit", action})
+    }
+
+    const response = await handler(request)
+
+    // 401 is BetterAuth's "invalid email or password"; other failures such
+    // as an unverified email do not count towards the lockout
+    if (
+      action === "signIn" &&
+      email &&
+      (response.ok || response.status === 401)
+    ) {
+      await recordSignInResult(email, response.ok).catch((error: Error) =>
+        logError(error, {module: "rate-limit", action})
+      )
+    }
+
+    return response
+  }
+}
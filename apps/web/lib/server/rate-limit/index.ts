@@ -0,0 +1,82 @@
+import {Redis} from "@upstash/redis"
+import {createMemoryStore} from "./stores/memory"
+import {createUpstashStore} from "./stores/upstash"
+import type {RateLimitResult, RateLimitStore} from "./types"
+
+/**
+ * Rate Limiting
+ *
+ * Backend selection (RATE_LIMIT_BACKEND):
+ * - "upstash": Redis sliding windows shared across instances
+ *   (requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN)
+ * - "memory": per-process counters for local development and tests
+ *
+ * When RATE_LIMIT_BACKEND is unset, Upstash is used if its URL is
+ * configured and memory otherwise. RATE_LIMIT_DISABLED="true" turns every
+ * check into a no-op (used by the e2e suite, which signs up many users
+ * from one address).
+ */
+
+export type {RateLimitResult, RateLimitRule, RateLimitStore} from "./types"
+
+let store: RateLimitStore | undefined
+
+function createStore(): RateLimitStore {
+  const kind =
+    process.env.RATE_LIMIT_BACKEND ||
+    (process.env.UPSTASH_REDIS_REST_URL ? "upstash" : "memory")
+
+  switch (kind) {
+    case "upstash":
+      if (
+        !process.env.UPSTASH_REDIS_REST_URL ||
+        !process.env.UPSTASH_REDIS_REST_TOKEN
+      ) {
+        throw new Error(
+          "UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are required for the upstash rate limit backend"
+        )
+      }
+      return createUpstashStore({redis: Redis.fromEnv()})
+    case "memory":
+      return createMemoryStore()
+    default:
+      throw new Error(`Unknown RATE_LIMIT_BACKEND "${kind}"`)
+  }
+}
+
+/**
+ * Get the configured store (created once per process)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  store ??= createStore()
+  return store
+}
+
+/**
+ * Replace the active store (useful in tests)
+ */
+export function setRateLimitStore(next: RateLimitStore | undefined) {
+  store = next
+}
+
+export function isRateLimitEnabled() {
+  return process.env.RATE_LIMIT_DISABLED !== "true"
+}
+
+/**
+ * Whole seconds until the limited caller may retry (at least 1)
+ */
+export function retryAfterSeconds(result: Pick<RateLimitResult, "reset">) {
+  return Math.max(1, Math.ceil((result.reset - Date.now()) / 1000))
+}
+
+/**
+ * Human-readable wait, e.g. "30 seconds" or "15 minutes"
+ */
+export function formatRetryAfter(seconds: number) {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`
+  }
+  const minutes = Math.ceil(seconds / 60)
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`
+}
@@ -0,0 +1,187 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from "vitest"
+import {setRateLimitStore, type RateLimitStore} from "."
+import {accountLockout, limitAuthRequest, withAuthRateLimit} from "./auth"
+import {createMemoryStore} from "./stores/memory"
+
+const rule = {name: "test", limit: 2, windowMs: 60_000}
+
+describe("memory store", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("allows hits up to the limit within the window", async () => {
+    const store = createMemoryStore()
+
+    expect((await store.limit(rule, "a")).success).toBe(true)
+    expect((await store.limit(rule, "a")).remaining).toBe(0)
+    expect((await store.limit(rule, "a")).success).toBe(false)
+    // Keys are counted independently
+    expect((await store.limit(rule, "b")).success).toBe(true)
+  })
+
+  it("slides the window as old hits expire", async () => {
+    const store = createMemoryStore()
+    await store.limit(rule, "a")
+    vi.advanceTimersByTime(30_000)
+    await store.limit(rule, "a")
+
+    const denied = await store.limit(rule, "a")
+    expect(denied.success).toBe(false)
+    expect(denied.reset - Date.now()).toBe(30_000)
+
+    vi.advanceTimersByTime(30_001)
+    expect((await store.limit(rule, "a")).success).toBe(true)
+  })
+
+  it("peeks without counting a hit", async () => {
+    const store = createMemoryStore()
+    await store.peek(rule, "a")
+    await store.peek(rule, "a")
+
+    expect((await store.limit(rule, "a")).remaining).toBe(1)
+  })
+
+  it("evicts the least recently used key past its capacity", async () => {
+    const store = createMemoryStore({maxKeys: 2})
+    await store.limit(rule, "a")
+    await store.limit(rule, "a")
+    await store.limit(rule, "b")
+    // "a" is used again, so "b" is now the oldest
+    await store.peek(rule, "a")
+    await store.limit(rule, "c")
+
+    expect((await store.peek(rule, "a")).remaining).toBe(0)
+    expect((await store.peek(rule, "b")).remaining).toBe(2)
+  })
+})
+
+describe("withAuthRateLimit", () => {
+  let store: RateLimitStore
+  const handler = vi.fn<(request: Request) => Promise<Response>>()
+  const POST = withAuthRateLimit(handler)
+
+  function signIn(email = "ada@example.com", ip = "203.0.113.7") {
+    return POST(
+      new Request("http://localhost:3000/api/auth/sign-in/email", {
+        method: "POST",
+        headers: {"content-type": "application/json", "x-forwarded-for": ip},
+        body: JSON.stringify({email, password: "wrong"}),
+      })
+    )
+  }
+
+  beforeEach(() => {
+    store = createMemoryStore()
+    setRateLimitStore(store)
+    handler.mockReset()
+    handler.mockResolvedValue(new Response(null, {status: 401}))
+  })
+
+  afterEach(() => {
+    setRateLimitStore(undefined)
+  })
+
+  it("passes unlimited endpoints straight through", async () => {
+    handler.mockResolvedValue(new Response("ok"))
+
+    const response = await POST(
+      new Request("http://localhost:3000/api/auth/sign-out", {method: "POST"})
+    )
+
+    expect(response.status).toBe(200)
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it("locks the account after repeated failed sign-ins", async () => {
+    for (let i = 0; i < accountLockout.limit; i++) {
+      expect((await signIn()).status).toBe(401)
+    }
+
+    const response = await signIn()
+
+    expect(response.status).toBe(429)
+    expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(0)
+    expect(await response.json()).toMatchObject({code: "ACCOUNT_LOCKED"})
+    expect(handler).toHaveBeenCalledTimes(accountLockout.limit)
+  })
+
+  it("clears failures after a successful sign-in", async () => {
+    for (let i = 0; i < accountLockout.limit - 1; i++) {
+      await signIn()
+    }
+    handler.mockResolvedValueOnce(new Response("{}", {status: 200}))
+    await signIn()
+
+    expect(
+      (await store.peek(accountLockout, "ada@example.com")).remaining
+    ).toBe(accountLockout.limit)
+  })
+
+  it("limits sign-ins per IP across different emails", async () => {
+    for (let i = 0; i < 20; i++) {
+      await signIn(`user-${i}@example.com`)
+    }
+
+    const response = await signIn("someone-else@example.com")
+
+    expect(response.status).toBe(429)
+    expect(await response.json()).toMatchObject({code: "RATE_LIMITED"})
+    // Another address is unaffected
+    expect((await signIn("other@example.com", "198.51.100.1")).status).toBe(401)
+  })
+
+  it("limits second-factor guesses per IP", async () => {
+    function verifyTotp() {
+      return POST(
+        new Request("http://localhost:3000/api/auth/two-factor/verify-totp", {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "x-forwarded-for": "203.0.113.7",
+          },
+          body: JSON.stringify({code: "000000"}),
+        })
+      )
+    }
+
+    for (let i = 0; i < 10; i++) {
+      expect((await verifyTotp()).status).toBe(401)
+    }
+
+    expect((await verifyTotp()).status).toBe(429)
+    expect(handler).toHaveBeenCalledTimes(10)
+  })
+
+  it("limits second-factor guesses per pending sign-in across IPs", async () => {
+    // Request strips Cookie headers here, so the limiter is called directly
+    const pendingSignIn = "2fa-abc.signature"
+    for (let i = 0; i < 5; i++) {
+      expect(
+        await limitAuthRequest("twoFactor", {
+          ip: `203.0.113.${i}`,
+          pendingSignIn,
+        })
+      ).toBeNull()
+    }
+
+    expect(
+      await limitAuthRequest("twoFactor", {ip: "198.51.100.1", pendingSignIn})
+    ).toMatchObject({code: "RATE_LIMITED"})
+  })
+
+  it("lets requests through when the store fails", async () => {
+    setRateLimitStore({
+      ...store,
+      peek: vi.fn().mockRejectedValue(new Error("redis down")),
+      limit: vi.fn().mockRejectedValue(new Error("redis down")),
+    })
+
+    expect((await signIn()).status).toBe(401)
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,77 @@
+import type {RateLimitResult, RateLimitRule, RateLimitStore} from "../types"
+
+// Keys tracked at once before the least recently used are dropped
+const DEFAULT_MAX_KEYS = 10_000
+
+/**
+ * In-process sliding window log for local development and tests
+ *
+ * Counters live in this process only, so limits are per server instance
+ * and reset on restart. Use the Upstash store in production.
+ *
+ * Keys come from request data, so memory is bounded: a key is forgotten
+ * once its window is empty, and past `maxKeys` the least recently used key
+ * is evicted.
+ */
+export function createMemoryStore({
+  maxKeys = DEFAULT_MAX_KEYS,
+}: {maxKeys?: number} = {}): RateLimitStore {
+  // Map iteration follows insertion order, so re-inserting a key on every
+  // use keeps the least recently used one first
+  const hits = new Map<string, number[]>()
+
+  function recentHits(rule: RateLimitRule, key: string, now: number) {
+    const id = `${rule.name}:${key}`
+    const recent = (hits.get(id) ?? []).filter(
+      timestamp => timestamp > now - rule.windowMs
+    )
+    hits.delete(id)
+    return recent
+  }
+
+  function save(rule: RateLimitRule, key: string, recent: number[]) {
+    if (recent.length === 0) return
+    hits.set(`${rule.name}:${key}`, recent)
+    while (hits.size > maxKeys) {
+      hits.delete(hits.keys().next().value!)
+    }
+  }
+
+  function toResult(
+    rule: RateLimitRule,
+    recent: number[],
+    success: boolean,
+    now: number
+  ): RateLimitResult {
+    return {
+      success,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - recent.length),
+      reset: recent.length > 0 ? recent[0] + rule.windowMs : now,
+    }
+  }
+
+  return {
+    name: "memory",
+
+    async limit(rule, key) {
+      const now = Date.now()
+      const recent = recentHits(rule, key, now)
+      const success = recent.length < rule.limit
+      if (success) recent.push(now)
+      save(rule, key, recent)
+      return toResult(rule, recent, success, now)
+    },
+
+    async peek(rule, key) {
+      const now = Date.now()
+      const recent = recentHits(rule, key, now)
+      save(rule, key, recent)
+      return toResult(rule, recent, recent.length < rule.limit, now)
+    },
+
+    async reset(rule, key) {
+      hits.delete(`${rule.name}:${key}`)
+    },
+  }
+}
@@ -0,0 +1,42 @@
+import {Ratelimit} from "@upstash/ratelimit"
+import type {Redis} from "@upstash/redis"
+import type {RateLimitRule, RateLimitStore} from "../types"
+
+/**
+ * Redis-backed sliding window shared by every server instance
+ */
+export function createUpstashStore({redis}: {redis: Redis}): RateLimitStore {
+  const limiters = new Map<string, Ratelimit>()
+
+  function limiterFor(rule: RateLimitRule) {
+    let limiter = limiters.get(rule.name)
+    if (!limiter) {
+      limiter = new Ratelimit({
+        redis,
+        limiter: Ratelimit.slidingWindow(rule.limit, `${rule.windowMs} ms`),
+        prefix: `ratelimit:${rule.name}`,
+      })
+      limiters.set(rule.name, limiter)
+    }
+    return limiter
+  }
+
+  return {
+    name: "upstash",
+
+    async limit(rule, key) {
+      const {success, limit, remaining, reset} =
+        await limiterFor(rule).limit(key)
+      return {success, limit, remaining, reset}
+    },
+
+    async peek(rule, key) {
+      const {remaining, reset} = await limiterFor(rule).getRemaining(key)
+      return {success: remaining > 0, limit: rule.limit, remaining, reset}
+    },
+
+    async reset(rule, key) {
+      await limiterFor(rule).resetUsedTokens(key)
+    },
+  }
+}
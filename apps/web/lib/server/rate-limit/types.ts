@@ -0,0 +1,30 @@
+/**
+ * Rate limit store contract
+ *
+ * Stores implement a sliding window per (rule, key) pair. Add new backends
+ * under `stores/` and register them in `getRateLimitStore()`.
+ */
+
+export interface RateLimitRule {
+  // Namespaces keys so rules never share counters
+  name: string
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  success: boolean
+  limit: number
+  remaining: number
+  // Epoch milliseconds at which another request will be allowed
+  reset: number
+}
+
+export interface RateLimitStore {
+  name: string
+  // Count a hit against the key and report whether it was allowed
+  limit(rule: RateLimitRule, key: string): Promise<RateLimitResult>
+  // Report the current state without counting a hit
+  peek(rule: RateLimitRule, key: string): Promise<RateLimitResult>
+  reset(rule: RateLimitRule, key: string): Promise<void>
+}
@@ -0,0 +1,75 @@
+import {describe, it, expect, vi, beforeEach} from "vitest"
+import {headers} from "next/headers"
+import {getApiKeyGrant} from "./api-keys"
+import {auth} from "./auth"
+import {resolveActiveOrganization} from "./organizations"
+import {getCurrentSession} from "./session"
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(),
+}))
+
+vi.mock("./auth", () => ({
+  auth: {api: {getSession: vi.fn()}},
+}))
+
+vi.mock("./api-keys", async importOriginal => ({
+  ...(await importOriginal<typeof import("./api-keys")>()),
+  getApiKeyGrant: vi.fn(),
+}))
+
+vi.mock("./organizations", () => ({
+  resolveActiveOrganization: vi.fn(),
+}))
+
+vi.mock("./db", () => ({db: {}}))
+
+function keySession(user: Record<string, unknown> = {}) {
+  return {
+    session: {id: "key-1", activeOrganizationId: null},
+    user: {id: "user-1", banned: false, passwordResetRequired: false, ...user},
+  } as never
+}
+
+describe("getCurrentSession with an API key", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(headers).mockResolvedValue(
+      new Headers({authorization: "Bearer sk_test"}) as never
+    )
+    vi.mocked(getApiKeyGrant).mockResolvedValue({
+      id: "key-1",
+      scopes: [],
+      organizationId: "org-1",
+    })
+    vi.mocked(resolveActiveOrganization).mockResolvedValue({
+      organization: {id: "org-1"},
+      memberships: [],
+    } as never)
+  })
+
+  it("resolves to the key owner's session", async () => {
+    vi.mocked(auth.api.getSession).mockResolvedValue(keySession())
+
+    const current = await getCurrentSession()
+
+    expect(current?.user.id).toBe("user-1")
+    expect(current?.apiKey?.id).toBe("key-1")
+  })
+
+  it("treats a disabled owner as signed out", async () => {
+    vi.mocked(auth.api.getSession).mockResolvedValue(
+      keySession({banned: true, banExpires: null})
+    )
+
+    expect(await getCurrentSession()).toBeNull()
+  })
+
+  it("treats an owner who must reset their password as signed out", async () => {
+    vi.mocked(auth.api.getSession).mockResolvedValue(
+      keySession({passwordResetRequired: true})
+    )
+
+    expect(await getCurrentSession()).toBeNull()
+  })
+})
@@ -0,0 +1,51 @@
+import {cache} from "react"
+import {headers} from "next/headers"
+import {APIError} from "better-auth/api"
+import {canUseApiKeys, getApiKeyGrant, getBearerApiKey} from "./api-keys"
+import {auth} from "./auth"
+import {resolveActiveOrganization} from "./organizations"
+
+/**
+ * The signed-in session together with the active organization
+ *
+ * Cached per request, so layouts, pages and server actions rendering the
+ * same request share one lookup. Returns null when signed out.
+ *
+ * Requests carrying an API key (`Authorization: Bearer sk_...`) resolve to
+ * the key owner's session, with `apiKey` set to the key's scopes and the
+ * organization it was created in. An invalid or expired key counts as
+ * signed out, as does any key of a disabled user or one who must reset
+ * their password.
+ */
+export const getCurrentSession = cache(async () => {
+  const requestHeaders = await headers()
+  const bearer = getBearerApiKey(requestHeaders)
+
+  const session = await auth.api
+    .getSession({headers: requestHeaders})
+    .catch(error => {
+      if (bearer && error instanceof APIError) return null
+      throw error
+    })
+  if (!session) return null
+
+  const apiKey = bearer ? await getApiKeyGrant(session.session.id) : null
+  if (bearer && (!apiKey || !canUseApiKeys(session.user))) return null
+
+  const {organization, memberships} = await resolveActiveOrganization({
+    userId: session.user.id,
+    activeOrganizationId:
+      apiKey?.organizationId ?? session.session.activeOrganizationId,
+  })
+
+  // A key never falls back to another organization the owner belongs to
+  if (apiKey && organization?.id !== apiKey.organizationId) {
+    return {...session, organization: null, memberships, apiKey}
+  }
+
+  return {...session, organization, memberships, apiKey}
+})
+
+export type CurrentSession = NonNullable<
+  Awaited<ReturnType<typeof getCurrentSession>>
+>
@@ -0,0 +1,80 @@
+import {mkdir, readFile, rm, writeFile} from "fs/promises"
+import path from "path"
+import type {PutObjectOptions, StorageDriver} from "../types"
+
+interface LocalDriverOptions {
+  dir: string
+  // URL prefix objects are served under by app/uploads/[...key]/route.ts
+  publicPath: string
+}
+
+export interface LocalObject extends PutObjectOptions {
+  body: Buffer
+}
+
+/**
+ * Resolve a key inside the storage directory, or null if it would escape it
+ */
+export function resolveLocalPath(dir: string, key: string) {
+  const root = path.resolve(dir)
+  const file = path.resolve(root, key)
+  return file.startsWith(root + path.sep) ? file : null
+}
+
+/**
+ * Read an object written by the local driver, with its content type
+ */
+export async function readLocalObject(
+  dir: string,
+  key: string
+): Promise<LocalObject | null> {
+  const file = resolveLocalPath(dir, key)
+  if (!file) return null
+
+  try {
+    const [body, meta] = await Promise.all([
+      readFile(file),
+      readFile(`${file}.meta.json`, "utf8"),
+    ])
+    return {body, ...(JSON.parse(meta) as PutObjectOptions)}
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Development driver that keeps objects on the local disk
+ *
+ * Each object is written next to a `.meta.json` file holding its content
+ * type, which the uploads route replays when serving it.
+ */
+export function createLocalDriver({
+  dir,
+  publicPath,
+}: LocalDriverOptions): StorageDriver {
+  function pathFor(key: string) {
+    const file = resolveLocalPath(dir, key)
+    if (!file) {
+      throw new Error(`Invalid storage key "${key}"`)
+    }
+    return file
+  }
+
+  return {
+    name: "local",
+    async put(key: string, body: Uint8Array, options: PutObjectOptions) {
+      const file = pathFor(key)
+      await mkdir(path.dirname(file), {recursive: true})
+      await writeFile(file, body)
+      await writeFile(`${file}.meta.json`, JSON.stringify(options))
+    },
+    async delete(key: string) {
+      const file = pathFor(key)
+      await rm(file, {force: true})
+      await rm(`${file}.meta.json`, {force: true})
+    },
+    url(key: string) {
+      return `${publicPath}/${key}`
+    },
+  }
+}
@@ -0,0 +1,67 @@
+import {AwsClient} from "aws4fetch"
+import type {PutObjectOptions, StorageDriver} from "../types"
+
+interface S3DriverOptions {
+  // e.g. https://s3.us-east-1.amazonaws.com or an R2/MinIO endpoint
+  endpoint: string
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  // Base URL objects are publicly read from (bucket website or CDN).
+  // Defaults to the path-style bucket URL.
+  publicUrl?: string
+}
+
+/**
+ * Driver for S3 and S3-compatible object stores (R2, MinIO, Spaces)
+ *
+ * Requests are signed with SigV4 and use path-style URLs, which every
+ * compatible provider accepts.
+ */
+export function createS3Driver({
+  endpoint,
+  bucket,
+  region,
+  accessKeyId,
+  secretAccessKey,
+  publicUrl,
+}: S3DriverOptions): StorageDriver {
+  const client = new AwsClient({
+    accessKeyId,
+    secretAccessKey,
+    region,
+    service: "s3",
+  })
+  const bucketUrl = `${endpoint.replace(/\/+$/, "")}/${bucket}`
+  const publicBase = (publicUrl || bucketUrl).replace(/\/+$/, "")
+
+  async function send(key: string, init: RequestInit) {
+    const response = await client.fetch(`${bucketUrl}/${key}`, init)
+    if (!response.ok) {
+      throw new Error(
+        `S3 ${init.method} ${key} failed with ${response.status}: ${await response.text()}`
+      )
+    }
+  }
+
+  return {
+    name: "s3",
+    async put(key: string, body: Uint8Array, options: PutObjectOptions) {
+      await send(key, {
+        method: "PUT",
+        body: new Uint8Array(body),
+        headers: {
+          "Content-Type": options.contentType,
+          ...(options.cacheControl && {"Cache-Control": options.cacheControl}),
+        },
+      })
+    },
+    async delete(key: string) {
+      await send(key, {method: "DELETE"})
+    },
+    url(key: string) {
+      return `${publicBase}/${key}`
+    },
+  }
+}
@@ -0,0 +1,88 @@
+import path from "path"
+import {createLocalDriver, readLocalObject} from "./drivers/local"
+import {createS3Driver} from "./drivers/s3"
+import type {StorageDriver} from "./types"
+
+/**
+ * File storage
+ *
+ * Driver selection (STORAGE_DRIVER):
+ * - "s3": any S3-compatible bucket (requires S3_BUCKET, S3_ACCESS_KEY_ID
+ *   and S3_SECRET_ACCESS_KEY)
+ * - "local": writes to STORAGE_LOCAL_DIR and serves objects from /uploads,
+ *   for development
+ *
+ * When STORAGE_DRIVER is unset, S3 is used if a bucket is configured and
+ * the local disk otherwise.
+ */
+
+export type {PutObjectOptions, StorageDriver} from "./types"
+
+// URL prefix for objects stored by the local driver
+export const LOCAL_UPLOADS_PATH = "/uploads"
+
+let driver: StorageDriver | undefined
+
+export function getLocalStorageDir() {
+  return process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), ".uploads")
+}
+
+function createDriver(): StorageDriver {
+  const kind =
+    process.env.STORAGE_DRIVER || (process.env.S3_BUCKET ? "s3" : "local")
+
+  switch (kind) {
+    case "s3": {
+      if (
+        !process.env.S3_BUCKET ||
+        !process.env.S3_ACCESS_KEY_ID ||
+        !process.env.S3_SECRET_ACCESS_KEY
+      ) {
+        throw new Error(
+          "S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for the s3 storage driver"
+        )
+      }
+      const region = process.env.S3_REGION || "us-east-1"
+      return createS3Driver({
+        endpoint:
+          process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        bucket: process.env.S3_BUCKET,
+        region,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        publicUrl: process.env.S3_PUBLIC_URL,
+      })
+    }
+    case "local":
+      return createLocalDriver({
+        dir: getLocalStorageDir(),
+        publicPath: LOCAL_UPLOADS_PATH,
+      })
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${kind}"`)
+  }
+}
+
+/**
+ * Get the configured driver (created once per process)
+ */
+export function getStorage(): StorageDriver {
+  driver ??= createDriver()
+  return driver
+}
+
+/**
+ * Replace the active driver (useful in tests)
+ */
+export function setStorage(next: StorageDriver | undefined) {
+  driver = next
+}
+
+/**
+ * An object stored by the local driver, or null when it does not exist or
+ * another driver is active
+ */
+export async function readLocalUpload(key: string) {
+  if (getStorage().name !== "local") return null
+  return readLocalObject(getLocalStorageDir(), key)
+}
@@ -0,0 +1,20 @@
+/**
+ * Storage driver contract
+ *
+ * Drivers store public objects (avatars and other user uploads) under
+ * slash-separated keys such as `avatars/<userId>/<version>/128.webp`. Add
+ * new drivers under `drivers/` and register them in `getStorage()`.
+ */
+
+export interface PutObjectOptions {
+  contentType: string
+  cacheControl?: string
+}
+
+export interface StorageDriver {
+  name: string
+  put(key: string, body: Uint8Array, options: PutObjectOptions): Promise<void>
+  delete(key: string): Promise<void>
+  // Public URL an object is served from
+  url(key: string): string
+}
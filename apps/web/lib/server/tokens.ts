@@ -0,0 +1,163 @@
+import {createHash, randomBytes, randomUUID} from "crypto"
+import {and, desc, eq, inArray, like} from "drizzle-orm"
+import {db} from "./db"
+import {verifications} from "./db/schema"
+
+/**
+ * Single-use tokens backed by the `verification` table
+ *
+ * Rows are stored as `identifier = "<purpose>:<subject>"` with a SHA-256 hash
+ * of the token as `value`, so a leaked database dump cannot be replayed.
+ * Issuing a new token for the same purpose and subject invalidates the
+ * previous one, and consuming a token deletes it.
+ */
+
+export type TokenPurpose =
+  | "email-verification"
+  | "email-change"
+  | "data-export"
+  | "organization-invite"
+
+export type ConsumeTokenResult =
+  | {ok: true; subject: string}
+  | {ok: false; reason: "invalid" | "expired"}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+function identifierFor(purpose: TokenPurpose, subject: string) {
+  return `${purpose}:${subject}`
+}
+
+/**
+ * Issue a new token, replacing any outstanding token for the same subject
+ */
+export async function issueToken(
+  purpose: TokenPurpose,
+  subject: string,
+  {expiresIn}: {expiresIn: number}
+): Promise<string> {
+  const token = randomBytes(32).toString("base64url")
+  const identifier = identifierFor(purpose, subject)
+
+  await db.delete(verifications).where(eq(verifications.identifier, identifier))
+  await db.insert(verifications).values({
+    id: randomUUID(),
+    identifier,
+    value: hashToken(token),
+    expiresAt: new Date(Date.now() + expiresIn),
+  })
+
+  return token
+}
+
+/**
+ * Redeem a token. Valid and expired tokens are both deleted, so every
+ * token can be presented at most once.
+ */
+export async function consumeToken(
+  purpose: TokenPurpose,
+  token: string
+): Promise<ConsumeTokenResult> {
+  const [row] = await db
+    .delete(verifications)
+    .where(
+      and(
+        eq(verifications.value, hashToken(token)),
+        like(verifications.identifier, `${purpose}:%`)
+      )
+    )
+    .returning()
+
+  if (!row) {
+    return {ok: false, reason: "invalid"}
+  }
+  if (row.expiresAt.getTime() < Date.now()) {
+    return {ok: false, reason: "expired"}
+  }
+
+  return {ok: true, subject: row.identifier.slice(purpose.length + 1)}
+}
+
+/**
+ * Look up a token without redeeming it, for flows that must check the
+ * subject before committing (e.g. that an invitation matches the user)
+ */
+export async function findToken(
+  purpose: TokenPurpose,
+  token: string
+): Promise<ConsumeTokenResult> {
+  const [row] = await db
+    .select()
+    .from(verifications)
+    .where(
+      and(
+        eq(verifications.value, hashToken(token)),
+        like(verifications.identifier, `${purpose}:%`)
+      )
+    )
+    .limit(1)
+
+  if (!row) {
+    return {ok: false, reason: "invalid"}
+  }
+  if (row.expiresAt.getTime() < Date.now()) {
+    return {ok: false, reason: "expired"}
+  }
+
+  return {ok: true, subject: row.identifier.slice(purpose.length + 1)}
+}
+
+/**
+ * Expiry of the outstanding token for each subject that still has one
+ */
+export async function getTokenExpiries(
+  purpose: TokenPurpose,
+  subjects: string[]
+): Promise<Map<string, Date>> {
+  if (subjects.length === 0) return new Map()
+
+  const rows = await db
+    .select({
+      identifier: verifications.identifier,
+      expiresAt: verifications.expiresAt,
+    })
+    .from(verifications)
+    .where(
+      inArray(
+        verifications.identifier,
+        subjects.map(subject => identifierFor(purpose, subject))
+      )
+    )
+
+  return new Map(
+    rows.map(row => [row.identifier.slice(purpose.length + 1), row.expiresAt])
+  )
+}
+
+/**
+ * When the outstanding token for a subject was issued, if any
+ */
+export async function getTokenIssuedAt(
+  purpose: TokenPurpose,
+  subject: string
+): Promise<Date | null> {
+  const [row] = await db
+    .select({createdAt: verifications.createdAt})
+    .from(verifications)
+    .where(eq(verifications.identifier, identifierFor(purpose, subject)))
+    .orderBy(desc(verifications.createdAt))
+    .limit(1)
+
+  return row?.createdAt ?? null
+}
+
+/**
+ * Invalidate any outstanding token for a subject
+ */
+export async function revokeTokens(purpose: TokenPurpose, subject: string) {
+  await db
+    .delete(verifications)
+    .where(eq(verifications.identifier, identifierFor(purpose, subject)))
+}
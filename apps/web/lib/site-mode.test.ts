@@ -0,0 +1,93 @@
+import {afterEach, describe, expect, it, vi} from "vitest"
+import {
+  getRetryAfterSeconds,
+  isMaintenanceBypassIp,
+  isMaintenanceExempt,
+  isReadOnlyBlocked,
+} from "./site-mode"
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("isMaintenanceExempt", () => {
+  it("keeps the sign-in flow reachable", () => {
+    expect(isMaintenanceExempt("/auth/signin")).toBe(true)
+    expect(isMaintenanceExempt("/api/auth/sign-in/email")).toBe(true)
+    expect(isMaintenanceExempt("/api/auth/get-session")).toBe(true)
+    expect(isMaintenanceExempt("/api/auth/two-factor/verify-totp")).toBe(true)
+    expect(isMaintenanceExempt("/api/auth/callback/github")).toBe(true)
+  })
+
+  it("keeps background jobs and CSP reports running", () => {
+    expect(isMaintenanceExempt("/api/inngest")).toBe(true)
+    expect(isMaintenanceExempt("/api/csp-report")).toBe(true)
+    expect(isMaintenanceExempt("/api/inngest-other")).toBe(false)
+  })
+
+  it("blocks everything else", () => {
+    expect(isMaintenanceExempt("/")).toBe(false)
+    expect(isMaintenanceExempt("/dashboard")).toBe(false)
+    expect(isMaintenanceExempt("/auth/signup")).toBe(false)
+    expect(isMaintenanceExempt("/api/auth/sign-up/email")).toBe(false)
+    expect(isMaintenanceExempt("/api/auth/get-session-other")).toBe(false)
+  })
+})
+
+describe("isMaintenanceBypassIp", () => {
+  it("matches addresses from MAINTENANCE_BYPASS_IPS", () => {
+    vi.stubEnv("MAINTENANCE_BYPASS_IPS", "203.0.113.7, 198.51.100.1")
+
+    expect(isMaintenanceBypassIp("203.0.113.7")).toBe(true)
+    expect(isMaintenanceBypassIp("198.51.100.1")).toBe(true)
+    expect(isMaintenanceBypassIp("203.0.113.8")).toBe(false)
+    expect(isMaintenanceBypassIp(null)).toBe(false)
+  })
+
+  it("lets nobody through when unset", () => {
+    vi.stubEnv("MAINTENANCE_BYPASS_IPS", "")
+
+    expect(isMaintenanceBypassIp("")).toBe(false)
+    expect(isMaintenanceBypassIp("127.0.0.1")).toBe(false)
+  })
+})
+
+describe("isReadOnlyBlocked", () => {
+  it("allows reads", () => {
+    expect(isReadOnlyBlocked("GET", "/api/v1/me")).toBe(false)
+    expect(isReadOnlyBlocked("head", "/api/v1/me")).toBe(false)
+    expect(isReadOnlyBlocked("OPTIONS", "/api/v1/me")).toBe(false)
+  })
+
+  it("blocks API writes except signing in and out", () => {
+    expect(isReadOnlyBlocked("POST", "/api/v1/organizations")).toBe(true)
+    expect(isReadOnlyBlocked("DELETE", "/api/auth/delete-user")).toBe(true)
+    expect(isReadOnlyBlocked("POST", "/api/auth/sign-in/email")).toBe(false)
+    expect(isReadOnlyBlocked("POST", "/api/auth/sign-out")).toBe(false)
+  })
+
+  it("lets background jobs and CSP reports through", () => {
+    expect(isReadOnlyBlocked("POST", "/api/inngest")).toBe(false)
+    expect(isReadOnlyBlocked("PUT", "/api/inngest")).toBe(false)
+    expect(isReadOnlyBlocked("POST", "/api/csp-report")).toBe(false)
+  })
+
+  it("leaves pages to the server actions", () => {
+    expect(isReadOnlyBlocked("POST", "/dashboard/settings")).toBe(false)
+  })
+})
+
+describe("getRetryAfterSeconds", () => {
+  it("defaults to an hour", () => {
+    vi.stubEnv("MAINTENANCE_RETRY_AFTER", "")
+    expect(getRetryAfterSeconds()).toBe(3600)
+  })
+
+  it("uses MAINTENANCE_RETRY_AFTER when it is a positive integer", () => {
+    vi.stubEnv("MAINTENANCE_RETRY_AFTER", "600")
+    expect(getRetryAfterSeconds()).toBe(600)
+
+    vi.stubEnv("MAINTENANCE_RETRY_AFTER", "-5")
+    expect(getRetryAfterSeconds()).toBe(3600)
+  })
+})
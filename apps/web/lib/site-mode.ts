@@ -0,0 +1,117 @@
+import {getFeature} from "./feature-flags"
+
+/**
+ * Maintenance and read-only modes
+ *
+ * - `maintenanceMode`: middleware.ts answers every request with the
+ *   maintenance page (or a JSON error for API routes) and a 503. Admins and
+ *   addresses in MAINTENANCE_BYPASS_IPS still get through, and the sign-in
+ *   flow stays reachable so admins can sign in.
+ * - `readOnlyMode`: middleware.ts rejects non-GET API requests and every
+ *   mutating server action returns `readOnlyModeMessage`. Signing in and out
+ *   keeps working.
+ *
+ * Inngest (background jobs such as data exports and account deletion) and
+ * CSP violation reports are exempt from both, so queued work finishes and
+ * reports are not lost.
+ *
+ * Both are feature flags, so admins can switch them from /admin/flags. They
+ * apply to everyone alike, so they are read without a user context and QA
+ * overrides leave them alone (`siteWideFeatureFlags` in lib/feature-flags.ts).
+ * Kept free of server-only imports so middleware can use it.
+ */
+
+export const maintenanceMessage =
+  "We are performing scheduled maintenance. Please check back soon."
+
+export const readOnlyModeMessage =
+  "The site is in read-only mode. Changes are temporarily disabled."
+
+// Seconds clients are asked to wait before retrying, unless overridden
+const DEFAULT_RETRY_AFTER_SECONDS = 3600
+
+// Auth API endpoints needed to sign in and out, allowed in both modes
+const sessionApiPaths = [
+  "/api/auth/sign-in/",
+  "/api/auth/sign-out",
+  "/api/auth/get-session",
+  "/api/auth/two-factor/verify-",
+  "/api/auth/two-factor/send-otp",
+  "/api/auth/passkey/generate-authenticate-options",
+  "/api/auth/passkey/verify-authentication",
+  "/api/auth/magic-link/verify",
+  "/api/auth/callback/",
+  "/api/auth/oauth2/callback/",
+]
+
+// Machine endpoints that keep working in both modes
+const backgroundApiPaths = ["/api/inngest", "/api/csp-report"]
+
+// Pages admins need to sign in during maintenance
+const signInPages = ["/auth/signin", "/auth/magic-link"]
+
+export function isMaintenanceMode() {
+  return getFeature("maintenanceMode")
+}
+
+export function isReadOnlyMode() {
+  return getFeature("readOnlyMode")
+}
+
+export function getRetryAfterSeconds() {
+  const seconds = Number(process.env.MAINTENANCE_RETRY_AFTER)
+  return Number.isInteger(seconds) && seconds > 0
+    ? seconds
+    : DEFAULT_RETRY_AFTER_SECONDS
+}
+
+function matchesPath(pathname: string, prefix: string) {
+  return prefix.endsWith("/") || prefix.endsWith("-")
+    ? pathname.startsWith(prefix)
+    : pathname === prefix || pathname.startsWith(`${prefix}/`)
+}
+
+function isSessionApiPath(pathname: string) {
+  return sessionApiPaths.some(prefix => matchesPath(pathname, prefix))
+}
+
+function isBackgroundApiPath(pathname: string) {
+  return backgroundApiPaths.some(prefix => matchesPath(pathname, prefix))
+}
+
+/**
+ * Whether a request stays reachable during maintenance without a bypass
+ */
+export function isMaintenanceExempt(pathname: string) {
+  return (
+    isSessionApiPath(pathname) ||
+    isBackgroundApiPath(pathname) ||
+    signInPages.some(page => matchesPath(pathname, page))
+  )
+}
+
+/**
+ * Whether an IP address may use the site during maintenance
+ * (MAINTENANCE_BYPASS_IPS, comma-separated). Pass the address from
+ * `getClientIp()` (lib/client-ip.ts), which a client cannot forge.
+ */
+export function isMaintenanceBypassIp(ip: string | null) {
+  if (!ip) return false
+  const allowed = (process.env.MAINTENANCE_BYPASS_IPS ?? "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  return allowed.includes(ip)
+}
+
+/**
+ * Whether read-only mode refuses an API request
+ */
+export function isReadOnlyBlocked(method: string, pathname: string) {
+  if (["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase())) return false
+  return (
+    pathname.startsWith("/api/") &&
+    !isSessionApiPath(pathname) &&
+    !isBackgroundApiPath(pathname)
+  )
+}
@@ -0,0 +1,53 @@
+import {describe, it, expect} from "vitest"
+import {parseUserAgent} from "./user-agent"
+
+describe("parseUserAgent", () => {
+  it("parses desktop Chrome on Windows", () => {
+    expect(
+      parseUserAgent(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36"
+      )
+    ).toEqual({browser: "Chrome 126", os: "Windows", device: "desktop"})
+  })
+
+  it("does not mistake Edge for Chrome", () => {
+    expect(
+      parseUserAgent(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.2592.87"
+      ).browser
+    ).toBe("Edge 126")
+  })
+
+  it("parses Safari on iPhone", () => {
+    expect(
+      parseUserAgent(
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1"
+      )
+    ).toEqual({browser: "Safari 17", os: "iOS", device: "mobile"})
+  })
+
+  it("parses Firefox on macOS", () => {
+    expect(
+      parseUserAgent(
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 14.5; rv:127.0) Gecko/20100101 Firefox/127.0"
+      )
+    ).toEqual({browser: "Firefox 127", os: "macOS", device: "desktop"})
+  })
+
+  it("treats Android without Mobile as a tablet", () => {
+    expect(
+      parseUserAgent(
+        "Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36"
+      )
+    ).toEqual({browser: "Chrome 126", os: "Android", device: "tablet"})
+  })
+
+  it("falls back for missing or unrecognised agents", () => {
+    expect(parseUserAgent(null)).toEqual({
+      browser: "Unknown browser",
+      os: "Unknown OS",
+      device: "desktop",
+    })
+    expect(parseUserAgent("curl/8.7.1").browser).toBe("Unknown browser")
+  })
+})
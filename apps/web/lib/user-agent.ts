@@ -0,0 +1,61 @@
+export type DeviceType = "desktop" | "mobile" | "tablet"
+
+export interface ParsedUserAgent {
+  browser: string
+  os: string
+  device: DeviceType
+}
+
+// Order matters: Edge and Opera include "Chrome", and Chrome includes "Safari"
+const browsers: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\/([\d]+)/, "Edge"],
+  [/(?:OPR|Opera)\/([\d]+)/, "Opera"],
+  [/SamsungBrowser\/([\d]+)/, "Samsung Internet"],
+  [/Firefox\/([\d]+)|FxiOS\/([\d]+)/, "Firefox"],
+  [/Chrome\/([\d]+)|CriOS\/([\d]+)/, "Chrome"],
+  [/Version\/([\d]+)[\d.]* (?:Mobile\/\S+ )?Safari\//, "Safari"],
+]
+
+// iPadOS 13+ reports itself as macOS, so iPad must be checked first
+const operatingSystems: [RegExp, string][] = [
+  [/iPad/, "iPadOS"],
+  [/iPhone|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/CrOS/, "ChromeOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+]
+
+/**
+ * Parse a User-Agent header into a human-readable browser, OS and device
+ *
+ * Covers the major browsers only; anything else is reported as "Unknown".
+ */
+export function parseUserAgent(
+  userAgent: string | null | undefined
+): ParsedUserAgent {
+  const ua = userAgent ?? ""
+
+  let browser = "Unknown browser"
+  for (const [pattern, name] of browsers) {
+    const match = ua.match(pattern)
+    if (match) {
+      const version = match.slice(1).find(Boolean)
+      browser = version ? `${name} ${version}` : name
+      break
+    }
+  }
+
+  const os =
+    operatingSystems.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown OS"
+
+  const device: DeviceType =
+    /iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))
+      ? "tablet"
+      : /Mobi|iPhone|iPod/.test(ua)
+        ? "mobile"
+        : "desktop"
+
+  return {browser, os, device}
+}
@@ -1,5 +1,5 @@
 import {describe, it, expect} from "vitest"
-import {cn} from "./utils"
+import {cn, getSafeRedirectPath} from "./utils"
 
 describe("cn (className utility)", () => {
   it("merges class names correctly", () => {
@@ -69,3 +69,26 @@ describe("cn (className utility)", () => {
     )
   })
 })
+
+describe("getSafeRedirectPath", () => {
+  const origin = "https://app.example.com"
+
+  it("keeps same-origin paths with their query and hash", () => {
+    expect(getSafeRedirectPath("/dashboard/settings?tab=a#top", origin)).toBe(
+      "/dashboard/settings?tab=a#top"
+    )
+  })
+
+  it.each([
+    null,
+    "",
+    "dashboard",
+    "//evil.com",
+    "/\\evil.com",
+    "/\t/evil.com",
+    "https://evil.com",
+    "javascript:alert(1)",
+  ])("falls back for %j", value => {
+    expect(getSafeRedirectPath(value, origin)).toBe("/dashboard")
+  })
+})
@@ -4,3 +4,28 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * A same-origin path to send the user to after an action, or `fallback`
+ *
+ * Browsers treat backslashes like slashes and drop tabs and newlines from
+ * URLs, so "/\evil.com" would leave the site; resolving against the origin
+ * and comparing catches those along with "//evil.com" and absolute URLs.
+ */
+export function getSafeRedirectPath(
+  value: string | null | undefined,
+  origin: string,
+  fallback = "/dashboard"
+) {
+  if (!value?.startsWith("/") || /[\\\u0000-\u001f\u007f]/.test(value)) {
+    return fallback
+  }
+
+  try {
+    const url = new URL(value, origin)
+    if (url.origin !== origin) return fallback
+    return `${url.pathname}${url.search}${url.hash}`
+  } catch {
+    return fallback
+  }
+}
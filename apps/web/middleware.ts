@@ -1,4 +1,26 @@
 import {NextRequest, NextResponse} from "next/server"
+import {getSessionCookie} from "better-auth/cookies"
+import {getClientIp} from "@/lib/client-ip"
+import {
+  CSP_NONCE_HEADER,
+  CSP_REPORT_GROUP,
+  createNonce,
+  cspReportPath,
+  getContentSecurityPolicy,
+  getCspHeaderName,
+} from "@/lib/csp"
+import {ANONYMOUS_ID_COOKIE} from "@/lib/experiments"
+import {renderMaintenancePage} from "@/lib/maintenance-page"
+import {
+  getRetryAfterSeconds,
+  isMaintenanceBypassIp,
+  isMaintenanceExempt,
+  isMaintenanceMode,
+  isReadOnlyBlocked,
+  isReadOnlyMode,
+  maintenanceMessage,
+  readOnlyModeMessage,
+} from "@/lib/site-mode"
 
 /**
  * Middleware for security headers and session management
@@ -8,11 +30,37 @@ import {NextRequest, NextResponse} from "next/server"
  *
  * DO NOT use middleware for:
  * - Route protection (use server layouts in app/[route]/layout.tsx)
- * - Role-based access control (use nested layouts)
+ * - Role-based access control (use `requirePermission()` in nested layouts)
  * - Auth gates (use server layouts with `dynamic = "force-dynamic"`)
+ *
+ * The exception is maintenance and read-only mode (lib/site-mode.ts), which
+ * must stop requests before any page or route runs. It also hands each new
+ * visitor the anonymous id experiments bucket them by (lib/experiments.ts),
+ * and the per-request CSP nonce only middleware can create.
  */
 export async function middleware(request: NextRequest) {
-  const response = NextResponse.next()
+  const siteModeResponse = await enforceSiteMode(request)
+  if (siteModeResponse) return siteModeResponse
+
+  // A fresh nonce per request, passed on for Next.js and the root layout
+  // to put on their scripts (lib/csp.ts)
+  const nonce = createNonce()
+  const contentSecurityPolicy = getContentSecurityPolicy(nonce)
+  const requestHeaders = new Headers(request.headers)
+  requestHeaders.set(CSP_NONCE_HEADER, nonce)
+  requestHeaders.set(getCspHeaderName(), contentSecurityPolicy)
+
+  const anonymousId = assignAnonymousId(request, requestHeaders)
+  const response = NextResponse.next({request: {headers: requestHeaders}})
+  if (anonymousId) {
+    response.cookies.set(ANONYMOUS_ID_COOKIE, anonymousId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: 60 * 60 * 24 * 365,
+    })
+  }
 
   // Security Headers
   const securityHeaders = {
@@ -32,11 +80,9 @@ export async function middleware(request: NextRequest) {
     // Frame Options
     "X-Frame-Options": "DENY",
 
-    // Content Security Policy
-    "Content-Security-Policy":
-      process.env.NODE_ENV === "production"
-        ? "default-src 'self'; script-src 'self' 'unsafe-eval' 'unsafe-inline'; style-src 'self' 'unsafe-inline'; img-src 'self' data: https:; font-src 'self' data:; connect-src 'self' https:;"
-        : "default-src 'self' 'unsafe-eval' 'unsafe-inline'; img-src 'self' data: https:; font-src 'self' data:;",
+    // Content Security Policy, and where browsers report violations of it
+    [getCspHeaderName()]: contentSecurityPolicy,
+    "Reporting-Endpoints": `${CSP_REPORT_GROUP}="${cspReportPath}"`,
   }
 
   // Apply security headers
@@ -73,7 +119,103 @@ export async function middleware(request: NextRequest) {
   return response
 }
 
+/**
+ * Give a visitor without one an anonymous id, returning it so the caller
+ * can set the cookie. It is added to the forwarded request as well, so the
+ * page rendered for their first visit is already bucketed by it.
+ */
+function assignAnonymousId(request: NextRequest, requestHeaders: Headers) {
+  if (
+    request.cookies.has(ANONYMOUS_ID_COOKIE) ||
+    request.nextUrl.pathname.startsWith("/api/")
+  ) {
+    return null
+  }
+
+  const anonymousId = crypto.randomUUID()
+  const cookie = request.headers.get("cookie")
+  requestHeaders.set(
+    "cookie",
+    `${cookie ? `${cookie}; ` : ""}${ANONYMOUS_ID_COOKIE}=${anonymousId}`
+  )
+  return anonymousId
+}
+
+/**
+ * Whether the request carries a site admin's session. Only asked during
+ * maintenance, and only when a session cookie is present.
+ */
+async function isAdminRequest(request: NextRequest) {
+  if (!getSessionCookie(request)) return false
+
+  try {
+    const response = await fetch(
+      new URL("/api/auth/get-session", request.nextUrl.origin),
+      {headers: {cookie: request.headers.get("cookie") ?? ""}}
+    )
+    if (!response.ok) return false
+    const session = (await response.json()) as {user?: {role?: string}} | null
+    // Matches ADMIN_ROLE in lib/server/admin.ts, which middleware cannot import
+    return session?.user?.role === "admin"
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The response for a request refused by maintenance or read-only mode, or
+ * null to carry on
+ */
+async function enforceSiteMode(request: NextRequest) {
+  const {pathname} = request.nextUrl
+  const isApi = pathname.startsWith("/api/")
+
+  if (
+    isMaintenanceMode() &&
+    !isMaintenanceExempt(pathname) &&
+    !isMaintenanceBypassIp(getClientIp(request.headers)) &&
+    !(await isAdminRequest(request))
+  ) {
+    const retryAfter = getRetryAfterSeconds()
+    const headers = {
+      "Retry-After": String(retryAfter),
+      "Cache-Control": "no-store",
+    }
+
+    if (isApi) {
+      return Response.json(
+        {code: "MAINTENANCE", message: maintenanceMessage},
+        {status: 503, headers}
+      )
+    }
+    return new NextResponse(
+      renderMaintenancePage({retryAfterSeconds: retryAfter}),
+      {
+        status: 503,
+        headers: {
+          ...headers,
+          "Content-Type": "text/html; charset=utf-8",
+          "Content-Security-Policy":
+            "default-src 'none'; style-src 'unsafe-inline'",
+        },
+      }
+    )
+  }
+
+  if (isReadOnlyMode() && isReadOnlyBlocked(request.method, pathname)) {
+    return Response.json(
+      {code: "READ_ONLY_MODE", message: readOnlyModeMessage},
+      {status: 503, headers: {"Retry-After": String(getRetryAfterSeconds())}}
+    )
+  }
+
+  return null
+}
+
 export const config = {
+  // Node.js rather than edge, so site modes follow flags stored from the
+  // admin console (see lib/feature-flags.ts)
+  runtime: "nodejs",
   // Run middleware on all routes except:
   // - Static files (_next/static)
   // - Images (_next/image)
@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Avatar uploads (lib/avatars.ts) are sent to a server action
+      bodySizeLimit: "5mb",
+    },
+  },
 };
 
 export default nextConfig;
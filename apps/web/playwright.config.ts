@@ -1,4 +1,6 @@
 import {defineConfig, devices} from "@playwright/test"
+import {featureFlagOverridesSecret} from "./e2e/helpers/feature-flags"
+import {mockOidcClient, mockOidcIssuer} from "./e2e/helpers/mock-oidc-issuer"
 
 /**
  * Read environment variables from file.
@@ -11,6 +13,8 @@ import {defineConfig, devices} from "@playwright/test"
  */
 export default defineConfig({
   testDir: "./e2e",
+  // Starts the mock OIDC issuer used by the social sign-in specs
+  globalSetup: "./e2e/global-setup.ts",
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
@@ -57,5 +61,19 @@ export default defineConfig({
     reuseExistingServer: !process.env.CI,
     stdout: "ignore",
     stderr: "pipe",
+    env: {
+      // Capture outgoing email on disk so specs can read it (e2e/helpers/mailbox.ts)
+      EMAIL_TRANSPORT: "file",
+      // Every spec signs up from localhost, which would trip the per-IP limits
+      RATE_LIMIT_DISABLED: "true",
+      // Point the generic OIDC provider at e2e/helpers/mock-oidc-issuer.ts
+      NEXT_PUBLIC_FEATURE_SOCIAL_AUTH: "true",
+      OIDC_ISSUER: mockOidcIssuer,
+      OIDC_CLIENT_ID: mockOidcClient.clientId,
+      OIDC_CLIENT_SECRET: mockOidcClient.clientSecret,
+      OIDC_PROVIDER_NAME: "Mock SSO",
+      // Lets specs sign flag override cookies (e2e/helpers/feature-flags.ts)
+      FEATURE_FLAG_OVERRIDES_SECRET: featureFlagOverridesSecret,
+    },
   },
 })